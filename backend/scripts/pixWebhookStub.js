@@ -0,0 +1,58 @@
+// Simula o PSP do banco avisando que um PIX foi pago (desenvolvimento local).
+//
+// Uso: npm run pix:stub -- "<copia e cola exibido no totem>"
+//
+// Lê o txid e o valor do próprio "copia e cola" e chama o webhook do
+// backend no mesmo formato da API PIX do Banco Central.
+import crypto from "crypto";
+import { parsePixPayload } from "../services/pixService.js";
+
+const BACKEND_URL = process.env.BACKEND_URL || "http://localhost:3001";
+
+// O backend recusa o webhook sem o segredo: os dois leem o mesmo .env
+if (!process.env.PIX_WEBHOOK_SECRET) {
+  console.error("❌ Defina PIX_WEBHOOK_SECRET no .env (o mesmo do servidor).");
+  process.exit(1);
+}
+
+const payload = process.argv[2];
+if (!payload) {
+  console.error('Uso: npm run pix:stub -- "<copia e cola>"');
+  process.exit(1);
+}
+
+let charge;
+try {
+  charge = parsePixPayload(payload);
+} catch (err) {
+  console.error(`❌ "Copia e cola" inválido: ${err.message}`);
+  process.exit(1);
+}
+
+const notification = {
+  pix: [
+    {
+      endToEndId: `E${crypto.randomBytes(15).toString("hex").toUpperCase()}`,
+      txid: charge.txid,
+      valor: (charge.amount || 0).toFixed(2),
+      horario: new Date().toISOString(),
+    },
+  ],
+};
+
+const response = await fetch(`${BACKEND_URL}/api/payments/webhooks/pix`, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "X-Webhook-Secret": process.env.PIX_WEBHOOK_SECRET,
+  },
+  body: JSON.stringify(notification),
+});
+const body = await response.json().catch(() => ({}));
+
+if (!response.ok) {
+  console.error(`❌ Webhook respondeu ${response.status}:`, body.error || body);
+  process.exit(1);
+}
+console.log(`✅ PIX de R$ ${notification.pix[0].valor} enviado (txid ${charge.txid}):`);
+console.log(body.results);
@@ -4,7 +4,42 @@ import path from "path";
 import cors from "cors";
 import OpenAI from "openai"; // MUDANÇA: Usando OpenAI agora
 import knex from "knex";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import { EventEmitter } from "events";
 import "sqlite3";
+import { createPaymentProviders } from "./services/paymentProviders.js";
+import { createPrinterFromEnv } from "./services/printers.js";
+import { createRateLimiter } from "./services/rateLimiter.js";
+import { CPF_ERRORS, validateCpf } from "../shared/cpf.js";
+import { renderKitchenTicket } from "./services/kitchenTicket.js";
+import { createMailerFromEnv } from "./services/mailer.js";
+import { receiptToEscPos, receiptToHtml, receiptToPdf } from "./services/receipt.js";
+import {
+  EMISSION_NORMAL,
+  EMISSION_OFFLINE,
+  ICMS_SITUATIONS,
+  assembleNfeXml,
+  buildCancelEvent,
+  buildInfNfe,
+  buildQrCodeUrl,
+  formatFiscalDate,
+  signInfNfe,
+} from "./services/nfce.js";
+import { MOCK_SEFAZ_MODES, createFiscalProviderFromEnv } from "./services/fiscalProviders.js";
+import {
+  PROMOTION_TYPES,
+  evaluatePromotions,
+  isWithinSchedule,
+  storeClock,
+} from "./services/promotionEngine.js";
+import {
+  CONTENT_TYPES,
+  EXPORT_FORMATS,
+  toPdf,
+  toSpreadsheet,
+} from "./services/reportExport.js";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -23,6 +58,66 @@ if (!process.env.OPENAI_API_KEY) {
   console.log("✅ OpenAI (GPT-4o-mini) configurada com sucesso.");
 }
 
+// --- Configuração de Autenticação (equipe da cozinha/admin) ---
+// AUTH_SECRET assina os tokens de sessão. Sem ele, geramos um segredo
+// aleatório a cada boot (todas as sessões caem ao reiniciar o servidor).
+const AUTH_SECRET =
+  process.env.AUTH_SECRET || crypto.randomBytes(32).toString("hex");
+const AUTH_TOKEN_TTL_HOURS = Number(process.env.AUTH_TOKEN_TTL_HOURS) || 12;
+const STAFF_ROLES = ["kitchen", "admin"];
+// Sessão do cliente no totem (login por CPF): curta, só para o histórico
+// e as promoções do próprio cliente
+const CUSTOMER_SESSION_TTL_MINUTES = Number(process.env.CUSTOMER_SESSION_TTL_MINUTES) || 30;
+
+if (!process.env.AUTH_SECRET) {
+  console.warn(
+    "⚠️ AVISO: AUTH_SECRET não definido. Usando segredo temporário; as sessões expiram ao reiniciar."
+  );
+}
+
+// --- Configuração do Programa de Fidelidade ---
+// Valor em reais de cada ponto no resgate (padrão: 100 pontos = R$ 5,00)
+const POINTS_REDEEM_VALUE = Number(process.env.POINTS_REDEEM_VALUE) || 0.05;
+
+// --- Fluxo de pedidos da cozinha ---
+// received -> preparing -> ready -> delivered
+// Antes disso o pedido fica em "awaiting_payment" e só o fluxo de pagamento
+// o libera (ou cancela): a cozinha não vê pedidos ainda não pagos. O
+// cancelamento tem rota própria (POST /api/orders/:id/cancel), com motivo.
+const ORDER_TRANSITIONS = {
+  awaiting_payment: [],
+  received: ["preparing"],
+  preparing: ["ready"],
+  ready: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+// Coluna que guarda quando o pedido entrou em cada etapa
+const ORDER_STATUS_TIMESTAMPS = {
+  received: "receivedAt",
+  preparing: "preparingAt",
+  ready: "readyAt",
+  delivered: "deliveredAt",
+  cancelled: "cancelledAt",
+};
+// Etapas que ainda aparecem na tela da cozinha
+const KITCHEN_ACTIVE_STATUSES = ["received", "preparing", "ready"];
+
+// --- Dia comercial (numeração diária dos pedidos) ---
+// Pedidos feitos antes de BUSINESS_DAY_START_HOUR contam para o dia anterior
+// (ex.: com 4, um pedido às 01:30 ainda pertence ao expediente da véspera).
+const STORE_TIMEZONE = process.env.STORE_TIMEZONE || "America/Sao_Paulo";
+const BUSINESS_DAY_START_HOUR = Number(process.env.BUSINESS_DAY_START_HOUR ?? 4);
+
+// Data (AAAA-MM-DD) do dia comercial de um instante, no fuso da loja
+const getBusinessDate = (date) =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: STORE_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(date.getTime() - BUSINESS_DAY_START_HOUR * 3600 * 1000));
+
 // --- CONFIGURAÇÃO E CONEXÃO COM O BANCO DE DADOS (Knex + SQLite) ---
 const db = knex({
   client: "sqlite3",
@@ -32,6 +127,17 @@ const db = knex({
   useNullAsDefault: true,
 });
 
+// Adiciona colunas novas em tabelas que já existem (bancos criados por
+// versões anteriores do sistema). Cada entrada é "nome: (table) => definição".
+async function ensureColumns(tableName, columns) {
+  for (const [column, define] of Object.entries(columns)) {
+    const exists = await db.schema.hasColumn(tableName, column);
+    if (!exists) {
+      await db.schema.alterTable(tableName, (table) => define(table));
+    }
+  }
+}
+
 // Função para inicializar as tabelas e carregar dados iniciais (SEED)
 async function initDatabase() {
   console.log("⏳ Verificando e inicializando tabelas do banco de dados...");
@@ -50,6 +156,98 @@ async function initDatabase() {
     });
   }
 
+  // Grupos de modificadores do produto (opções, adicionais), em JSON
+  await ensureColumns("products", {
+    modifierGroups: (t) => t.json("modifierGroups").defaultTo("[]"),
+  });
+
+  // Estoque: stockQuantity null = não controlado. "available" é o botão
+  // "acabou" da cozinha, independente da contagem.
+  await ensureColumns("products", {
+    stockQuantity: (t) => t.integer("stockQuantity").nullable(),
+    lowStockThreshold: (t) => t.integer("lowStockThreshold").nullable(),
+    available: (t) => t.boolean("available").defaultTo(true),
+  });
+
+  // Classificação fiscal para a NFC-e. Produtos cadastrados antes dela
+  // recebem o NCM padrão da categoria (revisável no painel admin).
+  const hadTaxColumns = await db.schema.hasColumn("products", "ncm");
+  await ensureColumns("products", {
+    ncm: (t) => t.string("ncm", 8).nullable(),
+    cfop: (t) => t.string("cfop", 4).defaultTo("5102"),
+    cst: (t) => t.string("cst", 3).defaultTo("102"),
+  });
+  if (!hadTaxColumns) {
+    for (const [category, ncm] of Object.entries(DEFAULT_NCM_BY_CATEGORY)) {
+      await db("products").where({ category }).whereNull("ncm").update({ ncm });
+    }
+  }
+
+  // Ingredientes com custo de compra e a ficha técnica de cada produto
+  const hasIngredients = await db.schema.hasTable("ingredients");
+  if (!hasIngredients) {
+    await db.schema.createTable("ingredients", (table) => {
+      table.increments("id").primary();
+      table.string("name").notNullable().unique();
+      table.string("unit").notNullable(); // g, ml ou un
+      table.decimal("cost", 10, 2).notNullable(); // R$ por kg, litro ou unidade
+    });
+  }
+  const hasRecipeItems = await db.schema.hasTable("recipe_items");
+  if (!hasRecipeItems) {
+    await db.schema.createTable("recipe_items", (table) => {
+      table.increments("id").primary();
+      table
+        .string("productId")
+        .notNullable()
+        .references("id")
+        .inTable("products")
+        .onDelete("CASCADE");
+      table.integer("ingredientId").notNullable().references("id").inTable("ingredients");
+      table.decimal("quantity", 10, 2).notNullable(); // em g, ml ou unidades
+      table.unique(["productId", "ingredientId"]);
+    });
+  }
+
+  // Tabela de Combos (preço fechado para um conjunto de categorias)
+  const hasCombos = await db.schema.hasTable("combos");
+  if (!hasCombos) {
+    await db.schema.createTable("combos", (table) => {
+      table.string("id").primary();
+      table.string("name").notNullable();
+      table.text("description");
+      table.decimal("price", 8, 2).notNullable();
+      table.json("slots").notNullable();
+      table.boolean("active").defaultTo(true);
+    });
+  }
+
+  // Promoções e cupons (regras em services/promotionEngine.js)
+  const hasPromotions = await db.schema.hasTable("promotions");
+  if (!hasPromotions) {
+    await db.schema.createTable("promotions", (table) => {
+      table.increments("id").primary();
+      table.string("name").notNullable();
+      table.string("code").unique(); // null = automática, sem cupom
+      table.string("type").notNullable();
+      table.decimal("value", 8, 2).defaultTo(0);
+      table.string("category");
+      table.string("productId");
+      table.integer("buyQuantity");
+      table.integer("payQuantity");
+      table.decimal("minSubtotal", 8, 2);
+      table.string("startsAt"); // AAAA-MM-DD
+      table.string("endsAt");
+      table.json("daysOfWeek").defaultTo("[]"); // 0 = domingo
+      table.string("startTime"); // HH:MM (happy hour)
+      table.string("endTime");
+      table.integer("usageLimit");
+      table.integer("perUserLimit");
+      table.boolean("active").defaultTo(true);
+      table.string("createdAt");
+    });
+  }
+
   // Tabela de Usuários
   const hasUsers = await db.schema.hasTable("users");
   if (!hasUsers) {
@@ -58,10 +256,15 @@ async function initDatabase() {
       table.string("name").notNullable();
       table.string("email").unique();
       table.string("cpf").unique();
-      table.json("historico").defaultTo("[]");
       table.integer("pontos").defaultTo(0);
     });
   }
+  // O histórico do cliente vinha copiado (pedido inteiro, em JSON) na coluna
+  // users.historico; agora sai da tabela orders por userId. O SQLite (3.35+)
+  // remove a coluna sem recriar a tabela.
+  if (await db.schema.hasColumn("users", "historico")) {
+    await db.raw("ALTER TABLE users DROP COLUMN historico");
+  }
 
   // Tabela de Pedidos
   const hasOrders = await db.schema.hasTable("orders");
@@ -76,12 +279,320 @@ async function initDatabase() {
       table.string("userName");
       table.decimal("total", 8, 2).notNullable();
       table.string("timestamp").notNullable();
-      table.string("status").defaultTo("active");
+      table.string("status").defaultTo("received");
       table.json("items").notNullable();
       table.timestamp("completedAt");
     });
   }
 
+  // Uma coluna de data/hora por etapa do fluxo da cozinha
+  await ensureColumns(
+    "orders",
+    Object.fromEntries(
+      Object.values(ORDER_STATUS_TIMESTAMPS).map((column) => [
+        column,
+        (t) => t.string(column),
+      ])
+    )
+  );
+  // Pedidos antigos usavam apenas "active"/"completed"
+  await db("orders")
+    .where({ status: "active" })
+    .update({ status: "received", receivedAt: db.ref("timestamp") });
+  await db("orders")
+    .where({ status: "completed" })
+    .update({ status: "delivered", deliveredAt: db.ref("completedAt") });
+
+  // Número sequencial por dia comercial (exibido como #001, #002...)
+  await ensureColumns("orders", {
+    orderNumber: (t) => t.integer("orderNumber"),
+    businessDate: (t) => t.string("businessDate"),
+  });
+  await db.raw(
+    "CREATE UNIQUE INDEX IF NOT EXISTS orders_business_date_number_unique ON orders (businessDate, orderNumber)"
+  );
+  // Pedidos de antes da coluna ficam sem dia comercial e sumiriam dos
+  // relatórios e do fechamento: o dia sai de quando o pedido foi recebido.
+  // Os que ainda aguardam pagamento recebem o dia ao serem liberados.
+  const undated = await db("orders")
+    .whereNull("businessDate")
+    .whereNot({ status: "awaiting_payment" })
+    .select("id", "receivedAt", "timestamp");
+  for (const order of undated) {
+    const receivedAt = new Date(order.receivedAt || order.timestamp);
+    if (Number.isNaN(receivedAt.getTime())) continue;
+    await db("orders")
+      .where({ id: order.id })
+      .update({ businessDate: getBusinessDate(receivedAt) });
+  }
+  // Histórico do cliente (GET /api/users/:id/orders)
+  await db.raw("CREATE INDEX IF NOT EXISTS orders_user_id ON orders (userId)");
+
+  // Colunas de fidelidade nos pedidos
+  await ensureColumns("orders", {
+    subtotal: (t) => t.decimal("subtotal", 8, 2),
+    pointsRedeemed: (t) => t.integer("pointsRedeemed").defaultTo(0),
+    pointsDiscount: (t) => t.decimal("pointsDiscount", 8, 2).defaultTo(0),
+    pointsEarned: (t) => t.integer("pointsEarned").defaultTo(0),
+  });
+
+  // Pagamento vigente do pedido (o último, se o cliente trocou de forma)
+  await ensureColumns("orders", {
+    paymentId: (t) => t.string("paymentId"),
+    paymentMethod: (t) => t.string("paymentMethod"),
+    paymentStatus: (t) => t.string("paymentStatus"),
+  });
+
+  // Descontos de promoções aplicados ao pedido
+  await ensureColumns("orders", {
+    promotionDiscount: (t) => t.decimal("promotionDiscount", 8, 2).defaultTo(0),
+    discounts: (t) => t.json("discounts").defaultTo("[]"),
+    couponCode: (t) => t.string("couponCode"),
+  });
+
+  // Custo dos ingredientes no momento da venda (o unitCost de cada item
+  // fica no JSON de items); base do relatório de margem
+  await ensureColumns("orders", {
+    costTotal: (t) => t.decimal("costTotal", 10, 2),
+  });
+
+  // Turno de caixa em que o pedido foi liberado para a cozinha
+  await ensureColumns("orders", {
+    shiftId: (t) => t.string("shiftId"),
+  });
+
+  // Cancelamento com motivo e valor já devolvido ao cliente (estornos)
+  await ensureColumns("orders", {
+    cancelReason: (t) => t.string("cancelReason"),
+    refundedTotal: (t) => t.decimal("refundedTotal", 8, 2).defaultTo(0),
+  });
+
+  // Tabela de Pagamentos (uma linha por tentativa de cobrança)
+  const hasPayments = await db.schema.hasTable("payments");
+  if (!hasPayments) {
+    await db.schema.createTable("payments", (table) => {
+      table.string("id").primary();
+      table
+        .string("orderId")
+        .notNullable()
+        .references("id")
+        .inTable("orders")
+        .onDelete("CASCADE");
+      table.string("method").notNullable();
+      table.string("provider").notNullable();
+      table.string("status").notNullable();
+      table.decimal("amount", 8, 2).notNullable();
+      table.string("externalId");
+      table.json("details").defaultTo("{}");
+      table.string("failureReason");
+      table.string("confirmedBy");
+      table.string("createdAt").notNullable();
+      table.string("updatedAt").notNullable();
+    });
+  }
+
+  // Auditoria de cancelamentos e estornos: quem fez, quando, por quê e o
+  // que foi devolvido (dinheiro, estoque e pontos)
+  const hasAdjustments = await db.schema.hasTable("order_adjustments");
+  if (!hasAdjustments) {
+    await db.schema.createTable("order_adjustments", (table) => {
+      table.increments("id").primary();
+      table
+        .string("orderId")
+        .notNullable()
+        .references("id")
+        .inTable("orders")
+        .onDelete("CASCADE");
+      table.string("type").notNullable(); // cancel | refund
+      table.string("reasonCode").notNullable();
+      table.string("note");
+      table.decimal("amount", 8, 2).notNullable().defaultTo(0);
+      table.string("paymentMethod");
+      table.json("items").defaultTo("[]");
+      table.boolean("stockRestored").notNullable().defaultTo(false);
+      table.integer("pointsReversed").notNullable().defaultTo(0);
+      table.integer("pointsReturned").notNullable().defaultTo(0);
+      table.string("staffId").notNullable();
+      table.string("staffName");
+      table.string("createdAt").notNullable();
+    });
+  }
+  // pending: valor reservado, aguardando o provedor devolver o dinheiro |
+  // done: concluído (o pedido, o estoque e os pontos já foram ajustados)
+  await ensureColumns("order_adjustments", {
+    status: (t) => t.string("status").notNullable().defaultTo("done"),
+  });
+
+  // Uso de cada promoção (limites de uso total e por cliente)
+  const hasRedemptions = await db.schema.hasTable("promotion_redemptions");
+  if (!hasRedemptions) {
+    await db.schema.createTable("promotion_redemptions", (table) => {
+      table.increments("id").primary();
+      table.integer("promotionId").notNullable().references("id").inTable("promotions");
+      table.string("orderId").notNullable().references("id").inTable("orders");
+      table.string("userId");
+      table.decimal("amount", 8, 2).notNullable();
+      table.string("createdAt").notNullable();
+    });
+  }
+
+  // Regras de acúmulo de pontos
+  // - per_real: "points" pontos a cada R$ 1,00 pago
+  // - per_category: "points" pontos por unidade comprada da categoria
+  const hasLoyaltyRules = await db.schema.hasTable("loyalty_rules");
+  if (!hasLoyaltyRules) {
+    await db.schema.createTable("loyalty_rules", (table) => {
+      table.increments("id").primary();
+      table.string("type").notNullable();
+      table.string("category");
+      table.decimal("points", 8, 2).notNullable();
+      table.string("description");
+      table.boolean("active").defaultTo(true);
+    });
+    await db("loyalty_rules").insert({
+      type: "per_real",
+      points: 1,
+      description: "1 ponto a cada R$ 1,00",
+      active: true,
+    });
+  }
+
+  // Extrato de pontos: cada ganho/resgate fica registrado para auditoria
+  const hasPointsLedger = await db.schema.hasTable("points_ledger");
+  if (!hasPointsLedger) {
+    await db.schema.createTable("points_ledger", (table) => {
+      table.increments("id").primary();
+      table
+        .string("userId")
+        .notNullable()
+        .references("id")
+        .inTable("users")
+        .onDelete("CASCADE");
+      table.string("orderId");
+      table.integer("delta").notNullable();
+      table.integer("balanceAfter").notNullable();
+      table.string("reason").notNullable();
+      table.string("createdAt").notNullable();
+    });
+  }
+
+  // Tabela de Equipe (credenciais da cozinha e do admin)
+  const hasStaff = await db.schema.hasTable("staff");
+  if (!hasStaff) {
+    await db.schema.createTable("staff", (table) => {
+      table.string("id").primary();
+      table.string("username").notNullable().unique();
+      table.string("name").notNullable();
+      table.string("role").notNullable();
+      table.string("passwordHash").notNullable();
+      table.string("createdAt").notNullable();
+    });
+  }
+
+  // Turnos de caixa: abertura com troco inicial e fechamento com o dinheiro
+  // contado. O relatório de fechamento fica gravado em "report" (reimpressão).
+  const hasShifts = await db.schema.hasTable("shifts");
+  if (!hasShifts) {
+    await db.schema.createTable("shifts", (table) => {
+      table.string("id").primary();
+      table.string("status").notNullable(); // open | closed
+      table.string("openedAt").notNullable();
+      table.string("openedBy").notNullable();
+      table.string("openedByName");
+      table.decimal("openingFloat", 10, 2).notNullable();
+      table.string("closedAt");
+      table.string("closedBy");
+      table.string("closedByName");
+      table.decimal("countedCash", 10, 2);
+      table.decimal("expectedCash", 10, 2);
+      table.decimal("cashDifference", 10, 2);
+      table.string("notes");
+      table.json("report");
+    });
+  }
+  // No máximo um turno aberto por vez
+  await db.raw(
+    "CREATE UNIQUE INDEX IF NOT EXISTS shifts_single_open ON shifts (status) WHERE status = 'open'"
+  );
+
+  // NFC-e de cada pedido pago: o XML assinado e a situação na SEFAZ.
+  // status: pending (enviando) | authorized | contingency (emitida offline,
+  // aguardando envio) | rejected (corrigir o cadastro e reenviar) |
+  // cancelled (pedido estornado por inteiro, evento 110111 homologado)
+  const hasFiscalDocuments = await db.schema.hasTable("fiscal_documents");
+  if (!hasFiscalDocuments) {
+    await db.schema.createTable("fiscal_documents", (table) => {
+      table.increments("id").primary();
+      table.string("orderId").notNullable().unique().references("id").inTable("orders");
+      table.integer("series").notNullable();
+      table.integer("number").notNullable();
+      table.string("code", 8).notNullable(); // cNF: código numérico da chave
+      table.string("accessKey", 44).notNullable();
+      table.integer("emissionType").notNullable(); // 1 normal, 9 offline
+      table.string("status").notNullable();
+      table.text("xml").notNullable();
+      table.text("qrCodeUrl").notNullable();
+      table.string("issuedAt").notNullable();
+      table.string("contingencyAt");
+      table.string("contingencyReason");
+      table.string("protocol");
+      table.string("authorizedAt");
+      table.integer("rejectionCode");
+      table.string("rejectionReason");
+      table.integer("attempts").defaultTo(0);
+      table.string("nextAttemptAt");
+      table.string("lastError");
+      table.string("updatedAt").notNullable();
+      table.unique(["series", "number"]);
+    });
+  }
+  // Evento de cancelamento da nota: XML assinado, protocolo e a última
+  // rejeição (enquanto houver rejeição, a fila não tenta de novo)
+  await ensureColumns("fiscal_documents", {
+    cancelXml: (t) => t.text("cancelXml"),
+    cancelProtocol: (t) => t.string("cancelProtocol"),
+    cancelledAt: (t) => t.string("cancelledAt"),
+    cancelRejection: (t) => t.string("cancelRejection"),
+  });
+
+  // Cria os acessos padrão da cozinha e do admin. As senhas vêm só do .env
+  // (KITCHEN_PASSWORD / ADMIN_PASSWORD) e são gravadas apenas como hash:
+  // sem a senha, o acesso não é criado (não há senha padrão conhecida).
+  const defaults = [
+    {
+      username: "cozinha",
+      name: "Cozinha",
+      role: "kitchen",
+      password: process.env.KITCHEN_PASSWORD,
+      variable: "KITCHEN_PASSWORD",
+    },
+    {
+      username: "admin",
+      name: "Administrador",
+      role: "admin",
+      password: process.env.ADMIN_PASSWORD,
+      variable: "ADMIN_PASSWORD",
+    },
+  ];
+  for (const member of defaults) {
+    if (await db("staff").where({ username: member.username }).first()) continue;
+    if (!member.password) {
+      console.warn(
+        `⚠️ AVISO: ${member.variable} não definida no .env. O acesso "${member.username}" não foi criado.`
+      );
+      continue;
+    }
+    console.log(`🛠️ Criando o acesso "${member.username}"...`);
+    await db("staff").insert({
+      id: `staff_${member.username}`,
+      username: member.username,
+      name: member.name,
+      role: member.role,
+      passwordHash: await bcrypt.hash(member.password, 10),
+      createdAt: new Date().toISOString(),
+    });
+  }
+
   // Carregar menu.json se necessário
   const productCount = await db("products").count("id as count").first();
   if (productCount && productCount.count === 0) {
@@ -105,17 +616,64 @@ async function initDatabase() {
 app.use(
   cors({
     origin: "*",
-    methods: ["GET", "POST", "DELETE", "PUT", "OPTIONS"],
+    methods: ["GET", "POST", "DELETE", "PUT", "PATCH", "OPTIONS"],
+    // Nome dos arquivos exportados (relatórios)
+    exposedHeaders: ["Content-Disposition"],
   })
 );
 app.use(express.json());
 
-// Log de requisições
+// Log de requisições (tokens passados na URL não vão para o log)
 app.use((req, res, next) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}`);
+  const url = req.url.replace(/([?&]token=)[^&]+/, "$1***");
+  console.log(`[${new Date().toISOString()}] ${req.method} ${url}`);
   next();
 });
 
+// Exige um token de sessão válido com um dos papéis informados.
+// O token chega no header "Authorization: Bearer <token>".
+const requireRole =
+  (...roles) =>
+  (req, res, next) => {
+    const header = req.headers.authorization || "";
+    const token = header.startsWith("Bearer ") ? header.slice(7) : null;
+    if (!token) {
+      return res.status(401).json({ error: "Autenticação necessária" });
+    }
+
+    try {
+      const payload = jwt.verify(token, AUTH_SECRET);
+      if (!roles.includes(payload.role)) {
+        return res.status(403).json({ error: "Acesso negado para este perfil" });
+      }
+      req.staff = { id: payload.sub, name: payload.name, role: payload.role };
+      next();
+    } catch (err) {
+      const expired = err instanceof jwt.TokenExpiredError;
+      return res
+        .status(401)
+        .json({ error: expired ? "Sessão expirada" : "Token inválido" });
+    }
+  };
+
+// EventSource (SSE) não permite enviar headers: nessas rotas o token
+// chega como ?token=... e é repassado para o header Authorization.
+const tokenFromQuery = (req, res, next) => {
+  if (!req.headers.authorization && typeof req.query.token === "string") {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+};
+
+// Erro com status HTTP, lançado dentro de transações para abortar e
+// responder ao cliente com a mensagem correta.
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
 // --- Rota Raiz ---
 app.get("/", (req, res) => {
   res.send(
@@ -124,143 +682,4628 @@ app.get("/", (req, res) => {
 });
 
 // ==========================================
-// ROTAS DE PRODUTOS
-// ==========================================
-app.get("/api/menu", async (req, res) => {
-  const products = await db("products").select("*").orderBy("id");
-  res.json(products);
-});
-
-// ==========================================
-// ROTAS DE USUÁRIOS
+// ROTAS DE AUTENTICAÇÃO
 // ==========================================
-app.get("/api/users", async (req, res) => {
-  const users = await db("users").select("*");
-  const parsedUsers = users.map((u) => ({
-    ...u,
-    historico: JSON.parse(u.historico || "[]"),
-  }));
-  res.json(parsedUsers);
+// Tentativas de login por IP (LOGIN_ATTEMPT_LIMIT a cada 5 minutos): as
+// telas da cozinha e do admin pedem só a senha, então sem limite daria
+// para testar senhas em sequência
+const loginLimiter = createRateLimiter({
+  windowMs: 5 * 60 * 1000,
+  max: Number(process.env.LOGIN_ATTEMPT_LIMIT) || 10,
+  message: "Muitas tentativas de login. Aguarde alguns minutos e tente novamente.",
 });
 
-app.post("/api/users", async (req, res) => {
-  const payload = req.body;
-  if (!payload || !payload.cpf) {
-    return res.status(400).json({ error: "CPF é obrigatório" });
+app.post("/api/auth/login", loginLimiter, async (req, res) => {
+  const { username, role, password } = req.body || {};
+  if (!password || (!username && !role)) {
+    return res
+      .status(400)
+      .json({ error: "Informe a senha e o usuário (ou perfil)." });
   }
-
-  const cpfLimpo = String(payload.cpf).replace(/\D/g, "");
-  const exists = await db("users").where({ cpf: cpfLimpo }).first();
-  if (exists) {
-    return res.status(409).json({ error: "CPF já cadastrado" });
+  if (role && !STAFF_ROLES.includes(role)) {
+    return res.status(400).json({ error: "Perfil inválido" });
   }
 
-  const newUser = {
-    id: payload.id || `user_${Date.now()}`,
-    name: payload.name || "Sem Nome",
-    email: payload.email || "",
-    cpf: cpfLimpo,
-    historico: JSON.stringify([]),
-    pontos: 0,
-  };
-
   try {
-    await db("users").insert(newUser);
-    res.status(201).json({ ...newUser, historico: [] });
+    // As telas de login da cozinha/admin só pedem a senha: nesse caso
+    // procuramos entre os membros da equipe com o perfil informado.
+    const candidates = username
+      ? await db("staff").where({ username })
+      : await db("staff").where({ role });
+
+    let member = null;
+    for (const candidate of candidates) {
+      if (role && candidate.role !== role) continue;
+      if (await bcrypt.compare(String(password), candidate.passwordHash)) {
+        member = candidate;
+        break;
+      }
+    }
+    if (!member) {
+      return res.status(401).json({ error: "Usuário ou senha incorretos" });
+    }
+
+    const expiresInSeconds = Math.round(AUTH_TOKEN_TTL_HOURS * 3600);
+    const token = jwt.sign(
+      { sub: member.id, role: member.role, name: member.name },
+      AUTH_SECRET,
+      { expiresIn: expiresInSeconds }
+    );
+    res.json({
+      token,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+      user: { id: member.id, name: member.name, role: member.role },
+    });
   } catch (err) {
-    console.error("Erro ao salvar usuário no DB:", err);
-    res.status(500).json({ error: "Erro ao salvar usuário" });
+    console.error("Erro ao autenticar:", err);
+    res.status(500).json({ error: "Falha ao autenticar" });
   }
 });
 
+app.get("/api/auth/me", requireRole(...STAFF_ROLES), (req, res) => {
+  res.json({ user: req.staff });
+});
+
 // ==========================================
-// ROTAS DE PEDIDOS
+// ROTAS DE PRODUTOS
 // ==========================================
-app.get("/api/orders", async (req, res) => {
-  const orders = await db("orders")
-    .where({ status: "active" })
-    .select("*")
-    .orderBy("timestamp", "asc");
-  const parsedOrders = orders.map((o) => ({
-    ...o,
-    items: JSON.parse(o.items),
-    total: parseFloat(o.total),
-  }));
-  res.json(parsedOrders);
+const PRODUCT_CATEGORIES = ["Pastel", "Bebida", "Doce"];
+
+// NCM usado nos produtos cadastrados antes da NFC-e
+const DEFAULT_NCM_BY_CATEGORY = {
+  Pastel: "19059090",
+  Bebida: "22021000",
+  Doce: "19059090",
+};
+
+// Aceita caminhos locais (/videos/Arquivo.mp4) ou URLs http(s) de vídeo
+const VIDEO_URL_REGEX = /^(\/videos\/[\w.-]+|https?:\/\/\S+)\.(mp4|webm)$/i;
+
+// Converte os tipos vindos do SQLite (decimal/boolean) para o formato da API
+// Esgotado: marcado pela cozinha ou sem unidades no estoque controlado
+const isSoldOut = (p) =>
+  !p.available || (p.stockQuantity !== null && p.stockQuantity <= 0);
+
+const serializeProduct = (p) => ({
+  ...p,
+  price: parseFloat(p.price),
+  popular: Boolean(p.popular),
+  modifierGroups: JSON.parse(p.modifierGroups || "[]"),
+  available: Boolean(p.available),
+  soldOut: isSoldOut(p),
 });
 
-app.get("/api/user-orders", async (req, res) => {
-  const { userId } = req.query;
-  let query = db("orders").orderBy("timestamp", "desc");
-  if (userId) {
-    query = query.where({ userId });
+// Tamanho máximo da observação livre de cada item ("sem cebola")
+const ITEM_NOTES_MAX_LENGTH = 140;
+
+const isMoney = (value) =>
+  Number.isFinite(value) && Math.abs(Math.round(value * 100) - value * 100) <= 1e-6;
+
+// Valida os grupos de modificadores de um produto. Cada grupo tem opções
+// com acréscimo (ou desconto) no preço e limites de escolha:
+// { id, name, required, min, max, options: [{ id, name, priceDelta }] }
+// Grupos opcionais têm min 0; ids ausentes são gerados aqui e mantidos
+// nas edições seguintes (o carrinho identifica as opções por eles).
+function validateModifierGroups(groups, price, errors) {
+  if (groups === undefined || groups === null) return [];
+  if (!Array.isArray(groups)) {
+    errors.push("modifierGroups deve ser uma lista");
+    return [];
   }
-  const allOrders = await query.select("*");
-  const parsedOrders = allOrders.map((o) => ({
-    ...o,
-    items: JSON.parse(o.items),
-    total: parseFloat(o.total),
-  }));
-  res.json(parsedOrders);
-});
 
-app.post("/api/orders", async (req, res) => {
-  const payload = req.body;
-  if (!payload || !payload.userId || !Array.isArray(payload.items)) {
-    return res
-      .status(400)
-      .json({ error: "Dados inválidos: userId e items são obrigatórios." });
+  const usedIds = new Set();
+  const uniqueId = (id, prefix) => {
+    const candidate =
+      typeof id === "string" && /^[\w-]{1,64}$/.test(id) && !usedIds.has(id)
+        ? id
+        : `${prefix}_${crypto.randomUUID().slice(0, 8)}`;
+    usedIds.add(candidate);
+    return candidate;
+  };
+
+  return groups.map((group, gi) => {
+    const label = `Grupo ${gi + 1}`;
+    const name = typeof group?.name === "string" ? group.name.trim() : "";
+    if (!name) errors.push(`${label}: nome é obrigatório`);
+
+    const options = Array.isArray(group?.options) ? group.options : [];
+    if (options.length === 0) errors.push(`${label}: adicione ao menos uma opção`);
+
+    const required = Boolean(group?.required);
+    const min = required ? Number(group?.min ?? 1) : 0;
+    const max = Number(group?.max ?? 1);
+    if (!Number.isInteger(min) || (required && min < 1)) {
+      errors.push(`${label}: grupos obrigatórios exigem no mínimo 1 escolha`);
+    }
+    if (!Number.isInteger(max) || max < 1 || max > options.length || max < min) {
+      errors.push(`${label}: máximo deve ficar entre o mínimo e o número de opções`);
+    }
+
+    return {
+      id: uniqueId(group?.id, "grp"),
+      name,
+      required,
+      min,
+      max,
+      options: options.map((option, oi) => {
+        const optionName =
+          typeof option?.name === "string" ? option.name.trim() : "";
+        if (!optionName) errors.push(`${label}, opção ${oi + 1}: nome é obrigatório`);
+        const priceDelta = Number(option?.priceDelta ?? 0);
+        if (!isMoney(priceDelta) || priceDelta < -price || priceDelta > 1000) {
+          errors.push(`${label}, opção ${oi + 1}: acréscimo inválido`);
+        }
+        return { id: uniqueId(option?.id, "opt"), name: optionName, priceDelta };
+      }),
+    };
+  });
+}
+
+// Quantidades de estoque: vazio = null (não controlado), inválido = undefined
+const parseStockNumber = (raw) => {
+  if (raw === undefined || raw === null || raw === "") return null;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 0 && n <= 100000 ? n : undefined;
+};
+
+// Valida o payload enviado pelo painel admin e devolve apenas os campos
+// que existem na tabela de produtos.
+function validateProductPayload(payload) {
+  const errors = [];
+  if (!payload || typeof payload !== "object") {
+    return { errors: ["Payload inválido"], data: null };
   }
 
-  const id = `order_${Date.now()}`;
-  const total =
-    typeof payload.total === "number"
-      ? payload.total
-      : payload.items.reduce((acc, it) => acc + it.price * it.quantity, 0);
+  const name = typeof payload.name === "string" ? payload.name.trim() : "";
+  if (!name) errors.push("Nome é obrigatório");
 
-  const newOrder = {
-    id,
-    userId: payload.userId,
-    userName: payload.userName || "",
-    items: JSON.stringify(payload.items),
-    total,
-    timestamp: new Date().toISOString(),
-    status: "active",
+  if (!PRODUCT_CATEGORIES.includes(payload.category)) {
+    errors.push(`Categoria deve ser uma de: ${PRODUCT_CATEGORIES.join(", ")}`);
+  }
+
+  const price = Number(payload.price);
+  if (!Number.isFinite(price) || price <= 0 || price >= 1000000) {
+    errors.push("Preço deve ser um número maior que zero");
+  } else if (!isMoney(price)) {
+    errors.push("Preço deve ter no máximo 2 casas decimais");
+  }
+
+  const videoUrl =
+    typeof payload.videoUrl === "string" ? payload.videoUrl.trim() : "";
+  if (videoUrl && !VIDEO_URL_REGEX.test(videoUrl)) {
+    errors.push(
+      "videoUrl deve ser /videos/<arquivo>.mp4 ou uma URL http(s) de vídeo .mp4/.webm"
+    );
+  }
+
+  const modifierGroups = validateModifierGroups(
+    payload.modifierGroups,
+    Number.isFinite(price) ? price : 0,
+    errors
+  );
+
+  // Classificação fiscal (NFC-e): NCM de 8 dígitos, CFOP de venda dentro
+  // do estado (5xxx) e a situação do ICMS (CST ou CSOSN sem alíquota)
+  const ncm = String(payload.ncm ?? "").replace(/\D/g, "");
+  if (ncm && ncm.length !== 8) errors.push("NCM deve ter 8 dígitos");
+  const cfop = String(payload.cfop ?? "5102").trim();
+  if (!/^5\d{3}$/.test(cfop)) {
+    errors.push("CFOP deve ter 4 dígitos e começar com 5 (venda dentro do estado)");
+  }
+  const cst = String(payload.cst ?? "102").trim();
+  if (!ICMS_SITUATIONS[cst]) {
+    errors.push(`CST/CSOSN deve ser um de: ${Object.keys(ICMS_SITUATIONS).join(", ")}`);
+  }
+
+  // A quantidade em estoque tem rota própria (PATCH /stock) para a edição do
+  // cadastro não desfazer as baixas feitas pelos pedidos nesse meio-tempo
+  const lowStockThreshold = parseStockNumber(payload.lowStockThreshold);
+  if (lowStockThreshold === undefined) {
+    errors.push("Alerta de estoque baixo deve ser um inteiro maior ou igual a zero");
+  }
+
+  return {
+    errors,
+    data: {
+      name,
+      description:
+        typeof payload.description === "string" ? payload.description : "",
+      price,
+      category: payload.category,
+      videoUrl: videoUrl || null,
+      popular: Boolean(payload.popular),
+      modifierGroups: JSON.stringify(modifierGroups),
+      lowStockThreshold,
+      ncm: ncm || null,
+      cfop,
+      cst,
+    },
   };
+}
+
+app.get("/api/menu", async (req, res) => {
+  const products = await db("products").select("*").orderBy("id");
+  res.json(products.map(serializeProduct));
+});
+
+app.post("/api/products", requireRole("admin"), async (req, res) => {
+  const { errors, data } = validateProductPayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+
+  const requestedId = req.body.id;
+  if (requestedId !== undefined && !/^[\w-]{1,64}$/.test(String(requestedId))) {
+    return res.status(400).json({ error: "id de produto inválido" });
+  }
+  const id = requestedId ? String(requestedId) : `prod_${Date.now()}`;
 
   try {
-    await db.transaction(async (trx) => {
-      await trx("orders").insert(newOrder);
-      const user = await trx("users").where({ id: payload.userId }).first();
-      if (user) {
-        let historico = JSON.parse(user.historico || "[]");
-        historico.push({ ...newOrder, items: payload.items, total });
-        await trx("users")
-          .where({ id: payload.userId })
-          .update({ historico: JSON.stringify(historico) });
-      }
-    });
-    res.status(201).json({ ...newOrder, items: payload.items, total });
+    const exists = await db("products").where({ id }).first();
+    if (exists) {
+      return res.status(409).json({ error: "Já existe um produto com este id" });
+    }
+    await db("products").insert({ id, ...data });
+    const created = await db("products").where({ id }).first();
+    res.status(201).json(serializeProduct(created));
   } catch (err) {
-    console.error("Erro ao processar pedido no DB:", err);
-    res.status(500).json({ error: "Falha ao salvar pedido" });
+    console.error("Erro ao criar produto:", err);
+    res.status(500).json({ error: "Falha ao criar produto" });
   }
 });
 
-app.delete("/api/orders/:id", async (req, res) => {
+// Edição do cadastro. Campos ausentes no corpo mantêm o valor gravado, para
+// um cliente antigo (ou um script) não apagar modificadores, dados fiscais
+// ou o alerta de estoque que não conhece.
+app.put("/api/products/:id", requireRole("admin"), async (req, res) => {
   const { id } = req.params;
-  const completedAt = new Date().toISOString();
+  if (!req.body || typeof req.body !== "object") {
+    return res.status(400).json({ error: "Payload inválido", details: ["Payload inválido"] });
+  }
+
   try {
-    const updated = await db("orders").where({ id }).update({
-      status: "completed",
-      completedAt,
+    const existing = await db("products").where({ id }).first();
+    if (!existing) return res.status(404).json({ error: "Produto não encontrado" });
+    const { errors, data } = validateProductPayload({
+      ...serializeProduct(existing),
+      ...req.body,
     });
-    if (updated === 0)
-      return res.status(404).json({ error: "Pedido não encontrado" });
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join("; "), details: errors });
+    }
+
+    await db("products").where({ id }).update(data);
+    const product = await db("products").where({ id }).first();
+    res.json(serializeProduct(product));
+  } catch (err) {
+    console.error("Erro ao atualizar produto:", err);
+    res.status(500).json({ error: "Falha ao atualizar produto" });
+  }
+});
+
+app.delete("/api/products/:id", requireRole("admin"), async (req, res) => {
+  const { id } = req.params;
+  try {
+    const deleted = await db("products").where({ id }).del();
+    if (deleted === 0)
+      return res.status(404).json({ error: "Produto não encontrado" });
+    await db("recipe_items").where({ productId: id }).del();
     res.json({ ok: true });
   } catch (err) {
-    console.error("Erro ao finalizar pedido:", err);
-    res.status(500).json({ error: "Falha ao finalizar pedido" });
+    console.error("Erro ao remover produto:", err);
+    res.status(500).json({ error: "Falha ao remover produto" });
+  }
+});
+
+// ==========================================
+// ROTAS DE ESTOQUE
+// ==========================================
+// A baixa acontece na criação do pedido (reserveStock); pedidos cancelados
+// antes do preparo devolvem as unidades (restoreStock).
+
+// Limite usado quando o produto controla estoque mas não define o alerta
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// Unidades de cada produto em itens já precificados (combos contam os componentes)
+function countProductUnits(items) {
+  const units = new Map();
+  for (const item of items) {
+    const products = item.components
+      ? item.components.map((c) => c.productId)
+      : [item.productId];
+    for (const productId of products) {
+      units.set(productId, (units.get(productId) || 0) + item.quantity);
+    }
+  }
+  return units;
+}
+
+// Dá baixa no estoque dentro da transação do pedido; recusa produtos
+// esgotados ou com menos unidades do que o pedido pede
+async function reserveStock(trx, items) {
+  for (const [productId, quantity] of countProductUnits(items)) {
+    const product = await trx("products").where({ id: productId }).first();
+    if (!product) continue;
+    if (!product.available) {
+      throw new HttpError(409, `${product.name} está esgotado.`);
+    }
+    if (product.stockQuantity === null) continue;
+
+    // O filtro pelo saldo evita vender a mesma unidade em dois totens
+    const changed = await trx("products")
+      .where({ id: productId })
+      .where("stockQuantity", ">=", quantity)
+      .decrement("stockQuantity", quantity);
+    if (changed === 0) {
+      throw new HttpError(
+        409,
+        product.stockQuantity > 0
+          ? `Só restam ${product.stockQuantity} unidade(s) de ${product.name}.`
+          : `${product.name} está esgotado.`
+      );
+    }
+  }
+}
+
+// Devolve ao estoque as unidades de um pedido cancelado
+async function restoreStock(trx, items) {
+  for (const [productId, quantity] of countProductUnits(items)) {
+    await trx("products")
+      .where({ id: productId })
+      .whereNotNull("stockQuantity")
+      .increment("stockQuantity", quantity);
+  }
+}
+
+// Botão "acabou" da cozinha (86): tira ou devolve o produto do cardápio
+app.patch(
+  "/api/products/:id/availability",
+  requireRole("kitchen", "admin"),
+  async (req, res) => {
+    const { available } = req.body || {};
+    if (typeof available !== "boolean") {
+      return res.status(400).json({ error: "available deve ser true ou false" });
+    }
+    const updated = await db("products")
+      .where({ id: req.params.id })
+      .update({ available });
+    if (updated === 0)
+      return res.status(404).json({ error: "Produto não encontrado" });
+    const product = await db("products").where({ id: req.params.id }).first();
+    res.json(serializeProduct(product));
+  }
+);
+
+// Ajuste do estoque (contagem ou reposição). stockQuantity null desliga o controle.
+app.patch("/api/products/:id/stock", requireRole("admin"), async (req, res) => {
+  const stockQuantity = parseStockNumber(req.body?.stockQuantity);
+  if (stockQuantity === undefined) {
+    return res.status(400).json({
+      error: "stockQuantity deve ser um inteiro maior ou igual a zero (ou vazio)",
+    });
+  }
+  const updated = await db("products")
+    .where({ id: req.params.id })
+    .update({ stockQuantity });
+  if (updated === 0)
+    return res.status(404).json({ error: "Produto não encontrado" });
+  const product = await db("products").where({ id: req.params.id }).first();
+  res.json(serializeProduct(product));
+});
+
+// Produtos esgotados ou no limite do alerta, do mais crítico para o menos
+app.get("/api/inventory/low-stock", requireRole("admin"), async (req, res) => {
+  const products = await db("products").select("*");
+  const alerts = products
+    .filter(
+      (p) =>
+        isSoldOut(p) ||
+        (p.stockQuantity !== null &&
+          p.stockQuantity <= (p.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD))
+    )
+    .map(serializeProduct)
+    .sort((a, b) => (a.stockQuantity ?? -1) - (b.stockQuantity ?? -1));
+  res.json(alerts);
+});
+
+// ==========================================
+// ROTAS DE INGREDIENTES E FICHA TÉCNICA
+// ==========================================
+// O custo do ingrediente é informado como é comprado (R$ por kg, litro ou
+// unidade) e a ficha técnica usa gramas, ml ou unidades por produto.
+
+const INGREDIENT_UNITS = ["g", "ml", "un"];
+
+const serializeIngredient = (i) => ({ ...i, cost: parseFloat(i.cost) });
+
+// Custo de uma linha da ficha técnica (g e ml vêm do preço por kg/litro)
+const recipeLineCost = (quantity, ingredient) =>
+  (parseFloat(quantity) * parseFloat(ingredient.cost)) /
+  (ingredient.unit === "un" ? 1 : 1000);
+
+function validateIngredientPayload(payload) {
+  const errors = [];
+  const name = typeof payload?.name === "string" ? payload.name.trim() : "";
+  if (!name) errors.push("Nome é obrigatório");
+  if (!INGREDIENT_UNITS.includes(payload?.unit)) {
+    errors.push(`Unidade deve ser uma de: ${INGREDIENT_UNITS.join(", ")}`);
+  }
+  const cost = Number(payload?.cost);
+  if (!isMoney(cost) || cost <= 0 || cost >= 1000000) {
+    errors.push("Custo deve ser um número maior que zero, com até 2 casas decimais");
+  }
+  return { errors, data: { name, unit: payload?.unit, cost } };
+}
+
+// Ficha técnica de cada produto com o custo de cada linha
+async function loadRecipes(trx, productIds) {
+  const query = trx("recipe_items as r")
+    .join("ingredients as i", "i.id", "r.ingredientId")
+    .select("r.productId", "r.ingredientId", "r.quantity", "i.name", "i.unit", "i.cost")
+    .orderBy("i.name");
+  if (productIds) query.whereIn("r.productId", productIds);
+  const recipes = new Map();
+  for (const row of await query) {
+    const line = {
+      ingredientId: row.ingredientId,
+      name: row.name,
+      unit: row.unit,
+      quantity: parseFloat(row.quantity),
+      cost: roundMoney(recipeLineCost(row.quantity, row)),
+    };
+    recipes.set(row.productId, [...(recipes.get(row.productId) || []), line]);
+  }
+  return recipes;
+}
+
+// Custo dos ingredientes de um produto; null quando não há ficha técnica
+const recipeCost = (recipe) =>
+  recipe ? roundMoney(recipe.reduce((acc, line) => acc + line.cost, 0)) : null;
+
+// Grava o custo unitário (unitCost) em cada item já precificado. Combos
+// somam os componentes; sem ficha técnica de algum produto, fica null.
+async function costOrderItems(trx, items) {
+  const productIds = items.flatMap((it) =>
+    it.components ? it.components.map((c) => c.productId) : [it.productId]
+  );
+  const recipes = await loadRecipes(trx, productIds);
+  const costOf = (productId) => recipeCost(recipes.get(productId));
+
+  return items.map((item) => {
+    if (!item.components) return { ...item, unitCost: costOf(item.productId) };
+    const costs = item.components.map((c) => costOf(c.productId));
+    return {
+      ...item,
+      unitCost: costs.includes(null)
+        ? null
+        : roundMoney(costs.reduce((acc, c) => acc + c, 0)),
+    };
+  });
+}
+
+app.get("/api/ingredients", requireRole("admin"), async (req, res) => {
+  const ingredients = await db("ingredients").select("*").orderBy("name");
+  const usage = await db("recipe_items")
+    .select("ingredientId")
+    .count({ products: "*" })
+    .groupBy("ingredientId");
+  const usedIn = Object.fromEntries(usage.map((u) => [u.ingredientId, Number(u.products)]));
+  res.json(
+    ingredients.map((i) => ({ ...serializeIngredient(i), usedIn: usedIn[i.id] || 0 }))
+  );
+});
+
+app.post("/api/ingredients", requireRole("admin"), async (req, res) => {
+  const { errors, data } = validateIngredientPayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+  try {
+    if (await db("ingredients").where({ name: data.name }).first()) {
+      return res.status(409).json({ error: `Já existe o ingrediente ${data.name}` });
+    }
+    const [id] = await db("ingredients").insert(data);
+    const ingredient = await db("ingredients").where({ id }).first();
+    res.status(201).json({ ...serializeIngredient(ingredient), usedIn: 0 });
+  } catch (err) {
+    console.error("Erro ao criar ingrediente:", err);
+    res.status(500).json({ error: "Falha ao criar ingrediente" });
+  }
+});
+
+app.put("/api/ingredients/:id", requireRole("admin"), async (req, res) => {
+  const { id } = req.params;
+  const { errors, data } = validateIngredientPayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+  try {
+    if (await db("ingredients").where({ name: data.name }).whereNot({ id }).first()) {
+      return res.status(409).json({ error: `Já existe o ingrediente ${data.name}` });
+    }
+    const updated = await db("ingredients").where({ id }).update(data);
+    if (updated === 0)
+      return res.status(404).json({ error: "Ingrediente não encontrado" });
+    const ingredient = await db("ingredients").where({ id }).first();
+    const [{ products }] = await db("recipe_items")
+      .where({ ingredientId: id })
+      .count({ products: "*" });
+    res.json({ ...serializeIngredient(ingredient), usedIn: Number(products) });
+  } catch (err) {
+    console.error("Erro ao atualizar ingrediente:", err);
+    res.status(500).json({ error: "Falha ao atualizar ingrediente" });
+  }
+});
+
+app.delete("/api/ingredients/:id", requireRole("admin"), async (req, res) => {
+  const { id } = req.params;
+  const used = await db("recipe_items").where({ ingredientId: id }).first();
+  if (used) {
+    return res
+      .status(409)
+      .json({ error: "Ingrediente usado em fichas técnicas. Remova-o dos produtos antes." });
+  }
+  const deleted = await db("ingredients").where({ id }).del();
+  if (deleted === 0)
+    return res.status(404).json({ error: "Ingrediente não encontrado" });
+  res.json({ ok: true });
+});
+
+// Custo dos ingredientes e margem de cada produto pelo preço atual
+app.get("/api/products/costs", requireRole("admin"), async (req, res) => {
+  const products = await db("products").select("id", "price").orderBy("id");
+  const recipes = await loadRecipes(db);
+  res.json(
+    products.map((p) => {
+      const price = parseFloat(p.price);
+      const foodCost = recipeCost(recipes.get(p.id));
+      return {
+        productId: p.id,
+        foodCost,
+        margin: foodCost === null ? null : roundMoney(price - foodCost),
+        marginPercent:
+          foodCost === null ? null : Math.round(((price - foodCost) / price) * 1000) / 10,
+      };
+    })
+  );
+});
+
+app.get("/api/products/:id/recipe", requireRole("admin"), async (req, res) => {
+  const product = await db("products").where({ id: req.params.id }).first();
+  if (!product) return res.status(404).json({ error: "Produto não encontrado" });
+  const recipe = (await loadRecipes(db, [product.id])).get(product.id) || [];
+  res.json({ items: recipe, foodCost: recipe.length > 0 ? recipeCost(recipe) : null });
+});
+
+// Substitui a ficha técnica inteira: items = [{ ingredientId, quantity }]
+app.put("/api/products/:id/recipe", requireRole("admin"), async (req, res) => {
+  const items = req.body?.items;
+  if (!Array.isArray(items)) {
+    return res.status(400).json({ error: "items deve ser uma lista" });
+  }
+  const errors = [];
+  const seen = new Set();
+  items.forEach((item, i) => {
+    const quantity = Number(item?.quantity);
+    if (!Number.isInteger(item?.ingredientId) || seen.has(item.ingredientId)) {
+      errors.push(`Linha ${i + 1}: ingrediente inválido ou repetido`);
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0 || quantity > 100000) {
+      errors.push(`Linha ${i + 1}: quantidade deve ser maior que zero`);
+    }
+    seen.add(item?.ingredientId);
+  });
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+
+  try {
+    const productId = req.params.id;
+    await db.transaction(async (trx) => {
+      const product = await trx("products").where({ id: productId }).first();
+      if (!product) throw new HttpError(404, "Produto não encontrado");
+      const found = await trx("ingredients").whereIn("id", [...seen]).select("id");
+      if (found.length !== seen.size) throw new HttpError(400, "Ingrediente não encontrado");
+
+      await trx("recipe_items").where({ productId }).del();
+      for (const item of items) {
+        await trx("recipe_items").insert({
+          productId,
+          ingredientId: item.ingredientId,
+          quantity: Number(item.quantity),
+        });
+      }
+    });
+    const recipe = (await loadRecipes(db, [productId])).get(productId) || [];
+    res.json({ items: recipe, foodCost: recipe.length > 0 ? recipeCost(recipe) : null });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao salvar ficha técnica:", err);
+    res.status(500).json({ error: "Falha ao salvar ficha técnica" });
+  }
+});
+
+// ==========================================
+// ROTAS DE COMBOS
+// ==========================================
+// Combo = preço fechado para um conjunto de "vagas", cada uma preenchida
+// por um produto da categoria indicada (ex.: Pastel + Bebida por R$ 12,00).
+// slots: [{ id, name, category }]
+
+const serializeCombo = (c) => ({
+  ...c,
+  price: parseFloat(c.price),
+  active: Boolean(c.active),
+  slots: JSON.parse(c.slots || "[]"),
+});
+
+function validateComboPayload(payload) {
+  const errors = [];
+  if (!payload || typeof payload !== "object") {
+    return { errors: ["Payload inválido"], data: null };
+  }
+
+  const name = typeof payload.name === "string" ? payload.name.trim() : "";
+  if (!name) errors.push("Nome é obrigatório");
+
+  const price = Number(payload.price);
+  if (!isMoney(price) || price <= 0 || price >= 1000000) {
+    errors.push("Preço deve ser um número maior que zero, com até 2 casas decimais");
+  }
+
+  const slots = Array.isArray(payload.slots) ? payload.slots : [];
+  if (slots.length < 2) errors.push("O combo precisa de ao menos 2 itens");
+  const usedIds = new Set();
+  const normalizedSlots = slots.map((slot, i) => {
+    if (!PRODUCT_CATEGORIES.includes(slot?.category)) {
+      errors.push(
+        `Item ${i + 1}: categoria deve ser uma de: ${PRODUCT_CATEGORIES.join(", ")}`
+      );
+    }
+    const id =
+      typeof slot?.id === "string" && /^[\w-]{1,64}$/.test(slot.id) && !usedIds.has(slot.id)
+        ? slot.id
+        : `slot_${crypto.randomUUID().slice(0, 8)}`;
+    usedIds.add(id);
+    const slotName = typeof slot?.name === "string" ? slot.name.trim() : "";
+    return { id, name: slotName || slot?.category || "", category: slot?.category };
+  });
+
+  return {
+    errors,
+    data: {
+      name,
+      description:
+        typeof payload.description === "string" ? payload.description : "",
+      price,
+      active: payload.active === undefined ? true : Boolean(payload.active),
+      slots: JSON.stringify(normalizedSlots),
+    },
+  };
+}
+
+app.get("/api/combos", async (req, res) => {
+  const combos = await db("combos").select("*").orderBy("name");
+  res.json(combos.map(serializeCombo));
+});
+
+app.post("/api/combos", requireRole("admin"), async (req, res) => {
+  const { errors, data } = validateComboPayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+
+  const id = `combo_${Date.now()}`;
+  try {
+    await db("combos").insert({ id, ...data });
+    const created = await db("combos").where({ id }).first();
+    res.status(201).json(serializeCombo(created));
+  } catch (err) {
+    console.error("Erro ao criar combo:", err);
+    res.status(500).json({ error: "Falha ao criar combo" });
+  }
+});
+
+app.put("/api/combos/:id", requireRole("admin"), async (req, res) => {
+  const { id } = req.params;
+  const { errors, data } = validateComboPayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+
+  try {
+    const updated = await db("combos").where({ id }).update(data);
+    if (updated === 0) return res.status(404).json({ error: "Combo não encontrado" });
+    const combo = await db("combos").where({ id }).first();
+    res.json(serializeCombo(combo));
+  } catch (err) {
+    console.error("Erro ao atualizar combo:", err);
+    res.status(500).json({ error: "Falha ao atualizar combo" });
+  }
+});
+
+app.delete("/api/combos/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const deleted = await db("combos").where({ id: req.params.id }).del();
+    if (deleted === 0) return res.status(404).json({ error: "Combo não encontrado" });
+    res.json({ ok: true });
+  } catch (err) {
+    console.error("Erro ao remover combo:", err);
+    res.status(500).json({ error: "Falha ao remover combo" });
+  }
+});
+
+// ==========================================
+// ROTAS DE PROMOÇÕES
+// ==========================================
+// As regras são avaliadas pelo servidor (services/promotionEngine.js) ao criar
+// o pedido; o carrinho usa /api/promotions/preview só para mostrar os descontos.
+
+const PROMOTION_CODE_REGEX = /^[A-Z0-9_-]{3,20}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const serializePromotion = (p) => ({
+  ...p,
+  value: parseFloat(p.value || 0),
+  minSubtotal: p.minSubtotal == null ? null : parseFloat(p.minSubtotal),
+  daysOfWeek: JSON.parse(p.daysOfWeek || "[]"),
+  active: Boolean(p.active),
+});
+
+function validatePromotionPayload(payload) {
+  const errors = [];
+  if (!payload || typeof payload !== "object") {
+    return { errors: ["Payload inválido"], data: null };
+  }
+
+  const name = typeof payload.name === "string" ? payload.name.trim() : "";
+  if (!name) errors.push("Nome é obrigatório");
+
+  const type = payload.type;
+  if (!PROMOTION_TYPES.includes(type)) {
+    errors.push(`Tipo deve ser um de: ${PROMOTION_TYPES.join(", ")}`);
+  }
+
+  const code = payload.code ? String(payload.code).trim().toUpperCase() : null;
+  if (code && !PROMOTION_CODE_REGEX.test(code)) {
+    errors.push("Cupom deve ter de 3 a 20 letras, números, - ou _");
+  }
+
+  const value = Number(payload.value) || 0;
+  if (type === "percent" || type === "category_percent") {
+    if (!(value > 0 && value <= 100)) errors.push("Percentual deve estar entre 0 e 100");
+  } else if (type === "fixed" && !(isMoney(value) && value > 0)) {
+    errors.push("Valor do desconto deve ser maior que zero, com até 2 casas decimais");
+  }
+
+  const category = payload.category || null;
+  const productId = payload.productId || null;
+  if (type === "category_percent" && !PRODUCT_CATEGORIES.includes(category)) {
+    errors.push(`Categoria deve ser uma de: ${PRODUCT_CATEGORIES.join(", ")}`);
+  }
+  const buyQuantity = Number(payload.buyQuantity);
+  const payQuantity = Number(payload.payQuantity);
+  if (type === "buy_x_pay_y") {
+    if (!productId && !PRODUCT_CATEGORIES.includes(category)) {
+      errors.push("Informe o produto ou a categoria da promoção");
+    }
+    if (
+      !Number.isInteger(buyQuantity) ||
+      !Number.isInteger(payQuantity) ||
+      payQuantity < 1 ||
+      buyQuantity <= payQuantity ||
+      buyQuantity > 20
+    ) {
+      errors.push("Em \"leve X pague Y\", X deve ser maior que Y (ex.: leve 3, pague 2)");
+    }
+  }
+
+  const minSubtotal =
+    payload.minSubtotal === undefined || payload.minSubtotal === null || payload.minSubtotal === ""
+      ? null
+      : Number(payload.minSubtotal);
+  if (minSubtotal !== null && !(isMoney(minSubtotal) && minSubtotal >= 0)) {
+    errors.push("Pedido mínimo inválido");
+  }
+
+  const startsAt = payload.startsAt || null;
+  const endsAt = payload.endsAt || null;
+  if ((startsAt && !DATE_REGEX.test(startsAt)) || (endsAt && !DATE_REGEX.test(endsAt))) {
+    errors.push("Datas devem estar no formato AAAA-MM-DD");
+  } else if (startsAt && endsAt && endsAt < startsAt) {
+    errors.push("A data final deve ser igual ou posterior à inicial");
+  }
+
+  const startTime = payload.startTime || null;
+  const endTime = payload.endTime || null;
+  if ((startTime && !TIME_REGEX.test(startTime)) || (endTime && !TIME_REGEX.test(endTime))) {
+    errors.push("Horários devem estar no formato HH:MM");
+  } else if (startTime && endTime && endTime <= startTime) {
+    errors.push("O horário final deve ser depois do inicial");
+  }
+
+  const daysOfWeek = Array.isArray(payload.daysOfWeek) ? payload.daysOfWeek : [];
+  if (daysOfWeek.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    errors.push("Dias da semana devem ser números de 0 (domingo) a 6 (sábado)");
+  }
+
+  const limit = (field, label) => {
+    const raw = payload[field];
+    if (raw === undefined || raw === null || raw === "") return null;
+    const n = Number(raw);
+    if (!Number.isInteger(n) || n < 1) errors.push(`${label} deve ser um inteiro positivo`);
+    return n;
+  };
+  const usageLimit = limit("usageLimit", "Limite de usos");
+  const perUserLimit = limit("perUserLimit", "Limite por cliente");
+
+  return {
+    errors,
+    data: {
+      name,
+      code,
+      type,
+      value: type === "buy_x_pay_y" ? 0 : value,
+      category: type === "percent" || type === "fixed" ? null : category,
+      productId: type === "buy_x_pay_y" ? productId : null,
+      buyQuantity: type === "buy_x_pay_y" ? buyQuantity : null,
+      payQuantity: type === "buy_x_pay_y" ? payQuantity : null,
+      minSubtotal,
+      startsAt,
+      endsAt,
+      daysOfWeek: JSON.stringify([...new Set(daysOfWeek)].sort()),
+      startTime,
+      endTime,
+      usageLimit,
+      perUserLimit,
+      active: payload.active === undefined ? true : Boolean(payload.active),
+    },
+  };
+}
+
+// Usos de cada promoção em pedidos que não foram cancelados
+async function countPromotionUsage(trx, { userId } = {}) {
+  const query = trx("promotion_redemptions as r")
+    .join("orders as o", "o.id", "r.orderId")
+    .whereNot("o.status", "cancelled")
+    .select("r.promotionId")
+    .count({ uses: "*" })
+    .groupBy("r.promotionId");
+  if (userId) query.where("r.userId", userId);
+  const rows = await query;
+  return Object.fromEntries(rows.map((r) => [r.promotionId, Number(r.uses)]));
+}
+
+/**
+ * Aplica as promoções vigentes a itens já precificados por priceOrderItems.
+ * Cupom inexistente, fora do período ou esgotado volta em couponError.
+ */
+async function applyPromotions(trx, items, { userId, couponCode, now = new Date() }) {
+  const clock = storeClock(now, STORE_TIMEZONE);
+  const all = (await trx("promotions").where({ active: true })).map(serializePromotion);
+  const usage = await countPromotionUsage(trx);
+  const userUsage = userId ? await countPromotionUsage(trx, { userId }) : {};
+
+  const code = couponCode ? String(couponCode).trim().toUpperCase() : null;
+  let couponError = null;
+  const promotions = all.filter((p) => {
+    let reason = null;
+    if (!isWithinSchedule(p, clock)) reason = "Cupom fora do período de validade.";
+    else if (p.usageLimit && (usage[p.id] || 0) >= p.usageLimit) reason = "Cupom esgotado.";
+    else if (p.perUserLimit && (userUsage[p.id] || 0) >= p.perUserLimit) {
+      reason = "Você já usou este cupom o número máximo de vezes.";
+    }
+    if (reason && code && p.code === code) couponError = reason;
+    return !reason;
+  });
+  if (code && !couponError && !all.some((p) => p.code === code)) {
+    couponError = "Cupom inválido.";
+  }
+
+  const result = evaluatePromotions(promotions, items, { couponCode: code });
+  return { ...result, couponError: couponError || result.couponError };
+}
+
+// Simulação dos descontos para o carrinho (não reserva usos). Os limites
+// por cliente só contam com a sessão do próprio cliente (login por CPF):
+// um userId no corpo é ignorado, para a rota pública não revelar os cupons
+// e usos de outra pessoa.
+app.post("/api/promotions/preview", async (req, res) => {
+  const { items, couponCode } = req.body || {};
+  const userId = customerIdFromSession(req);
+  if (!Array.isArray(items)) {
+    return res.status(400).json({ error: "items é obrigatório." });
+  }
+  try {
+    const priced = await priceOrderItems(db, items);
+    const subtotal = roundMoney(
+      priced.reduce((acc, it) => acc + it.price * it.quantity, 0)
+    );
+    const { discounts, discountTotal, couponError } = await applyPromotions(
+      db,
+      priced,
+      { userId, couponCode }
+    );
+    res.json({
+      subtotal,
+      discounts,
+      discountTotal,
+      total: roundMoney(subtotal - discountTotal),
+      couponError,
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao simular promoções:", err);
+    res.status(500).json({ error: "Falha ao calcular descontos" });
+  }
+});
+
+app.get("/api/promotions", requireRole("admin"), async (req, res) => {
+  const promotions = await db("promotions").select("*").orderBy("id");
+  const usage = await countPromotionUsage(db);
+  res.json(
+    promotions.map((p) => ({ ...serializePromotion(p), usageCount: usage[p.id] || 0 }))
+  );
+});
+
+app.post("/api/promotions", requireRole("admin"), async (req, res) => {
+  const { errors, data } = validatePromotionPayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+  try {
+    if (data.code && (await db("promotions").where({ code: data.code }).first())) {
+      return res.status(409).json({ error: `Já existe uma promoção com o cupom ${data.code}` });
+    }
+    const [id] = await db("promotions").insert({
+      ...data,
+      createdAt: new Date().toISOString(),
+    });
+    const promotion = await db("promotions").where({ id }).first();
+    res.status(201).json({ ...serializePromotion(promotion), usageCount: 0 });
+  } catch (err) {
+    console.error("Erro ao criar promoção:", err);
+    res.status(500).json({ error: "Falha ao criar promoção" });
+  }
+});
+
+app.put("/api/promotions/:id", requireRole("admin"), async (req, res) => {
+  const { id } = req.params;
+  const { errors, data } = validatePromotionPayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+  try {
+    if (
+      data.code &&
+      (await db("promotions").where({ code: data.code }).whereNot({ id }).first())
+    ) {
+      return res.status(409).json({ error: `Já existe uma promoção com o cupom ${data.code}` });
+    }
+    const updated = await db("promotions").where({ id }).update(data);
+    if (updated === 0)
+      return res.status(404).json({ error: "Promoção não encontrada" });
+    const promotion = await db("promotions").where({ id }).first();
+    const usage = await countPromotionUsage(db);
+    res.json({ ...serializePromotion(promotion), usageCount: usage[promotion.id] || 0 });
+  } catch (err) {
+    console.error("Erro ao atualizar promoção:", err);
+    res.status(500).json({ error: "Falha ao atualizar promoção" });
+  }
+});
+
+// Promoções já usadas em pedidos devem ser pausadas, não removidas
+app.delete("/api/promotions/:id", requireRole("admin"), async (req, res) => {
+  const { id } = req.params;
+  const used = await db("promotion_redemptions").where({ promotionId: id }).first();
+  if (used) {
+    return res
+      .status(409)
+      .json({ error: "Promoção já usada em pedidos. Pause-a em vez de remover." });
+  }
+  const deleted = await db("promotions").where({ id }).del();
+  if (deleted === 0)
+    return res.status(404).json({ error: "Promoção não encontrada" });
+  res.json({ ok: true });
+});
+
+// ==========================================
+// ROTAS DE USUÁRIOS
+// ==========================================
+// Mensagens dos códigos da validação compartilhada (shared/cpf.js). O
+// código também vai na resposta para o frontend mostrar o próprio texto.
+const CPF_ERROR_MESSAGES = {
+  [CPF_ERRORS.REQUIRED]: "CPF é obrigatório",
+  [CPF_ERRORS.LENGTH]: "CPF deve ter 11 dígitos",
+  [CPF_ERRORS.REPEATED]: "CPF inválido",
+  [CPF_ERRORS.CHECK_DIGIT]: "CPF inválido",
+};
+
+const sendCpfError = (res, code) =>
+  res.status(400).json({ error: CPF_ERROR_MESSAGES[code], code });
+
+// j***@exemplo.com: confirma o destino sem expor o endereço no totem
+const maskEmail = (email) => {
+  const [local, domain] = email.split("@");
+  return `${local.slice(0, 1)}***@${domain}`;
+};
+
+// Busca por CPF no totem: limite por IP para a rota pública não servir
+// para testar CPFs em massa (CPF_LOOKUP_LIMIT por minuto)
+const cpfLookupLimiter = createRateLimiter({
+  windowMs: 60 * 1000,
+  max: Number(process.env.CPF_LOOKUP_LIMIT) || 10,
+  message: "Muitas consultas de CPF. Aguarde um minuto e tente novamente.",
+});
+
+// Histórico do cliente: exige a sessão do próprio cliente e ainda é
+// limitado por IP (USER_ORDERS_LIMIT por minuto)
+const userOrdersLimiter = createRateLimiter({
+  windowMs: 60 * 1000,
+  max: Number(process.env.USER_ORDERS_LIMIT) || 30,
+  message: "Muitas consultas de histórico. Aguarde um minuto e tente novamente.",
+});
+
+// Sessão do cliente, emitida no login por CPF e no cadastro. O token vai no
+// header X-Customer-Session (o Authorization fica para a equipe).
+function issueCustomerSession(user) {
+  const expiresInSeconds = Math.round(CUSTOMER_SESSION_TTL_MINUTES * 60);
+  return {
+    token: jwt.sign({ sub: user.id, role: "customer" }, AUTH_SECRET, {
+      expiresIn: expiresInSeconds,
+    }),
+    expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+  };
+}
+
+// Id do cliente da sessão enviada, ou null (sem token, inválido ou expirado)
+function customerIdFromSession(req) {
+  const token = req.headers["x-customer-session"];
+  if (typeof token !== "string" || !token) return null;
+  try {
+    const payload = jwt.verify(token, AUTH_SECRET);
+    return payload.role === "customer" ? payload.sub : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+// Só o próprio cliente (sessão com o mesmo id da rota)
+const requireCustomerSession = (req, res, next) => {
+  const customerId = customerIdFromSession(req);
+  if (!customerId) {
+    return res.status(401).json({ error: "Faça login com o CPF para continuar" });
+  }
+  if (customerId !== req.params.id) {
+    return res.status(403).json({ error: "Acesso negado" });
+  }
+  next();
+};
+
+// Lista completa (com CPF e e-mail de todos): só para o admin
+app.get("/api/users", requireRole("admin"), async (req, res) => {
+  res.json(await db("users").select("*"));
+});
+
+// Login do cliente no totem. Devolve só o que a sessão do totem usa (e o
+// token dela); o e-mail vai mascarado (a tela só precisa saber que existe).
+app.get("/api/users/by-cpf/:cpf", cpfLookupLimiter, async (req, res) => {
+  const { valid, cpf, error } = validateCpf(req.params.cpf);
+  if (!valid) return sendCpfError(res, error);
+  try {
+    const user = await db("users").where({ cpf }).first();
+    if (!user) return res.status(404).json({ error: "CPF não cadastrado" });
+    res.json({
+      id: user.id,
+      name: user.name,
+      cpf: user.cpf,
+      email: user.email ? maskEmail(user.email) : "",
+      pontos: user.pontos || 0,
+      session: issueCustomerSession(user),
+    });
+  } catch (err) {
+    console.error("Erro ao buscar cliente por CPF:", err);
+    res.status(500).json({ error: "Falha ao buscar CPF" });
+  }
+});
+
+// Histórico de pedidos do cliente, dos mais recentes para os mais antigos
+// (?page=1&pageSize=20). Pedidos aguardando pagamento não entram: só
+// contam depois de liberados para a cozinha. Só com a sessão do cliente.
+app.get("/api/users/:id/orders", userOrdersLimiter, requireCustomerSession, async (req, res) => {
+  const page = Math.max(Number.parseInt(req.query.page, 10) || 1, 1);
+  const pageSize = Math.min(Math.max(Number.parseInt(req.query.pageSize, 10) || 20, 1), 100);
+  try {
+    const user = await db("users").where({ id: req.params.id }).first();
+    if (!user) return res.status(404).json({ error: "Cliente não encontrado" });
+
+    const query = () =>
+      db("orders").where({ userId: user.id }).whereNot({ status: "awaiting_payment" });
+    const [{ total }] = await query().count({ total: "*" });
+    const orders = await query()
+      .orderBy([
+        { column: "receivedAt", order: "desc" },
+        { column: "timestamp", order: "desc" },
+      ])
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+    res.json({ orders: orders.map(serializeOrder), page, pageSize, total: Number(total) });
+  } catch (err) {
+    console.error("Erro ao buscar histórico do cliente:", err);
+    res.status(500).json({ error: "Falha ao buscar histórico" });
+  }
+});
+
+app.post("/api/users", async (req, res) => {
+  const payload = req.body || {};
+  const { valid, cpf: cpfLimpo, error } = validateCpf(payload.cpf);
+  if (!valid) return sendCpfError(res, error);
+
+  const exists = await db("users").where({ cpf: cpfLimpo }).first();
+  if (exists) {
+    return res.status(409).json({ error: "CPF já cadastrado" });
+  }
+
+  const newUser = {
+    // Id gerado aqui e impossível de adivinhar
+    id: `user_${crypto.randomUUID()}`,
+    name: payload.name || "Sem Nome",
+    email: payload.email || "",
+    cpf: cpfLimpo,
+    pontos: 0,
+  };
+
+  try {
+    await db("users").insert(newUser);
+    res.status(201).json({ ...newUser, session: issueCustomerSession(newUser) });
+  } catch (err) {
+    console.error("Erro ao salvar usuário no DB:", err);
+    res.status(500).json({ error: "Erro ao salvar usuário" });
+  }
+});
+
+// ==========================================
+// PROGRAMA DE FIDELIDADE (PONTOS)
+// ==========================================
+const LOYALTY_RULE_TYPES = ["per_real", "per_category"];
+
+const serializeLoyaltyRule = (r) => ({
+  ...r,
+  points: parseFloat(r.points),
+  active: Boolean(r.active),
+});
+
+function validateLoyaltyRulePayload(payload) {
+  const errors = [];
+  if (!payload || !LOYALTY_RULE_TYPES.includes(payload.type)) {
+    errors.push(`Tipo deve ser um de: ${LOYALTY_RULE_TYPES.join(", ")}`);
+  }
+  if (payload?.type === "per_category" && !PRODUCT_CATEGORIES.includes(payload.category)) {
+    errors.push(`Categoria deve ser uma de: ${PRODUCT_CATEGORIES.join(", ")}`);
+  }
+  const points = Number(payload?.points);
+  if (!Number.isFinite(points) || points <= 0) {
+    errors.push("Pontos deve ser um número maior que zero");
+  }
+  return {
+    errors,
+    data: {
+      type: payload?.type,
+      category: payload?.type === "per_category" ? payload.category : null,
+      points,
+      description: payload?.description || "",
+      active: payload?.active === undefined ? true : Boolean(payload.active),
+    },
+  };
+}
+
+// Calcula os pontos ganhos em um pedido aplicando todas as regras ativas.
+// "amountPaid" já considera descontos; o resultado é arredondado para baixo.
+function calculateEarnedPoints(rules, items, amountPaid) {
+  let points = 0;
+  for (const rule of rules) {
+    const rulePoints = parseFloat(rule.points);
+    if (rule.type === "per_real") {
+      points += amountPaid * rulePoints;
+    } else if (rule.type === "per_category") {
+      // Itens de combo contam pela categoria de cada componente
+      const units = items
+        .flatMap((it) =>
+          it.components
+            ? it.components.map((c) => ({ ...c, quantity: it.quantity }))
+            : [it]
+        )
+        .filter((it) => it.category === rule.category)
+        .reduce((acc, it) => acc + it.quantity, 0);
+      points += units * rulePoints;
+    }
+  }
+  return Math.floor(points);
+}
+
+// Movimenta o saldo do cliente e grava a linha correspondente no extrato.
+// Deve ser chamada dentro de uma transação.
+async function applyPointsChange(trx, { userId, orderId, delta, reason }) {
+  const user = await trx("users").where({ id: userId }).first();
+  if (!user) throw new HttpError(404, "Cliente não encontrado");
+  const balanceAfter = (user.pontos || 0) + delta;
+  if (balanceAfter < 0) throw new HttpError(400, "Saldo de pontos insuficiente");
+
+  await trx("users").where({ id: userId }).update({ pontos: balanceAfter });
+  await trx("points_ledger").insert({
+    userId,
+    orderId: orderId || null,
+    delta,
+    balanceAfter,
+    reason,
+    createdAt: new Date().toISOString(),
+  });
+  return balanceAfter;
+}
+
+// Configuração pública usada pelo carrinho para simular o desconto
+app.get("/api/loyalty/config", async (req, res) => {
+  const rules = await db("loyalty_rules").where({ active: true });
+  res.json({
+    redeemValue: POINTS_REDEEM_VALUE,
+    rules: rules.map(serializeLoyaltyRule),
+  });
+});
+
+app.get("/api/loyalty/rules", requireRole("admin"), async (req, res) => {
+  const rules = await db("loyalty_rules").select("*").orderBy("id");
+  res.json(rules.map(serializeLoyaltyRule));
+});
+
+app.post("/api/loyalty/rules", requireRole("admin"), async (req, res) => {
+  const { errors, data } = validateLoyaltyRulePayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+  try {
+    const [id] = await db("loyalty_rules").insert(data);
+    const rule = await db("loyalty_rules").where({ id }).first();
+    res.status(201).json(serializeLoyaltyRule(rule));
+  } catch (err) {
+    console.error("Erro ao criar regra de pontos:", err);
+    res.status(500).json({ error: "Falha ao criar regra" });
+  }
+});
+
+app.put("/api/loyalty/rules/:id", requireRole("admin"), async (req, res) => {
+  const { id } = req.params;
+  const { errors, data } = validateLoyaltyRulePayload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: errors.join("; "), details: errors });
+  }
+  try {
+    const updated = await db("loyalty_rules").where({ id }).update(data);
+    if (updated === 0)
+      return res.status(404).json({ error: "Regra não encontrada" });
+    const rule = await db("loyalty_rules").where({ id }).first();
+    res.json(serializeLoyaltyRule(rule));
+  } catch (err) {
+    console.error("Erro ao atualizar regra de pontos:", err);
+    res.status(500).json({ error: "Falha ao atualizar regra" });
+  }
+});
+
+app.delete("/api/loyalty/rules/:id", requireRole("admin"), async (req, res) => {
+  const deleted = await db("loyalty_rules").where({ id: req.params.id }).del();
+  if (deleted === 0)
+    return res.status(404).json({ error: "Regra não encontrada" });
+  res.json({ ok: true });
+});
+
+// Extrato de pontos de um cliente (auditoria)
+app.get("/api/users/:id/points", requireRole("admin"), async (req, res) => {
+  const user = await db("users").where({ id: req.params.id }).first();
+  if (!user) return res.status(404).json({ error: "Cliente não encontrado" });
+  const ledger = await db("points_ledger")
+    .where({ userId: user.id })
+    .orderBy("id", "desc");
+  res.json({ balance: user.pontos || 0, ledger });
+});
+
+// ==========================================
+// ROTAS DE PEDIDOS
+// ==========================================
+// Número exibido ao cliente e na cozinha (#042). Pedidos anteriores à
+// numeração diária usam o final do id.
+const formatOrderNumber = (order) =>
+  order.orderNumber
+    ? String(order.orderNumber).padStart(3, "0")
+    : order.id.slice(-4);
+
+// Converte a linha do SQLite (JSON/decimais em texto) para o formato da API
+const serializeOrder = (o) => ({
+  ...o,
+  items: JSON.parse(o.items),
+  total: parseFloat(o.total),
+  subtotal: o.subtotal == null ? parseFloat(o.total) : parseFloat(o.subtotal),
+  pointsDiscount: parseFloat(o.pointsDiscount || 0),
+  promotionDiscount: parseFloat(o.promotionDiscount || 0),
+  discounts: JSON.parse(o.discounts || "[]"),
+  refundedTotal: parseFloat(o.refundedTotal || 0),
+});
+
+// --- Tempo real: eventos de pedidos via Server-Sent Events ---
+// Cada tela da cozinha conectada em /api/orders/stream vira um ouvinte.
+const orderEvents = new EventEmitter();
+orderEvents.setMaxListeners(0);
+
+const publishOrderEvent = (type, order) => {
+  orderEvents.emit("order", { type, order });
+};
+
+app.get(
+  "/api/orders/stream",
+  tokenFromQuery,
+  requireRole("kitchen", "admin"),
+  (req, res) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    // Sugere ao navegador reconectar em 3s se a conexão cair
+    res.write("retry: 3000\n\n");
+
+    const onOrder = ({ type, order }) => {
+      res.write(`event: ${type}\ndata: ${JSON.stringify(order)}\n\n`);
+    };
+    orderEvents.on("order", onOrder);
+
+    // Comentário periódico mantém a conexão aberta em proxies/roteadores
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      orderEvents.off("order", onOrder);
+    });
+  }
+);
+
+// --- Impressora da cozinha: comanda em ESC/POS para cada pedido novo ---
+// KITCHEN_PRINTER=tcp (KITCHEN_PRINTER_HOST, porta 9100) ou file
+// (KITCHEN_PRINTER_PATH: dispositivo USB ou arquivo, para testar sem
+// impressora). Sem configuração, a cozinha trabalha só pela tela.
+const kitchenPrinter = createPrinterFromEnv("KITCHEN", {
+  defaultPath: path.join(process.cwd(), "data", "kitchen-tickets.bin"),
+});
+console.log(`🖨️ Impressora da cozinha: ${kitchenPrinter.name}`);
+
+async function printKitchenTicket(order, { reprint = false } = {}) {
+  const clock = storeClock(new Date(order.receivedAt || order.timestamp), STORE_TIMEZONE);
+  await kitchenPrinter.print(
+    renderKitchenTicket(order, {
+      number: formatOrderNumber(order),
+      placedAt: `${formatDateBR(clock.date)} ${clock.time}`,
+      columns: kitchenPrinter.columns,
+      payAtCounter: order.paymentMethod === "counter" && order.paymentStatus === "pending",
+      reprint,
+    })
+  );
+}
+
+// Imprime quando o pedido chega à cozinha; uma falha na impressora não
+// atrapalha o pedido (a cozinha pode reimprimir pela tela)
+orderEvents.on("order", ({ type, order }) => {
+  if (type !== "order-created" || !kitchenPrinter.enabled) return;
+  printKitchenTicket(order).catch((err) =>
+    console.error(`Falha ao imprimir a comanda do pedido ${order.id}:`, err.message)
+  );
+});
+
+// Painel de retirada (TV do balcão): rota pública que expõe apenas o
+// número curto e a etapa de cada pedido, sem nomes nem valores.
+const BOARD_STATUSES = ["received", "preparing", "ready"];
+
+app.get("/api/orders/board", async (req, res) => {
+  const orders = await db("orders")
+    .whereIn("status", BOARD_STATUSES)
+    .select("id", "orderNumber", "status", "timestamp", "readyAt")
+    .orderBy("timestamp", "asc");
+  res.json(
+    orders.map((o) => ({
+      id: o.id,
+      number: formatOrderNumber(o),
+      // Recebido e em preparo aparecem juntos na coluna "Preparando"
+      status: o.status === "ready" ? "ready" : "preparing",
+      readyAt: o.readyAt,
+    }))
+  );
+});
+
+app.get("/api/orders", requireRole("kitchen", "admin"), async (req, res) => {
+  const orders = await db("orders")
+    .whereIn("status", KITCHEN_ACTIVE_STATUSES)
+    .select("*")
+    .orderBy("timestamp", "asc");
+  res.json(orders.map(serializeOrder));
+});
+
+app.get("/api/user-orders", requireRole("admin"), async (req, res) => {
+  const { userId } = req.query;
+  let query = db("orders").orderBy("timestamp", "desc");
+  if (userId) {
+    query = query.where({ userId });
+  }
+  const allOrders = await query.select("*");
+  res.json(allOrders.map(serializeOrder));
+});
+
+// Arredonda valores em reais para centavos
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// Confere as opções escolhidas para um item contra os grupos do produto
+// e devolve os modificadores que vão para o pedido/cozinha.
+function resolveItemModifiers(product, optionIds) {
+  const groups = JSON.parse(product.modifierGroups || "[]");
+  const chosen = new Set(optionIds);
+  const modifiers = [];
+
+  for (const group of groups) {
+    const selected = group.options.filter((o) => chosen.has(o.id));
+    selected.forEach((o) => chosen.delete(o.id));
+    if (selected.length < group.min) {
+      throw new HttpError(
+        400,
+        group.min === 1
+          ? `Escolha uma opção em "${group.name}" para ${product.name}.`
+          : `Escolha ao menos ${group.min} em "${group.name}" para ${product.name}.`
+      );
+    }
+    if (selected.length > group.max) {
+      throw new HttpError(
+        400,
+        `Escolha no máximo ${group.max} em "${group.name}" para ${product.name}.`
+      );
+    }
+    selected.forEach((o) =>
+      modifiers.push({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: o.id,
+        name: o.name,
+        priceDelta: o.priceDelta,
+      })
+    );
+  }
+
+  // Sobrou alguma opção que não existe (mais) no produto
+  if (chosen.size > 0) {
+    throw new HttpError(
+      409,
+      `As opções de "${product.name}" foram alteradas. Revise o carrinho.`
+    );
+  }
+  return modifiers;
+}
+
+// Confere o formato de um produto escolhido (item avulso ou componente de combo)
+function validateItemSelection(selection) {
+  if (!selection || typeof selection.productId !== "string") {
+    throw new HttpError(400, "Item sem productId.");
+  }
+  if (
+    selection.options !== undefined &&
+    (!Array.isArray(selection.options) ||
+      selection.options.some((o) => typeof o !== "string"))
+  ) {
+    throw new HttpError(400, "options deve ser uma lista de ids de opções.");
+  }
+  if (
+    selection.notes !== undefined &&
+    (typeof selection.notes !== "string" ||
+      selection.notes.length > ITEM_NOTES_MAX_LENGTH)
+  ) {
+    throw new HttpError(
+      400,
+      `Observação deve ter no máximo ${ITEM_NOTES_MAX_LENGTH} caracteres.`
+    );
+  }
+}
+
+// Valida os itens enviados pelo totem e recalcula nome/preço a partir da
+// tabela de produtos. O cliente nunca define o preço cobrado.
+// Item avulso: { productId, quantity, price?, options?: [optionId], notes? }
+// Combo: { comboId, quantity, price?, components: [{ slotId, productId, options?, notes? }] }
+async function priceOrderItems(trx, items) {
+  if (items.length === 0) throw new HttpError(400, "O pedido não possui itens.");
+
+  for (const item of items) {
+    if (!Number.isInteger(item?.quantity) || item.quantity < 1 || item.quantity > 99) {
+      throw new HttpError(400, "Quantidade deve ser um inteiro entre 1 e 99.");
+    }
+    if (typeof item.comboId === "string") {
+      if (!Array.isArray(item.components)) {
+        throw new HttpError(400, "Combo sem components.");
+      }
+      item.components.forEach(validateItemSelection);
+    } else {
+      validateItemSelection(item);
+    }
+  }
+
+  const productIds = items.flatMap((it) =>
+    it.comboId ? it.components.map((c) => c.productId) : [it.productId]
+  );
+  const products = await trx("products").whereIn("id", productIds);
+  const byId = Object.fromEntries(products.map((p) => [p.id, p]));
+  const comboIds = items.filter((it) => it.comboId).map((it) => it.comboId);
+  const combos =
+    comboIds.length > 0 ? await trx("combos").whereIn("id", comboIds) : [];
+  const combosById = Object.fromEntries(combos.map((c) => [c.id, c]));
+
+  // Produto + opções conferidas + observação de uma escolha do cliente
+  const resolveSelection = (selection) => {
+    const product = byId[selection.productId];
+    if (!product) {
+      throw new HttpError(400, `Produto desconhecido: ${selection.productId}`);
+    }
+    const modifiers = resolveItemModifiers(product, selection.options || []);
+    const notes = (selection.notes || "").trim();
+    return {
+      product,
+      modifiers,
+      deltas: modifiers.reduce((acc, m) => acc + m.priceDelta, 0),
+      extra: {
+        ...(modifiers.length > 0 && { modifiers }),
+        ...(notes && { notes }),
+      },
+    };
+  };
+
+  // Preço diferente do cadastro: carrinho desatualizado ou adulterado
+  const checkPrice = (item, name, price) => {
+    if (item.price !== undefined && Math.abs(Number(item.price) - price) > 0.005) {
+      throw new HttpError(
+        409,
+        `O preço de "${name}" foi atualizado para R$ ${price.toFixed(2)}. Revise o carrinho.`
+      );
+    }
+  };
+
+  return items.map((item) => {
+    if (item.comboId) {
+      const combo = combosById[item.comboId];
+      if (!combo || !combo.active) {
+        throw new HttpError(400, `Combo indisponível: ${item.comboId}`);
+      }
+      const slots = JSON.parse(combo.slots);
+      if (item.components.length !== slots.length) {
+        throw new HttpError(400, `Escolha um produto para cada item do ${combo.name}.`);
+      }
+
+      let deltas = 0;
+      const components = slots.map((slot) => {
+        const selection = item.components.find((c) => c.slotId === slot.id);
+        if (!selection) {
+          throw new HttpError(400, `Escolha ${slot.name} do ${combo.name}.`);
+        }
+        const resolved = resolveSelection(selection);
+        if (resolved.product.category !== slot.category) {
+          throw new HttpError(
+            400,
+            `"${resolved.product.name}" não pode ser usado em ${slot.name} do ${combo.name}.`
+          );
+        }
+        deltas += resolved.deltas;
+        return {
+          slotId: slot.id,
+          slotName: slot.name,
+          productId: resolved.product.id,
+          name: resolved.product.name,
+          category: resolved.product.category,
+          ...resolved.extra,
+        };
+      });
+
+      // Preço do combo + acréscimos das opções de cada componente
+      const price = roundMoney(parseFloat(combo.price) + deltas);
+      checkPrice(item, combo.name, price);
+      return {
+        productId: combo.id,
+        comboId: combo.id,
+        name: combo.name,
+        category: "Combo",
+        quantity: item.quantity,
+        price,
+        components,
+      };
+    }
+
+    const { product, deltas, extra } = resolveSelection(item);
+    // Preço unitário = preço do produto + acréscimos das opções
+    const price = roundMoney(parseFloat(product.price) + deltas);
+    checkPrice(item, product.name, price);
+    return {
+      productId: product.id,
+      name: product.name,
+      category: product.category,
+      quantity: item.quantity,
+      price,
+      ...extra,
+    };
+  });
+}
+
+// Próximo número sequencial do dia comercial (reinicia a cada dia).
+// Roda dentro da transação do pedido; o índice único garante a sequência.
+async function nextOrderNumber(trx, businessDate) {
+  const row = await trx("orders")
+    .where({ businessDate })
+    .max("orderNumber as last")
+    .first();
+  return (row?.last || 0) + 1;
+}
+
+// Libera para a cozinha um pedido pago (ou a pagar no balcão): recebe o
+// número do dia, credita os pontos ganhos e entra no histórico do cliente.
+// Roda dentro da transação de quem confirmou o pagamento.
+async function releaseOrderToKitchen(trx, orderId) {
+  const order = await trx("orders").where({ id: orderId }).first();
+  if (!order || order.status !== "awaiting_payment") return null;
+
+  const now = new Date();
+  const businessDate = getBusinessDate(now);
+  // O pedido entra no turno de caixa aberto (sem turno aberto, fica sem)
+  const shift = await trx("shifts").where({ status: "open" }).first();
+  const changes = {
+    status: "received",
+    receivedAt: now.toISOString(),
+    businessDate,
+    orderNumber: await nextOrderNumber(trx, businessDate),
+    shiftId: shift?.id || null,
+  };
+  await trx("orders").where({ id: orderId }).update(changes);
+  const released = serializeOrder({ ...order, ...changes });
+
+  const user = await trx("users").where({ id: order.userId }).first();
+  if (user) {
+    if (released.pointsEarned) {
+      await applyPointsChange(trx, {
+        userId: user.id,
+        orderId,
+        delta: released.pointsEarned,
+        reason: "earn",
+      });
+    }
+  }
+  return released;
+}
+
+// Cancela um pedido que nunca chegou à cozinha e devolve os pontos resgatados
+async function cancelUnpaidOrder(trx, orderId) {
+  const order = await trx("orders").where({ id: orderId }).first();
+  if (!order || order.status !== "awaiting_payment") return;
+
+  await trx("orders")
+    .where({ id: orderId })
+    .update({ status: "cancelled", cancelledAt: new Date().toISOString() });
+  await restoreStock(trx, JSON.parse(order.items));
+  if (order.pointsRedeemed && order.userId) {
+    await applyPointsChange(trx, {
+      userId: order.userId,
+      orderId,
+      delta: order.pointsRedeemed,
+      reason: "redeem_reversal",
+    });
+  }
+}
+
+app.post("/api/orders", async (req, res) => {
+  const payload = req.body;
+  if (!payload || !payload.userId || !Array.isArray(payload.items)) {
+    return res
+      .status(400)
+      .json({ error: "Dados inválidos: userId e items são obrigatórios." });
+  }
+
+  const redeemPoints = Number(payload.redeemPoints) || 0;
+  if (!Number.isInteger(redeemPoints) || redeemPoints < 0) {
+    return res
+      .status(400)
+      .json({ error: "redeemPoints deve ser um inteiro positivo." });
+  }
+
+  const paymentMethod = payload.paymentMethod;
+  if (!paymentProviders.methods.includes(paymentMethod)) {
+    return res.status(400).json({
+      error: `paymentMethod deve ser um de: ${paymentProviders.methods.join(", ")}`,
+    });
+  }
+
+  const newOrder = {
+    id: `order_${crypto.randomUUID()}`,
+    userId: payload.userId,
+    userName: payload.userName || "",
+    timestamp: new Date().toISOString(),
+    status: "awaiting_payment",
+    paymentMethod,
+  };
+
+  try {
+    let userPoints = null;
+    let items = [];
+    let payment = null;
+    let released = null;
+    await db.transaction(async (trx) => {
+      items = await costOrderItems(trx, await priceOrderItems(trx, payload.items));
+      await reserveStock(trx, items);
+      const subtotal = roundMoney(
+        items.reduce((acc, it) => acc + it.price * it.quantity, 0)
+      );
+      newOrder.items = JSON.stringify(items);
+      newOrder.costTotal = roundMoney(
+        items.reduce((acc, it) => acc + (it.unitCost || 0) * it.quantity, 0)
+      );
+      newOrder.subtotal = subtotal;
+
+      // Promoções: cupom digitado que não vale recusa o pedido, para o
+      // cliente não pagar achando que teve o desconto
+      const { discounts, discountTotal, couponError } = await applyPromotions(
+        trx,
+        items,
+        { userId: payload.userId, couponCode: payload.couponCode }
+      );
+      if (payload.couponCode && couponError) throw new HttpError(400, couponError);
+      newOrder.discounts = JSON.stringify(discounts);
+      newOrder.promotionDiscount = discountTotal;
+      newOrder.couponCode = payload.couponCode
+        ? String(payload.couponCode).trim().toUpperCase()
+        : null;
+      const discountedSubtotal = roundMoney(subtotal - discountTotal);
+      newOrder.total = discountedSubtotal;
+
+      const user = await trx("users").where({ id: payload.userId }).first();
+
+      // Resgate: cada ponto vale POINTS_REDEEM_VALUE, limitado ao que
+      // sobra depois das promoções
+      if (redeemPoints > 0) {
+        if (!user) throw new HttpError(400, "Convidados não possuem pontos para resgatar");
+        if (redeemPoints > (user.pontos || 0)) {
+          throw new HttpError(400, "Saldo de pontos insuficiente");
+        }
+        const maxUsefulPoints = Math.ceil(discountedSubtotal / POINTS_REDEEM_VALUE);
+        newOrder.pointsRedeemed = Math.min(redeemPoints, maxUsefulPoints);
+        newOrder.pointsDiscount = Math.min(
+          roundMoney(newOrder.pointsRedeemed * POINTS_REDEEM_VALUE),
+          discountedSubtotal
+        );
+        newOrder.total = roundMoney(discountedSubtotal - newOrder.pointsDiscount);
+      }
+
+      // Acúmulo: só para clientes cadastrados (convidados não têm conta).
+      // Os pontos são creditados quando o pedido é liberado para a cozinha.
+      if (user) {
+        const rules = await trx("loyalty_rules").where({ active: true });
+        newOrder.pointsEarned = calculateEarnedPoints(
+          rules,
+          items,
+          newOrder.total
+        );
+      }
+
+      await trx("orders").insert(newOrder);
+
+      // Um registro por promoção usada (conta para os limites de uso)
+      const byPromotion = new Map();
+      for (const d of discounts) {
+        byPromotion.set(d.promotionId, (byPromotion.get(d.promotionId) || 0) + d.amount);
+      }
+      for (const [promotionId, amount] of byPromotion) {
+        await trx("promotion_redemptions").insert({
+          promotionId,
+          orderId: newOrder.id,
+          userId: payload.userId,
+          amount: roundMoney(amount),
+          createdAt: newOrder.timestamp,
+        });
+      }
+
+      payment = await createPaymentRecord(trx, newOrder, paymentMethod);
+
+      // Os pontos usados ficam reservados já na criação; voltam ao saldo
+      // se o pagamento for cancelado
+      if (user && newOrder.pointsRedeemed) {
+        userPoints = await applyPointsChange(trx, {
+          userId: user.id,
+          orderId: newOrder.id,
+          delta: -newOrder.pointsRedeemed,
+          reason: "redeem",
+        });
+      }
+
+      // Balcão (ou pedido quitado com pontos) vai direto para a cozinha
+      if (paymentMethod === "counter" || payment.status === "approved") {
+        released = await releaseOrderToKitchen(trx, newOrder.id);
+      }
+      if (user) {
+        const refreshed = await trx("users").where({ id: user.id }).first();
+        userPoints = refreshed.pontos || 0;
+      }
+    });
+
+    if (released) publishOrderEvent("order-created", released);
+    if (payment.status === "approved") requestFiscalDocument(newOrder.id);
+    payment =
+      payment.status === "pending"
+        ? await requestCharge(payment)
+        : serializePayment(payment);
+
+    const saved = serializeOrder(
+      await db("orders").where({ id: newOrder.id }).first()
+    );
+    res.status(201).json({ ...saved, userPoints, payment });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao processar pedido no DB:", err);
+    res.status(500).json({ error: "Falha ao salvar pedido" });
+  }
+});
+
+// Reimpressão da comanda (papel acabou, comanda perdida...)
+app.post(
+  "/api/orders/:id/ticket",
+  requireRole("kitchen", "admin"),
+  async (req, res) => {
+    if (!kitchenPrinter.enabled) {
+      return res
+        .status(409)
+        .json({ error: "Nenhuma impressora da cozinha configurada (KITCHEN_PRINTER)" });
+    }
+    const order = await db("orders").where({ id: req.params.id }).first();
+    if (!order) return res.status(404).json({ error: "Pedido não encontrado" });
+    if (order.status === "awaiting_payment") {
+      return res.status(409).json({ error: "O pedido ainda não foi liberado para a cozinha" });
+    }
+    try {
+      await printKitchenTicket(serializeOrder(order), { reprint: true });
+      res.json({ ok: true, printer: kitchenPrinter.name });
+    } catch (err) {
+      console.error(`Falha ao reimprimir a comanda do pedido ${order.id}:`, err.message);
+      res.status(502).json({ error: `A impressora não respondeu: ${err.message}` });
+    }
+  }
+);
+
+// Avança o pedido no fluxo da cozinha, respeitando as transições permitidas
+app.patch(
+  "/api/orders/:id/status",
+  requireRole("kitchen", "admin"),
+  async (req, res) => {
+    const { id } = req.params;
+    const { status } = req.body || {};
+    if (!ORDER_TRANSITIONS[status]) {
+      return res.status(400).json({
+        error: `Status deve ser um de: ${Object.keys(ORDER_TRANSITIONS).join(", ")}`,
+      });
+    }
+
+    try {
+      const order = await db("orders").where({ id }).first();
+      if (!order) return res.status(404).json({ error: "Pedido não encontrado" });
+
+      const allowed = ORDER_TRANSITIONS[order.status] || [];
+      if (!allowed.includes(status)) {
+        return res.status(409).json({
+          error: `Não é possível mudar de "${order.status}" para "${status}"`,
+        });
+      }
+      if (status === "delivered" && order.paymentStatus === "pending") {
+        return res
+          .status(409)
+          .json({ error: "Confirme o pagamento no balcão antes de entregar." });
+      }
+
+      // O filtro pelo status atual evita sobrescrever a ação de outra tela
+      const changed = await db("orders")
+        .where({ id, status: order.status })
+        .update({
+          status,
+          [ORDER_STATUS_TIMESTAMPS[status]]: new Date().toISOString(),
+        });
+      if (changed === 0) {
+        return res
+          .status(409)
+          .json({ error: "O pedido foi alterado por outra tela. Atualize." });
+      }
+      const updated = serializeOrder(
+        await db("orders").where({ id }).first()
+      );
+      publishOrderEvent("order-updated", updated);
+      res.json(updated);
+    } catch (err) {
+      console.error("Erro ao atualizar status do pedido:", err);
+      res.status(500).json({ error: "Falha ao atualizar pedido" });
+    }
+  }
+);
+
+// ==========================================
+// ROTAS DE PAGAMENTOS
+// ==========================================
+// pending -> approved -> refunded
+//         -> declined (o cliente pode tentar outra forma)
+//         -> cancelled (o cliente desistiu; o pedido é cancelado)
+const PAYMENT_TRANSITIONS = {
+  pending: ["approved", "declined", "cancelled"],
+  approved: ["refunded"],
+  declined: [],
+  cancelled: [],
+  refunded: [],
+};
+
+// Nomes das formas de pagamento nos relatórios e no fechamento de caixa
+const PAYMENT_METHOD_LABELS = {
+  pix: "PIX",
+  credit: "Crédito",
+  debit: "Débito",
+  counter: "Balcão",
+};
+
+// Confirmações assíncronas (simulador, webhooks) entram por aqui
+const paymentProviders = createPaymentProviders({
+  onStatusChange: (paymentId, status) => updatePaymentStatus(paymentId, status),
+});
+
+// Rota do simulador (aprovar/recusar pelo totem): só fora de produção, a
+// não ser que ENABLE_PAYMENT_SIMULATOR diga o contrário ("true"/"false").
+// Sem ela, qualquer um na rede do totem aprovaria o próprio pagamento.
+const PAYMENT_SIMULATOR_ROUTE_ENABLED =
+  paymentProviders.main.name === "simulator" &&
+  (process.env.ENABLE_PAYMENT_SIMULATOR
+    ? process.env.ENABLE_PAYMENT_SIMULATOR === "true"
+    : process.env.NODE_ENV !== "production");
+if (paymentProviders.main.name === "simulator" && !PAYMENT_SIMULATOR_ROUTE_ENABLED) {
+  console.warn(
+    "⚠️ AVISO: rota do simulador desligada. Pagamentos no cartão só se confirmam com PAYMENT_SIMULATOR_AUTO."
+  );
+}
+
+const serializePayment = (p) => ({
+  ...p,
+  amount: parseFloat(p.amount),
+  details: JSON.parse(p.details || "{}"),
+});
+
+// Grava uma nova tentativa de pagamento e a marca como vigente no pedido.
+// Pedidos zerados (quitados com pontos) já nascem aprovados.
+async function createPaymentRecord(trx, order, method) {
+  const now = new Date().toISOString();
+  const amount = parseFloat(order.total);
+  const payment = {
+    id: `pay_${crypto.randomUUID()}`,
+    orderId: order.id,
+    method,
+    provider: paymentProviders.forMethod(method).name,
+    status: amount > 0 ? "pending" : "approved",
+    amount,
+    details: "{}",
+    createdAt: now,
+    updatedAt: now,
+  };
+  await trx("payments").insert(payment);
+  await trx("orders").where({ id: order.id }).update({
+    paymentId: payment.id,
+    paymentMethod: method,
+    paymentStatus: payment.status,
+  });
+  return payment;
+}
+
+// Pede a cobrança ao provedor (fora da transação: é uma chamada externa).
+// Se o provedor falhar, o pagamento é recusado e o cliente pode tentar de novo.
+async function requestCharge(payment) {
+  const provider = paymentProviders.byName(payment.provider);
+  try {
+    const charge = await provider.createCharge({
+      paymentId: payment.id,
+      orderId: payment.orderId,
+      amount: parseFloat(payment.amount),
+      method: payment.method,
+    });
+    await db("payments")
+      .where({ id: payment.id })
+      .update({
+        externalId: charge.externalId || null,
+        details: JSON.stringify(charge.details || {}),
+        updatedAt: new Date().toISOString(),
+      });
+    if (charge.status && charge.status !== "pending") {
+      return await updatePaymentStatus(payment.id, charge.status);
+    }
+  } catch (err) {
+    console.error(`Erro no provedor ${payment.provider}:`, err.message);
+    return updatePaymentStatus(payment.id, "declined", {
+      reason: "Não foi possível iniciar o pagamento. Tente novamente.",
+    });
+  }
+  return serializePayment(await db("payments").where({ id: payment.id }).first());
+}
+
+// Aplica um novo status ao pagamento e as consequências no pedido:
+// aprovado libera para a cozinha, cancelado cancela o pedido não pago.
+async function updatePaymentStatus(paymentId, status, { reason, staffId } = {}) {
+  let released = null;
+  const payment = await db.transaction(async (trx) => {
+    const current = await trx("payments").where({ id: paymentId }).first();
+    if (!current) throw new HttpError(404, "Pagamento não encontrado");
+    if (!(PAYMENT_TRANSITIONS[current.status] || []).includes(status)) {
+      throw new HttpError(
+        409,
+        `Não é possível mudar o pagamento de "${current.status}" para "${status}"`
+      );
+    }
+
+    await trx("payments")
+      .where({ id: paymentId })
+      .update({
+        status,
+        failureReason: reason || null,
+        confirmedBy: staffId || current.confirmedBy || null,
+        updatedAt: new Date().toISOString(),
+      });
+    await trx("orders")
+      .where({ id: current.orderId, paymentId })
+      .update({ paymentStatus: status });
+
+    if (status === "approved") {
+      released = await releaseOrderToKitchen(trx, current.orderId);
+    } else if (status === "cancelled") {
+      await cancelUnpaidOrder(trx, current.orderId);
+    }
+    return trx("payments").where({ id: paymentId }).first();
+  });
+
+  // Venda concluída: emite a NFC-e
+  if (status === "approved") requestFiscalDocument(payment.orderId);
+
+  // Cozinha: pedido novo quando acaba de ser pago; atualização quando
+  // o pedido já estava na tela (ex.: pagamento no balcão confirmado)
+  if (released) {
+    publishOrderEvent("order-created", released);
+  } else {
+    const order = await db("orders").where({ id: payment.orderId }).first();
+    if (order && KITCHEN_ACTIVE_STATUSES.includes(order.status)) {
+      publishOrderEvent("order-updated", serializeOrder(order));
+    }
+  }
+  return serializePayment(payment);
+}
+
+// PIX não pago dentro do prazo: o QR deixa de valer e o cliente pode
+// escolher outra forma. Verificado sempre que o pagamento é consultado.
+async function expireIfOverdue(payment) {
+  const { expiresAt } = JSON.parse(payment.details || "{}");
+  if (payment.status !== "pending" || !expiresAt || new Date(expiresAt) > new Date()) {
+    return payment;
+  }
+  try {
+    await updatePaymentStatus(payment.id, "declined", {
+      reason: "O QR Code PIX expirou.",
+    });
+  } catch (err) {
+    // Outra requisição já mudou o status (ex.: webhook chegou junto)
+    if (!(err instanceof HttpError)) throw err;
+  }
+  return db("payments").where({ id: payment.id }).first();
+}
+
+// Pedido esquecido aguardando pagamento (o cliente saiu do totem sem pagar
+// nem desistir) segura estoque e pontos resgatados. Sem cobrança nova há
+// UNPAID_ORDER_TIMEOUT_MINUTES, o pedido é cancelado e devolve os dois.
+const UNPAID_ORDER_TIMEOUT_MS =
+  (Number(process.env.UNPAID_ORDER_TIMEOUT_MINUTES) || 15) * 60 * 1000;
+const UNPAID_ORDER_SWEEP_INTERVAL_MS = 60 * 1000;
+
+async function cancelAbandonedOrders() {
+  const cutoff = new Date(Date.now() - UNPAID_ORDER_TIMEOUT_MS).toISOString();
+  const orders = await db("orders").where({ status: "awaiting_payment" });
+  for (const order of orders) {
+    const payment = order.paymentId
+      ? await db("payments").where({ id: order.paymentId }).first()
+      : null;
+    // O prazo recomeça a cada nova tentativa de pagamento
+    if ((payment?.createdAt || order.timestamp) > cutoff) continue;
+    try {
+      if (payment?.status === "pending") {
+        await updatePaymentStatus(payment.id, "cancelled", {
+          reason: "Pedido abandonado sem pagamento.",
+        });
+      } else {
+        // Recusado ou expirado: cancela se ninguém abriu outra cobrança
+        await db.transaction(async (trx) => {
+          const current = await trx("orders")
+            .where({ id: order.id, paymentId: order.paymentId })
+            .first();
+          if (current) await cancelUnpaidOrder(trx, order.id);
+        });
+      }
+    } catch (err) {
+      // 409: o pagamento foi aprovado enquanto isso, o pedido segue
+      if (!(err instanceof HttpError)) {
+        console.error(`Falha ao cancelar o pedido abandonado ${order.id}:`, err.message);
+      }
+    }
+  }
+}
+
+// Varredura periódica, ligada só depois de o banco estar pronto
+function startUnpaidOrderSweep() {
+  setInterval(() => {
+    cancelAbandonedOrders().catch((err) =>
+      console.error("Erro ao cancelar pedidos abandonados:", err.message)
+    );
+  }, UNPAID_ORDER_SWEEP_INTERVAL_MS).unref();
+}
+
+const sendPaymentError = (res, err) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error("Erro ao processar pagamento:", err);
+  res.status(500).json({ error: "Falha ao processar pagamento" });
+};
+
+// Formas de pagamento disponíveis no totem
+app.get("/api/payments/config", (req, res) => {
+  res.json({
+    methods: paymentProviders.methods,
+    simulator: PAYMENT_SIMULATOR_ROUTE_ENABLED,
+  });
+});
+
+// Pagamento (já serializado) com o resumo do pedido e o saldo de pontos
+// do cliente, para o totem mostrar a confirmação com os dados do servidor
+async function withOrderSummary(payment) {
+  const order = await db("orders").where({ id: payment.orderId }).first();
+  if (!order) throw new HttpError(404, "Pedido do pagamento não encontrado");
+  const user = order.userId ? await db("users").where({ id: order.userId }).first() : null;
+  return {
+    ...payment,
+    order: {
+      id: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      pointsEarned: order.pointsEarned,
+    },
+    userPoints: user ? user.pontos || 0 : null,
+  };
+}
+
+// Consulta feita pelo totem enquanto aguarda a confirmação. O id do
+// pagamento é aleatório; a resposta traz só o necessário para a tela.
+app.get("/api/payments/:id", async (req, res) => {
+  try {
+    const payment = await db("payments").where({ id: req.params.id }).first();
+    if (!payment) throw new HttpError(404, "Pagamento não encontrado");
+    res.json(await withOrderSummary(serializePayment(await expireIfOverdue(payment))));
+  } catch (err) {
+    sendPaymentError(res, err);
+  }
+});
+
+// Nova tentativa com outra forma de pagamento após uma recusa
+app.post("/api/orders/:id/payments", async (req, res) => {
+  const { method } = req.body || {};
+  if (!paymentProviders.methods.includes(method)) {
+    return res.status(400).json({
+      error: `method deve ser um de: ${paymentProviders.methods.join(", ")}`,
+    });
+  }
+
+  try {
+    let payment = null;
+    let released = null;
+    await db.transaction(async (trx) => {
+      const order = await trx("orders").where({ id: req.params.id }).first();
+      if (!order) throw new HttpError(404, "Pedido não encontrado");
+      if (order.status !== "awaiting_payment" || order.paymentStatus === "pending") {
+        throw new HttpError(409, "Este pedido não aguarda uma nova forma de pagamento");
+      }
+      payment = await createPaymentRecord(trx, order, method);
+      if (method === "counter") {
+        released = await releaseOrderToKitchen(trx, order.id);
+      }
+    });
+    if (released) publishOrderEvent("order-created", released);
+    payment =
+      payment.status === "pending"
+        ? await requestCharge(payment)
+        : serializePayment(payment);
+    // No balcão o pedido já foi liberado: vai junto o número e o saldo
+    res.status(201).json(await withOrderSummary(payment));
+  } catch (err) {
+    sendPaymentError(res, err);
+  }
+});
+
+// Cliente desistiu no totem: cancela a cobrança e o pedido não pago
+app.post("/api/payments/:id/cancel", async (req, res) => {
+  try {
+    const payment = await db("payments").where({ id: req.params.id }).first();
+    if (payment?.method === "counter") {
+      throw new HttpError(409, "Pagamentos no balcão são cancelados pela cozinha");
+    }
+    // Depois de uma recusa a cobrança já acabou; só o pedido é cancelado,
+    // e só se ninguém abriu outra cobrança para ele (nova tentativa)
+    if (payment?.status === "declined") {
+      await db.transaction(async (trx) => {
+        const current = await trx("orders")
+          .where({ id: payment.orderId, paymentId: payment.id, status: "awaiting_payment" })
+          .first();
+        if (!current) {
+          throw new HttpError(409, "Este pagamento não é mais o atual do pedido");
+        }
+        await cancelUnpaidOrder(trx, payment.orderId);
+      });
+      return res.json(serializePayment(payment));
+    }
+    res.json(await updatePaymentStatus(req.params.id, "cancelled"));
+  } catch (err) {
+    sendPaymentError(res, err);
+  }
+});
+
+// Caixa confirma que recebeu o pagamento no balcão
+app.post(
+  "/api/payments/:id/confirm",
+  requireRole("kitchen", "admin"),
+  async (req, res) => {
+    try {
+      const payment = await db("payments").where({ id: req.params.id }).first();
+      if (payment && payment.method !== "counter") {
+        throw new HttpError(409, "Apenas pagamentos no balcão são confirmados manualmente");
+      }
+      res.json(
+        await updatePaymentStatus(req.params.id, "approved", {
+          staffId: req.staff.id,
+        })
+      );
+    } catch (err) {
+      sendPaymentError(res, err);
+    }
+  }
+);
+
+/**
+ * Estorna o pagamento inteiro. É o cancelamento do pedido (mesmo fluxo de
+ * POST /api/orders/:id/cancel): o pedido sai da cozinha, os pontos são
+ * desfeitos, o estoque pode voltar e a ação fica na auditoria.
+ * Corpo: { reason, note?, restock? }
+ */
+app.post(
+  "/api/payments/:id/refund",
+  requireRole("admin"),
+  async (req, res) => {
+    try {
+      const payment = await db("payments").where({ id: req.params.id }).first();
+      if (!payment) throw new HttpError(404, "Pagamento não encontrado");
+      if (payment.status !== "approved") {
+        throw new HttpError(409, "Só pagamentos aprovados podem ser estornados");
+      }
+      const { reasonCode, note } = parseAdjustmentReason(req.body);
+      const order = await cancelOrder(payment.orderId, {
+        reasonCode,
+        note,
+        restock: req.body.restock,
+        staff: req.staff,
+      });
+      publishOrderEvent("order-updated", order);
+      res.json(serializePayment(await db("payments").where({ id: payment.id }).first()));
+    } catch (err) {
+      sendPaymentError(res, err);
+    }
+  }
+);
+
+// Webhook do PIX no formato da API PIX do Banco Central: o PSP avisa cada
+// PIX recebido na chave da loja, identificado pelo txid da cobrança.
+// Corpo: { pix: [{ endToEndId, txid, valor, horario }] }
+// Sem PIX_WEBHOOK_SECRET o webhook fica desligado: quem soubesse um txid
+// poderia aprovar o pedido. Localmente, o mesmo segredo no .env vale para
+// o servidor e para o scripts/pixWebhookStub.js.
+const PIX_WEBHOOK_SECRET = process.env.PIX_WEBHOOK_SECRET;
+if (!PIX_WEBHOOK_SECRET) {
+  console.warn(
+    "⚠️ AVISO: PIX_WEBHOOK_SECRET não definido. O webhook do PIX recusa todas as chamadas e os PIX não são confirmados."
+  );
+}
+
+// Compara o segredo em tempo constante
+const isValidWebhookSecret = (value) => {
+  const expected = Buffer.from(PIX_WEBHOOK_SECRET);
+  const received = Buffer.from(String(value || ""));
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+app.post("/api/payments/webhooks/pix", async (req, res) => {
+  if (!PIX_WEBHOOK_SECRET) {
+    return res.status(503).json({ error: "Webhook do PIX desativado: defina PIX_WEBHOOK_SECRET" });
+  }
+  if (!isValidWebhookSecret(req.headers["x-webhook-secret"])) {
+    return res.status(401).json({ error: "Assinatura do webhook inválida" });
+  }
+  const notifications = req.body?.pix;
+  if (!Array.isArray(notifications)) {
+    return res.status(400).json({ error: 'O corpo deve conter a lista "pix"' });
+  }
+
+  try {
+    const results = [];
+    for (const pix of notifications) {
+      const txid = String(pix?.txid || "");
+      let payment = await db("payments")
+        .where({ provider: "pix", externalId: txid })
+        .first();
+      if (!payment) {
+        results.push({ txid, result: "unknown" });
+        continue;
+      }
+
+      payment = await expireIfOverdue(payment);
+      if (payment.status !== "pending") {
+        // Pago depois de expirar/cancelar: precisa ser devolvido pelo banco
+        console.warn(
+          `⚠️ PIX ${pix.endToEndId} recebido para pagamento "${payment.status}" (${payment.id}).`
+        );
+        results.push({ txid, result: "ignored" });
+        continue;
+      }
+      if (Math.abs(Number(pix.valor) - parseFloat(payment.amount)) > 0.005) {
+        console.warn(
+          `⚠️ PIX ${pix.endToEndId} com valor R$ ${pix.valor} diferente da cobrança ${payment.id}.`
+        );
+        results.push({ txid, result: "amount_mismatch" });
+        continue;
+      }
+
+      await db("payments")
+        .where({ id: payment.id })
+        .update({
+          details: JSON.stringify({
+            ...JSON.parse(payment.details || "{}"),
+            endToEndId: pix.endToEndId || null,
+            paidAt: pix.horario || new Date().toISOString(),
+          }),
+        });
+      await updatePaymentStatus(payment.id, "approved");
+      results.push({ txid, result: "approved" });
+    }
+    res.json({ results });
+  } catch (err) {
+    sendPaymentError(res, err);
+  }
+});
+
+// Simulador: aprova ou recusa uma cobrança pendente (desenvolvimento local).
+// A rota só existe com o simulador liberado (PAYMENT_SIMULATOR_ROUTE_ENABLED).
+if (PAYMENT_SIMULATOR_ROUTE_ENABLED) {
+  app.post("/api/payments/:id/simulate", async (req, res) => {
+    const { status } = req.body || {};
+    if (!["approved", "declined"].includes(status)) {
+      return res
+        .status(400)
+        .json({ error: 'status deve ser "approved" ou "declined"' });
+    }
+
+    try {
+      const payment = await db("payments").where({ id: req.params.id }).first();
+      if (payment?.provider !== "simulator") {
+        throw new HttpError(404, "Pagamento não encontrado");
+      }
+      const updated = await updatePaymentStatus(payment.id, status, {
+        reason: status === "declined" ? "Pagamento recusado (simulador)" : null,
+      });
+      res.json(await withOrderSummary(updated));
+    } catch (err) {
+      sendPaymentError(res, err);
+    }
+  });
+}
+
+// ==========================================
+// ROTAS DE COMPROVANTES
+// ==========================================
+// Comprovante do cliente (não fiscal): impresso no totem, aberto pelo QR
+// Code da tela de confirmação ou enviado ao e-mail do cadastro. O id do
+// pedido é aleatório e funciona como o "link" do comprovante.
+const STORE_INFO = {
+  name: process.env.STORE_NAME || process.env.PIX_MERCHANT_NAME || "Pastelaria Kiosk Pro",
+  address: process.env.STORE_ADDRESS || "",
+  document: process.env.STORE_CNPJ ? `CNPJ ${process.env.STORE_CNPJ}` : "",
+};
+// Endereço público do backend usado no QR Code (o celular do cliente
+// precisa alcançá-lo; em produção aponte para o domínio da loja)
+const RECEIPT_BASE_URL = (process.env.RECEIPT_BASE_URL || `http://localhost:${PORT}`).replace(
+  /\/$/,
+  ""
+);
+const RECEIPT_FORMATS = ["html", "pdf", "escpos", "json"];
+
+// RECEIPT_PRINTER=tcp ou file, como a impressora da cozinha
+const receiptPrinter = createPrinterFromEnv("RECEIPT", {
+  defaultPath: path.join(process.cwd(), "data", "receipts.bin"),
+});
+console.log(`🧾 Impressora de comprovantes: ${receiptPrinter.name}`);
+
+// MAIL_DRIVER=file (arquivos .eml em data/outbox) ou smtp
+const mailer = createMailerFromEnv({
+  defaultOutboxDir: path.join(process.cwd(), "data", "outbox"),
+});
+console.log(`✉️ Envio de e-mails: ${mailer.name}`);
+
+// Opções, componentes de combo e observação de um item, uma por linha
+const receiptItemDetails = (item) => [
+  ...(item.components || []).flatMap((c) => [
+    c.name,
+    ...(c.modifiers || []).map((m) => `  ${m.name}`),
+  ]),
+  ...(item.modifiers || []).map((m) => m.name),
+  ...(item.notes ? [`Obs: ${item.notes}`] : []),
+];
+
+// ***.982.247-**: o comprovante digital é aberto por link, sem login
+const maskCpf = (cpf) => `***.${cpf.slice(3, 6)}.${cpf.slice(6, 9)}-**`;
+
+// Dados do DANFE NFC-e impressos no comprovante (nota autorizada ou
+// emitida em contingência)
+function receiptFiscal(document, customer) {
+  if (!document || !["authorized", "contingency"].includes(document.status)) return null;
+  const authorized = document.authorizedAt
+    ? storeClock(new Date(document.authorizedAt), STORE_TIMEZONE)
+    : null;
+  return {
+    number: document.number,
+    series: document.series,
+    issuedAt: `${formatDateBR(document.issuedAt.slice(0, 10))} ${document.issuedAt.slice(11, 19)}`,
+    accessKey: document.accessKey,
+    protocol: document.protocol || null,
+    authorizedAt: authorized ? `${formatDateBR(authorized.date)} ${authorized.time}` : null,
+    contingency: document.emissionType === EMISSION_OFFLINE,
+    homologation: FISCAL_ISSUER.environment === 2,
+    consultUrl: FISCAL_CONSULT_URL,
+    qrCodeUrl: document.qrCodeUrl,
+    customerCpf: customer?.cpf ? maskCpf(customer.cpf) : null,
+  };
+}
+
+function receiptFromOrder(order, { fiscalDocument = null, customer = null } = {}) {
+  const clock = storeClock(new Date(order.receivedAt || order.timestamp), STORE_TIMEZONE);
+  const discounts = order.discounts.map((d) => ({ name: d.name, amount: d.amount }));
+  if (order.pointsDiscount > 0) {
+    discounts.push({
+      name: `Resgate de ${order.pointsRedeemed} pontos`,
+      amount: order.pointsDiscount,
+    });
+  }
+  return {
+    store: STORE_INFO,
+    orderId: order.id,
+    number: formatOrderNumber(order),
+    placedAt: `${formatDateBR(clock.date)} ${clock.time}`,
+    customerName: order.userName || null,
+    status: order.status,
+    items: order.items.map((item) => ({
+      quantity: item.quantity,
+      name: item.name,
+      details: receiptItemDetails(item),
+      total: roundMoney(item.price * item.quantity),
+    })),
+    subtotal: order.subtotal,
+    discounts,
+    total: order.total,
+    refunded: order.refundedTotal,
+    payment: {
+      method: order.paymentMethod,
+      label: PAYMENT_METHOD_LABELS[order.paymentMethod] || order.paymentMethod || "-",
+      pending: order.paymentStatus === "pending",
+    },
+    pointsEarned: order.userId ? order.pointsEarned || 0 : 0,
+    pointsRedeemed: order.pointsRedeemed || 0,
+    url: `${RECEIPT_BASE_URL}/api/receipts/${order.id}`,
+    fiscal: receiptFiscal(fiscalDocument, customer),
+  };
+}
+
+// Só pedidos liberados têm comprovante (sem pagamento não houve compra)
+async function findReceiptOrder(orderId) {
+  const order = await db("orders").where({ id: orderId }).first();
+  if (!order || order.status === "awaiting_payment") {
+    throw new HttpError(404, "Comprovante não encontrado");
+  }
+  return serializeOrder(order);
+}
+
+// Comprovante com a NFC-e do pedido. Na impressão e no e-mail a nota é
+// emitida na hora se ainda não existir (ou aguardada, se já está a caminho).
+async function loadReceipt(order, { issue = false } = {}) {
+  let fiscalDocument = null;
+  if (issue && order.paymentStatus === "approved") {
+    fiscalDocument = await issueFiscalDocument(order.id).catch((err) => {
+      console.error(`Falha ao emitir a NFC-e do pedido ${order.id}:`, err.message);
+      return null;
+    });
+  }
+  fiscalDocument ||= await db("fiscal_documents").where({ orderId: order.id }).first();
+  const customer = order.userId ? await db("users").where({ id: order.userId }).first() : null;
+  return receiptFromOrder(order, { fiscalDocument, customer });
+}
+
+const sendReceiptError = (res, err, action) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error(`Erro ao ${action} comprovante:`, err);
+  res.status(500).json({ error: `Falha ao ${action} comprovante` });
+};
+
+// ?format=html (padrão, página do QR Code), pdf, escpos ou json.
+// &print=1 abre a impressão do navegador (totem sem impressora térmica).
+app.get("/api/receipts/:orderId", async (req, res) => {
+  const format = req.query.format || "html";
+  if (!RECEIPT_FORMATS.includes(format)) {
+    return res
+      .status(400)
+      .json({ error: `format deve ser um de: ${RECEIPT_FORMATS.join(", ")}` });
+  }
+  try {
+    const receipt = await loadReceipt(await findReceiptOrder(req.params.orderId));
+    const filename = `comprovante-${receipt.number}`;
+    if (format === "json") return res.json(receipt);
+    if (format === "html") {
+      return res
+        .type("html")
+        .send(receiptToHtml(receipt, { autoPrint: req.query.print === "1" }));
+    }
+    if (format === "pdf") {
+      res.set("Content-Type", CONTENT_TYPES.pdf);
+      res.set("Content-Disposition", `inline; filename="${filename}.pdf"`);
+      return res.send(await receiptToPdf(receipt));
+    }
+    res.set("Content-Type", "application/octet-stream");
+    res.set("Content-Disposition", `attachment; filename="${filename}.bin"`);
+    res.send(receiptToEscPos(receipt, { columns: receiptPrinter.columns }));
+  } catch (err) {
+    sendReceiptError(res, err, "gerar");
+  }
+});
+
+// Impressão na impressora térmica do totem
+app.post("/api/receipts/:orderId/print", async (req, res) => {
+  if (!receiptPrinter.enabled) {
+    return res
+      .status(409)
+      .json({ error: "Nenhuma impressora de comprovantes configurada (RECEIPT_PRINTER)" });
+  }
+  try {
+    const receipt = await loadReceipt(await findReceiptOrder(req.params.orderId), {
+      issue: true,
+    });
+    await receiptPrinter.print(receiptToEscPos(receipt, { columns: receiptPrinter.columns }));
+    res.json({ ok: true, printer: receiptPrinter.name });
+  } catch (err) {
+    if (err instanceof HttpError) return sendReceiptError(res, err, "imprimir");
+    console.error(`Falha ao imprimir o comprovante do pedido ${req.params.orderId}:`, err.message);
+    res.status(502).json({ error: `A impressora não respondeu: ${err.message}` });
+  }
+});
+
+// Envio por e-mail: sempre para o endereço do cadastro do cliente, nunca
+// para um informado na requisição (o totem é público)
+app.post("/api/receipts/:orderId/email", async (req, res) => {
+  if (!mailer.enabled) {
+    return res.status(409).json({ error: "Envio de e-mails não configurado (MAIL_DRIVER)" });
+  }
+  try {
+    const order = await findReceiptOrder(req.params.orderId);
+    const user = order.userId ? await db("users").where({ id: order.userId }).first() : null;
+    if (!user?.email) {
+      throw new HttpError(409, "Nenhum e-mail cadastrado para este cliente");
+    }
+    const receipt = await loadReceipt(order, { issue: true });
+    await mailer.send({
+      to: user.email,
+      subject: `Comprovante do pedido #${receipt.number} - ${STORE_INFO.name}`,
+      text:
+        `Olá${user.name ? `, ${user.name}` : ""}!\n\n` +
+        `Segue o comprovante do seu pedido #${receipt.number} ` +
+        `(R$ ${receipt.total.toFixed(2).replace(".", ",")}).\n` +
+        `Também disponível em ${receipt.url}\n\n${STORE_INFO.name}`,
+      html: receiptToHtml(receipt),
+      attachments: [
+        {
+          filename: `comprovante-${receipt.number}.pdf`,
+          contentType: CONTENT_TYPES.pdf,
+          content: await receiptToPdf(receipt),
+        },
+      ],
+    });
+    res.json({ ok: true, to: maskEmail(user.email) });
+  } catch (err) {
+    if (err instanceof HttpError) return sendReceiptError(res, err, "enviar");
+    console.error(`Falha ao enviar o comprovante do pedido ${req.params.orderId}:`, err.message);
+    res.status(502).json({ error: `Não foi possível enviar o e-mail: ${err.message}` });
+  }
+});
+
+// ==========================================
+// ROTAS FISCAIS (NFC-e)
+// ==========================================
+// Cada pedido pago gera uma NFC-e:
+//   1. pagamento aprovado: a nota é numerada, montada e assinada
+//   2. envio à SEFAZ pelo provedor fiscal: autorizada, rejeitada ou, sem
+//      resposta, reemitida em contingência offline (tpEmis 9) para o
+//      cliente sair com o DANFE
+//   3. notas em contingência são reenviadas pela fila, com espera
+//      crescente entre as tentativas, até a autorização
+//   4. pedido cancelado ou estornado por inteiro: a nota autorizada é
+//      cancelada na SEFAZ (evento 110111), pela fila se ela não responder
+// FISCAL_PROVIDER=mock usa a SEFAZ simulada; sem configuração não há NFC-e.
+const fiscalProvider = createFiscalProviderFromEnv();
+console.log(`🧾 NFC-e: ${fiscalProvider ? `provedor ${fiscalProvider.name}` : "desligada"}`);
+
+const FISCAL_ISSUER = {
+  cnpj: process.env.FISCAL_CNPJ || "11222333000181",
+  ie: process.env.FISCAL_IE || "",
+  name: process.env.FISCAL_NAME || STORE_INFO.name,
+  uf: process.env.FISCAL_UF || "SP",
+  cityCode: process.env.FISCAL_CITY_CODE || "3550308",
+  city: process.env.FISCAL_CITY || "Sao Paulo",
+  street: process.env.FISCAL_STREET || "Endereco nao informado",
+  number: process.env.FISCAL_NUMBER || "S/N",
+  district: process.env.FISCAL_DISTRICT || "Centro",
+  cep: process.env.FISCAL_CEP || "01001000",
+  // 1 = Simples Nacional, 3 = regime normal
+  crt: Number(process.env.FISCAL_CRT) || 1,
+  // 1 = produção, 2 = homologação (sem valor fiscal)
+  environment: Number(process.env.FISCAL_ENVIRONMENT) || 2,
+};
+const FISCAL_SERIES = Number(process.env.FISCAL_SERIES) || 1;
+// CSC: código de segurança do contribuinte, usado no hash do QR Code
+const FISCAL_CSC = process.env.FISCAL_CSC || "0123456789";
+const FISCAL_CSC_ID = process.env.FISCAL_CSC_ID || "1";
+// Endereços de consulta da SEFAZ (padrão: página da SEFAZ simulada)
+const FISCAL_QRCODE_URL =
+  process.env.FISCAL_QRCODE_URL || `${RECEIPT_BASE_URL}/api/fiscal/mock/qrcode`;
+const FISCAL_CONSULT_URL =
+  process.env.FISCAL_CONSULT_URL || `${RECEIPT_BASE_URL}/api/fiscal/mock/qrcode`;
+
+if (fiscalProvider && !process.env.FISCAL_CNPJ) {
+  console.warn("⚠️ AVISO: FISCAL_CNPJ não definido. As NFC-e usarão um CNPJ de exemplo.");
+}
+
+// Espera entre as tentativas de envio: 30s, 1min, 2min... até 30min
+const FISCAL_QUEUE_INTERVAL_MS = Number(process.env.FISCAL_QUEUE_INTERVAL_MS) || 30000;
+const FISCAL_RETRY_BASE_MS = 30000;
+const FISCAL_RETRY_MAX_MS = 30 * 60 * 1000;
+const fiscalRetryDelay = (attempts) =>
+  Math.min(FISCAL_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), FISCAL_RETRY_MAX_MS);
+
+// Certificado A1 em PEM (FISCAL_CERT_KEY_PATH e FISCAL_CERT_PATH). Sem ele
+// as notas são assinadas com uma chave temporária, aceita só pela SEFAZ
+// simulada.
+let fiscalSigner = null;
+function getFiscalSigner() {
+  if (!fiscalSigner) {
+    fiscalSigner = (async () => {
+      const keyPath = process.env.FISCAL_CERT_KEY_PATH;
+      if (!keyPath) {
+        console.warn(
+          "⚠️ AVISO: FISCAL_CERT_KEY_PATH não definido. As NFC-e serão assinadas com uma chave de teste."
+        );
+        const { privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+        return { key: privateKey, certificate: null };
+      }
+      const key = await fs.readFile(keyPath, "utf-8");
+      const certificate = process.env.FISCAL_CERT_PATH
+        ? (await fs.readFile(process.env.FISCAL_CERT_PATH, "utf-8")).replace(
+            /-----[^-]+-----|\s/g,
+            ""
+          )
+        : null;
+      return { key, certificate };
+    })().catch((err) => {
+      fiscalSigner = null;
+      throw err;
+    });
+  }
+  return fiscalSigner;
+}
+
+// Classificação fiscal dos produtos do pedido e o cliente identificado
+async function loadFiscalContext(order) {
+  const productIds = order.items.flatMap((it) =>
+    it.components ? it.components.map((c) => c.productId) : [it.productId]
+  );
+  const products = await db("products").whereIn("id", productIds).select("id", "ncm", "cfop", "cst");
+  const user = order.userId ? await db("users").where({ id: order.userId }).first() : null;
+  return {
+    taxes: Object.fromEntries(products.map((p) => [p.id, p])),
+    customer: user?.cpf ? { cpf: user.cpf, name: user.name } : null,
+    signer: await getFiscalSigner(),
+  };
+}
+
+// XML assinado e QR Code de uma nota (na emissão, na entrada em
+// contingência e no reenvio depois de corrigir o cadastro)
+function buildFiscalXml(order, { taxes, customer, signer }, fields) {
+  const { accessKey, infNfe } = buildInfNfe({
+    order,
+    orderNumber: formatOrderNumber(order),
+    taxes,
+    issuer: FISCAL_ISSUER,
+    customer,
+    ...fields,
+  });
+  const { digestValue, signature } = signInfNfe(infNfe, accessKey, signer);
+  const qrCodeUrl = buildQrCodeUrl({
+    baseUrl: FISCAL_QRCODE_URL,
+    accessKey,
+    environment: FISCAL_ISSUER.environment,
+    csc: FISCAL_CSC,
+    cscId: FISCAL_CSC_ID,
+    emissionType: fields.emissionType,
+    issuedAt: fields.issuedAt,
+    total: order.total,
+    digestValue,
+  });
+  return {
+    accessKey,
+    qrCodeUrl,
+    xml: assembleNfeXml({ infNfe, qrCodeUrl, consultUrl: FISCAL_CONSULT_URL, signature }),
+  };
+}
+
+// Campos da nota que entram no XML (mantidos ao remontá-lo)
+const fiscalFields = (document) => ({
+  series: document.series,
+  number: document.number,
+  code: document.code,
+  issuedAt: document.issuedAt,
+  emissionType: document.emissionType,
+  contingency:
+    document.emissionType === EMISSION_OFFLINE
+      ? { at: document.contingencyAt, reason: document.contingencyReason }
+      : null,
+});
+
+const loadOrderForFiscal = async (orderId) =>
+  serializeOrder(await db("orders").where({ id: orderId }).first());
+
+// Envia a nota à SEFAZ e grava o resultado. Sem resposta, a nota emitida
+// normalmente é refeita em contingência offline (nova chave, tpEmis 9).
+async function transmitFiscalDocument(document) {
+  const now = new Date();
+  const attempts = (document.attempts || 0) + 1;
+  let changes;
+  try {
+    const result = await fiscalProvider.authorize({
+      accessKey: document.accessKey,
+      xml: document.xml,
+    });
+    changes =
+      result.status === "authorized"
+        ? {
+            status: "authorized",
+            protocol: result.protocol,
+            authorizedAt: result.authorizedAt,
+            rejectionCode: null,
+            rejectionReason: null,
+          }
+        : { status: "rejected", rejectionCode: result.code, rejectionReason: result.reason };
+    Object.assign(changes, { nextAttemptAt: null, lastError: null });
+  } catch (err) {
+    console.error(`SEFAZ sem resposta para a NFC-e ${document.number}:`, err.message);
+    changes = {
+      status: "contingency",
+      lastError: err.message,
+      nextAttemptAt: new Date(now.getTime() + fiscalRetryDelay(attempts)).toISOString(),
+    };
+    if (document.emissionType === EMISSION_NORMAL) {
+      const order = await loadOrderForFiscal(document.orderId);
+      const contingency = {
+        at: formatFiscalDate(now, STORE_TIMEZONE),
+        reason: `SEFAZ indisponivel: ${err.message}`.slice(0, 256),
+      };
+      const built = buildFiscalXml(order, await loadFiscalContext(order), {
+        ...fiscalFields(document),
+        emissionType: EMISSION_OFFLINE,
+        contingency,
+      });
+      Object.assign(changes, built, {
+        emissionType: EMISSION_OFFLINE,
+        contingencyAt: contingency.at,
+        contingencyReason: contingency.reason,
+      });
+    }
+  }
+  await db("fiscal_documents")
+    .where({ id: document.id })
+    .update({ ...changes, attempts, updatedAt: now.toISOString() });
+  return db("fiscal_documents").where({ id: document.id }).first();
+}
+
+// Numera, monta e assina a nota do pedido e faz o primeiro envio
+async function createFiscalDocument(orderId) {
+  const existing = await db("fiscal_documents").where({ orderId }).first();
+  if (existing) return existing;
+
+  const order = await loadOrderForFiscal(orderId);
+  const context = await loadFiscalContext(order);
+  const now = new Date();
+  const document = await db.transaction(async (trx) => {
+    // Número sequencial por série, reservado junto com a gravação
+    const last = await trx("fiscal_documents")
+      .where({ series: FISCAL_SERIES })
+      .max("number as number")
+      .first();
+    const fields = {
+      series: FISCAL_SERIES,
+      number: (last?.number || 0) + 1,
+      code: String(crypto.randomInt(10 ** 8)).padStart(8, "0"),
+      issuedAt: formatFiscalDate(now, STORE_TIMEZONE),
+      emissionType: EMISSION_NORMAL,
+    };
+    const row = {
+      orderId,
+      series: fields.series,
+      number: fields.number,
+      code: fields.code,
+      issuedAt: fields.issuedAt,
+      emissionType: fields.emissionType,
+      ...buildFiscalXml(order, context, fields),
+      status: "pending",
+      attempts: 0,
+      updatedAt: now.toISOString(),
+    };
+    const [id] = await trx("fiscal_documents").insert(row);
+    return { id, ...row };
+  });
+  return transmitFiscalDocument(document);
+}
+
+// Uma operação por pedido de cada vez (emissão, fila ou reenvio manual);
+// chamadas simultâneas recebem o mesmo resultado
+const fiscalJobs = new Map();
+function runFiscalJob(orderId, job) {
+  if (!fiscalJobs.has(orderId)) {
+    fiscalJobs.set(
+      orderId,
+      job().finally(() => fiscalJobs.delete(orderId))
+    );
+  }
+  return fiscalJobs.get(orderId);
+}
+
+/**
+ * NFC-e do pedido, emitida na primeira chamada. Resolve depois do envio à
+ * SEFAZ (ou da entrada em contingência); null com a emissão desligada.
+ */
+function issueFiscalDocument(orderId) {
+  if (!fiscalProvider) return Promise.resolve(null);
+  return runFiscalJob(orderId, () => createFiscalDocument(orderId));
+}
+
+// Disparo após o pagamento: uma falha fica no log (o admin pode emitir de
+// novo pela rota POST /api/fiscal/documents)
+function requestFiscalDocument(orderId) {
+  issueFiscalDocument(orderId).catch((err) =>
+    console.error(`Falha ao emitir a NFC-e do pedido ${orderId}:`, err.message)
+  );
+}
+
+// Justificativa do cancelamento: o motivo do último ajuste com devolução
+async function fiscalCancelReason(orderId) {
+  const adjustment = await db("order_adjustments")
+    .where({ orderId, status: "done" })
+    .andWhere("amount", ">", 0)
+    .orderBy("id", "desc")
+    .first();
+  if (!adjustment) return "Pedido cancelado e valor devolvido ao cliente";
+  const { reasonLabel, note } = serializeAdjustment(adjustment);
+  return `Pedido cancelado: ${reasonLabel}${note ? ` - ${note}` : ""}`;
+}
+
+// Cancela na SEFAZ a nota autorizada de um pedido estornado por inteiro.
+// Sem resposta, a fila tenta de novo; uma rejeição fica na nota para o admin.
+async function cancelFiscalDocument(orderId) {
+  const document = await db("fiscal_documents").where({ orderId }).first();
+  const order = await db("orders").where({ id: orderId }).first();
+  if (document?.status !== "authorized" || order?.paymentStatus !== "refunded") {
+    return document || null;
+  }
+  const now = new Date();
+  const attempts = (document.attempts || 0) + 1;
+  const { xml } = buildCancelEvent({
+    accessKey: document.accessKey,
+    protocol: document.protocol,
+    reason: await fiscalCancelReason(orderId),
+    issuer: FISCAL_ISSUER,
+    issuedAt: formatFiscalDate(now, STORE_TIMEZONE),
+    signer: await getFiscalSigner(),
+  });
+  let changes;
+  try {
+    const result = await fiscalProvider.cancel({
+      accessKey: document.accessKey,
+      protocol: document.protocol,
+      xml,
+    });
+    changes =
+      result.status === "cancelled"
+        ? {
+            status: "cancelled",
+            cancelXml: xml,
+            cancelProtocol: result.protocol,
+            cancelledAt: result.cancelledAt,
+            cancelRejection: null,
+          }
+        : { cancelRejection: `${result.code} - ${result.reason}` };
+    Object.assign(changes, { nextAttemptAt: null, lastError: null });
+  } catch (err) {
+    console.error(`SEFAZ sem resposta ao cancelar a NFC-e ${document.number}:`, err.message);
+    changes = {
+      lastError: err.message,
+      nextAttemptAt: new Date(now.getTime() + fiscalRetryDelay(attempts)).toISOString(),
+    };
+  }
+  await db("fiscal_documents")
+    .where({ id: document.id })
+    .update({ ...changes, attempts, updatedAt: now.toISOString() });
+  return db("fiscal_documents").where({ id: document.id }).first();
+}
+
+// Disparo após o cancelamento ou estorno total do pedido. Uma emissão em
+// andamento termina antes (a nota recém-autorizada também é cancelada).
+async function requestFiscalCancellation(orderId) {
+  if (!fiscalProvider) return;
+  try {
+    await fiscalJobs.get(orderId)?.catch(() => {});
+    await runFiscalJob(orderId, () => cancelFiscalDocument(orderId));
+  } catch (err) {
+    console.error(`Falha ao cancelar a NFC-e do pedido ${orderId}:`, err.message);
+  }
+}
+
+// Fila: reenvia as notas em contingência (e pendentes esquecidas por uma
+// queda do servidor) quando chega a hora da próxima tentativa, e cancela
+// as notas autorizadas de pedidos estornados
+async function processFiscalQueue() {
+  const now = new Date().toISOString();
+  const due = await db("fiscal_documents")
+    .whereIn("status", ["pending", "contingency"])
+    .andWhere((q) => q.whereNull("nextAttemptAt").orWhere("nextAttemptAt", "<=", now))
+    .orderBy("id");
+  for (const document of due) {
+    if (fiscalJobs.has(document.orderId)) continue;
+    await runFiscalJob(document.orderId, () => transmitFiscalDocument(document)).catch((err) =>
+      console.error(`Falha ao reenviar a NFC-e ${document.number}:`, err.message)
+    );
+  }
+
+  const toCancel = await db("fiscal_documents")
+    .join("orders", "orders.id", "fiscal_documents.orderId")
+    .where({ "fiscal_documents.status": "authorized", "orders.paymentStatus": "refunded" })
+    .whereNull("fiscal_documents.cancelRejection")
+    .andWhere((q) =>
+      q
+        .whereNull("fiscal_documents.nextAttemptAt")
+        .orWhere("fiscal_documents.nextAttemptAt", "<=", now)
+    )
+    .orderBy("fiscal_documents.id")
+    .select("fiscal_documents.orderId", "fiscal_documents.number");
+  for (const document of toCancel) {
+    if (fiscalJobs.has(document.orderId)) continue;
+    await runFiscalJob(document.orderId, () => cancelFiscalDocument(document.orderId)).catch(
+      (err) => console.error(`Falha ao cancelar a NFC-e ${document.number}:`, err.message)
+    );
+  }
+}
+
+// Fila periódica, ligada só depois de o banco estar pronto
+function startFiscalQueue() {
+  if (!fiscalProvider) return;
+  setInterval(() => {
+    processFiscalQueue().catch((err) => console.error("Erro na fila da NFC-e:", err.message));
+  }, FISCAL_QUEUE_INTERVAL_MS).unref();
+}
+
+// Sem os XMLs (baixados pelas rotas próprias)
+const serializeFiscalDocument = ({ xml, cancelXml, ...document }) => document;
+
+const FISCAL_STATUSES = ["pending", "authorized", "contingency", "rejected", "cancelled"];
+
+const sendFiscalError = (res, err) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error("Erro na NFC-e:", err);
+  res.status(500).json({ error: "Falha ao processar a NFC-e" });
+};
+
+const requireFiscal = (req, res, next) => {
+  if (!fiscalProvider) {
+    return res.status(409).json({ error: "Emissão de NFC-e desligada (FISCAL_PROVIDER)" });
+  }
+  next();
+};
+
+// Notas emitidas, das mais recentes para as mais antigas (?status=)
+app.get("/api/fiscal/documents", requireRole("admin"), async (req, res) => {
+  const { status } = req.query;
+  if (status && !FISCAL_STATUSES.includes(status)) {
+    return res
+      .status(400)
+      .json({ error: `status deve ser um de: ${FISCAL_STATUSES.join(", ")}` });
+  }
+  const limit = Math.min(Number(req.query.limit) || 50, 500);
+  const query = db("fiscal_documents").orderBy("id", "desc").limit(limit);
+  if (status) query.where({ status });
+  res.json((await query).map(serializeFiscalDocument));
+});
+
+// XML assinado da nota (arquivo exigido na fiscalização)
+app.get("/api/fiscal/documents/:id/xml", requireRole("admin"), async (req, res) => {
+  const document = await db("fiscal_documents").where({ id: req.params.id }).first();
+  if (!document) return res.status(404).json({ error: "Nota não encontrada" });
+  res.set("Content-Type", "application/xml; charset=utf-8");
+  res.set("Content-Disposition", `attachment; filename="${document.accessKey}-nfce.xml"`);
+  res.send(document.xml);
+});
+
+// XML do evento de cancelamento (guardado junto com o da nota)
+app.get("/api/fiscal/documents/:id/cancellation/xml", requireRole("admin"), async (req, res) => {
+  const document = await db("fiscal_documents").where({ id: req.params.id }).first();
+  if (!document?.cancelXml) {
+    return res.status(404).json({ error: "Cancelamento não encontrado" });
+  }
+  res.set("Content-Type", "application/xml; charset=utf-8");
+  res.set(
+    "Content-Disposition",
+    `attachment; filename="${document.accessKey}-cancelamento.xml"`
+  );
+  res.send(document.cancelXml);
+});
+
+// Emissão manual para um pedido pago sem nota (ex.: falha na emissão automática)
+app.post("/api/fiscal/documents", requireRole("admin"), requireFiscal, async (req, res) => {
+  try {
+    const order = await db("orders").where({ id: req.body?.orderId }).first();
+    if (!order) throw new HttpError(404, "Pedido não encontrado");
+    if (order.paymentStatus !== "approved") {
+      throw new HttpError(409, "Só pedidos pagos recebem NFC-e");
+    }
+    res.status(201).json(serializeFiscalDocument(await issueFiscalDocument(order.id)));
+  } catch (err) {
+    sendFiscalError(res, err);
+  }
+});
+
+// Reenvio imediato. Notas rejeitadas são remontadas com o cadastro atual
+// dos produtos (corrija o NCM/CFOP/CST antes de reenviar). Nota autorizada
+// de pedido estornado: tenta de novo o cancelamento.
+app.post(
+  "/api/fiscal/documents/:id/retry",
+  requireRole("admin"),
+  requireFiscal,
+  async (req, res) => {
+    try {
+      const document = await db("fiscal_documents").where({ id: req.params.id }).first();
+      if (!document) throw new HttpError(404, "Nota não encontrada");
+      if (document.status === "cancelled") {
+        throw new HttpError(409, "A nota já está cancelada");
+      }
+      const order = await db("orders").where({ id: document.orderId }).first();
+      const refunded = order?.paymentStatus === "refunded";
+      if (document.status === "authorized") {
+        if (!refunded) throw new HttpError(409, "A nota já está autorizada");
+        await db("fiscal_documents")
+          .where({ id: document.id })
+          .update({ cancelRejection: null, nextAttemptAt: null });
+        const cancelled = await runFiscalJob(document.orderId, () =>
+          cancelFiscalDocument(document.orderId)
+        );
+        return res.json(serializeFiscalDocument(cancelled));
+      }
+      if (document.status === "rejected" && refunded) {
+        throw new HttpError(409, "Pedido estornado: a nota rejeitada não precisa ser reenviada");
+      }
+      const updated = await runFiscalJob(document.orderId, async () => {
+        if (document.status !== "rejected") return transmitFiscalDocument(document);
+        const order = await loadOrderForFiscal(document.orderId);
+        const built = buildFiscalXml(
+          order,
+          await loadFiscalContext(order),
+          fiscalFields(document)
+        );
+        await db("fiscal_documents")
+          .where({ id: document.id })
+          .update({ ...built, updatedAt: new Date().toISOString() });
+        return transmitFiscalDocument({ ...document, ...built });
+      });
+      res.json(serializeFiscalDocument(updated));
+    } catch (err) {
+      sendFiscalError(res, err);
+    }
+  }
+);
+
+// --- SEFAZ simulada (FISCAL_PROVIDER=mock) ---
+const requireMockSefaz = (req, res, next) => {
+  if (fiscalProvider?.name !== "mock") {
+    return res.status(404).json({ error: "SEFAZ simulada desligada (FISCAL_PROVIDER=mock)" });
+  }
+  next();
+};
+
+app.get("/api/fiscal/mock", requireRole("admin"), requireMockSefaz, (req, res) => {
+  res.json({ mode: fiscalProvider.mode, modes: MOCK_SEFAZ_MODES });
+});
+
+// Troca o comportamento da SEFAZ simulada (online, reject ou offline)
+app.put("/api/fiscal/mock", requireRole("admin"), requireMockSefaz, (req, res) => {
+  const { mode } = req.body || {};
+  if (!MOCK_SEFAZ_MODES.includes(mode)) {
+    return res
+      .status(400)
+      .json({ error: `mode deve ser um de: ${MOCK_SEFAZ_MODES.join(", ")}` });
+  }
+  fiscalProvider.setMode(mode);
+  res.json({ mode });
+});
+
+// Página aberta pelo QR Code do DANFE (?p=chave|...) ou pela consulta com
+// a chave de acesso (?chave=...), como o portal da SEFAZ
+app.get("/api/fiscal/mock/qrcode", requireMockSefaz, async (req, res) => {
+  const accessKey = String(req.query.chave || req.query.p || "")
+    .split("|")[0]
+    .replace(/\D/g, "");
+  const note = accessKey ? await fiscalProvider.lookup(accessKey) : null;
+  const body = note?.cancellation
+    ? `<h1>NFC-e cancelada</h1>
+       <p>${note.issuerName}</p>
+       <p>Protocolo do cancelamento: ${note.cancellation.protocol}</p>`
+    : note
+    ? `<h1>NFC-e autorizada</h1>
+       <p>${note.issuerName}</p>
+       <p>Valor: R$ ${note.total.toFixed(2).replace(".", ",")}</p>
+       <p>Protocolo: ${note.protocol}</p>`
+    : `<h1>NFC-e não encontrada</h1>
+       <p>Notas emitidas em contingência aparecem depois de transmitidas.</p>`;
+  res.type("html").send(`<!DOCTYPE html>
+<html lang="pt-BR"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>SEFAZ simulada - Consulta NFC-e</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 24px auto; padding: 0 16px">
+<p style="color: #b45309">SEFAZ simulada (ambiente de testes)</p>
+${body}
+<p style="font-size: 12px; color: #78716c">Chave: ${accessKey.replace(/(\d{4})(?=\d)/g, "$1 ") || "-"}</p>
+</body></html>`);
+});
+
+// ==========================================
+// ROTAS DE CANCELAMENTO E ESTORNO
+// ==========================================
+// A cozinha e o admin cancelam pedidos já liberados ou estornam parte dos
+// itens, sempre com um motivo. O dinheiro volta pelo provedor do pagamento,
+// as unidades podem voltar ao estoque, os pontos do pedido são desfeitos e
+// cada ação fica registrada em order_adjustments (quem, quando e o quê).
+
+const ADJUSTMENT_REASONS = {
+  wrong_order: "Pedido lançado errado",
+  duplicate: "Pedido duplicado",
+  customer_request: "Desistência do cliente",
+  out_of_stock: "Produto em falta",
+  quality: "Problema na qualidade",
+  delay: "Demora no preparo",
+  other: "Outro motivo",
+};
+const ADJUSTMENT_NOTE_MAX_LENGTH = 300;
+
+// A cozinha cancela até a entrega; pedidos entregues, só o admin
+const CANCELLABLE_STATUSES = ["received", "preparing", "ready"];
+// Itens podem ser estornados em qualquer etapa depois da liberação
+const REFUNDABLE_STATUSES = ["received", "preparing", "ready", "delivered"];
+
+const serializeAdjustment = (a) => ({
+  ...a,
+  amount: parseFloat(a.amount),
+  items: JSON.parse(a.items || "[]"),
+  stockRestored: Boolean(a.stockRestored),
+  reasonLabel: ADJUSTMENT_REASONS[a.reasonCode] || a.reasonCode,
+});
+
+// Motivo obrigatório (um dos códigos); "other" exige a descrição em note
+function parseAdjustmentReason(body) {
+  const { reason, note } = body || {};
+  if (!ADJUSTMENT_REASONS[reason]) {
+    throw new HttpError(
+      400,
+      `reason deve ser um de: ${Object.keys(ADJUSTMENT_REASONS).join(", ")}`
+    );
+  }
+  const text = typeof note === "string" ? note.trim() : "";
+  if (reason === "other" && !text) {
+    throw new HttpError(400, "Descreva o motivo em note");
+  }
+  if (text.length > ADJUSTMENT_NOTE_MAX_LENGTH) {
+    throw new HttpError(400, `note pode ter no máximo ${ADJUSTMENT_NOTE_MAX_LENGTH} caracteres`);
+  }
+  return { reasonCode: reason, note: text || null };
+}
+
+async function orderAdjustments(trx, orderId) {
+  const rows = await trx("order_adjustments").where({ orderId }).orderBy("id");
+  return rows.map(serializeAdjustment);
+}
+
+// Unidades já estornadas de cada linha do pedido (índice em items)
+function refundedQuantities(adjustments) {
+  const refunded = new Map();
+  for (const adjustment of adjustments.filter((a) => a.type === "refund")) {
+    for (const line of adjustment.items) {
+      refunded.set(line.index, (refunded.get(line.index) || 0) + line.quantity);
+    }
+  }
+  return refunded;
+}
+
+// Retira os pontos ganhos no pedido. Se o cliente já gastou parte deles,
+// sai só o saldo disponível (o extrato registra quanto saiu de fato).
+async function reverseEarnedPoints(trx, order, points) {
+  if (!order.userId || points <= 0) return 0;
+  const user = await trx("users").where({ id: order.userId }).first();
+  const delta = Math.min(points, user?.pontos || 0);
+  if (delta <= 0) return 0;
+  await applyPointsChange(trx, {
+    userId: order.userId,
+    orderId: order.id,
+    delta: -delta,
+    reason: "earn_reversal",
+  });
+  return delta;
+}
+
+// Devolve os pontos usados como desconto no pedido
+async function returnRedeemedPoints(trx, order, points) {
+  if (!order.userId || points <= 0) return 0;
+  await applyPointsChange(trx, {
+    userId: order.userId,
+    orderId: order.id,
+    delta: points,
+    reason: "redeem_reversal",
+  });
+  return points;
+}
+
+// Devolve o valor pelo provedor do pagamento (chamada externa: roda fora
+// das transações, depois de o ajuste ficar reservado como pendente)
+async function refundThroughProvider(order, amount) {
+  const payment = await db("payments").where({ id: order.paymentId }).first();
+  if (!payment) throw new HttpError(409, "Pagamento do pedido não encontrado");
+  try {
+    await paymentProviders.byName(payment.provider).refund(serializePayment(payment), amount);
+  } catch (err) {
+    console.error(`Estorno recusado pelo provedor ${payment.provider}:`, err.message);
+    throw new HttpError(502, "O provedor de pagamento recusou o estorno. Tente novamente.");
+  }
+}
+
+// Um ajuste por vez em cada pedido: enquanto um estiver pendente (dinheiro
+// a caminho), outra tela recebe 409 em vez de devolver o mesmo valor de novo
+async function assertNoPendingAdjustment(trx, orderId) {
+  const pending = await trx("order_adjustments").where({ orderId, status: "pending" }).first();
+  if (pending) {
+    throw new HttpError(409, "Já há um cancelamento ou estorno em andamento neste pedido. Aguarde.");
+  }
+}
+
+// Ajuste em três passos: reserve() grava o registro pendente numa transação
+// (relendo o pedido e conferindo o status), o provedor devolve o dinheiro e
+// apply() ajusta pedido, estoque e pontos em outra transação. Se o provedor
+// recusar, o registro pendente sai e o pedido fica como estava. Com o
+// pedido devolvido por inteiro, a NFC-e é cancelada na SEFAZ.
+async function runAdjustment({ reserve, apply }) {
+  const reserved = await db.transaction(reserve);
+  if (reserved.amount > 0) {
+    try {
+      await refundThroughProvider(reserved.order, reserved.amount);
+    } catch (err) {
+      await db("order_adjustments").where({ id: reserved.adjustmentId }).del();
+      throw err;
+    }
+  }
+  // O dinheiro já voltou: se esta etapa falhar, o registro fica pendente
+  // (e bloqueia novos ajustes) para ser conferido manualmente
+  await db.transaction((trx) => apply(trx, reserved));
+  const updated = serializeOrder(await db("orders").where({ id: reserved.order.id }).first());
+  if (updated.paymentStatus === "refunded") requestFiscalCancellation(updated.id);
+  return updated;
+}
+
+// Pagamento devolvido por inteiro
+async function markPaymentRefunded(trx, order) {
+  await trx("payments")
+    .where({ id: order.paymentId, status: "approved" })
+    .update({ status: "refunded", updatedAt: new Date().toISOString() });
+  await trx("orders").where({ id: order.id }).update({ paymentStatus: "refunded" });
+}
+
+/**
+ * Cancela um pedido já liberado para a cozinha, devolvendo o que ainda não
+ * foi estornado. Sem "restock", só voltam ao estoque as unidades de pedidos
+ * que ainda não entraram em preparo.
+ */
+async function cancelOrder(orderId, { reasonCode, note, restock: restockOption, staff }) {
+  return runAdjustment({
+    async reserve(trx) {
+      const order = await trx("orders").where({ id: orderId }).first();
+      if (!order) throw new HttpError(404, "Pedido não encontrado");
+      if (order.status === "delivered" && staff.role !== "admin") {
+        throw new HttpError(403, "Pedidos entregues só podem ser cancelados pelo admin");
+      }
+      if (![...CANCELLABLE_STATUSES, "delivered"].includes(order.status)) {
+        throw new HttpError(409, `Não é possível cancelar um pedido "${order.status}"`);
+      }
+      await assertNoPendingAdjustment(trx, order.id);
+
+      const paid = order.paymentStatus === "approved";
+      const amount = paid
+        ? roundMoney(parseFloat(order.total) - parseFloat(order.refundedTotal || 0))
+        : 0;
+      const restock = restockOption === undefined ? order.status === "received" : Boolean(restockOption);
+      const [adjustmentId] = await trx("order_adjustments").insert({
+        orderId: order.id,
+        type: "cancel",
+        status: "pending",
+        reasonCode,
+        note,
+        amount,
+        paymentMethod: order.paymentMethod,
+        stockRestored: restock,
+        staffId: staff.id,
+        staffName: staff.name,
+        createdAt: new Date().toISOString(),
+      });
+      return { order, adjustmentId, amount, paid, restock };
+    },
+
+    async apply(trx, { order, adjustmentId, paid, restock }) {
+      const now = new Date().toISOString();
+      await trx("orders")
+        .where({ id: order.id })
+        .update({
+          status: "cancelled",
+          cancelledAt: now,
+          cancelReason: reasonCode,
+          ...(paid ? { refundedTotal: order.total } : {}),
+        });
+      if (paid) {
+        await markPaymentRefunded(trx, order);
+      } else if (order.paymentStatus === "pending") {
+        // Pedido do balcão cancelado antes de ser pago: a cobrança também cai
+        await trx("payments")
+          .where({ id: order.paymentId, status: "pending" })
+          .update({ status: "cancelled", updatedAt: now });
+        await trx("orders").where({ id: order.id }).update({ paymentStatus: "cancelled" });
+      }
+
+      // Unidades ainda não estornadas (os estornos anteriores já decidiram as suas)
+      const previous = (await orderAdjustments(trx, order.id)).filter((a) => a.id !== adjustmentId);
+      const refunded = refundedQuantities(previous);
+      const lines = JSON.parse(order.items)
+        .map((item, index) => ({
+          ...item,
+          index,
+          quantity: item.quantity - (refunded.get(index) || 0),
+        }))
+        .filter((item) => item.quantity > 0);
+      if (restock) await restoreStock(trx, lines);
+
+      const already = (key) => previous.reduce((acc, a) => acc + a[key], 0);
+      const pointsReversed = await reverseEarnedPoints(
+        trx,
+        order,
+        (order.pointsEarned || 0) - already("pointsReversed")
+      );
+      const pointsReturned = await returnRedeemedPoints(
+        trx,
+        order,
+        (order.pointsRedeemed || 0) - already("pointsReturned")
+      );
+
+      await trx("order_adjustments")
+        .where({ id: adjustmentId })
+        .update({
+          status: "done",
+          items: JSON.stringify(
+            lines.map(({ index, name, quantity }) => ({ index, name, quantity }))
+          ),
+          pointsReversed,
+          pointsReturned,
+        });
+    },
+  });
+}
+
+/**
+ * Estorna parte dos itens de um pedido pago. Cada item devolve o seu valor
+ * com o desconto proporcional do pedido; os pontos ganhos saem na mesma
+ * proporção.
+ */
+async function refundOrderItems(orderId, { reasonCode, note, items: requested, restock, staff }) {
+  return runAdjustment({
+    async reserve(trx) {
+      const row = await trx("orders").where({ id: orderId }).first();
+      if (!row) throw new HttpError(404, "Pedido não encontrado");
+      if (!REFUNDABLE_STATUSES.includes(row.status)) {
+        throw new HttpError(409, `Não é possível estornar itens de um pedido "${row.status}"`);
+      }
+      if (row.paymentStatus !== "approved") {
+        throw new HttpError(409, "O pagamento deste pedido não está aprovado: não há o que estornar");
+      }
+      await assertNoPendingAdjustment(trx, row.id);
+      const order = serializeOrder(row);
+      const refunded = refundedQuantities(await orderAdjustments(trx, order.id));
+
+      if (!Array.isArray(requested) || requested.length === 0) {
+        throw new HttpError(400, "Informe os itens a estornar em items: [{ index, quantity }]");
+      }
+      const lines = [];
+      for (const { index, quantity } of requested) {
+        const item = Number.isInteger(index) ? order.items[index] : undefined;
+        if (!item) throw new HttpError(400, `Item ${index} não existe no pedido`);
+        const available =
+          item.quantity -
+          (refunded.get(index) || 0) -
+          lines.filter((l) => l.index === index).reduce((acc, l) => acc + l.quantity, 0);
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > available) {
+          throw new HttpError(
+            400,
+            `Quantidade inválida para ${item.name}: restam ${available} unidade(s) a estornar`
+          );
+        }
+        lines.push({ index, name: item.name, quantity });
+      }
+      lines.forEach((line) => refunded.set(line.index, (refunded.get(line.index) || 0) + line.quantity));
+      const everything = order.items.every((item, i) => (refunded.get(i) || 0) >= item.quantity);
+
+      // Desconto do pedido (promoções e pontos) repartido entre as linhas
+      const ratio = order.subtotal > 0 ? order.total / order.subtotal : 0;
+      for (const line of lines) {
+        line.amount = roundMoney(order.items[line.index].price * line.quantity * ratio);
+      }
+      const remaining = roundMoney(order.total - order.refundedTotal);
+      // O último estorno leva o que sobrou (sem resto de arredondamento)
+      const amount = everything
+        ? remaining
+        : Math.min(roundMoney(lines.reduce((acc, l) => acc + l.amount, 0)), remaining);
+
+      const [adjustmentId] = await trx("order_adjustments").insert({
+        orderId: order.id,
+        type: "refund",
+        status: "pending",
+        reasonCode,
+        note,
+        amount,
+        paymentMethod: order.paymentMethod,
+        items: JSON.stringify(lines),
+        stockRestored: Boolean(restock),
+        staffId: staff.id,
+        staffName: staff.name,
+        createdAt: new Date().toISOString(),
+      });
+      return { order, adjustmentId, amount, lines, everything };
+    },
+
+    async apply(trx, { order, adjustmentId, amount, lines, everything }) {
+      // Relê o total já estornado: é o valor gravado, não o lido na reserva
+      const current = await trx("orders").where({ id: order.id }).first();
+      const refundedTotal = roundMoney(parseFloat(current.refundedTotal || 0) + amount);
+      await trx("orders").where({ id: order.id }).update({ refundedTotal });
+      if (everything) await markPaymentRefunded(trx, order);
+      if (restock) {
+        await restoreStock(
+          trx,
+          lines.map((l) => ({ ...order.items[l.index], quantity: l.quantity }))
+        );
+      }
+
+      const previous = (await orderAdjustments(trx, order.id)).filter((a) => a.id !== adjustmentId);
+      const already = (key) => previous.reduce((acc, a) => acc + a[key], 0);
+      const earnedLeft = (order.pointsEarned || 0) - already("pointsReversed");
+      const pointsReversed = await reverseEarnedPoints(
+        trx,
+        order,
+        everything
+          ? earnedLeft
+          : Math.min(
+              earnedLeft,
+              order.total > 0 ? Math.floor((order.pointsEarned * amount) / order.total) : 0
+            )
+      );
+      // Pontos resgatados voltam só quando o pedido inteiro foi devolvido
+      const pointsReturned = everything
+        ? await returnRedeemedPoints(
+            trx,
+            order,
+            (order.pointsRedeemed || 0) - already("pointsReturned")
+          )
+        : 0;
+
+      await trx("order_adjustments")
+        .where({ id: adjustmentId })
+        .update({ status: "done", pointsReversed, pointsReturned });
+    },
+  });
+}
+
+const sendAdjustmentError = (res, err) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  console.error("Erro ao ajustar pedido:", err);
+  res.status(500).json({ error: "Falha ao ajustar pedido" });
+};
+
+app.get(
+  "/api/orders/:id/adjustments",
+  requireRole("kitchen", "admin"),
+  async (req, res) => {
+    const order = await db("orders").where({ id: req.params.id }).first();
+    if (!order) return res.status(404).json({ error: "Pedido não encontrado" });
+    res.json(await orderAdjustments(db, order.id));
+  }
+);
+
+/**
+ * Cancela um pedido já liberado para a cozinha.
+ * Corpo: { reason, note?, restock? }
+ */
+app.post(
+  "/api/orders/:id/cancel",
+  requireRole("kitchen", "admin"),
+  async (req, res) => {
+    try {
+      const { reasonCode, note } = parseAdjustmentReason(req.body);
+      const updated = await cancelOrder(req.params.id, {
+        reasonCode,
+        note,
+        restock: req.body.restock,
+        staff: req.staff,
+      });
+      publishOrderEvent("order-updated", updated);
+      res.json(updated);
+    } catch (err) {
+      sendAdjustmentError(res, err);
+    }
+  }
+);
+
+/**
+ * Estorna parte dos itens de um pedido pago.
+ * Corpo: { reason, note?, items: [{ index, quantity }], restock? }
+ * (index = posição do item no pedido).
+ */
+app.post(
+  "/api/orders/:id/refunds",
+  requireRole("kitchen", "admin"),
+  async (req, res) => {
+    try {
+      const { reasonCode, note } = parseAdjustmentReason(req.body);
+      const updated = await refundOrderItems(req.params.id, {
+        reasonCode,
+        note,
+        items: req.body.items,
+        restock: Boolean(req.body.restock),
+        staff: req.staff,
+      });
+      publishOrderEvent("order-updated", updated);
+      res.status(201).json(updated);
+    } catch (err) {
+      sendAdjustmentError(res, err);
+    }
+  }
+);
+
+// ==========================================
+// ROTAS DE CAIXA (TURNOS)
+// ==========================================
+// O caixa abre o turno com o troco inicial e o fecha contando o dinheiro.
+// Os pedidos liberados para a cozinha enquanto o turno está aberto levam o
+// shiftId dele; o fechamento compara o esperado (troco + recebido no
+// balcão) com o contado e grava o relatório para reimpressão.
+
+// Forma de pagamento recebida em dinheiro na gaveta do caixa
+const CASH_METHOD = "counter";
+
+const serializeShift = (s) => ({
+  ...s,
+  openingFloat: parseFloat(s.openingFloat),
+  countedCash: s.countedCash == null ? null : parseFloat(s.countedCash),
+  expectedCash: s.expectedCash == null ? null : parseFloat(s.expectedCash),
+  cashDifference: s.cashDifference == null ? null : parseFloat(s.cashDifference),
+  report: s.report ? JSON.parse(s.report) : null,
+});
+
+// Valor em reais não negativo (troco, dinheiro contado)
+const parseCashAmount = (value, field) => {
+  const amount = Number(value);
+  if (value === undefined || value === null || value === "" || !isMoney(amount) || amount < 0) {
+    throw new HttpError(400, `${field} deve ser um valor em reais maior ou igual a zero`);
+  }
+  return amount;
+};
+
+/**
+ * Relatório do turno. "counted" traz os valores conferidos no fechamento
+ * ({ counter, pix, credit, debit }; os ausentes ficam sem diferença).
+ */
+async function buildShiftReport(trx, shift, counted = {}) {
+  const orders = (await trx("orders").where({ shiftId: shift.id }).orderBy("timestamp")).map(
+    serializeOrder
+  );
+  const sold = orders.filter((o) => o.status !== "cancelled");
+  const summary = (o) => ({
+    orderId: o.id,
+    orderNumber: formatOrderNumber(o),
+    total: o.total,
+    paymentMethod: o.paymentMethod,
+  });
+
+  // Recebido por forma: pagamentos aprovados menos os estornos parciais
+  // (inclusive de pedidos cancelados depois de pagos: o dinheiro só sai com
+  // o estorno)
+  const byMethod = Object.keys(PAYMENT_METHOD_LABELS).map((method) => {
+    const ofMethod = orders.filter((o) => o.paymentMethod === method);
+    const received = roundMoney(
+      ofMethod
+        .filter((o) => o.paymentStatus === "approved")
+        .reduce((acc, o) => acc + o.total - o.refundedTotal, 0)
+    );
+    const expected =
+      method === CASH_METHOD ? roundMoney(parseFloat(shift.openingFloat) + received) : received;
+    const countedAmount = counted[method] ?? null;
+    return {
+      method,
+      orders: ofMethod.filter((o) => o.status !== "cancelled").length,
+      received,
+      pending: roundMoney(
+        ofMethod.filter((o) => o.paymentStatus === "pending").reduce((acc, o) => acc + o.total, 0)
+      ),
+      expected,
+      counted: countedAmount,
+      difference: countedAmount === null ? null : roundMoney(countedAmount - expected),
+    };
+  });
+
+  const orderIds = orders.map((o) => o.id);
+  const adjustments = (
+    await trx("order_adjustments")
+      .whereIn("orderId", orderIds)
+      .where({ status: "done" })
+      .orderBy("id")
+  ).map(serializeAdjustment);
+  const cancelByOrder = new Map(
+    adjustments.filter((a) => a.type === "cancel").map((a) => [a.orderId, a])
+  );
+  const orderById = new Map(orders.map((o) => [o.id, o]));
+
+  // Descontos agrupados por promoção/cupom, mais os pontos resgatados
+  const byPromotion = new Map();
+  for (const order of sold) {
+    for (const discount of order.discounts) {
+      const key = discount.promotionId;
+      const row = byPromotion.get(key) || {
+        name: discount.name,
+        code: discount.code || null,
+        orders: new Set(),
+        amount: 0,
+      };
+      row.orders.add(order.id);
+      row.amount = roundMoney(row.amount + discount.amount);
+      byPromotion.set(key, row);
+    }
+  }
+  const promotionTotal = roundMoney(sold.reduce((acc, o) => acc + o.promotionDiscount, 0));
+  const pointsTotal = roundMoney(sold.reduce((acc, o) => acc + o.pointsDiscount, 0));
+  const cash = byMethod.find((m) => m.method === CASH_METHOD);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    orders: sold.length,
+    subtotal: roundMoney(sold.reduce((acc, o) => acc + o.subtotal, 0)),
+    revenue: roundMoney(sold.reduce((acc, o) => acc + o.total - o.refundedTotal, 0)),
+    byMethod,
+    cash: {
+      openingFloat: parseFloat(shift.openingFloat),
+      received: cash.received,
+      expected: cash.expected,
+      counted: cash.counted,
+      difference: cash.difference,
+    },
+    discounts: {
+      promotion: promotionTotal,
+      points: pointsTotal,
+      total: roundMoney(promotionTotal + pointsTotal),
+      byPromotion: [...byPromotion.values()].map((row) => ({
+        ...row,
+        orders: row.orders.size,
+      })),
+    },
+    cancellations: orders
+      .filter((o) => o.status === "cancelled")
+      .map((o) => ({
+        ...summary(o),
+        paymentStatus: o.paymentStatus,
+        cancelledAt: o.cancelledAt,
+        reason: cancelByOrder.get(o.id)?.reasonLabel || null,
+        staffName: cancelByOrder.get(o.id)?.staffName || null,
+      })),
+    refunds: adjustments
+      .filter((a) => a.amount > 0)
+      .map((a) => ({
+        ...summary(orderById.get(a.orderId)),
+        paymentMethod: a.paymentMethod,
+        amount: a.amount,
+        refundedAt: a.createdAt,
+        reason: a.reasonLabel,
+        staffName: a.staffName,
+      })),
+    // Pedidos do balcão ainda não pagos: não entram no esperado
+    pendingPayments: orders
+      .filter((o) => o.status !== "cancelled" && o.paymentStatus === "pending")
+      .map(summary),
+  };
+}
+
+// Turno aberto, com a prévia do relatório (ou null se o caixa está fechado)
+app.get("/api/shifts/current", requireRole("kitchen", "admin"), async (req, res) => {
+  try {
+    const shift = await db("shifts").where({ status: "open" }).first();
+    if (!shift) return res.json(null);
+    res.json({ ...serializeShift(shift), report: await buildShiftReport(db, shift) });
+  } catch (err) {
+    console.error("Erro ao buscar turno aberto:", err);
+    res.status(500).json({ error: "Falha ao buscar turno" });
+  }
+});
+
+// Histórico de turnos, do mais recente para o mais antigo
+app.get("/api/shifts", requireRole("kitchen", "admin"), async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number.parseInt(req.query.limit, 10) || 30, 1), 200);
+    const shifts = await db("shifts").orderBy("openedAt", "desc").limit(limit);
+    res.json(shifts.map(serializeShift));
+  } catch (err) {
+    console.error("Erro ao listar turnos:", err);
+    res.status(500).json({ error: "Falha ao listar turnos" });
+  }
+});
+
+// Turno com o relatório gravado no fechamento (reimpressão)
+app.get("/api/shifts/:id", requireRole("kitchen", "admin"), async (req, res) => {
+  try {
+    const shift = await db("shifts").where({ id: req.params.id }).first();
+    if (!shift) return res.status(404).json({ error: "Turno não encontrado" });
+    res.json(serializeShift(shift));
+  } catch (err) {
+    console.error("Erro ao buscar turno:", err);
+    res.status(500).json({ error: "Falha ao buscar turno" });
+  }
+});
+
+// Abre o turno. Body: { openingFloat, notes? }
+app.post("/api/shifts", requireRole("kitchen", "admin"), async (req, res) => {
+  try {
+    const openingFloat = parseCashAmount(req.body?.openingFloat, "openingFloat");
+    const shift = {
+      id: `shift_${crypto.randomUUID()}`,
+      status: "open",
+      openedAt: new Date().toISOString(),
+      openedBy: req.staff.id,
+      openedByName: req.staff.name,
+      openingFloat,
+      notes: req.body?.notes ? String(req.body.notes).trim().slice(0, 500) : null,
+    };
+    await db.transaction(async (trx) => {
+      if (await trx("shifts").where({ status: "open" }).first()) {
+        throw new HttpError(409, "Já existe um turno aberto. Feche-o antes de abrir outro.");
+      }
+      await trx("shifts").insert(shift);
+    });
+    res.status(201).json(serializeShift(shift));
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    // Índice de turno único: outra tela abriu o caixa ao mesmo tempo
+    if (err.code === "SQLITE_CONSTRAINT") {
+      return res.status(409).json({ error: "Já existe um turno aberto." });
+    }
+    console.error("Erro ao abrir turno:", err);
+    res.status(500).json({ error: "Falha ao abrir turno" });
+  }
+});
+
+// Fecha o turno. Body: { countedCash, counted?: { pix, credit, debit }, notes? }
+app.post("/api/shifts/:id/close", requireRole("kitchen", "admin"), async (req, res) => {
+  try {
+    const countedCash = parseCashAmount(req.body?.countedCash, "countedCash");
+    // Valores conferidos das outras formas (maquininha, extrato do PIX)
+    const counted = { [CASH_METHOD]: countedCash };
+    for (const [method, value] of Object.entries(req.body?.counted || {})) {
+      if (!PAYMENT_METHOD_LABELS[method] || method === CASH_METHOD) {
+        throw new HttpError(400, `Forma de pagamento inválida em counted: ${method}`);
+      }
+      if (value !== null && value !== "") counted[method] = parseCashAmount(value, method);
+    }
+
+    const closed = await db.transaction(async (trx) => {
+      const shift = await trx("shifts").where({ id: req.params.id }).first();
+      if (!shift) throw new HttpError(404, "Turno não encontrado");
+      if (shift.status !== "open") throw new HttpError(409, "Este turno já foi fechado");
+
+      const report = await buildShiftReport(trx, shift, counted);
+      const changes = {
+        status: "closed",
+        closedAt: report.generatedAt,
+        closedBy: req.staff.id,
+        closedByName: req.staff.name,
+        countedCash,
+        expectedCash: report.cash.expected,
+        cashDifference: report.cash.difference,
+        notes: req.body?.notes ? String(req.body.notes).trim().slice(0, 500) : shift.notes,
+        report: JSON.stringify(report),
+      };
+      await trx("shifts").where({ id: shift.id }).update(changes);
+      return serializeShift({ ...shift, ...changes });
+    });
+    res.json(closed);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao fechar turno:", err);
+    res.status(500).json({ error: "Falha ao fechar turno" });
+  }
+});
+
+// ==========================================
+// ROTAS DE RELATÓRIOS
+// ==========================================
+// Os períodos usam o dia comercial (businessDate) dos pedidos liberados
+// para a cozinha; pedidos cancelados ficam de fora e os itens estornados
+// saem do faturamento. A agregação é feita no SQLite; o JavaScript só
+// converte horas UTC para o fuso da loja.
+
+// Limite do período (as séries diárias têm um ponto por dia)
+const REPORT_MAX_DAYS = 731;
+
+// Lê ?from=AAAA-MM-DD&to=AAAA-MM-DD (padrão: do dia 1º do mês até hoje)
+function parseReportRange(query) {
+  const today = getBusinessDate(new Date());
+  const from = query.from || `${today.slice(0, 8)}01`;
+  const to = query.to || today;
+  // A volta pela Date descarta dias inexistentes (2026-02-30)
+  const isValidDate = (date) =>
+    DATE_REGEX.test(date) &&
+    !Number.isNaN(Date.parse(`${date}T00:00:00Z`)) &&
+    shiftDate(date, 0) === date;
+  if (!isValidDate(from) || !isValidDate(to)) {
+    throw new HttpError(400, "Datas devem estar no formato AAAA-MM-DD");
+  }
+  if (to < from) throw new HttpError(400, "A data final deve ser igual ou posterior à inicial");
+  if (shiftDate(from, REPORT_MAX_DAYS) <= to) {
+    throw new HttpError(400, `O período pode ter no máximo ${REPORT_MAX_DAYS} dias`);
+  }
+  return { from, to };
+}
+
+// Soma "days" dias a uma data AAAA-MM-DD
+const shiftDate = (date, days) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// Todas as datas do período, inclusive as sem vendas (eixo dos gráficos)
+function datesInRange({ from, to }) {
+  const dates = [];
+  for (let date = from; date <= to; date = shiftDate(date, 1)) dates.push(date);
+  return dates;
+}
+
+// Período anterior com o mesmo número de dias, terminando na véspera de "from"
+function previousRange({ from, to }) {
+  const days =
+    Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+  return { from: shiftDate(from, -days), to: shiftDate(from, -1) };
+}
+
+// Variação percentual em relação ao período anterior (null se não havia base)
+const percentChange = (current, previous) =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : null;
+
+// Faturamento do pedido descontados os estornos parciais
+const netRevenue = () => db.raw("orders.total - COALESCE(orders.refundedTotal, 0)");
+
+const reportOrders = (from, to) =>
+  db("orders")
+    .whereBetween("orders.businessDate", [from, to])
+    .whereNotIn("orders.status", ["cancelled", "awaiting_payment"]);
+
+// Unidades estornadas de cada linha dos pedidos (estornos parciais já
+// concluídos; os cancelados inteiros ficam fora de reportOrders)
+const refundedLines = () =>
+  db("order_adjustments")
+    .joinRaw("CROSS JOIN json_each(order_adjustments.items) AS line")
+    .where("order_adjustments.status", "done")
+    .select(
+      "order_adjustments.orderId",
+      db.raw("json_extract(line.value, '$.index') AS lineIndex")
+    )
+    .sum({ quantity: db.raw("json_extract(line.value, '$.quantity')") })
+    .groupBy("order_adjustments.orderId", "lineIndex")
+    .as("refunded");
+
+// Uma linha por item vendido no período, com as unidades estornadas
+const reportItems = (from, to) =>
+  reportOrders(from, to)
+    .joinRaw("CROSS JOIN json_each(orders.items) AS item")
+    .leftJoin(refundedLines(), function () {
+      this.on("refunded.orderId", "orders.id").andOn("refunded.lineIndex", "item.key");
+    });
+
+// Unidades da linha que ficaram com o cliente (vendidas - estornadas)
+const NET_QUANTITY = "(json_extract(item.value, '$.quantity') - COALESCE(refunded.quantity, 0))";
+
+// Quantidade e valor vendidos por produto (combos contam como o combo),
+// descontados os itens estornados
+const productSales = (from, to) =>
+  reportItems(from, to)
+    .select(
+      db.raw("json_extract(item.value, '$.productId') AS productId"),
+      db.raw("MAX(json_extract(item.value, '$.name')) AS name")
+    )
+    .sum({
+      quantity: db.raw(NET_QUANTITY),
+      revenue: db.raw(`json_extract(item.value, '$.price') * ${NET_QUANTITY}`),
+    })
+    .groupBy("productId");
+
+// Margem bruta = valor vendido - custo dos ingredientes na hora da venda
+const withMargin = (row) => {
+  const revenue = roundMoney(Number(row.revenue) || 0);
+  const cost = roundMoney(Number(row.cost) || 0);
+  return {
+    ...row,
+    revenue,
+    cost,
+    margin: roundMoney(revenue - cost),
+    marginPercent: revenue > 0 ? Math.round(((revenue - cost) / revenue) * 1000) / 10 : null,
+  };
+};
+
+// Vendas, custo e margem por produto, da maior margem para a menor. A
+// receita é o valor das linhas (antes dos descontos do pedido), sem os
+// itens estornados; o custo deles continua, como no costTotal do pedido
+// (os ingredientes já foram usados).
+async function productMargins(from, to) {
+  const products = await productSales(from, to)
+    .select(
+      db.raw("MAX(COALESCE(json_extract(item.value, '$.category'), 'Outros')) AS category")
+    )
+    .sum({
+      cost: db.raw(
+        "json_extract(item.value, '$.unitCost') * json_extract(item.value, '$.quantity')"
+      ),
+      unitsWithoutCost: db.raw(
+        `CASE WHEN json_extract(item.value, '$.unitCost') IS NULL THEN ${NET_QUANTITY} ELSE 0 END`
+      ),
+    });
+  // Produto vendido sem nenhuma ficha técnica: sem custo, margem desconhecida
+  return products
+    .map((p) => {
+      const row = withMargin({
+        ...p,
+        quantity: Number(p.quantity),
+        unitsWithoutCost: Number(p.unitsWithoutCost),
+      });
+      return row.unitsWithoutCost === row.quantity
+        ? { ...row, cost: null, margin: null, marginPercent: null }
+        : row;
+    })
+    .sort((a, b) => (b.margin ?? -Infinity) - (a.margin ?? -Infinity));
+}
+
+app.get("/api/reports/margins", requireRole("admin"), async (req, res) => {
+  try {
+    const { from, to } = parseReportRange(req.query);
+
+    const days = await reportOrders(from, to)
+      .select("businessDate as date")
+      .count({ orders: "*" })
+      .sum({ revenue: netRevenue(), cost: "costTotal" })
+      .groupBy("businessDate")
+      .orderBy("businessDate");
+
+    const byDay = days.map((d) => withMargin({ ...d, orders: Number(d.orders) }));
+    const byProduct = await productMargins(from, to);
+    const totals = withMargin({
+      orders: byDay.reduce((acc, d) => acc + d.orders, 0),
+      revenue: byDay.reduce((acc, d) => acc + d.revenue, 0),
+      cost: byDay.reduce((acc, d) => acc + d.cost, 0),
+      // Itens sem ficha técnica entram na receita com custo zero
+      unitsWithoutCost: byProduct.reduce((acc, p) => acc + p.unitsWithoutCost, 0),
+    });
+
+    res.json({ from, to, totals, byDay, byProduct });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao gerar relatório de margem:", err);
+    res.status(500).json({ error: "Falha ao gerar relatório" });
+  }
+});
+
+// Faturamento, pedidos e ticket médio de um período
+async function salesTotals({ from, to }) {
+  const [row] = await reportOrders(from, to)
+    .count({ orders: "*" })
+    .sum({ revenue: netRevenue() });
+  const orders = Number(row.orders);
+  const revenue = roundMoney(Number(row.revenue) || 0);
+  return {
+    from,
+    to,
+    orders,
+    revenue,
+    averageTicket: orders > 0 ? roundMoney(revenue / orders) : 0,
+  };
+}
+
+// Resumo do período comparado ao período anterior de mesmo tamanho
+app.get("/api/reports/summary", requireRole("admin"), async (req, res) => {
+  try {
+    const range = parseReportRange(req.query);
+    const current = await salesTotals(range);
+    const previous = await salesTotals(previousRange(range));
+    res.json({
+      ...current,
+      previous,
+      change: {
+        orders: percentChange(current.orders, previous.orders),
+        revenue: percentChange(current.revenue, previous.revenue),
+        averageTicket: percentChange(current.averageTicket, previous.averageTicket),
+      },
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao gerar resumo de vendas:", err);
+    res.status(500).json({ error: "Falha ao gerar relatório" });
+  }
+});
+
+// Mais vendidos do período, com a quantidade vendida no período anterior
+app.get("/api/reports/top-products", requireRole("admin"), async (req, res) => {
+  try {
+    const range = parseReportRange(req.query);
+    const limit = Math.min(Math.max(Number.parseInt(req.query.limit, 10) || 10, 1), 100);
+    const previous = previousRange(range);
+
+    const current = await productSales(range.from, range.to)
+      .orderBy("quantity", "desc")
+      .limit(limit);
+    const before = await productSales(previous.from, previous.to).whereIn(
+      db.raw("json_extract(item.value, '$.productId')"),
+      current.map((p) => p.productId)
+    );
+    const previousQuantity = Object.fromEntries(
+      before.map((p) => [p.productId, Number(p.quantity)])
+    );
+
+    // Tendência: unidades vendidas por dia de cada produto do ranking
+    const perDay = await productSales(range.from, range.to)
+      .select("orders.businessDate as date")
+      .groupBy("orders.businessDate")
+      .whereIn(
+        db.raw("json_extract(item.value, '$.productId')"),
+        current.map((p) => p.productId)
+      );
+    const dates = datesInRange(range);
+    const trendOf = (productId) => {
+      const byDate = new Map(
+        perDay.filter((r) => r.productId === productId).map((r) => [r.date, Number(r.quantity)])
+      );
+      return dates.map((date) => byDate.get(date) || 0);
+    };
+
+    res.json(
+      current.map((p) => ({
+        productId: p.productId,
+        name: p.name,
+        quantity: Number(p.quantity),
+        revenue: roundMoney(Number(p.revenue) || 0),
+        previousQuantity: previousQuantity[p.productId] || 0,
+        trend: trendOf(p.productId),
+      }))
+    );
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao gerar ranking de produtos:", err);
+    res.status(500).json({ error: "Falha ao gerar relatório" });
+  }
+});
+
+// Pedidos por hora do dia e dia da semana, no horário da loja. O SQLite
+// agrupa por hora UTC (no máximo 24 linhas por dia) e cada grupo é
+// convertido para o fuso da loja, o que respeita o horário de verão.
+app.get("/api/reports/heatmap", requireRole("admin"), async (req, res) => {
+  try {
+    const { from, to } = parseReportRange(req.query);
+    const buckets = await reportOrders(from, to)
+      .select(db.raw("strftime('%Y-%m-%dT%H:00:00Z', orders.timestamp) AS utcHour"))
+      .count({ orders: "*" })
+      .sum({ revenue: netRevenue() })
+      .groupBy("utcHour");
+
+    const cells = new Map();
+    for (const bucket of buckets) {
+      const clock = storeClock(new Date(bucket.utcHour), STORE_TIMEZONE);
+      const hour = Number(clock.time.slice(0, 2));
+      const key = `${clock.weekday}-${hour}`;
+      const cell = cells.get(key) || { weekday: clock.weekday, hour, orders: 0, revenue: 0 };
+      cell.orders += Number(bucket.orders);
+      cell.revenue = roundMoney(cell.revenue + (Number(bucket.revenue) || 0));
+      cells.set(key, cell);
+    }
+
+    const sumBy = (field, size) =>
+      Array.from({ length: size }, (_, value) => {
+        const matching = [...cells.values()].filter((c) => c[field] === value);
+        return {
+          [field]: value,
+          orders: matching.reduce((acc, c) => acc + c.orders, 0),
+          revenue: roundMoney(matching.reduce((acc, c) => acc + c.revenue, 0)),
+        };
+      });
+
+    res.json({
+      from,
+      to,
+      timezone: STORE_TIMEZONE,
+      byHour: sumBy("hour", 24),
+      byWeekday: sumBy("weekday", 7),
+      cells: [...cells.values()].sort((a, b) => a.weekday - b.weekday || a.hour - b.hour),
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao gerar mapa de calor:", err);
+    res.status(500).json({ error: "Falha ao gerar relatório" });
+  }
+});
+
+// Faturamento e pedidos de cada dia do período (dias sem venda com zero)
+app.get("/api/reports/daily", requireRole("admin"), async (req, res) => {
+  try {
+    const range = parseReportRange(req.query);
+    const rows = await reportOrders(range.from, range.to)
+      .select("businessDate as date")
+      .count({ orders: "*" })
+      .sum({ revenue: netRevenue() })
+      .groupBy("businessDate");
+    const byDate = new Map(rows.map((r) => [r.date, r]));
+    res.json({
+      ...range,
+      days: datesInRange(range).map((date) => ({
+        date,
+        orders: Number(byDate.get(date)?.orders || 0),
+        revenue: roundMoney(Number(byDate.get(date)?.revenue) || 0),
+      })),
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao gerar série diária:", err);
+    res.status(500).json({ error: "Falha ao gerar relatório" });
+  }
+});
+
+// Vendas por categoria (combos formam uma categoria própria), descontados
+// os itens estornados
+app.get("/api/reports/categories", requireRole("admin"), async (req, res) => {
+  try {
+    const { from, to } = parseReportRange(req.query);
+    const rows = await reportItems(from, to)
+      .select(
+        db.raw("COALESCE(json_extract(item.value, '$.category'), 'Outros') AS category")
+      )
+      .sum({
+        quantity: db.raw(NET_QUANTITY),
+        revenue: db.raw(`json_extract(item.value, '$.price') * ${NET_QUANTITY}`),
+      })
+      .groupBy("category")
+      .orderBy("revenue", "desc");
+    res.json(
+      rows.map((r) => ({
+        category: r.category,
+        quantity: Number(r.quantity),
+        revenue: roundMoney(Number(r.revenue) || 0),
+      }))
+    );
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao gerar vendas por categoria:", err);
+    res.status(500).json({ error: "Falha ao gerar relatório" });
+  }
+});
+
+// Pedidos por trás de um ponto dos gráficos (drill-down). Filtros opcionais:
+// date (dia comercial), weekday + hour (fuso da loja), category e productId
+const DRILL_DOWN_LIMIT = 100;
+
+app.get("/api/reports/orders", requireRole("admin"), async (req, res) => {
+  try {
+    const range = parseReportRange(req.query);
+    const { date, category, productId } = req.query;
+    const weekday = req.query.weekday === undefined ? null : Number(req.query.weekday);
+    const hour = req.query.hour === undefined ? null : Number(req.query.hour);
+    if (
+      (weekday !== null && !(Number.isInteger(weekday) && weekday >= 0 && weekday <= 6)) ||
+      (hour !== null && !(Number.isInteger(hour) && hour >= 0 && hour <= 23))
+    ) {
+      throw new HttpError(400, "weekday deve ir de 0 a 6 e hour de 0 a 23");
+    }
+
+    const query = reportOrders(range.from, range.to)
+      .select("orders.*")
+      .orderBy("orders.timestamp", "desc");
+    if (date) query.where("orders.businessDate", date);
+    if (category) {
+      query.whereRaw(
+        "EXISTS (SELECT 1 FROM json_each(orders.items) AS item WHERE COALESCE(json_extract(item.value, '$.category'), 'Outros') = ?)",
+        [category]
+      );
+    }
+    if (productId) {
+      query.whereRaw(
+        "EXISTS (SELECT 1 FROM json_each(orders.items) AS item WHERE json_extract(item.value, '$.productId') = ?)",
+        [productId]
+      );
+    }
+
+    // Dia da semana e hora dependem do fuso da loja: filtrados aqui
+    const orders = (await query).filter((order) => {
+      if (weekday === null && hour === null) return true;
+      const clock = storeClock(new Date(order.timestamp), STORE_TIMEZONE);
+      return (
+        (weekday === null || clock.weekday === weekday) &&
+        (hour === null || Number(clock.time.slice(0, 2)) === hour)
+      );
+    });
+
+    res.json({
+      total: orders.length,
+      orders: orders.slice(0, DRILL_DOWN_LIMIT).map(serializeOrder),
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao listar pedidos do relatório:", err);
+    res.status(500).json({ error: "Falha ao gerar relatório" });
+  }
+});
+
+// --- Exportação para a contabilidade (CSV/XLSX) e relatório em PDF ---
+// Os filtros de período são os mesmos da tela (?from&to).
+const ORDER_STATUS_LABELS = {
+  received: "Recebido",
+  preparing: "Em preparo",
+  ready: "Pronto",
+  delivered: "Entregue",
+};
+// Limite do texto da IA enviado para o PDF
+const PDF_INSIGHTS_MAX_LENGTH = 20000;
+
+const formatDateBR = (date) => date.split("-").reverse().join("/");
+
+// Uma linha por item de pedido (combos com os produtos escolhidos)
+async function orderLineRows({ from, to }) {
+  const orders = (
+    await reportOrders(from, to).select("orders.*").orderBy("orders.timestamp")
+  ).map(serializeOrder);
+  return orders.flatMap((order) => {
+    const clock = storeClock(new Date(order.timestamp), STORE_TIMEZONE);
+    return order.items.map((item) => ({
+      orderNumber: formatOrderNumber(order),
+      orderId: order.id,
+      businessDate: order.businessDate,
+      placedAt: `${clock.date} ${clock.time}`,
+      customer: order.userName || "",
+      status: ORDER_STATUS_LABELS[order.status] || order.status,
+      paymentMethod: PAYMENT_METHOD_LABELS[order.paymentMethod] || order.paymentMethod || "",
+      product: item.components?.length
+        ? `${item.name} (${item.components.map((c) => c.name).join(" + ")})`
+        : item.name,
+      options: (item.modifiers || []).map((m) => m.name).join(", "),
+      category: item.category || "Outros",
+      quantity: item.quantity,
+      unitPrice: item.price,
+      lineTotal: roundMoney(item.price * item.quantity),
+      orderSubtotal: order.subtotal,
+      orderDiscount: roundMoney(order.promotionDiscount + order.pointsDiscount),
+      orderTotal: order.total,
+      orderRefunded: order.refundedTotal,
+    }));
+  });
+}
+
+// Fechamento de cada dia do período (dias sem venda com zero) e linha de total
+async function dailyClosingRows(range) {
+  const [days, byMethod, cancelled] = await Promise.all([
+    reportOrders(range.from, range.to)
+      .select("businessDate as date")
+      .count({ orders: "*" })
+      .sum({
+        subtotal: db.raw("COALESCE(orders.subtotal, orders.total)"),
+        promotionDiscount: "promotionDiscount",
+        pointsDiscount: "pointsDiscount",
+        refunded: db.raw("COALESCE(orders.refundedTotal, 0)"),
+        revenue: netRevenue(),
+        cost: "costTotal",
+      })
+      .groupBy("businessDate"),
+    reportOrders(range.from, range.to)
+      .select("businessDate as date", "paymentMethod")
+      .sum({ revenue: netRevenue() })
+      .groupBy("businessDate", "paymentMethod"),
+    db("orders")
+      .whereBetween("businessDate", [range.from, range.to])
+      .where("status", "cancelled")
+      .select("businessDate as date")
+      .count({ orders: "*" })
+      .groupBy("businessDate"),
+  ]);
+  const dayByDate = new Map(days.map((d) => [d.date, d]));
+  const cancelledByDate = new Map(cancelled.map((c) => [c.date, Number(c.orders)]));
+  // Pedidos sem forma de pagamento registrada (anteriores aos pagamentos) vão em "Outros"
+  const methodTotals = (date) => {
+    const totals = Object.fromEntries(
+      [...Object.keys(PAYMENT_METHOD_LABELS), "other"].map((m) => [`method_${m}`, 0])
+    );
+    for (const row of byMethod.filter((r) => r.date === date)) {
+      const key = PAYMENT_METHOD_LABELS[row.paymentMethod] ? row.paymentMethod : "other";
+      totals[`method_${key}`] = roundMoney(totals[`method_${key}`] + (Number(row.revenue) || 0));
+    }
+    return totals;
+  };
+
+  const rows = datesInRange(range).map((date) => {
+    const day = dayByDate.get(date) || {};
+    const orders = Number(day.orders || 0);
+    const revenue = roundMoney(Number(day.revenue) || 0);
+    return {
+      ...withMargin({ revenue, cost: day.cost }),
+      date,
+      orders,
+      cancelled: cancelledByDate.get(date) || 0,
+      subtotal: roundMoney(Number(day.subtotal) || 0),
+      promotionDiscount: roundMoney(Number(day.promotionDiscount) || 0),
+      pointsDiscount: roundMoney(Number(day.pointsDiscount) || 0),
+      refunded: roundMoney(Number(day.refunded) || 0),
+      averageTicket: orders > 0 ? roundMoney(revenue / orders) : 0,
+      ...methodTotals(date),
+    };
+  });
+
+  const sum = (key) => roundMoney(rows.reduce((acc, r) => acc + r[key], 0));
+  const orders = rows.reduce((acc, r) => acc + r.orders, 0);
+  const total = {
+    ...withMargin({ revenue: sum("revenue"), cost: sum("cost") }),
+    _total: true,
+    date: "Total",
+    orders,
+    cancelled: rows.reduce((acc, r) => acc + r.cancelled, 0),
+    subtotal: sum("subtotal"),
+    promotionDiscount: sum("promotionDiscount"),
+    pointsDiscount: sum("pointsDiscount"),
+    refunded: sum("refunded"),
+    averageTicket: orders > 0 ? roundMoney(sum("revenue") / orders) : 0,
+    ...Object.fromEntries(
+      [...Object.keys(PAYMENT_METHOD_LABELS), "other"].map((m) => [
+        `method_${m}`,
+        sum(`method_${m}`),
+      ])
+    ),
+  };
+  return [...rows, total];
+}
+
+const EXPORT_REPORTS = {
+  orders: {
+    sheetName: "Pedidos",
+    filename: "pedidos",
+    rows: orderLineRows,
+    columns: [
+      { header: "Pedido", key: "orderNumber" },
+      { header: "ID do pedido", key: "orderId" },
+      { header: "Dia comercial", key: "businessDate" },
+      { header: "Data/hora", key: "placedAt" },
+      { header: "Cliente", key: "customer" },
+      { header: "Status", key: "status" },
+      { header: "Pagamento", key: "paymentMethod" },
+      { header: "Produto", key: "product" },
+      { header: "Opções", key: "options" },
+      { header: "Categoria", key: "category" },
+      { header: "Qtd.", key: "quantity", type: "number" },
+      { header: "Preço unitário", key: "unitPrice", type: "money" },
+      { header: "Total do item", key: "lineTotal", type: "money" },
+      { header: "Subtotal do pedido", key: "orderSubtotal", type: "money" },
+      { header: "Descontos do pedido", key: "orderDiscount", type: "money" },
+      { header: "Total do pedido", key: "orderTotal", type: "money" },
+      { header: "Estornado do pedido", key: "orderRefunded", type: "money" },
+    ],
+  },
+  products: {
+    sheetName: "Vendas por produto",
+    filename: "vendas-por-produto",
+    rows: ({ from, to }) => productMargins(from, to),
+    columns: [
+      { header: "Código", key: "productId" },
+      { header: "Produto", key: "name", width: 3 },
+      { header: "Categoria", key: "category" },
+      { header: "Qtd.", key: "quantity", type: "number" },
+      { header: "Vendas", key: "revenue", type: "money" },
+      { header: "Custo", key: "cost", type: "money" },
+      { header: "Margem", key: "margin", type: "money" },
+      { header: "Margem %", key: "marginPercent", type: "number" },
+    ],
+  },
+  daily: {
+    sheetName: "Fechamento diário",
+    filename: "fechamento-diario",
+    rows: dailyClosingRows,
+    columns: [
+      { header: "Dia", key: "date" },
+      { header: "Pedidos", key: "orders", type: "number" },
+      { header: "Cancelados", key: "cancelled", type: "number" },
+      { header: "Subtotal", key: "subtotal", type: "money" },
+      { header: "Descontos promoções", key: "promotionDiscount", type: "money" },
+      { header: "Descontos pontos", key: "pointsDiscount", type: "money" },
+      { header: "Estornos", key: "refunded", type: "money" },
+      { header: "Faturamento", key: "revenue", type: "money" },
+      { header: "Ticket médio", key: "averageTicket", type: "money" },
+      ...Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => ({
+        header: label,
+        key: `method_${method}`,
+        type: "money",
+      })),
+      { header: "Outros", key: "method_other", type: "money" },
+      { header: "Custo ingredientes", key: "cost", type: "money" },
+      { header: "Margem bruta", key: "margin", type: "money" },
+    ],
+  },
+};
+
+// GET /api/reports/export/orders|products|daily?format=csv|xlsx&from&to
+app.get("/api/reports/export/:report", requireRole("admin"), async (req, res) => {
+  try {
+    const report = EXPORT_REPORTS[req.params.report];
+    if (!report) throw new HttpError(404, "Relatório não encontrado");
+    const format = req.query.format || "csv";
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new HttpError(400, `Formato deve ser um de: ${EXPORT_FORMATS.join(", ")}`);
+    }
+    const range = parseReportRange(req.query);
+
+    const rows = await report.rows(range);
+    const file = await toSpreadsheet(format, report.sheetName, report.columns, rows);
+    res
+      .type(CONTENT_TYPES[format])
+      .attachment(`${report.filename}_${range.from}_${range.to}.${format}`)
+      .send(file);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao exportar relatório:", err);
+    res.status(500).json({ error: "Falha ao exportar relatório" });
+  }
+});
+
+// Relatório para impressão: resumo, fechamento diário, produtos e o texto
+// das recomendações da IA gerado na tela (body: { insights })
+app.post("/api/reports/export/pdf", requireRole("admin"), async (req, res) => {
+  try {
+    const range = parseReportRange(req.query);
+    const insights = req.body?.insights ?? "";
+    if (typeof insights !== "string" || insights.length > PDF_INSIGHTS_MAX_LENGTH) {
+      throw new HttpError(
+        400,
+        `insights deve ser um texto de até ${PDF_INSIGHTS_MAX_LENGTH} caracteres`
+      );
+    }
+
+    const current = await salesTotals(range);
+    const previous = await salesTotals(previousRange(range));
+    const days = await dailyClosingRows(range);
+    const products = await productMargins(range.from, range.to);
+    const totals = days[days.length - 1];
+    const change = percentChange(current.revenue, previous.revenue);
+    const money = (value) => `R$ ${value.toFixed(2).replace(".", ",")}`;
+    const columnsOf = (report, keys) =>
+      EXPORT_REPORTS[report].columns.filter((c) => keys.includes(c.key));
+
+    const file = await toPdf({
+      title: "Relatório de Vendas",
+      subtitle: `Período: ${formatDateBR(range.from)} a ${formatDateBR(range.to)} · Gerado em ${new Date().toLocaleString("pt-BR", { timeZone: STORE_TIMEZONE })}`,
+      sections: [
+        {
+          heading: "Resumo",
+          lines: [
+            `Faturamento: ${money(current.revenue)}${change === null ? "" : ` (${change >= 0 ? "+" : ""}${String(change).replace(".", ",")}% vs. período anterior)`}`,
+            `Pedidos: ${current.orders} (período anterior: ${previous.orders})`,
+            `Ticket médio: ${money(current.averageTicket)}`,
+            `Descontos: ${money(roundMoney(totals.promotionDiscount + totals.pointsDiscount))}`,
+            `Estornos: ${money(totals.refunded)} · Cancelados: ${totals.cancelled}`,
+            `Custo dos ingredientes: ${money(totals.cost)}`,
+            `Margem bruta: ${money(totals.margin)}`,
+          ],
+        },
+        {
+          heading: "Fechamento diário",
+          columns: columnsOf("daily", ["date", "orders", "cancelled", "revenue", "averageTicket", "margin"]),
+          // Só os dias com movimento (e o total)
+          rows: days
+            .filter((d) => d._total || d.orders > 0 || d.cancelled > 0)
+            .map((d) => (d._total ? d : { ...d, date: formatDateBR(d.date) })),
+          emptyText: "Nenhuma venda no período.",
+        },
+        {
+          heading: "Vendas por produto",
+          columns: columnsOf("products", ["name", "category", "quantity", "revenue", "margin"]),
+          rows: products,
+          emptyText: "Nenhuma venda no período.",
+        },
+        ...(insights.trim()
+          ? [{ heading: "Recomendações da IA", lines: [insights.trim()] }]
+          : []),
+      ],
+    });
+    res
+      .type(CONTENT_TYPES.pdf)
+      .attachment(`relatorio_${range.from}_${range.to}.pdf`)
+      .send(file);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error("Erro ao gerar PDF do relatório:", err);
+    res.status(500).json({ error: "Falha ao gerar PDF" });
   }
 });
 
@@ -346,6 +5389,9 @@ console.log("🚀 Iniciando servidor...");
 initDatabase()
   .then(() => {
     console.log("✅ Banco inicializado com sucesso!");
+    // Tarefas em segundo plano só com as tabelas criadas e migradas
+    startUnpaidOrderSweep();
+    startFiscalQueue();
     app.listen(PORT, "0.0.0.0", () => {
       console.log(`✅ Servidor rodando na porta ${PORT}`);
       console.log(
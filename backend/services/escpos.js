@@ -0,0 +1,153 @@
+// ==========================================
+// ESC/POS (IMPRESSORAS TÉRMICAS)
+// ==========================================
+// Monta o fluxo de bytes entendido pelas impressoras térmicas (Epson e
+// compatíveis): texto na página de código 860 (português), negrito,
+// tamanhos, texto invertido, QR Code nativo e corte do papel.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Página de código 860 (português) no ESC t das impressoras Epson
+const CODE_PAGE_CP860 = 3;
+
+// Caracteres acentuados na página 860 (o restante do ASCII é igual)
+const CP860 = {
+  Ç: 0x80, ü: 0x81, é: 0x82, â: 0x83, ã: 0x84, à: 0x85, Á: 0x86, ç: 0x87,
+  ê: 0x88, Ê: 0x89, è: 0x8a, Í: 0x8b, Ô: 0x8c, ì: 0x8d, Ã: 0x8e, Â: 0x8f,
+  É: 0x90, À: 0x91, È: 0x92, ô: 0x93, õ: 0x94, ò: 0x95, Ú: 0x96, ù: 0x97,
+  Ì: 0x98, Õ: 0x99, Ü: 0x9a, Ó: 0x9f, á: 0xa0, í: 0xa1, ó: 0xa2, ú: 0xa3,
+  ñ: 0xa4, Ñ: 0xa5, ª: 0xa6, º: 0xa7, Ò: 0xa9,
+};
+
+/**
+ * Converte o texto para a página 860. Caracteres que não existem nela
+ * perdem o acento (ou somem, como os emojis).
+ */
+export function encodeText(text) {
+  const bytes = [];
+  for (const char of String(text ?? "")) {
+    const code = char.codePointAt(0);
+    if (char === "\n" || (code >= 0x20 && code < 0x7f)) {
+      bytes.push(code);
+    } else if (CP860[char]) {
+      bytes.push(CP860[char]);
+    } else {
+      const plain = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+      if (/^[\x20-\x7e]$/.test(plain)) bytes.push(plain.charCodeAt(0));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Quebra o texto em linhas de até "width" caracteres, sem cortar palavras
+// (palavras maiores que a linha são divididas). O recuo do início do
+// parágrafo se repete nas linhas seguintes.
+export function wrapText(text, width) {
+  const lines = [];
+  for (const paragraph of String(text ?? "").split("\n")) {
+    const indent = paragraph.match(/^ */)[0].slice(0, Math.max(0, width - 1));
+    const room = width - indent.length;
+    const wrapped = [];
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > room) {
+        if (line) wrapped.push(line);
+        wrapped.push(rest.slice(0, room));
+        rest = rest.slice(room);
+        line = "";
+      }
+      if (!rest) continue;
+      if (!line) line = rest;
+      else if (line.length + 1 + rest.length <= room) line += ` ${rest}`;
+      else {
+        wrapped.push(line);
+        line = rest;
+      }
+    }
+    wrapped.push(line);
+    lines.push(...wrapped.map((l) => (l ? indent + l : l)));
+  }
+  return lines;
+}
+
+/**
+ * Documento ESC/POS com métodos encadeáveis. "columns" é a largura da linha
+ * na fonte normal (48 no papel de 80 mm, 32 no de 58 mm).
+ */
+export function createEscPosDocument({ columns = 48 } = {}) {
+  const chunks = [Buffer.from([ESC, 0x40, ESC, 0x74, CODE_PAGE_CP860])];
+  // Largura dos caracteres ampliados: menos colunas por linha
+  let charWidth = 1;
+  const push = (...bytes) => chunks.push(Buffer.from(bytes));
+  const lineWidth = () => Math.max(1, Math.floor(columns / charWidth));
+
+  const doc = {
+    align(position) {
+      push(ESC, 0x61, { left: 0, center: 1, right: 2 }[position] ?? 0);
+      return doc;
+    },
+    bold(on = true) {
+      push(ESC, 0x45, on ? 1 : 0);
+      return doc;
+    },
+    // Multiplicadores de largura e altura (1 a 8)
+    size(width = 1, height = width) {
+      charWidth = width;
+      push(GS, 0x21, ((width - 1) << 4) | (height - 1));
+      return doc;
+    },
+    // Texto branco em fundo preto (destaque das observações)
+    invert(on = true) {
+      push(GS, 0x42, on ? 1 : 0);
+      return doc;
+    },
+    text(value) {
+      for (const line of wrapText(value, lineWidth())) {
+        chunks.push(encodeText(`${line}\n`));
+      }
+      return doc;
+    },
+    // Texto à esquerda e valor alinhado à direita na mesma linha
+    pair(left, right) {
+      const width = lineWidth();
+      const value = String(right);
+      const lines = wrapText(left, Math.max(1, width - value.length - 1));
+      const last = lines.pop();
+      lines.forEach((line) => chunks.push(encodeText(`${line}\n`)));
+      chunks.push(encodeText(`${last.padEnd(width - value.length)}${value}\n`));
+      return doc;
+    },
+    separator(char = "-") {
+      chunks.push(encodeText(`${char.repeat(lineWidth())}\n`));
+      return doc;
+    },
+    // QR Code modelo 2, correção de erro M (GS ( k)
+    qr(data, { moduleSize = 6 } = {}) {
+      const payload = encodeText(data);
+      const length = payload.length + 3;
+      push(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31);
+      push(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30);
+      chunks.push(payload);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);
+      push(0x0a);
+      return doc;
+    },
+    feed(lines = 1) {
+      push(ESC, 0x64, lines);
+      return doc;
+    },
+    // Avança o papel até a guilhotina e faz o corte parcial
+    cut() {
+      push(GS, 0x56, 0x42, 0x03);
+      return doc;
+    },
+    toBuffer() {
+      return Buffer.concat(chunks);
+    },
+  };
+  return doc;
+}
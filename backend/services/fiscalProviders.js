@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import { ICMS_SITUATIONS, readXmlTag, verifyEventDigest, verifyNfeDigest } from "./nfce.js";
+
+// ==========================================
+// PROVEDORES FISCAIS (AUTORIZAÇÃO DA NFC-e)
+// ==========================================
+// Cada provedor implementa a mesma interface:
+//
+//   name                 descrição usada nos logs
+//   authorize(document)  envia o XML assinado ({ accessKey, xml }) e devolve
+//                        { status: "authorized", protocol, authorizedAt } ou
+//                        { status: "rejected", code, reason };
+//                        lança erro quando a SEFAZ não responde (o servidor
+//                        passa a emitir em contingência e tenta de novo depois)
+//   cancel(event)        envia o evento de cancelamento assinado
+//                        ({ accessKey, protocol, xml }) e devolve
+//                        { status: "cancelled", protocol, cancelledAt } ou
+//                        { status: "rejected", code, reason }; lança erro
+//                        quando a SEFAZ não responde (o servidor tenta de novo)
+//   lookup(accessKey)    situação da nota na SEFAZ (página do QR Code)
+//
+// Provedores disponíveis (FISCAL_PROVIDER):
+//   mock   SEFAZ simulada dentro do próprio servidor, para testar
+//          autorização, rejeição e contingência sem certificado nem rede
+//   none   emissão de NFC-e desligada (padrão)
+
+export const MOCK_SEFAZ_MODES = ["online", "reject", "offline"];
+
+// SEFAZ simulada. Modos (FISCAL_MOCK_MODE ou PUT /api/fiscal/mock):
+//   online   valida a nota como a SEFAZ faria (assinatura, NCM, CFOP,
+//            totais) e autoriza o que estiver correto
+//   reject   rejeita todas as notas (código 999)
+//   offline  não responde, como numa queda da SEFAZ ou da internet
+// As notas autorizadas ficam só na memória: reiniciar o servidor "limpa" a SEFAZ.
+function createMockSefaz({ mode = "online" }) {
+  const authorized = new Map();
+  let currentMode = mode;
+
+  // Regras de validação com os códigos de rejeição oficiais
+  const validate = (xml) => {
+    if (!verifyNfeDigest(xml)) return [297, "Assinatura difere do calculado"];
+    const items = xml.match(/<det nItem="\d+">[\s\S]*?<\/det>/g) || [];
+    for (const item of items) {
+      if (!/^\d{8}$/.test(readXmlTag(item, "NCM") || "")) {
+        return [778, `Informado NCM inexistente (${readXmlTag(item, "xProd")})`];
+      }
+      if (!/^5\d{3}$/.test(readXmlTag(item, "CFOP") || "")) {
+        return [725, `NFC-e com CFOP inválido (${readXmlTag(item, "xProd")})`];
+      }
+      const situation = readXmlTag(item, "CSOSN") || readXmlTag(item, "CST");
+      if (!ICMS_SITUATIONS[situation]) {
+        return [590, `Informado CST/CSOSN incompatível (${readXmlTag(item, "xProd")})`];
+      }
+    }
+    const products = items.reduce((acc, item) => acc + Number(readXmlTag(item, "vProd")), 0);
+    const discounts = items.reduce((acc, item) => acc + Number(readXmlTag(item, "vDesc") || 0), 0);
+    const vNF = Number(readXmlTag(xml.match(/<ICMSTot>[\s\S]*<\/ICMSTot>/)?.[0] || "", "vNF"));
+    if (Math.abs(products - discounts - vNF) > 0.005) {
+      return [610, "Total da NF difere do somatório dos valores"];
+    }
+    return null;
+  };
+
+  return {
+    name: "mock",
+    get mode() {
+      return currentMode;
+    },
+    setMode(value) {
+      currentMode = value;
+    },
+    async authorize({ accessKey, xml }) {
+      if (currentMode === "offline") {
+        throw new Error("SEFAZ simulada fora do ar");
+      }
+      // Nota já autorizada (resposta anterior perdida): devolve o mesmo protocolo
+      if (authorized.has(accessKey)) return authorized.get(accessKey);
+      if (currentMode === "reject") {
+        return { status: "rejected", code: 999, reason: "Rejeição simulada" };
+      }
+      const rejection = validate(xml);
+      if (rejection) {
+        return { status: "rejected", code: rejection[0], reason: rejection[1] };
+      }
+      const result = {
+        status: "authorized",
+        protocol: `1${readXmlTag(xml, "cUF")}${Date.now().toString().slice(-10)}${crypto
+          .randomInt(100)
+          .toString()
+          .padStart(2, "0")}`,
+        authorizedAt: new Date().toISOString(),
+        total: Number(readXmlTag(xml.match(/<ICMSTot>[\s\S]*<\/ICMSTot>/)[0], "vNF")),
+        issuerName: readXmlTag(xml, "xNome"),
+      };
+      authorized.set(accessKey, result);
+      return result;
+    },
+    async cancel({ accessKey, protocol, xml }) {
+      if (currentMode === "offline") {
+        throw new Error("SEFAZ simulada fora do ar");
+      }
+      const note = authorized.get(accessKey);
+      // Cancelamento já registrado (resposta anterior perdida)
+      if (note?.cancellation) return note.cancellation;
+      if (currentMode === "reject") {
+        return { status: "rejected", code: 999, reason: "Rejeição simulada" };
+      }
+      if (!verifyEventDigest(xml)) {
+        return { status: "rejected", code: 297, reason: "Assinatura difere do calculado" };
+      }
+      if (!note) {
+        return { status: "rejected", code: 217, reason: "NF-e não consta na base de dados da SEFAZ" };
+      }
+      if (note.protocol !== protocol || readXmlTag(xml, "nProt") !== protocol) {
+        return { status: "rejected", code: 222, reason: "Protocolo de Autorização de Uso difere do cadastrado" };
+      }
+      note.cancellation = {
+        status: "cancelled",
+        protocol: `1${readXmlTag(xml, "cOrgao")}${Date.now().toString().slice(-10)}${crypto
+          .randomInt(100)
+          .toString()
+          .padStart(2, "0")}`,
+        cancelledAt: new Date().toISOString(),
+      };
+      return note.cancellation;
+    },
+    async lookup(accessKey) {
+      return authorized.get(accessKey) || null;
+    },
+  };
+}
+
+/**
+ * Provedor fiscal configurado pelo ambiente (FISCAL_PROVIDER e
+ * FISCAL_MOCK_MODE). Devolve null com a emissão desligada.
+ */
+export function createFiscalProviderFromEnv({ env = process.env } = {}) {
+  const type = env.FISCAL_PROVIDER || "none";
+  if (type === "none") return null;
+  if (type === "mock") {
+    const mode = env.FISCAL_MOCK_MODE || "online";
+    if (!MOCK_SEFAZ_MODES.includes(mode)) {
+      throw new Error(`FISCAL_MOCK_MODE deve ser ${MOCK_SEFAZ_MODES.join(", ")}`);
+    }
+    return createMockSefaz({ mode });
+  }
+  throw new Error(`Provedor fiscal desconhecido: ${type}`);
+}
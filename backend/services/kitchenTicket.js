@@ -0,0 +1,52 @@
+import { createEscPosDocument } from "./escpos.js";
+
+// ==========================================
+// COMANDA DA COZINHA
+// ==========================================
+// Layout da comanda impressa para cada pedido: número grande, itens com as
+// opções e observações em destaque, nome do cliente e o QR Code do id.
+
+// Opções escolhidas e observação de um item ou componente de combo
+function printChoices(doc, { modifiers, notes }, indent) {
+  for (const modifier of modifiers || []) {
+    doc.text(`${indent}- ${modifier.groupName}: ${modifier.name}`);
+  }
+  if (notes) {
+    doc.bold().invert().text(`${indent}OBS: ${notes.toUpperCase()}`).invert(false).bold(false);
+  }
+}
+
+/**
+ * Gera a comanda em ESC/POS.
+ * - order: pedido serializado (items com modifiers, notes e components)
+ * - number: número curto do pedido (042); placedAt: data/hora no fuso da loja
+ * - payAtCounter: o pedido ainda precisa ser cobrado no balcão
+ * - reprint: marca a via como reimpressão
+ */
+export function renderKitchenTicket(
+  order,
+  { number, placedAt, columns = 48, payAtCounter = false, reprint = false }
+) {
+  const doc = createEscPosDocument({ columns });
+
+  doc.align("center");
+  if (reprint) doc.bold().invert().text("REIMPRESSÃO").invert(false).bold(false);
+  doc.size(3).bold().text(`#${number}`).size(1).bold(false);
+  doc.text(placedAt);
+  if (order.userName) doc.size(1, 2).bold().text(order.userName).size(1).bold(false);
+  if (payAtCounter) doc.bold().invert().text("PAGAR NO BALCÃO").invert(false).bold(false);
+
+  doc.align("left").separator("=");
+  for (const item of order.items) {
+    doc.size(1, 2).bold().text(`${item.quantity}x ${item.name}`).size(1).bold(false);
+    for (const component of item.components || []) {
+      doc.bold().text(`  > ${item.quantity}x ${component.name}`).bold(false);
+      printChoices(doc, component, "    ");
+    }
+    printChoices(doc, item, "  ");
+    doc.separator();
+  }
+
+  doc.align("center").qr(order.id, { moduleSize: 5 }).text(order.id);
+  return doc.feed(3).cut().toBuffer();
+}
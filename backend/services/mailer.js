@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import net from "net";
+import os from "os";
+import path from "path";
+
+// ==========================================
+// E-MAIL
+// ==========================================
+// Cada driver implementa a mesma interface:
+//
+//   name            descrição usada nos logs
+//   send(message)   entrega a mensagem MIME já montada
+//                   ({ from, to, raw }); lança erro se falhar
+//
+// Drivers disponíveis (MAIL_DRIVER):
+//   file   grava cada mensagem como .eml em MAIL_OUTBOX_DIR (abre em
+//          qualquer cliente de e-mail; serve para testar sem servidor)
+//   smtp   entrega por SMTP simples, sem autenticação nem TLS, para um
+//          servidor local ou "sink" de testes (MailHog, smtp4dev) em
+//          SMTP_HOST:SMTP_PORT
+//   none   envio desligado (padrão)
+
+const DEFAULT_SMTP_PORT = 1025;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Cabeçalho com acentos (RFC 2047)
+const encodeHeader = (text) =>
+  /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text).toString("base64")}?=`;
+
+// Conteúdo em base64 com linhas de 76 caracteres
+const base64Lines = (content) =>
+  Buffer.from(content)
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+
+// Endereço do envelope SMTP: "Loja <recibos@loja.com>" -> recibos@loja.com
+const addressOf = (value) => (value.match(/<([^>]+)>/) || [null, value])[1].trim();
+
+/**
+ * Monta a mensagem MIME: texto e HTML alternativos, mais os anexos
+ * ({ filename, contentType, content: Buffer }).
+ */
+export function buildMimeMessage({ from, to, subject, text, html, attachments = [] }) {
+  const mixed = `mixed_${crypto.randomUUID()}`;
+  const alternative = `alt_${crypto.randomUUID()}`;
+  const domain = addressOf(from).split("@")[1] || "localhost";
+  const lines = [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${mixed}"`,
+    "",
+    `--${mixed}`,
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    "",
+  ];
+  for (const [type, body] of [
+    ["text/plain", text],
+    ["text/html", html],
+  ]) {
+    if (!body) continue;
+    lines.push(
+      `--${alternative}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(body)
+    );
+  }
+  lines.push(`--${alternative}--`);
+  for (const attachment of attachments) {
+    lines.push(
+      `--${mixed}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      "",
+      base64Lines(attachment.content)
+    );
+  }
+  lines.push(`--${mixed}--`, "");
+  return lines.join("\r\n");
+}
+
+function createFileDriver({ dir }) {
+  return {
+    name: `arquivo ${dir}`,
+    async send({ to, raw }) {
+      await fs.mkdir(dir, { recursive: true });
+      const safeTo = to.replace(/[^A-Za-z0-9@._-]/g, "_");
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}_${safeTo}.eml`);
+      await fs.writeFile(file, raw);
+    },
+  };
+}
+
+// Conversa SMTP mínima: cada comando espera o código de resposta indicado
+function createSmtpDriver({ host, port, timeoutMs }) {
+  return {
+    name: `smtp ${host}:${port}`,
+    send({ from, to, raw }) {
+      // Linhas que começam com "." são duplicadas (o "." sozinho encerra o DATA)
+      const data = raw.replace(/\r\n\./g, "\r\n..");
+      const steps = [
+        [null, 220],
+        [`EHLO ${os.hostname()}`, 250],
+        [`MAIL FROM:<${addressOf(from)}>`, 250],
+        [`RCPT TO:<${addressOf(to)}>`, 250],
+        ["DATA", 354],
+        [`${data}\r\n.`, 250],
+        ["QUIT", 221],
+      ];
+      return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port });
+        let buffer = "";
+        let step = 0;
+        socket.setEncoding("utf8");
+        socket.setTimeout(timeoutMs, () => {
+          socket.destroy(new Error(`Sem resposta de ${host}:${port}`));
+        });
+        socket.on("error", reject);
+        socket.on("close", () => {
+          if (step < steps.length) reject(new Error("Conexão SMTP encerrada antes do fim"));
+        });
+        socket.on("data", (chunk) => {
+          buffer += chunk;
+          const lines = buffer.split("\r\n");
+          buffer = lines.pop();
+          for (const line of lines) {
+            // Respostas de várias linhas: "250-..." continua, "250 ..." termina
+            if (/^\d{3}-/.test(line)) continue;
+            if (Number(line.slice(0, 3)) !== steps[step][1]) {
+              socket.destroy();
+              reject(new Error(`SMTP recusou: ${line}`));
+              return;
+            }
+            step += 1;
+            if (step === steps.length) {
+              socket.end();
+              resolve();
+              return;
+            }
+            socket.write(`${steps[step][0]}\r\n`);
+          }
+        });
+      });
+    },
+  };
+}
+
+/**
+ * Envio de e-mails configurado pelo ambiente (MAIL_DRIVER, MAIL_FROM,
+ * MAIL_OUTBOX_DIR, SMTP_HOST, SMTP_PORT).
+ */
+export function createMailerFromEnv({ env = process.env, defaultOutboxDir } = {}) {
+  const type = env.MAIL_DRIVER || "none";
+  const from = env.MAIL_FROM || "Pastelaria Kiosk Pro <recibos@pastelaria.example>";
+
+  let driver = null;
+  if (type === "file") {
+    const dir = env.MAIL_OUTBOX_DIR || defaultOutboxDir;
+    if (!dir) throw new Error("MAIL_DRIVER=file exige MAIL_OUTBOX_DIR");
+    driver = createFileDriver({ dir });
+  } else if (type === "smtp") {
+    driver = createSmtpDriver({
+      host: env.SMTP_HOST || "localhost",
+      port: Number(env.SMTP_PORT) || DEFAULT_SMTP_PORT,
+      timeoutMs: Number(env.SMTP_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    });
+  } else if (type !== "none") {
+    throw new Error(`MAIL_DRIVER deve ser file, smtp ou none (recebido: "${type}")`);
+  }
+
+  return {
+    name: driver ? driver.name : "desligado",
+    enabled: Boolean(driver),
+    async send({ to, subject, text, html, attachments }) {
+      if (!driver) throw new Error("Envio de e-mail não configurado");
+      const raw = buildMimeMessage({ from, to, subject, text, html, attachments });
+      await driver.send({ from, to, raw });
+    },
+  };
+}
@@ -0,0 +1,445 @@
+import crypto from "crypto";
+
+// ==========================================
+// NFC-e (NOTA FISCAL DE CONSUMIDOR ELETRÔNICA)
+// ==========================================
+// Monta o XML da NFC-e (modelo 65, layout 4.00) a partir do pedido, a
+// chave de acesso, a assinatura e o QR Code do DANFE (versão 2), e o
+// evento de cancelamento (110111) de uma nota autorizada. O envio para a
+// SEFAZ fica nos provedores (fiscalProviders.js).
+
+const NFE_NAMESPACE = "http://www.portalfiscal.inf.br/nfe";
+const DSIG_NAMESPACE = "http://www.w3.org/2000/09/xmldsig#";
+
+// Tipo de emissão (tpEmis): normal ou contingência offline da NFC-e
+export const EMISSION_NORMAL = 1;
+export const EMISSION_OFFLINE = 9;
+
+// Código IBGE das UFs (cUF)
+const UF_CODES = {
+  RO: 11, AC: 12, AM: 13, RR: 14, PA: 15, AP: 16, TO: 17, MA: 21, PI: 22,
+  CE: 23, RN: 24, PB: 25, PE: 26, AL: 27, SE: 28, BA: 29, MG: 31, ES: 32,
+  RJ: 33, SP: 35, PR: 41, SC: 42, RS: 43, MS: 50, MT: 51, GO: 52, DF: 53,
+};
+
+// Situações do ICMS aceitas no cadastro (sem alíquota própria):
+// CSOSN do Simples Nacional e CST do regime normal
+export const ICMS_SITUATIONS = {
+  102: "Simples Nacional sem permissão de crédito",
+  103: "Simples Nacional isento por faixa de receita",
+  300: "Simples Nacional imune",
+  400: "Simples Nacional não tributada",
+  500: "Simples Nacional com ICMS cobrado por substituição",
+  40: "Isenta",
+  41: "Não tributada",
+  60: "ICMS cobrado anteriormente por substituição",
+};
+
+// Meio de pagamento (tPag)
+const PAYMENT_CODES = { counter: "01", credit: "03", debit: "04", pix: "17" };
+const NO_PAYMENT = "90";
+
+const escapeXml = (value) =>
+  String(value ?? "").replace(
+    /[&<>"']/g,
+    (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]
+  );
+
+// <tag>valor</tag>; campos vazios são omitidos
+const tag = (name, value) =>
+  value === undefined || value === null || value === "" ? "" : `<${name}>${value}</${name}>`;
+const text = (name, value) => tag(name, value && escapeXml(value));
+
+const decimal = (value, places) => Number(value).toFixed(places);
+const digits = (value) => String(value ?? "").replace(/\D/g, "");
+
+/**
+ * Dígito verificador da chave de acesso (módulo 11, pesos 2 a 9 da
+ * direita para a esquerda; restos 0 e 1 dão dígito 0).
+ */
+export function accessKeyCheckDigit(key43) {
+  let weight = 2;
+  let sum = 0;
+  for (let i = key43.length - 1; i >= 0; i -= 1) {
+    sum += Number(key43[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+/**
+ * Chave de acesso de 44 dígitos:
+ * cUF + AAMM + CNPJ + modelo + série + número + tpEmis + cNF + DV
+ */
+export function buildAccessKey({ uf, issuedAt, cnpj, series, number, emissionType, code }) {
+  const key43 = [
+    String(UF_CODES[uf]).padStart(2, "0"),
+    issuedAt.slice(2, 4) + issuedAt.slice(5, 7),
+    digits(cnpj).padStart(14, "0"),
+    "65",
+    String(series).padStart(3, "0"),
+    String(number).padStart(9, "0"),
+    String(emissionType),
+    String(code).padStart(8, "0"),
+  ].join("");
+  return key43 + accessKeyCheckDigit(key43);
+}
+
+// Chave em grupos de 4 dígitos, como impressa no DANFE
+export const formatAccessKey = (key) => key.replace(/(\d{4})(?=\d)/g, "$1 ");
+
+/**
+ * Data e hora no fuso da loja com o deslocamento (2026-10-18T14:05:00-03:00).
+ */
+export function formatFiscalDate(date, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+      timeZoneName: "longOffset",
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, p.value])
+  );
+  const offset = parts.timeZoneName.replace("GMT", "") || "+00:00";
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`;
+}
+
+// Desconto do pedido (promoções + pontos) rateado entre os itens pelo
+// valor de cada um; o último item fica com a diferença dos arredondamentos
+function distributeDiscount(lines, discount) {
+  const gross = lines.reduce((acc, line) => acc + line.amount, 0);
+  let left = Math.round(discount * 100);
+  return lines.map((line, index) => {
+    const cents =
+      index === lines.length - 1
+        ? left
+        : Math.min(left, Math.round((discount * 100 * line.amount) / gross));
+    left -= cents;
+    return cents / 100;
+  });
+}
+
+function icmsXml(situation) {
+  const code = String(situation);
+  if (code.length === 3) {
+    const group = code === "500" ? "ICMSSN500" : "ICMSSN102";
+    return `<ICMS><${group}><orig>0</orig><CSOSN>${code}</CSOSN></${group}></ICMS>`;
+  }
+  const group = code === "60" ? "ICMS60" : "ICMS40";
+  return `<ICMS><${group}><orig>0</orig><CST>${code}</CST></${group}></ICMS>`;
+}
+
+const PIS_COFINS_XML =
+  "<PIS><PISOutr><CST>99</CST><vBC>0.00</vBC><pPIS>0.0000</pPIS><vPIS>0.00</vPIS></PISOutr></PIS>" +
+  "<COFINS><COFINSOutr><CST>99</CST><vBC>0.00</vBC><pCOFINS>0.0000</pCOFINS><vCOFINS>0.00</vCOFINS></COFINSOutr></COFINS>";
+
+/**
+ * Elemento <infNFe> (a parte assinada da nota).
+ * - order: pedido serializado; items com productId e, nos combos, components
+ * - taxes: dados fiscais de cada produto por id ({ ncm, cfop, cst })
+ * - issuer: emitente ({ cnpj, ie, name, uf, cityCode, city, street, number,
+ *   district, cep, crt, environment })
+ * - customer: { cpf, name } quando o cliente se identificou
+ * - contingency: { at, reason } na emissão offline
+ */
+export function buildInfNfe({
+  order,
+  orderNumber,
+  taxes,
+  issuer,
+  customer,
+  series,
+  number,
+  code,
+  issuedAt,
+  emissionType,
+  contingency,
+}) {
+  const accessKey = buildAccessKey({
+    uf: issuer.uf,
+    issuedAt,
+    cnpj: issuer.cnpj,
+    series,
+    number,
+    emissionType,
+    code,
+  });
+
+  const lines = order.items.map((item) => {
+    // Combo: a classificação fiscal é a do primeiro produto que o compõe
+    const tax = taxes[item.components?.[0]?.productId ?? item.productId] || {};
+    return { item, tax, amount: Math.round(item.price * item.quantity * 100) / 100 };
+  });
+  const grossTotal = lines.reduce((acc, line) => acc + line.amount, 0);
+  const discount = Math.max(0, Math.round((grossTotal - order.total) * 100) / 100);
+  const lineDiscounts = distributeDiscount(lines, discount);
+
+  const ide =
+    "<ide>" +
+    tag("cUF", UF_CODES[issuer.uf]) +
+    tag("cNF", String(code).padStart(8, "0")) +
+    tag("natOp", "VENDA") +
+    tag("mod", 65) +
+    tag("serie", series) +
+    tag("nNF", number) +
+    tag("dhEmi", issuedAt) +
+    tag("tpNF", 1) +
+    tag("idDest", 1) +
+    tag("cMunFG", issuer.cityCode) +
+    tag("tpImp", 4) +
+    tag("tpEmis", emissionType) +
+    tag("cDV", accessKey.slice(-1)) +
+    tag("tpAmb", issuer.environment) +
+    tag("finNFe", 1) +
+    tag("indFinal", 1) +
+    tag("indPres", 1) +
+    tag("procEmi", 0) +
+    tag("verProc", "kiosk-pro") +
+    (contingency ? tag("dhCont", contingency.at) + text("xJust", contingency.reason) : "") +
+    "</ide>";
+
+  const emit =
+    "<emit>" +
+    tag("CNPJ", digits(issuer.cnpj).padStart(14, "0")) +
+    text("xNome", issuer.name) +
+    "<enderEmit>" +
+    text("xLgr", issuer.street) +
+    text("nro", issuer.number) +
+    text("xBairro", issuer.district) +
+    tag("cMun", issuer.cityCode) +
+    text("xMun", issuer.city) +
+    tag("UF", issuer.uf) +
+    tag("CEP", digits(issuer.cep)) +
+    "</enderEmit>" +
+    tag("IE", digits(issuer.ie) || "ISENTO") +
+    tag("CRT", issuer.crt) +
+    "</emit>";
+
+  const dest = customer?.cpf
+    ? "<dest>" +
+      tag("CPF", digits(customer.cpf)) +
+      text("xNome", customer.name) +
+      tag("indIEDest", 9) +
+      "</dest>"
+    : "";
+
+  const det = lines
+    .map(
+      ({ item, tax, amount }, index) =>
+        `<det nItem="${index + 1}"><prod>` +
+        text("cProd", item.productId) +
+        tag("cEAN", "SEM GTIN") +
+        text("xProd", item.name) +
+        tag("NCM", digits(tax.ncm)) +
+        tag("CFOP", tax.cfop) +
+        tag("uCom", "UN") +
+        tag("qCom", decimal(item.quantity, 4)) +
+        tag("vUnCom", decimal(item.price, 10)) +
+        tag("vProd", decimal(amount, 2)) +
+        tag("cEANTrib", "SEM GTIN") +
+        tag("uTrib", "UN") +
+        tag("qTrib", decimal(item.quantity, 4)) +
+        tag("vUnTrib", decimal(item.price, 10)) +
+        (lineDiscounts[index] > 0 ? tag("vDesc", decimal(lineDiscounts[index], 2)) : "") +
+        tag("indTot", 1) +
+        "</prod><imposto>" +
+        icmsXml(tax.cst) +
+        PIS_COFINS_XML +
+        "</imposto></det>"
+    )
+    .join("");
+
+  const zero = "0.00";
+  const total =
+    "<total><ICMSTot>" +
+    ["vBC", "vICMS", "vICMSDeson", "vFCP", "vBCST", "vST", "vFCPST", "vFCPSTRet"]
+      .map((name) => tag(name, zero))
+      .join("") +
+    tag("vProd", decimal(grossTotal, 2)) +
+    ["vFrete", "vSeg"].map((name) => tag(name, zero)).join("") +
+    tag("vDesc", decimal(discount, 2)) +
+    ["vII", "vIPI", "vIPIDevol", "vPIS", "vCOFINS", "vOutro"].map((name) => tag(name, zero)).join("") +
+    tag("vNF", decimal(order.total, 2)) +
+    "</ICMSTot></total>";
+
+  const pag =
+    "<pag><detPag>" +
+    tag("tPag", order.total > 0 ? PAYMENT_CODES[order.paymentMethod] || "99" : NO_PAYMENT) +
+    tag("vPag", decimal(order.total, 2)) +
+    "</detPag></pag>";
+
+  const infNfe =
+    `<infNFe versao="4.00" Id="NFe${accessKey}">` +
+    ide +
+    emit +
+    dest +
+    det +
+    total +
+    "<transp><modFrete>9</modFrete></transp>" +
+    pag +
+    `<infAdic>${text("infCpl", `Pedido #${orderNumber}`)}</infAdic>` +
+    "</infNFe>";
+
+  return { accessKey, infNfe };
+}
+
+// Assinatura XMLDSig (RSA-SHA1) de um elemento referenciado pelo Id. O
+// XML já é gerado na forma canônica (sem espaços, atributos em ordem),
+// então o digest é calculado sobre o próprio texto com o namespace herdado.
+function signElement(element, elementName, id, { key, certificate }) {
+  const canonical = element.replace(`<${elementName} `, `<${elementName} xmlns="${NFE_NAMESPACE}" `);
+  const digestValue = crypto.createHash("sha1").update(canonical).digest("base64");
+  const signedInfo =
+    "<SignedInfo>" +
+    '<CanonicalizationMethod Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"></CanonicalizationMethod>' +
+    '<SignatureMethod Algorithm="http://www.w3.org/2000/09/xmldsig#rsa-sha1"></SignatureMethod>' +
+    `<Reference URI="#${id}">` +
+    "<Transforms>" +
+    '<Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"></Transform>' +
+    '<Transform Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"></Transform>' +
+    "</Transforms>" +
+    '<DigestMethod Algorithm="http://www.w3.org/2000/09/xmldsig#sha1"></DigestMethod>' +
+    `<DigestValue>${digestValue}</DigestValue>` +
+    "</Reference>" +
+    "</SignedInfo>";
+  const signatureValue = crypto
+    .sign("sha1", Buffer.from(signedInfo.replace("<SignedInfo>", `<SignedInfo xmlns="${DSIG_NAMESPACE}">`)), key)
+    .toString("base64");
+  const keyInfo = certificate
+    ? `<KeyInfo><X509Data><X509Certificate>${certificate}</X509Certificate></X509Data></KeyInfo>`
+    : "";
+  return {
+    digestValue,
+    signature: `<Signature xmlns="${DSIG_NAMESPACE}">${signedInfo}<SignatureValue>${signatureValue}</SignatureValue>${keyInfo}</Signature>`,
+  };
+}
+
+/**
+ * Assinatura do <infNFe>, referenciada pelo Id (NFe + chave).
+ * - key: chave privada (PEM ou KeyObject) do certificado A1
+ * - certificate: certificado X.509 em base64 (sem cabeçalhos PEM), opcional
+ */
+export function signInfNfe(infNfe, accessKey, signer) {
+  return signElement(infNfe, "infNFe", `NFe${accessKey}`, signer);
+}
+
+/**
+ * URL do QR Code do DANFE (versão 2). Na emissão normal leva só a chave;
+ * na contingência offline também o dia, o valor e o digest da assinatura,
+ * para o consumidor conferir a nota antes da autorização.
+ * O hash é o SHA-1 dos parâmetros seguidos do CSC (código do contribuinte).
+ */
+export function buildQrCodeUrl({
+  baseUrl,
+  accessKey,
+  environment,
+  csc,
+  cscId,
+  emissionType,
+  issuedAt,
+  total,
+  digestValue,
+}) {
+  const id = String(Number(cscId));
+  const params =
+    emissionType === EMISSION_OFFLINE
+      ? [
+          accessKey,
+          2,
+          environment,
+          issuedAt.slice(8, 10),
+          decimal(total, 2),
+          Buffer.from(digestValue).toString("hex"),
+          id,
+        ].join("|")
+      : [accessKey, 2, environment, id].join("|");
+  const hash = crypto
+    .createHash("sha1")
+    .update(params + csc)
+    .digest("hex")
+    .toUpperCase();
+  return `${baseUrl}?p=${params}|${hash}`;
+}
+
+/**
+ * XML completo da NFC-e: <infNFe>, dados suplementares (QR Code e URL de
+ * consulta) e a assinatura.
+ */
+export function assembleNfeXml({ infNfe, qrCodeUrl, consultUrl, signature }) {
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<NFe xmlns="${NFE_NAMESPACE}">` +
+    infNfe +
+    `<infNFeSupl><qrCode><![CDATA[${qrCodeUrl}]]></qrCode>${text("urlChave", consultUrl)}</infNFeSupl>` +
+    signature +
+    "</NFe>"
+  );
+}
+
+// Evento de cancelamento da NF-e/NFC-e
+export const EVENT_CANCEL = "110111";
+
+/**
+ * Evento de cancelamento (110111) assinado de uma nota autorizada. A
+ * justificativa (xJust) tem de 15 a 255 caracteres.
+ */
+export function buildCancelEvent({ accessKey, protocol, reason, issuer, issuedAt, signer }) {
+  const justification = String(reason).replace(/\s+/g, " ").trim().slice(0, 255);
+  if (justification.length < 15) {
+    throw new Error("A justificativa do cancelamento precisa de ao menos 15 caracteres");
+  }
+  const id = `ID${EVENT_CANCEL}${accessKey}01`;
+  const infEvento =
+    `<infEvento Id="${id}">` +
+    tag("cOrgao", UF_CODES[issuer.uf]) +
+    tag("tpAmb", issuer.environment) +
+    tag("CNPJ", digits(issuer.cnpj)) +
+    tag("chNFe", accessKey) +
+    tag("dhEvento", issuedAt) +
+    tag("tpEvento", EVENT_CANCEL) +
+    tag("nSeqEvento", 1) +
+    tag("verEvento", "1.00") +
+    '<detEvento versao="1.00">' +
+    tag("descEvento", "Cancelamento") +
+    tag("nProt", protocol) +
+    text("xJust", justification) +
+    "</detEvento>" +
+    "</infEvento>";
+  const { signature } = signElement(infEvento, "infEvento", id, signer);
+  return {
+    eventId: id,
+    xml:
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+      `<evento xmlns="${NFE_NAMESPACE}" versao="1.00">${infEvento}${signature}</evento>`,
+  };
+}
+
+// Leitura de um campo simples do XML (usada pela SEFAZ simulada)
+export const readXmlTag = (xml, name) =>
+  (xml.match(new RegExp(`<${name}>([^<]*)</${name}>`)) || [])[1];
+
+// Confere se o elemento assinado não foi alterado depois da assinatura
+function verifyDigest(xml, elementName) {
+  const element = (xml.match(new RegExp(`<${elementName} [\\s\\S]*</${elementName}>`)) || [])[0];
+  if (!element) return false;
+  const canonical = element.replace(`<${elementName} `, `<${elementName} xmlns="${NFE_NAMESPACE}" `);
+  const digest = crypto.createHash("sha1").update(canonical).digest("base64");
+  return digest === readXmlTag(xml, "DigestValue");
+}
+
+/**
+ * Confere se o <infNFe> não foi alterado depois da assinatura (mesmo
+ * digest que signInfNfe calcula).
+ */
+export const verifyNfeDigest = (xml) => verifyDigest(xml, "infNFe");
+
+// O mesmo para o <infEvento> de um evento (cancelamento)
+export const verifyEventDigest = (xml) => verifyDigest(xml, "infEvento");
@@ -0,0 +1,124 @@
+import { buildPixPayload, toTxid } from "./pixService.js";
+
+// ==========================================
+// PROVEDORES DE PAGAMENTO
+// ==========================================
+// Cada provedor implementa a mesma interface:
+//
+//   name                 identificador gravado em payments.provider
+//   methods              formas de pagamento que ele atende
+//   createCharge(charge) inicia a cobrança e devolve
+//                        { externalId, status?, details? }
+//                        (status omitido = continua "pending")
+//   refund(payment, amount)
+//                        devolve "amount" (total ou parcial) do pagamento;
+//                        lança erro se o provedor recusar
+//
+// A confirmação chega depois, de forma assíncrona, por onStatusChange
+// (o servidor grava o novo status e libera o pedido para a cozinha).
+
+// Pagamento no balcão: o caixa recebe e confirma pela tela da cozinha
+function createCounterProvider() {
+  return {
+    name: "counter",
+    methods: ["counter"],
+    async createCharge({ paymentId }) {
+      return { externalId: `counter_${paymentId}` };
+    },
+    async refund() {
+      // Devolução feita em dinheiro no próprio balcão
+    },
+  };
+}
+
+// PIX direto na chave da loja: gera o "copia e cola" com o valor e o txid
+// da cobrança. A confirmação chega pelo webhook POST /api/payments/webhooks/pix
+// (enviado pelo PSP do banco, ou por scripts/pixWebhookStub.js localmente).
+function createPixProvider({ key, merchantName, merchantCity, expiresInSeconds }) {
+  return {
+    name: "pix",
+    methods: ["pix"],
+    async createCharge({ paymentId, amount }) {
+      const txid = toTxid(paymentId);
+      return {
+        externalId: txid,
+        details: {
+          copyPaste: buildPixPayload({ key, merchantName, merchantCity, amount, txid }),
+          expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+        },
+      };
+    },
+    async refund() {
+      // Sem integração com o PSP: a devolução é feita pelo app do banco da loja
+    },
+  };
+}
+
+// Simulador para desenvolvimento: as cobranças ficam pendentes até alguém
+// chamar POST /api/payments/:id/simulate. Com PAYMENT_SIMULATOR_AUTO
+// ("approved" ou "declined") o resultado chega sozinho após
+// PAYMENT_SIMULATOR_DELAY_MS, como faria o webhook de um provedor real.
+function createSimulatorProvider({ onStatusChange, autoStatus, delayMs }) {
+  return {
+    name: "simulator",
+    methods: ["credit", "debit"],
+    async createCharge({ paymentId }) {
+      if (autoStatus) {
+        setTimeout(() => {
+          onStatusChange(paymentId, autoStatus).catch((err) =>
+            console.error("Simulador: falha ao confirmar pagamento:", err.message)
+          );
+        }, delayMs);
+      }
+      return { externalId: `sim_${paymentId}` };
+    },
+    async refund() {},
+  };
+}
+
+// Monta os provedores ativos. PAYMENT_PROVIDER escolhe quem atende o
+// cartão; PIX (chave PIX_KEY) e balcão estão sempre disponíveis.
+export function createPaymentProviders({ env = process.env, onStatusChange }) {
+  const providerName = env.PAYMENT_PROVIDER || "simulator";
+  const counter = createCounterProvider();
+
+  if (!env.PIX_KEY) {
+    console.warn(
+      "⚠️ AVISO: PIX_KEY não definida. Os QR Codes PIX usarão uma chave de exemplo."
+    );
+  }
+  const pix = createPixProvider({
+    key: env.PIX_KEY || "pix@pastelaria.example",
+    merchantName: env.PIX_MERCHANT_NAME || "Pastelaria Kiosk Pro",
+    merchantCity: env.PIX_MERCHANT_CITY || "Sao Paulo",
+    expiresInSeconds: Number(env.PIX_EXPIRATION_SECONDS) || 300,
+  });
+
+  let main;
+  if (providerName === "simulator") {
+    console.warn(
+      "⚠️ AVISO: crédito e débito estão no SIMULADOR de pagamentos (PAYMENT_PROVIDER=simulator). Nenhuma cobrança real é feita: não use assim em produção."
+    );
+    const autoStatus = ["approved", "declined"].includes(env.PAYMENT_SIMULATOR_AUTO)
+      ? env.PAYMENT_SIMULATOR_AUTO
+      : null;
+    main = createSimulatorProvider({
+      onStatusChange,
+      autoStatus,
+      delayMs: Number(env.PAYMENT_SIMULATOR_DELAY_MS) || 3000,
+    });
+  } else {
+    throw new Error(`Provedor de pagamento desconhecido: ${providerName}`);
+  }
+
+  const providers = [pix, main, counter];
+  const byName = Object.fromEntries(providers.map((p) => [p.name, p]));
+  return {
+    main,
+    methods: providers.flatMap((p) => p.methods),
+    // Provedor que atende uma forma de pagamento
+    forMethod: (method) => providers.find((p) => p.methods.includes(method)),
+    // Provedor que criou um pagamento já gravado
+    byName: (name) => byName[name],
+  };
+}
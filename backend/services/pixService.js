@@ -0,0 +1,109 @@
+// ==========================================
+// PIX "COPIA E COLA" (BR Code / EMV-MPM)
+// ==========================================
+// Monta o payload do QR Code PIX seguindo o Manual do BR Code do Banco
+// Central: campos TLV (id de 2 dígitos + tamanho de 2 dígitos + valor)
+// terminados pelo CRC16-CCITT do próprio payload.
+
+const GUI_PIX = "br.gov.bcb.pix";
+
+// Campo TLV: "26" + "58" + conteúdo com 58 caracteres
+const field = (id, value) => {
+  const text = String(value);
+  if (text.length > 99) {
+    throw new Error(`Campo ${id} do BR Code excede 99 caracteres`);
+  }
+  return `${id}${String(text.length).padStart(2, "0")}${text}`;
+};
+
+// Nome e cidade aceitam apenas ASCII sem acentos, com tamanho limitado
+const sanitize = (text, maxLength) =>
+  String(text)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 .-]/g, "")
+    .trim()
+    .slice(0, maxLength);
+
+// CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF), em hexadecimal
+export function crc16(payload) {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+// Identificador da cobrança (txid): até 25 caracteres alfanuméricos
+export const toTxid = (id) => String(id).replace(/[^A-Za-z0-9]/g, "").slice(0, 25);
+
+/**
+ * Gera o "copia e cola" de uma cobrança PIX.
+ * - Estático (padrão): chave + valor + txid; pode ser pago mais de uma vez,
+ *   a conciliação é feita pelo txid informado no webhook.
+ * - Dinâmico: informando "location" (URL do PSP sem https://), o app do
+ *   banco busca os dados da cobrança nessa URL e o QR é de uso único.
+ */
+export function buildPixPayload({
+  key,
+  merchantName,
+  merchantCity,
+  amount,
+  txid,
+  location,
+}) {
+  const merchantAccount = location
+    ? field("00", GUI_PIX) + field("25", location)
+    : field("00", GUI_PIX) + field("01", key);
+
+  const payload =
+    field("00", "01") +
+    // 12 = QR de uso único (dinâmico); estático não envia o campo 01
+    (location ? field("01", "12") : "") +
+    field("26", merchantAccount) +
+    field("52", "0000") +
+    field("53", "986") +
+    (amount > 0 ? field("54", amount.toFixed(2)) : "") +
+    field("58", "BR") +
+    field("59", sanitize(merchantName, 25)) +
+    field("60", sanitize(merchantCity, 15)) +
+    field("62", field("05", location ? "***" : toTxid(txid) || "***")) +
+    "6304";
+
+  return payload + crc16(payload);
+}
+
+// Lê os campos TLV de um payload (usado para conferir QR Codes recebidos)
+export function parsePixPayload(payload) {
+  const text = String(payload).trim();
+  if (crc16(text.slice(0, -4)) !== text.slice(-4).toUpperCase()) {
+    throw new Error("CRC do BR Code inválido");
+  }
+
+  const readFields = (data) => {
+    const fields = {};
+    for (let i = 0; i < data.length; ) {
+      const id = data.slice(i, i + 2);
+      const length = Number(data.slice(i + 2, i + 4));
+      fields[id] = data.slice(i + 4, i + 4 + length);
+      i += 4 + length;
+    }
+    return fields;
+  };
+
+  const fields = readFields(text);
+  const account = readFields(fields["26"] || "");
+  const additional = readFields(fields["62"] || "");
+  return {
+    key: account["01"] || null,
+    location: account["25"] || null,
+    amount: fields["54"] ? Number(fields["54"]) : null,
+    merchantName: fields["59"],
+    merchantCity: fields["60"],
+    txid: additional["05"] || null,
+  };
+}
@@ -0,0 +1,96 @@
+import fs from "fs/promises";
+import net from "net";
+
+// ==========================================
+// IMPRESSORAS
+// ==========================================
+// Cada driver implementa a mesma interface:
+//
+//   name            descrição usada nos logs
+//   print(buffer)   envia os bytes (ESC/POS) para a impressora; lança erro
+//                   se ela não respondeu
+//
+// Drivers disponíveis:
+//   tcp    impressora de rede na porta "raw" (9100)
+//   file   acrescenta os bytes a um arquivo ou dispositivo (/dev/usb/lp0);
+//          com um arquivo comum serve para testar sem impressora
+//   none   impressão desligada
+
+const DEFAULT_TCP_PORT = 9100;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+function createTcpDriver({ host, port, timeoutMs }) {
+  return {
+    name: `tcp ${host}:${port}`,
+    print(buffer) {
+      return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port });
+        socket.setTimeout(timeoutMs, () => {
+          socket.destroy(new Error(`Sem resposta de ${host}:${port}`));
+        });
+        socket.on("error", reject);
+        socket.on("close", (hadError) => {
+          if (!hadError) resolve();
+        });
+        socket.on("connect", () => socket.end(buffer));
+      });
+    },
+  };
+}
+
+function createFileDriver({ path }) {
+  return {
+    name: `arquivo ${path}`,
+    print(buffer) {
+      return fs.appendFile(path, buffer);
+    },
+  };
+}
+
+/**
+ * Impressora configurada pelas variáveis de ambiente com o prefixo dado
+ * (ex.: "KITCHEN" lê KITCHEN_PRINTER, KITCHEN_PRINTER_HOST...):
+ * - <PREFIXO>_PRINTER: tcp | file | none (padrão)
+ * - <PREFIXO>_PRINTER_HOST / _PORT: endereço da impressora de rede
+ * - <PREFIXO>_PRINTER_PATH: arquivo ou dispositivo do driver file
+ * - <PREFIXO>_PRINTER_COLUMNS: caracteres por linha (48 no papel de 80 mm)
+ *
+ * Os trabalhos vão para a impressora um de cada vez, na ordem de chegada.
+ */
+export function createPrinterFromEnv(prefix, { env = process.env, defaultPath } = {}) {
+  const variable = (name) => env[`${prefix}_PRINTER${name}`];
+  const type = variable("") || "none";
+  const columns = Number(variable("_COLUMNS")) || 48;
+
+  let driver = null;
+  if (type === "tcp") {
+    if (!variable("_HOST")) {
+      throw new Error(`${prefix}_PRINTER=tcp exige ${prefix}_PRINTER_HOST`);
+    }
+    driver = createTcpDriver({
+      host: variable("_HOST"),
+      port: Number(variable("_PORT")) || DEFAULT_TCP_PORT,
+      timeoutMs: Number(variable("_TIMEOUT_MS")) || DEFAULT_TIMEOUT_MS,
+    });
+  } else if (type === "file") {
+    const path = variable("_PATH") || defaultPath;
+    if (!path) throw new Error(`${prefix}_PRINTER=file exige ${prefix}_PRINTER_PATH`);
+    driver = createFileDriver({ path });
+  } else if (type !== "none") {
+    throw new Error(`${prefix}_PRINTER deve ser tcp, file ou none (recebido: "${type}")`);
+  }
+
+  // Fila: um trabalho só começa quando o anterior terminou
+  let queue = Promise.resolve();
+  return {
+    name: driver ? driver.name : "desligada",
+    enabled: Boolean(driver),
+    columns,
+    print(buffer) {
+      if (!driver) return Promise.reject(new Error("Impressora não configurada"));
+      const job = queue.then(() => driver.print(buffer));
+      queue = job.catch(() => {});
+      return job;
+    },
+  };
+}
@@ -0,0 +1,186 @@
+// ==========================================
+// MOTOR DE PROMOÇÕES E CUPONS
+// ==========================================
+// Tipos de regra:
+//   percent           "value"% de desconto no pedido
+//   fixed             R$ "value" de desconto no pedido
+//   buy_x_pay_y       leve "buyQuantity", pague "payQuantity" (produto ou categoria)
+//   category_percent  "value"% de desconto nos itens da categoria
+//
+// Regras com "code" são cupons: só valem quando o cliente digita o código.
+// As de item (buy_x_pay_y, category_percent) nunca descontam a mesma unidade
+// duas vezes; das de pedido (percent, fixed) vale só a maior. Combos já têm
+// preço promocional e ficam fora das regras de item.
+
+export const PROMOTION_TYPES = ["percent", "fixed", "buy_x_pay_y", "category_percent"];
+const ITEM_LEVEL_TYPES = ["buy_x_pay_y", "category_percent"];
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// Data, dia da semana (0 = domingo) e hora local da loja
+export function storeClock(date, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(parts.weekday),
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+// Período de validade (datas inclusivas) e janela de horário (happy hour)
+export function isWithinSchedule(promotion, clock) {
+  if (promotion.startsAt && clock.date < promotion.startsAt) return false;
+  if (promotion.endsAt && clock.date > promotion.endsAt) return false;
+  if (promotion.daysOfWeek?.length && !promotion.daysOfWeek.includes(clock.weekday)) {
+    return false;
+  }
+  if (promotion.startTime && clock.time < promotion.startTime) return false;
+  if (promotion.endTime && clock.time >= promotion.endTime) return false;
+  return true;
+}
+
+const matchesTarget = (promotion, item) =>
+  !item.comboId &&
+  (promotion.productId
+    ? item.productId === promotion.productId
+    : item.category === promotion.category);
+
+// Desconto por linha do pedido (índice -> valor) de uma regra de item,
+// considerando só as unidades ainda livres, e as unidades que ela consome
+function itemDiscounts(promotion, items, freeUnits) {
+  const discounts = new Map();
+  const used = new Map();
+  const eligible = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => matchesTarget(promotion, item) && freeUnits[index] > 0);
+
+  if (promotion.type === "category_percent") {
+    for (const { item, index } of eligible) {
+      discounts.set(index, (item.price * freeUnits[index] * promotion.value) / 100);
+      used.set(index, freeUnits[index]);
+    }
+  } else if (promotion.type === "buy_x_pay_y") {
+    // Unidades do mais caro para o mais barato; em cada grupo de X,
+    // as (X - Y) mais baratas saem de graça
+    const units = eligible
+      .flatMap(({ item, index }) =>
+        Array.from({ length: freeUnits[index] }, () => ({ index, price: item.price }))
+      )
+      .sort((a, b) => b.price - a.price);
+    const groupSize = promotion.buyQuantity;
+    const freePerGroup = promotion.buyQuantity - promotion.payQuantity;
+    for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+      const group = units.slice(start, start + groupSize);
+      for (const unit of group) used.set(unit.index, (used.get(unit.index) || 0) + 1);
+      for (const unit of group.slice(groupSize - freePerGroup)) {
+        discounts.set(unit.index, (discounts.get(unit.index) || 0) + unit.price);
+      }
+    }
+  }
+  return { discounts, used };
+}
+
+/**
+ * Calcula os descontos de um pedido já precificado pelo servidor.
+ * - promotions: regras ativas, dentro do limite de uso e do período
+ * - couponCode: código digitado pelo cliente (opcional)
+ * Retorna { discounts, discountTotal, couponError }; cada desconto tem
+ * { promotionId, name, code, type, amount, itemIndex } (itemIndex null = pedido).
+ */
+export function evaluatePromotions(promotions, items, { couponCode } = {}) {
+  const code = couponCode ? String(couponCode).trim().toUpperCase() : null;
+  const eligible = promotions.filter((p) => !p.code || p.code === code);
+  const coupon = code ? eligible.find((p) => p.code === code) : null;
+  const subtotal = roundMoney(items.reduce((acc, it) => acc + it.price * it.quantity, 0));
+  const discounts = [];
+  const freeUnits = items.map((it) => it.quantity);
+
+  // Regras de item: a que mais desconta primeiro, sem repetir unidades
+  let pending = eligible.filter((p) => ITEM_LEVEL_TYPES.includes(p.type));
+  while (pending.length > 0) {
+    const ranked = pending
+      .map((promotion) => {
+        const { discounts: lines, used } = itemDiscounts(promotion, items, freeUnits);
+        const total = [...lines.values()].reduce((acc, v) => acc + v, 0);
+        return { promotion, lines, used, total };
+      })
+      .sort((a, b) => b.total - a.total);
+    const best = ranked[0];
+    if (best.total <= 0) break;
+
+    for (const [index, amount] of best.lines) {
+      discounts.push({
+        promotionId: best.promotion.id,
+        name: best.promotion.name,
+        code: best.promotion.code || null,
+        type: best.promotion.type,
+        amount: roundMoney(amount),
+        itemIndex: index,
+      });
+    }
+    // Unidades já usadas (inclusive as pagas do "leve 3") não entram em outra regra
+    for (const [index, units] of best.used) {
+      freeUnits[index] -= units;
+    }
+    pending = pending.filter((p) => p !== best.promotion);
+  }
+
+  // Regras de pedido: vale a maior, sobre o que sobrou após os descontos de item
+  const itemDiscountTotal = discounts.reduce((acc, d) => acc + d.amount, 0);
+  const base = roundMoney(subtotal - itemDiscountTotal);
+  const orderLevel = eligible
+    .filter((p) => !ITEM_LEVEL_TYPES.includes(p.type))
+    .filter((p) => !p.minSubtotal || subtotal >= p.minSubtotal)
+    .map((promotion) => ({
+      promotion,
+      amount: roundMoney(
+        Math.min(
+          base,
+          promotion.type === "percent" ? (base * promotion.value) / 100 : promotion.value
+        )
+      ),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+  if (orderLevel.length > 0 && orderLevel[0].amount > 0) {
+    const { promotion, amount } = orderLevel[0];
+    discounts.push({
+      promotionId: promotion.id,
+      name: promotion.name,
+      code: promotion.code || null,
+      type: promotion.type,
+      amount,
+      itemIndex: null,
+    });
+  }
+
+  // Cupom digitado que acabou não sendo usado: explica o motivo
+  let couponError = null;
+  if (coupon && !discounts.some((d) => d.promotionId === coupon.id)) {
+    if (coupon.minSubtotal && subtotal < coupon.minSubtotal) {
+      couponError = `Este cupom vale para pedidos a partir de R$ ${coupon.minSubtotal.toFixed(2)}.`;
+    } else if (ITEM_LEVEL_TYPES.includes(coupon.type)) {
+      couponError = "Nenhum item do carrinho participa deste cupom.";
+    } else {
+      couponError = "Cupom não aplicado: o pedido já tem um desconto maior.";
+    }
+  }
+
+  return {
+    discounts,
+    discountTotal: roundMoney(discounts.reduce((acc, d) => acc + d.amount, 0)),
+    couponError,
+  };
+}
@@ -0,0 +1,40 @@
+// ==========================================
+// LIMITE DE REQUISIÇÕES
+// ==========================================
+// Janela deslizante em memória por chave (o IP, por padrão). Serve para
+// rotas públicas do totem que não podem virar um meio de varrer dados,
+// como a busca de cliente por CPF. Com vários processos/servidores cada um
+// conta separadamente.
+
+/**
+ * Middleware do Express que aceita até "max" requisições por chave a cada
+ * "windowMs" e responde 429 (com Retry-After) acima disso.
+ */
+export function createRateLimiter({ windowMs, max, keyOf = (req) => req.ip, message }) {
+  const hits = new Map();
+
+  // Remove de tempos em tempos as chaves sem acessos recentes
+  setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= cutoff) hits.delete(key);
+    }
+  }, windowMs).unref();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = keyOf(req);
+    const times = (hits.get(key) || []).filter((t) => t > now - windowMs);
+    if (times.length >= max) {
+      const retryAfter = Math.ceil((times[0] + windowMs - now) / 1000);
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        error: message || "Muitas tentativas. Aguarde um pouco e tente novamente.",
+        retryAfter,
+      });
+    }
+    times.push(now);
+    hits.set(key, times);
+    next();
+  };
+}
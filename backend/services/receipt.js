@@ -0,0 +1,255 @@
+import PDFDocument from "pdfkit";
+import { createEscPosDocument } from "./escpos.js";
+import { formatAccessKey } from "./nfce.js";
+import { pdfText } from "./reportExport.js";
+
+// ==========================================
+// COMPROVANTE DO CLIENTE
+// ==========================================
+// O servidor monta o comprovante a partir do pedido e estas funções o
+// convertem para ESC/POS (impressora do totem), HTML (página aberta pelo
+// QR Code) e PDF (anexo do e-mail). Formato do comprovante:
+//
+//   store          { name, address, document }
+//   number         número curto do pedido (042); placedAt: data/hora da loja
+//   customerName   nome do cliente (ou null)
+//   status         status do pedido (cancelado vira um aviso)
+//   items          [{ quantity, name, details: [texto], total }]
+//   subtotal, discounts: [{ name, amount }], total, refunded
+//   payment        { label, pending }
+//   pointsEarned, pointsRedeemed
+//   url            endereço do comprovante digital (QR Code)
+//   fiscal         DANFE da NFC-e (ou null): { number, series, issuedAt,
+//                  accessKey, protocol, authorizedAt, contingency,
+//                  homologation, consultUrl, qrCodeUrl, customerCpf }
+//
+// Com NFC-e o comprovante vira o DANFE: o QR Code impresso é o da consulta
+// da nota na SEFAZ, no lugar do link do comprovante digital.
+
+const money = (value) => `R$ ${value.toFixed(2).replace(".", ",")}`;
+
+const NOT_FISCAL = "Não é documento fiscal";
+const DANFE_TITLE = "DANFE NFC-e - Documento Auxiliar da Nota Fiscal de Consumidor Eletrônica";
+const HOMOLOGATION = "EMITIDA EM AMBIENTE DE HOMOLOGAÇÃO - SEM VALOR FISCAL";
+const CONTINGENCY = "EMITIDA EM CONTINGÊNCIA";
+
+// Linhas de identificação da nota, na ordem do DANFE
+const danfeLines = (fiscal) => [
+  `NFC-e nº ${fiscal.number} Série ${fiscal.series} ${fiscal.issuedAt}`,
+  fiscal.protocol
+    ? `Protocolo de autorização: ${fiscal.protocol} ${fiscal.authorizedAt}`
+    : "Pendente de autorização",
+  fiscal.customerCpf ? `CONSUMIDOR CPF: ${fiscal.customerCpf}` : "CONSUMIDOR NÃO IDENTIFICADO",
+];
+
+/**
+ * Comprovante em ESC/POS para a impressora térmica do totem.
+ */
+export function receiptToEscPos(receipt, { columns = 48 } = {}) {
+  const doc = createEscPosDocument({ columns });
+  const { store } = receipt;
+
+  doc.align("center").size(2).bold().text(store.name).size(1).bold(false);
+  if (store.address) doc.text(store.address);
+  if (store.document) doc.text(store.document);
+  doc.separator("=");
+  if (receipt.status === "cancelled") doc.bold().invert().text("PEDIDO CANCELADO").invert(false).bold(false);
+  doc.size(2).bold().text(`Pedido #${receipt.number}`).size(1).bold(false);
+  doc.text(receipt.placedAt);
+  if (receipt.customerName) doc.text(receipt.customerName);
+
+  doc.align("left").separator();
+  for (const item of receipt.items) {
+    doc.pair(`${item.quantity}x ${item.name}`, money(item.total));
+    item.details.forEach((detail) => doc.text(`  ${detail}`));
+  }
+  doc.separator();
+  doc.pair("Subtotal", money(receipt.subtotal));
+  receipt.discounts.forEach((d) => doc.pair(d.name, `-${money(d.amount)}`));
+  doc.size(1, 2).bold().pair("TOTAL", money(receipt.total)).size(1).bold(false);
+  if (receipt.refunded > 0) doc.pair("Estornado", `-${money(receipt.refunded)}`);
+  doc.pair("Pagamento", receipt.payment.label);
+  if (receipt.payment.pending) doc.bold().text("A pagar no balcão").bold(false);
+  if (receipt.pointsRedeemed) doc.pair("Pontos usados", String(receipt.pointsRedeemed));
+  if (receipt.pointsEarned) doc.pair("Pontos ganhos", String(receipt.pointsEarned));
+
+  doc.separator().align("center");
+  const { fiscal } = receipt;
+  if (fiscal) {
+    doc.bold().text(DANFE_TITLE).bold(false);
+    if (fiscal.homologation) doc.bold().text(HOMOLOGATION).bold(false);
+    if (fiscal.contingency) doc.bold().invert().text(CONTINGENCY).invert(false).bold(false);
+    danfeLines(fiscal).forEach((line) => doc.text(line));
+    doc.text("Consulte pela Chave de Acesso em").text(fiscal.consultUrl);
+    doc.bold().text(formatAccessKey(fiscal.accessKey)).bold(false);
+    doc.qr(fiscal.qrCodeUrl, { moduleSize: 4 });
+  } else {
+    doc.qr(receipt.url, { moduleSize: 4 });
+    doc.text("Comprovante digital").text(NOT_FISCAL);
+  }
+  return doc.feed(3).cut().toBuffer();
+}
+
+const escapeHtml = (value) =>
+  String(value ?? "").replace(
+    /[&<>"']/g,
+    (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]
+  );
+
+const RECEIPT_STYLES = `
+  body { font-family: sans-serif; background: #f5f5f4; margin: 0; padding: 16px; color: #1c1917; }
+  main { max-width: 360px; margin: 0 auto; background: #fff; padding: 20px; border-radius: 12px; }
+  h1 { font-size: 18px; text-align: center; margin: 0; }
+  h2 { font-size: 28px; text-align: center; margin: 12px 0 0; color: #d97706; }
+  p { margin: 2px 0; }
+  .center { text-align: center; }
+  .muted { color: #78716c; font-size: 12px; }
+  .alert { background: #fee2e2; color: #991b1b; font-weight: bold; padding: 6px; text-align: center; border-radius: 6px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; font-size: 14px; }
+  td { padding: 3px 0; vertical-align: top; }
+  td.num { text-align: right; white-space: nowrap; }
+  .danfe { margin-top: 16px; padding-top: 12px; border-top: 1px dashed #d6d3d1; text-align: center; font-size: 12px; }
+  .danfe .key { font-family: monospace; font-weight: bold; }
+  tr.total td { font-weight: bold; font-size: 16px; border-top: 1px solid #d6d3d1; padding-top: 6px; }
+  @media print { body { background: #fff; padding: 0; } main { padding: 0; } }
+`;
+
+const danfeHtml = (fiscal) => `
+  <section class="danfe">
+    <p><strong>${DANFE_TITLE}</strong></p>
+    ${fiscal.homologation ? `<p class="alert">${HOMOLOGATION}</p>` : ""}
+    ${fiscal.contingency ? `<p class="alert">${CONTINGENCY}</p>` : ""}
+    ${danfeLines(fiscal).map((line) => `<p>${escapeHtml(line)}</p>`).join("")}
+    <p>Consulte pela Chave de Acesso em <a href="${escapeHtml(fiscal.consultUrl)}">${escapeHtml(fiscal.consultUrl)}</a></p>
+    <p class="key">${formatAccessKey(fiscal.accessKey)}</p>
+    <p><a href="${escapeHtml(fiscal.qrCodeUrl)}">Consultar NFC-e</a></p>
+  </section>`;
+
+/**
+ * Página do comprovante (link do QR Code e corpo do e-mail).
+ * autoPrint abre a impressão do navegador ao carregar.
+ */
+export function receiptToHtml(receipt, { autoPrint = false } = {}) {
+  const { store } = receipt;
+  const row = (label, value, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`;
+  const items = receipt.items
+    .map(
+      (item) =>
+        row(`${item.quantity}x ${item.name}`, money(item.total)) +
+        item.details
+          .map((detail) => `<tr><td class="muted" colspan="2">&nbsp;&nbsp;${escapeHtml(detail)}</td></tr>`)
+          .join("")
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Pedido #${escapeHtml(receipt.number)} - ${escapeHtml(store.name)}</title>
+<style>${RECEIPT_STYLES}</style>
+</head>
+<body>
+<main>
+  <h1>${escapeHtml(store.name)}</h1>
+  ${store.address ? `<p class="center muted">${escapeHtml(store.address)}</p>` : ""}
+  ${store.document ? `<p class="center muted">${escapeHtml(store.document)}</p>` : ""}
+  ${receipt.status === "cancelled" ? '<p class="alert">Pedido cancelado</p>' : ""}
+  <h2>Pedido #${escapeHtml(receipt.number)}</h2>
+  <p class="center muted">${escapeHtml(receipt.placedAt)}${receipt.customerName ? ` · ${escapeHtml(receipt.customerName)}` : ""}</p>
+  <table>
+    ${items}
+    ${row("Subtotal", money(receipt.subtotal))}
+    ${receipt.discounts.map((d) => row(d.name, `-${money(d.amount)}`)).join("")}
+    ${row("Total", money(receipt.total), "total")}
+    ${receipt.refunded > 0 ? row("Estornado", `-${money(receipt.refunded)}`) : ""}
+    ${row("Pagamento", receipt.payment.label + (receipt.payment.pending ? " (a pagar no balcão)" : ""))}
+    ${receipt.pointsRedeemed ? row("Pontos usados", receipt.pointsRedeemed) : ""}
+    ${receipt.pointsEarned ? row("Pontos ganhos", receipt.pointsEarned) : ""}
+  </table>
+  ${receipt.fiscal ? danfeHtml(receipt.fiscal) : `<p class="center muted" style="margin-top: 16px">${NOT_FISCAL}</p>`}
+</main>
+${autoPrint ? "<script>window.onload = () => window.print();</script>" : ""}
+</body>
+</html>`;
+}
+
+// Bobina de 80 mm
+const PDF_WIDTH = 227;
+const PDF_MARGIN = 14;
+
+/**
+ * Comprovante em PDF no formato da bobina (anexo do e-mail).
+ */
+export function receiptToPdf(receipt) {
+  const { store } = receipt;
+  const detailCount = receipt.items.reduce((acc, item) => acc + item.details.length, 0);
+  // Altura da página proporcional ao conteúdo (uma única "tira")
+  const height =
+    200 +
+    (receipt.items.length + receipt.discounts.length) * 16 +
+    detailCount * 11 +
+    (receipt.fiscal ? 130 : 0);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: [PDF_WIDTH, height], margin: PDF_MARGIN });
+    const chunks = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const width = PDF_WIDTH - PDF_MARGIN * 2;
+    const center = (text, font = "Helvetica", size = 8) =>
+      doc.font(font).fontSize(size).text(pdfText(text), PDF_MARGIN, doc.y, { width, align: "center" });
+    const row = (label, value, { bold = false } = {}) => {
+      const y = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(bold ? 10 : 8);
+      doc.text(pdfText(value), PDF_MARGIN, y, { width, align: "right" });
+      doc.text(pdfText(label), PDF_MARGIN, y, { width: width - 60 });
+      doc.y = Math.max(doc.y, y + (bold ? 13 : 11));
+    };
+
+    center(store.name, "Helvetica-Bold", 11);
+    if (store.address) center(store.address);
+    if (store.document) center(store.document);
+    doc.moveDown(0.5);
+    if (receipt.status === "cancelled") center("PEDIDO CANCELADO", "Helvetica-Bold", 10);
+    center(`Pedido #${receipt.number}`, "Helvetica-Bold", 16);
+    center(receipt.placedAt + (receipt.customerName ? ` · ${receipt.customerName}` : ""));
+    doc.moveDown(0.5);
+
+    for (const item of receipt.items) {
+      row(`${item.quantity}x ${item.name}`, money(item.total));
+      for (const detail of item.details) {
+        doc.font("Helvetica").fontSize(7).fillColor("#57534e");
+        doc.text(pdfText(`  ${detail}`), PDF_MARGIN, doc.y, { width });
+        doc.fillColor("#000");
+      }
+    }
+    doc.moveDown(0.3);
+    row("Subtotal", money(receipt.subtotal));
+    receipt.discounts.forEach((d) => row(d.name, `-${money(d.amount)}`));
+    row("TOTAL", money(receipt.total), { bold: true });
+    if (receipt.refunded > 0) row("Estornado", `-${money(receipt.refunded)}`);
+    row("Pagamento", receipt.payment.label);
+    if (receipt.payment.pending) row("", "A pagar no balcão");
+    if (receipt.pointsRedeemed) row("Pontos usados", String(receipt.pointsRedeemed));
+    if (receipt.pointsEarned) row("Pontos ganhos", String(receipt.pointsEarned));
+    doc.moveDown(0.5);
+    const { fiscal } = receipt;
+    if (fiscal) {
+      center(DANFE_TITLE, "Helvetica-Bold", 7);
+      if (fiscal.homologation) center(HOMOLOGATION, "Helvetica-Bold", 7);
+      if (fiscal.contingency) center(CONTINGENCY, "Helvetica-Bold", 8);
+      danfeLines(fiscal).forEach((line) => center(line, "Helvetica", 7));
+      center("Consulte pela Chave de Acesso em", "Helvetica", 7);
+      center(fiscal.consultUrl, "Helvetica", 7);
+      center(formatAccessKey(fiscal.accessKey), "Courier-Bold", 7);
+    } else {
+      center(NOT_FISCAL, "Helvetica", 7);
+    }
+    doc.end();
+  });
+}
@@ -0,0 +1,156 @@
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+
+// ==========================================
+// EXPORTAÇÃO DE RELATÓRIOS (CSV, XLSX E PDF)
+// ==========================================
+// Cada planilha é descrita por colunas { header, key, type } e linhas
+// (objetos com as chaves das colunas). type: "text" (padrão), "number" ou
+// "money". O CSV segue o padrão do Excel em português: separador ";",
+// vírgula decimal e BOM para os acentos abrirem certo.
+
+export const EXPORT_FORMATS = ["csv", "xlsx"];
+
+export const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+const formatMoney = (value) => `R$ ${value.toFixed(2).replace(".", ",")}`;
+
+const csvCell = (value, type) => {
+  if (value === null || value === undefined) return "";
+  if (type === "money" || type === "number") {
+    return String(type === "money" ? value.toFixed(2) : value).replace(".", ",");
+  }
+  const text = String(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(columns, rows) {
+  const lines = [
+    columns.map((c) => csvCell(c.header)).join(";"),
+    ...rows.map((row) => columns.map((c) => csvCell(row[c.key], c.type)).join(";")),
+  ];
+  return Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf-8");
+}
+
+// Planilha única com cabeçalho fixo, filtros e formato de moeda
+export async function toXlsx(sheetName, columns, rows) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet(sheetName, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = columns.map((c) => ({
+    header: c.header,
+    key: c.key,
+    width: Math.max(c.header.length + 2, c.type === "text" || !c.type ? 18 : 12),
+    style: c.type === "money" ? { numFmt: '"R$" #,##0.00' } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  for (const row of rows) sheet.addRow(row);
+  // Linha de totais (marcada com _total) em negrito
+  sheet.eachRow((row, number) => {
+    if (number > 1 && rows[number - 2]?._total) row.font = { bold: true };
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export const toSpreadsheet = (format, sheetName, columns, rows) =>
+  format === "xlsx" ? toXlsx(sheetName, columns, rows) : Promise.resolve(toCsv(columns, rows));
+
+// As fontes padrão do PDF só têm os caracteres latinos: emojis e outros
+// símbolos (comuns no texto da IA) são removidos
+export const pdfText = (value) =>
+  String(value ?? "")
+    .replace(/[^\n\t\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2018-\u201D\u2022]+ ?/gu, "")
+    .replace(/[ \t]+\n/g, "\n");
+
+const PAGE_MARGIN = 48;
+
+// Tabela simples: colunas com largura proporcional, quebra de página automática
+function drawTable(doc, columns, rows) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const weights = columns.map((c) => c.width || 1);
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+  const widths = weights.map((w) => (w / totalWeight) * width);
+
+  const drawRow = (cells, { bold = false } = {}) => {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 20) doc.addPage();
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    cells.forEach((cell, i) => {
+      const alignRight = columns[i].type === "money" || columns[i].type === "number";
+      doc.text(cell, x + 2, y, {
+        width: widths[i] - 4,
+        align: alignRight ? "right" : "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += widths[i];
+    });
+    doc.y = y + 14;
+    doc
+      .moveTo(PAGE_MARGIN, doc.y - 2)
+      .lineTo(PAGE_MARGIN + width, doc.y - 2)
+      .strokeColor("#e2e8f0")
+      .stroke();
+  };
+
+  drawRow(columns.map((c) => pdfText(c.header)), { bold: true });
+  for (const row of rows) {
+    drawRow(
+      columns.map((c) => {
+        const value = row[c.key];
+        if (value === null || value === undefined) return "—";
+        if (c.type === "money") return formatMoney(value);
+        return pdfText(value);
+      }),
+      { bold: Boolean(row._total) }
+    );
+  }
+  doc.x = PAGE_MARGIN;
+  doc.moveDown();
+}
+
+/**
+ * Gera o PDF do relatório.
+ * - title / subtitle: cabeçalho da primeira página
+ * - sections: [{ heading, lines? (texto), columns?, rows? (tabela), emptyText? }]
+ */
+export function toPdf({ title, subtitle, sections }) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+    const chunks = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.font("Helvetica-Bold").fontSize(18).fillColor("#000").text(pdfText(title));
+    if (subtitle) doc.font("Helvetica").fontSize(10).fillColor("#475569").text(pdfText(subtitle));
+    doc.fillColor("#000").moveDown();
+
+    for (const section of sections) {
+      if (doc.y > doc.page.height - PAGE_MARGIN - 60) doc.addPage();
+      doc.font("Helvetica-Bold").fontSize(13).text(pdfText(section.heading));
+      doc.moveDown(0.3);
+      if (section.lines) {
+        doc.font("Helvetica").fontSize(10).text(pdfText(section.lines.join("\n")));
+        doc.moveDown();
+      }
+      if (section.columns) {
+        if (section.rows.length === 0) {
+          doc.font("Helvetica").fontSize(10).text(section.emptyText || "Sem dados no período.");
+          doc.moveDown();
+        } else {
+          drawTable(doc, section.columns, section.rows);
+        }
+      }
+    }
+    doc.end();
+  });
+}
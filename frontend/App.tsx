@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect } from "react";
 import {
   HashRouter,
   Routes,
@@ -12,10 +12,14 @@ import LoginPage from "./pages/LoginPage";
 import MenuPage from "./pages/MenuPage";
 import KitchenPage from "./pages/KitchenPage";
 import KitchenLoginPage from "./pages/KitchenLoginPage";
+import CashierPage from "./pages/CashierPage";
 import AdminPage from "./pages/AdminPage";
 import AdminLoginPage from "./pages/AdminLoginPage";
 import AdminReportsPage from "./pages/AdminReportsPage";
+import AdminPromotionsPage from "./pages/AdminPromotionsPage";
+import AdminIngredientsPage from "./pages/AdminIngredientsPage";
 import ScreensaverPage from "./pages/ScreensaverPage";
+import OrderBoardPage from "./pages/OrderBoardPage";
 import Header from "./components/Header";
 import Chatbot from "./components/Chatbot";
 import InactivityGuard from "./components/InactivityGuard";
@@ -45,13 +49,22 @@ const RoleProtectedRoute: React.FC<{
   allowedRoles: UserRole[];
   redirectTo?: string;
 }> = ({ children, allowedRoles, redirectTo = "/login" }) => {
-  const { currentUser } = useAuth();
+  const { currentUser, isSessionValid, logout } = useAuth();
+
+  const userRole = currentUser?.role || "customer";
+  // Cozinha e admin dependem de um token válido emitido pelo backend
+  const needsSession = userRole !== "customer";
+  const sessionExpired = !!currentUser && needsSession && !isSessionValid;
+
+  // Sessão expirada: limpa o usuário salvo (fora do render)
+  useEffect(() => {
+    if (sessionExpired) logout();
+  }, [sessionExpired, logout]);
   
-  if (!currentUser) {
+  if (!currentUser || sessionExpired) {
     return <Navigate to={redirectTo} replace />;
   }
   
-  const userRole = currentUser.role || "customer";
   if (!allowedRoles.includes(userRole)) {
     return <Navigate to={redirectTo} replace />;
   }
@@ -74,15 +87,19 @@ const App: React.FC = () => {
 const RouterBody: React.FC = () => {
   const location = useLocation();
   const isScreensaver = location.pathname === "/";
+  // Telas em tela cheia (sem header nem chatbot): descanso e painel de retirada
+  const isFullscreen = isScreensaver || location.pathname === "/painel";
 
   return (
     <div className="min-h-screen bg-stone-100 text-stone-800">
       <InactivityGuard />
-      {!isScreensaver && <Header />}
-      <main className={isScreensaver ? "" : "p-4 md:p-8"}>
+      {!isFullscreen && <Header />}
+      <main className={isFullscreen ? "" : "p-4 md:p-8"}>
         <Routes>
           <Route path="/" element={<ScreensaverPage />} />
           <Route path="/login" element={<LoginPage />} />
+          {/* Painel de retirada para a TV do balcão (público) */}
+          <Route path="/painel" element={<OrderBoardPage />} />
           
           {/* Rota protegida para clientes */}
           <Route
@@ -111,6 +128,19 @@ const RouterBody: React.FC = () => {
             }
           />
           
+          {/* Caixa (abertura e fechamento de turno): cozinha e admin */}
+          <Route
+            path="/caixa"
+            element={
+              <RoleProtectedRoute 
+                allowedRoles={["kitchen", "admin"]} 
+                redirectTo="/cozinha/login"
+              >
+                <CashierPage />
+              </RoleProtectedRoute>
+            }
+          />
+          
           {/* Rota protegida para admin */}
           <Route
             path="/admin"
@@ -136,9 +166,35 @@ const RouterBody: React.FC = () => {
               </RoleProtectedRoute>
             }
           />
+
+          {/* Rota protegida para promoções e cupons */}
+          <Route
+            path="/admin/promocoes"
+            element={
+              <RoleProtectedRoute 
+                allowedRoles={["admin"]} 
+                redirectTo="/admin/login"
+              >
+                <AdminPromotionsPage />
+              </RoleProtectedRoute>
+            }
+          />
+
+          {/* Rota protegida para ingredientes e custos */}
+          <Route
+            path="/admin/ingredientes"
+            element={
+              <RoleProtectedRoute 
+                allowedRoles={["admin"]} 
+                redirectTo="/admin/login"
+              >
+                <AdminIngredientsPage />
+              </RoleProtectedRoute>
+            }
+          />
         </Routes>
       </main>
-      {!isScreensaver && <Chatbot />}
+      {!isFullscreen && <Chatbot />}
     </div>
   );
 };
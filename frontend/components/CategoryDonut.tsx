@@ -0,0 +1,114 @@
+import React from "react";
+import type { CategorySales } from "../types";
+
+interface CategoryDonutProps {
+  categories: CategorySales[];
+  /** Clique numa fatia (ou na legenda): abre os pedidos da categoria */
+  onSelectCategory?: (category: string) => void;
+}
+
+const CATEGORY_COLORS: Record<string, string> = {
+  Pastel: "#f59e0b",
+  Bebida: "#3b82f6",
+  Doce: "#ec4899",
+  Combo: "#9333ea",
+};
+const FALLBACK_COLOR = "#94a3b8";
+
+const SIZE = 200;
+const RADIUS = 70;
+const STROKE = 36;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Participação de cada categoria no faturamento (rosca em SVG puro)
+const CategoryDonut: React.FC<CategoryDonutProps> = ({ categories, onSelectCategory }) => {
+  const total = categories.reduce((acc, c) => acc + c.revenue, 0);
+  // Cada fatia é um arco do mesmo círculo, deslocado pelo acumulado das anteriores
+  let offset = 0;
+  const slices = categories.map((c) => {
+    const length = total > 0 ? (c.revenue / total) * CIRCUMFERENCE : 0;
+    const slice = { ...c, length, offset, percent: total > 0 ? (c.revenue / total) * 100 : 0 };
+    offset += length;
+    return slice;
+  });
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-48 h-48 shrink-0"
+        role="img"
+        aria-label="Faturamento por categoria"
+      >
+        <circle
+          cx={SIZE / 2}
+          cy={SIZE / 2}
+          r={RADIUS}
+          fill="none"
+          stroke="#f1f5f9"
+          strokeWidth={STROKE}
+        />
+        <g transform={`rotate(-90 ${SIZE / 2} ${SIZE / 2})`}>
+          {slices.map((slice) => (
+            <circle
+              key={slice.category}
+              cx={SIZE / 2}
+              cy={SIZE / 2}
+              r={RADIUS}
+              fill="none"
+              stroke={CATEGORY_COLORS[slice.category] || FALLBACK_COLOR}
+              strokeWidth={STROKE}
+              strokeDasharray={`${slice.length} ${CIRCUMFERENCE - slice.length}`}
+              strokeDashoffset={-slice.offset}
+              onClick={() => onSelectCategory?.(slice.category)}
+              className={onSelectCategory ? "cursor-pointer" : undefined}
+            >
+              <title>
+                {`${slice.category}: R$ ${slice.revenue.toFixed(2)} (${slice.percent.toFixed(1)}%)`}
+              </title>
+            </circle>
+          ))}
+        </g>
+        <text
+          x={SIZE / 2}
+          y={SIZE / 2 + 5}
+          textAnchor="middle"
+          fontSize="15"
+          fontWeight="bold"
+          fill="#334155"
+        >
+          R$ {total.toFixed(0)}
+        </text>
+      </svg>
+
+      <ul className="space-y-2 text-sm w-full">
+        {slices.map((slice) => (
+          <li key={slice.category}>
+            <button
+              onClick={() => onSelectCategory?.(slice.category)}
+              className="w-full flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-slate-50"
+            >
+              <span className="flex items-center gap-2">
+                <svg width="12" height="12" aria-hidden="true">
+                  <rect
+                    width="12"
+                    height="12"
+                    rx="3"
+                    fill={CATEGORY_COLORS[slice.category] || FALLBACK_COLOR}
+                  />
+                </svg>
+                <span className="font-semibold text-slate-700">{slice.category}</span>
+                <span className="text-slate-500">{slice.quantity} un.</span>
+              </span>
+              <span className="text-slate-700">
+                R$ {slice.revenue.toFixed(2)} ({slice.percent.toFixed(1)}%)
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CategoryDonut;
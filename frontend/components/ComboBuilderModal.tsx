@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import type { Combo, ComboComponent, ComboSlot, Product } from "../types";
+import ProductDetailModal from "./ProductDetailModal";
+
+interface ComboBuilderModalProps {
+  combo: Combo;
+  menu: Product[];
+  onAdd: (combo: Combo, components: ComboComponent[], quantity: number) => void;
+  onClose: () => void;
+}
+
+// Montagem do combo: o cliente escolhe um produto da categoria de cada vaga
+// (com as opções e a observação de cada um) e a quantidade de combos
+const ComboBuilderModal: React.FC<ComboBuilderModalProps> = ({
+  combo,
+  menu,
+  onAdd,
+  onClose,
+}) => {
+  // Produto escolhido para cada vaga (slotId -> componente)
+  const [selected, setSelected] = useState<Record<string, ComboComponent>>({});
+  // Vaga + produto abertos no detalhe (opções e observação)
+  const [editing, setEditing] = useState<{
+    slot: ComboSlot;
+    product: Product;
+  } | null>(null);
+  const [quantity, setQuantity] = useState(1);
+
+  const components = combo.slots
+    .map((slot) => selected[slot.id])
+    .filter((c): c is ComboComponent => Boolean(c));
+  const unitPrice = components.reduce(
+    (acc, c) =>
+      acc + (c.modifiers || []).reduce((sum, m) => sum + m.priceDelta, 0),
+    combo.price
+  );
+  const missingSlots = combo.slots.filter((slot) => !selected[slot.id]);
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+          <div className="p-6 border-b">
+            <div className="flex justify-between items-start">
+              <h2 className="text-2xl font-bold text-amber-800">
+                🍱 {combo.name}
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-stone-600 bg-stone-100 p-2 rounded-full"
+                aria-label="Fechar"
+              >
+                ✕
+              </button>
+            </div>
+            {combo.description && (
+              <p className="text-stone-600 mt-1">{combo.description}</p>
+            )}
+          </div>
+
+          <div className="p-6 space-y-6 overflow-y-auto flex-1">
+            {combo.slots.map((slot) => (
+              <div key={slot.id}>
+                <h3 className="font-bold text-stone-800 mb-2">
+                  Escolha: {slot.name}
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {menu
+                    .filter((product) => product.category === slot.category)
+                    .map((product) => {
+                      const choice = selected[slot.id];
+                      const checked = choice?.productId === product.id;
+                      return (
+                        <button
+                          key={product.id}
+                          onClick={() => setEditing({ slot, product })}
+                          disabled={product.soldOut}
+                          className={`text-left p-3 border-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+                            checked
+                              ? "border-amber-500 bg-amber-50"
+                              : "border-stone-200 hover:border-amber-300"
+                          }`}
+                        >
+                          <span className="font-semibold">{product.name}</span>
+                          {product.soldOut && (
+                            <span className="block text-xs font-bold text-stone-500">
+                              Esgotado
+                            </span>
+                          )}
+                          {checked && choice.modifiers && (
+                            <span className="block text-xs text-stone-600">
+                              {choice.modifiers.map((m) => m.name).join(", ")}
+                            </span>
+                          )}
+                          {checked && choice.notes && (
+                            <span className="block text-xs text-amber-700 italic">
+                              "{choice.notes}"
+                            </span>
+                          )}
+                        </button>
+                      );
+                    })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-6 border-t flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+                className="w-10 h-10 rounded-full bg-stone-100 font-bold text-xl"
+                aria-label="Diminuir quantidade"
+              >
+                −
+              </button>
+              <span className="w-8 text-center font-bold text-lg">
+                {quantity}
+              </span>
+              <button
+                onClick={() => setQuantity((q) => Math.min(99, q + 1))}
+                className="w-10 h-10 rounded-full bg-stone-100 font-bold text-xl"
+                aria-label="Aumentar quantidade"
+              >
+                +
+              </button>
+            </div>
+            <button
+              onClick={() => onAdd(combo, components, quantity)}
+              disabled={missingSlots.length > 0}
+              className="flex-1 bg-amber-500 text-white font-bold py-3 rounded-lg hover:bg-amber-600 transition-colors disabled:bg-stone-300 disabled:cursor-not-allowed"
+            >
+              {missingSlots.length > 0
+                ? `Escolha: ${missingSlots.map((s) => s.name).join(", ")}`
+                : `Adicionar R$${(unitPrice * quantity).toFixed(2)}`}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {editing && (
+        <ProductDetailModal
+          product={editing.product}
+          inCombo
+          onAdd={(product, modifiers, notes) => {
+            const trimmedNotes = notes.trim();
+            setSelected((prev) => ({
+              ...prev,
+              [editing.slot.id]: {
+                slotId: editing.slot.id,
+                slotName: editing.slot.name,
+                productId: product.id,
+                name: product.name,
+                category: product.category,
+                ...(modifiers.length > 0 && { modifiers }),
+                ...(trimmedNotes && { notes: trimmedNotes }),
+              },
+            }));
+            setEditing(null);
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default ComboBuilderModal;
@@ -0,0 +1,89 @@
+import React from "react";
+
+interface DateRangePickerProps {
+  from: string;
+  to: string;
+  onChange: (from: string, to: string) => void;
+}
+
+// Data local no formato AAAA-MM-DD (valor dos inputs de data)
+export const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+// Atalhos de período calculados na hora do clique
+const PRESETS: { label: string; range: () => [Date, Date] }[] = [
+  { label: "Hoje", range: () => [new Date(), new Date()] },
+  { label: "7 dias", range: () => [daysAgo(6), new Date()] },
+  { label: "30 dias", range: () => [daysAgo(29), new Date()] },
+  {
+    label: "Este mês",
+    range: () => {
+      const today = new Date();
+      return [new Date(today.getFullYear(), today.getMonth(), 1), today];
+    },
+  },
+  {
+    label: "Mês passado",
+    range: () => {
+      const today = new Date();
+      return [
+        new Date(today.getFullYear(), today.getMonth() - 1, 1),
+        new Date(today.getFullYear(), today.getMonth(), 0),
+      ];
+    },
+  },
+];
+
+// Seleção do período dos relatórios: atalhos + datas livres
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ from, to, onChange }) => (
+  <div className="flex flex-col items-end gap-2 text-sm">
+    <div className="flex flex-wrap justify-end gap-1">
+      {PRESETS.map((preset) => {
+        const [presetFrom, presetTo] = preset.range().map(toInputDate);
+        const active = presetFrom === from && presetTo === to;
+        return (
+          <button
+            key={preset.label}
+            onClick={() => onChange(presetFrom, presetTo)}
+            className={`px-3 py-1 rounded-full font-semibold ${
+              active
+                ? "bg-purple-600 text-white"
+                : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+            }`}
+          >
+            {preset.label}
+          </button>
+        );
+      })}
+    </div>
+    <div className="flex items-center gap-2">
+      <input
+        type="date"
+        value={from}
+        max={to}
+        onChange={(e) => e.target.value && onChange(e.target.value, to)}
+        className="border rounded-lg px-2 py-1"
+        aria-label="Data inicial"
+      />
+      <span className="text-slate-500">até</span>
+      <input
+        type="date"
+        value={to}
+        min={from}
+        onChange={(e) => e.target.value && onChange(from, e.target.value)}
+        className="border rounded-lg px-2 py-1"
+        aria-label="Data final"
+      />
+    </div>
+  </div>
+);
+
+export default DateRangePicker;
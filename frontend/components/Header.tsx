@@ -50,13 +50,17 @@ const Header: React.FC = () => {
             {currentUser && currentUser.role === "kitchen" && (
               <>
                 <NavLink to="/cozinha" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Pedidos</NavLink>
+                <NavLink to="/caixa" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Caixa</NavLink>
               </>
             )}
             {/* Links especiais para admin - só aparece se for usuário admin */}
             {currentUser && currentUser.role === "admin" && (
               <>
                 <NavLink to="/admin" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Painel Admin</NavLink>
-                <NavLink to="/admin/reports" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Recomendações IA</NavLink>
+                <NavLink to="/admin/promocoes" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Promoções</NavLink>
+                <NavLink to="/admin/ingredientes" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Ingredientes</NavLink>
+                <NavLink to="/admin/reports" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Relatórios</NavLink>
+                <NavLink to="/caixa" style={({ isActive }) => isActive ? activeLinkStyle : undefined} className="text-stone-600 hover:text-amber-600 transition-colors">Caixa</NavLink>
               </>
             )}
           </nav>
@@ -67,6 +71,12 @@ const Header: React.FC = () => {
               // Se usuário autenticado: mostra nome e botão de logout
               <div className="flex items-center space-x-4">
                 <span className="text-stone-700">Olá, {currentUser.name}!</span>
+                {/* Saldo de pontos - só para clientes identificados por CPF */}
+                {currentUser.cpf && (!currentUser.role || currentUser.role === "customer") && (
+                  <span className="bg-amber-100 text-amber-800 font-semibold px-3 py-1 rounded-full text-sm">
+                    ⭐ {currentUser.pontos || 0} pontos
+                  </span>
+                )}
                 <button
                   onClick={handleLogout}
                   className="bg-amber-500 hover:bg-amber-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm transition-transform transform hover:scale-105"
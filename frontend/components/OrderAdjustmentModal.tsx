@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from "react";
+import type { AdjustmentReason, Order, OrderAdjustment } from "../types";
+import {
+  ADJUSTMENT_REASON_LABELS,
+  cancelOrder,
+  formatOrderNumber,
+  getOrderAdjustments,
+  refundOrderItems,
+} from "../services/orderService";
+
+type AdjustmentMode = "cancel" | "refund";
+
+interface OrderAdjustmentModalProps {
+  order: Order;
+  onClose: () => void;
+  /** Pedido atualizado pelo servidor depois do cancelamento/estorno */
+  onDone: (order: Order) => void;
+}
+
+const money = (value: number) => `R$ ${value.toFixed(2)}`;
+
+// Cancelamento ou estorno de itens, com motivo obrigatório e o histórico
+// de ajustes do pedido (quem fez, quando e o que foi devolvido)
+const OrderAdjustmentModal: React.FC<OrderAdjustmentModalProps> = ({
+  order,
+  onClose,
+  onDone,
+}) => {
+  const paid = order.paymentStatus === "approved";
+  const [mode, setMode] = useState<AdjustmentMode>("cancel");
+  const [reason, setReason] = useState<AdjustmentReason | "">("");
+  const [note, setNote] = useState("");
+  // Sem preparo iniciado, as unidades voltam ao estoque por padrão
+  const [restock, setRestock] = useState(order.status === "received");
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [history, setHistory] = useState<OrderAdjustment[]>([]);
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    getOrderAdjustments(order.id)
+      .then(setHistory)
+      .catch((err) => setError((err as Error).message));
+  }, [order.id]);
+
+  // Unidades de cada linha que ainda podem ser estornadas
+  const refunded = new Map<number, number>();
+  for (const adjustment of history.filter((a) => a.type === "refund")) {
+    for (const line of adjustment.items) {
+      refunded.set(line.index, (refunded.get(line.index) || 0) + line.quantity);
+    }
+  }
+  const remainingOf = (index: number) => order.items[index].quantity - (refunded.get(index) || 0);
+
+  // Prévia do valor: o servidor aplica o mesmo desconto proporcional do pedido
+  const subtotal = order.subtotal ?? order.total;
+  const ratio = subtotal > 0 ? order.total / subtotal : 0;
+  const refundedTotal = order.refundedTotal || 0;
+  const refundPreview = Math.min(
+    order.items.reduce(
+      (acc, item, index) => acc + item.price * (quantities[index] || 0) * ratio,
+      0
+    ),
+    order.total - refundedTotal
+  );
+  const selectedLines = order.items
+    .map((_, index) => ({ index, quantity: quantities[index] || 0 }))
+    .filter((line) => line.quantity > 0);
+
+  const handleModeChange = (next: AdjustmentMode) => {
+    setMode(next);
+    setError("");
+    setRestock(next === "cancel" && order.status === "received");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (!reason) {
+      setError("Escolha o motivo.");
+      return;
+    }
+    if (reason === "other" && !note.trim()) {
+      setError("Descreva o motivo.");
+      return;
+    }
+    if (mode === "refund" && selectedLines.length === 0) {
+      setError("Escolha os itens a estornar.");
+      return;
+    }
+    const input = { reason, note: note.trim() || undefined, restock };
+    const confirmText =
+      mode === "cancel"
+        ? `Cancelar o pedido #${formatOrderNumber(order)}?`
+        : `Estornar ${money(refundPreview)} do pedido #${formatOrderNumber(order)}?`;
+    if (!window.confirm(confirmText)) return;
+
+    setIsSubmitting(true);
+    try {
+      const updated =
+        mode === "cancel"
+          ? await cancelOrder(order.id, input)
+          : await refundOrderItems(order.id, selectedLines, input);
+      onDone(updated);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col"
+      >
+        <div className="p-6 border-b flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-stone-800">
+              Pedido #{formatOrderNumber(order)}
+            </h2>
+            <p className="text-sm text-stone-500">
+              Total {money(order.total)}
+              {refundedTotal > 0 && ` · já estornado ${money(refundedTotal)}`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-stone-600 bg-stone-100 p-2 rounded-full"
+            aria-label="Fechar"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleModeChange("cancel")}
+              className={`flex-1 py-2 rounded-lg font-semibold ${
+                mode === "cancel" ? "bg-red-600 text-white" : "bg-stone-100 text-stone-700"
+              }`}
+            >
+              Cancelar pedido
+            </button>
+            <button
+              type="button"
+              onClick={() => handleModeChange("refund")}
+              disabled={!paid}
+              title={paid ? undefined : "Só pedidos pagos têm itens estornados"}
+              className={`flex-1 py-2 rounded-lg font-semibold disabled:opacity-50 ${
+                mode === "refund" ? "bg-amber-600 text-white" : "bg-stone-100 text-stone-700"
+              }`}
+            >
+              Estornar itens
+            </button>
+          </div>
+
+          {mode === "cancel" ? (
+            <p className="text-sm text-stone-600">
+              {paid
+                ? `${money(order.total - refundedTotal)} volta ao cliente pela forma de pagamento.`
+                : order.paymentStatus === "pending"
+                  ? "A cobrança no balcão também é cancelada."
+                  : "Sem valor a devolver."}{" "}
+              Os pontos ganhos saem do saldo do cliente e os resgatados voltam.
+            </p>
+          ) : (
+            <ul className="divide-y divide-stone-100">
+              {order.items.map((item, index) => {
+                const remaining = remainingOf(index);
+                return (
+                  <li key={`${item.productId}-${index}`} className="py-2 flex justify-between items-center gap-3">
+                    <span className={remaining === 0 ? "text-stone-400 line-through" : ""}>
+                      {item.quantity}x {item.name}
+                      <span className="text-stone-500"> · {money(item.price)}</span>
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      value={quantities[index] || 0}
+                      disabled={remaining === 0}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [index]: Math.max(0, Math.min(remaining, Number(e.target.value) || 0)),
+                        }))
+                      }
+                      aria-label={`Unidades de ${item.name} a estornar`}
+                      className="w-20 border rounded-lg px-2 py-1 text-right"
+                    />
+                  </li>
+                );
+              })}
+              <li className="pt-2 text-right text-sm text-stone-600">
+                A estornar: <span className="font-bold">{money(refundPreview)}</span>
+              </li>
+            </ul>
+          )}
+
+          <div>
+            <label htmlFor="adjustment-reason" className="block text-sm font-medium text-stone-700">
+              Motivo
+            </label>
+            <select
+              id="adjustment-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as AdjustmentReason)}
+              required
+              className="mt-1 border rounded-lg px-3 py-2 w-full"
+            >
+              <option value="">Escolha...</option>
+              {(Object.keys(ADJUSTMENT_REASON_LABELS) as AdjustmentReason[]).map((code) => (
+                <option key={code} value={code}>
+                  {ADJUSTMENT_REASON_LABELS[code]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="adjustment-note" className="block text-sm font-medium text-stone-700">
+              Observação {reason === "other" && <span className="text-red-600">*</span>}
+            </label>
+            <input
+              id="adjustment-note"
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={300}
+              className="mt-1 border rounded-lg px-3 py-2 w-full"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-stone-700">
+            <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+            Devolver as unidades ao estoque (não foram preparadas)
+          </label>
+
+          {history.length > 0 && (
+            <div className="border-t pt-3">
+              <h3 className="text-sm font-bold text-stone-700 mb-1">Histórico</h3>
+              {history.map((a) => (
+                <p key={a.id} className="text-xs text-stone-600">
+                  {new Date(a.createdAt).toLocaleString("pt-BR")} ·{" "}
+                  {a.type === "cancel" ? "Cancelamento" : "Estorno"} por {a.staffName || a.staffId} ·{" "}
+                  {a.reasonLabel}
+                  {a.note && ` (${a.note})`}
+                  {a.amount > 0 && ` · ${money(a.amount)}`}
+                  {a.type === "refund" &&
+                    ` · ${a.items.map((line) => `${line.quantity}x ${line.name}`).join(", ")}`}
+                  {a.status === "pending" && " · em andamento"}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-stone-200 text-stone-800 font-semibold hover:bg-stone-300"
+          >
+            Voltar
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={`px-4 py-2 rounded-lg text-white font-bold disabled:opacity-50 ${
+              mode === "cancel" ? "bg-red-600 hover:bg-red-700" : "bg-amber-600 hover:bg-amber-700"
+            }`}
+          >
+            {isSubmitting
+              ? "Enviando..."
+              : mode === "cancel"
+                ? "Confirmar cancelamento"
+                : "Confirmar estorno"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default OrderAdjustmentModal;
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from "react";
+import type { Payment, PaymentMethod } from "../types";
+import {
+  PAYMENT_METHOD_LABELS,
+  getPayment,
+  simulatePayment,
+} from "../services/paymentService";
+import QrCode from "./QrCode";
+
+// Intervalo de consulta enquanto o pagamento está pendente
+const POLL_MS = 2000;
+
+const METHOD_ICONS: Record<PaymentMethod, string> = {
+  pix: "💠",
+  credit: "💳",
+  debit: "💳",
+  counter: "🧾",
+};
+
+interface PaymentModalProps {
+  amount: number; // valor a pagar
+  methods: PaymentMethod[]; // formas disponíveis no totem
+  simulator?: boolean; // mostra os botões do simulador (desenvolvimento)
+  payment: Payment | null; // tentativa atual (null = escolhendo a forma)
+  isSubmitting: boolean;
+  error?: string | null;
+  onSelectMethod: (method: PaymentMethod) => void;
+  onPaymentUpdate: (payment: Payment) => void; // status mudou no servidor
+  onCancel: () => void;
+}
+
+const PaymentModal: React.FC<PaymentModalProps> = ({
+  amount,
+  methods,
+  simulator = false,
+  payment,
+  isSubmitting,
+  error,
+  onSelectMethod,
+  onPaymentUpdate,
+  onCancel,
+}) => {
+  const isPending = payment?.status === "pending";
+  const pixCode = payment?.details.copyPaste;
+  const expiresAt = isPending ? payment?.details.expiresAt : undefined;
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Contagem regressiva do QR Code PIX. Ao zerar, a próxima consulta
+  // recebe o pagamento como expirado (recusado) e o cliente escolhe de novo.
+  useEffect(() => {
+    if (!expiresAt) {
+      setSecondsLeft(null);
+      return;
+    }
+    const tick = () =>
+      setSecondsLeft(
+        Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 1000))
+      );
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  const handleCopy = async () => {
+    if (!pixCode) return;
+    try {
+      await navigator.clipboard.writeText(pixCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Erro ao copiar código PIX:", err);
+    }
+  };
+
+  // Consulta o servidor até o provedor aprovar ou recusar a cobrança
+  useEffect(() => {
+    if (!payment || payment.status !== "pending") return;
+    const interval = setInterval(async () => {
+      try {
+        const updated = await getPayment(payment.id);
+        if (updated.status !== payment.status) onPaymentUpdate(updated);
+      } catch (err) {
+        console.error("Erro ao consultar pagamento:", err);
+      }
+    }, POLL_MS);
+    return () => clearInterval(interval);
+  }, [payment, onPaymentUpdate]);
+
+  const handleSimulate = async (status: "approved" | "declined") => {
+    if (!payment) return;
+    try {
+      onPaymentUpdate(await simulatePayment(payment.id, status));
+    } catch (err) {
+      console.error("Erro no simulador de pagamento:", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-lg">
+        <h2 className="text-2xl font-bold text-amber-800 text-center">
+          Pagamento
+        </h2>
+        <p className="text-center text-stone-600 mt-1">
+          Total a pagar:{" "}
+          <strong className="text-stone-800">R${amount.toFixed(2)}</strong>
+        </p>
+
+        {isPending ? (
+          <div className="text-center py-6">
+            {pixCode ? (
+              <>
+                <p className="text-lg font-semibold text-stone-800">
+                  Escaneie o QR Code com o app do seu banco
+                </p>
+                <QrCode value={pixCode} className="mx-auto my-4" />
+                {secondsLeft !== null && (
+                  <p
+                    className={`font-mono text-2xl font-bold ${
+                      secondsLeft <= 30 ? "text-red-600" : "text-stone-700"
+                    }`}
+                  >
+                    {String(Math.floor(secondsLeft / 60)).padStart(2, "0")}:
+                    {String(secondsLeft % 60).padStart(2, "0")}
+                  </p>
+                )}
+                <button
+                  onClick={handleCopy}
+                  className="mt-3 text-sm text-amber-700 font-semibold underline"
+                >
+                  {copied ? "Código copiado!" : "Copiar código PIX (copia e cola)"}
+                </button>
+              </>
+            ) : (
+              <>
+                <div className="text-5xl mb-4 animate-pulse">
+                  {METHOD_ICONS[payment.method]}
+                </div>
+                <p className="text-lg font-semibold text-stone-800">
+                  Aguardando pagamento via {PAYMENT_METHOD_LABELS[payment.method]}
+                </p>
+                <p className="text-stone-500 mt-2">
+                  Siga as instruções na maquininha.
+                </p>
+              </>
+            )}
+
+            {simulator && payment.provider === "simulator" && (
+              <div className="mt-6 p-3 border border-dashed border-stone-300 rounded-lg">
+                <p className="text-xs text-stone-400 mb-2">
+                  Simulador de pagamentos
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleSimulate("approved")}
+                    className="flex-1 bg-green-100 text-green-800 font-semibold py-2 rounded-lg hover:bg-green-200"
+                  >
+                    Aprovar
+                  </button>
+                  <button
+                    onClick={() => handleSimulate("declined")}
+                    className="flex-1 bg-red-100 text-red-800 font-semibold py-2 rounded-lg hover:bg-red-200"
+                  >
+                    Recusar
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            {payment?.status === "declined" && (
+              <div className="mt-4 p-3 bg-red-50 border-l-4 border-red-500 rounded text-red-800 text-sm">
+                {payment.failureReason || "Pagamento recusado."} Escolha outra
+                forma de pagamento.
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4 mt-6">
+              {methods.map((method) => (
+                <button
+                  key={method}
+                  onClick={() => onSelectMethod(method)}
+                  disabled={isSubmitting}
+                  className="flex flex-col items-center gap-2 p-5 border-2 border-amber-200 rounded-xl hover:border-amber-500 hover:bg-amber-50 transition-colors disabled:opacity-50 disabled:cursor-wait"
+                >
+                  <span className="text-4xl">{METHOD_ICONS[method]}</span>
+                  <span className="font-semibold text-stone-800">
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {error && (
+          <p className="mt-4 text-center text-red-700 text-sm">{error}</p>
+        )}
+
+        <button
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="w-full mt-6 bg-stone-200 text-stone-800 font-semibold py-3 rounded-lg hover:bg-stone-300 disabled:opacity-50"
+        >
+          {payment ? "Cancelar pedido" : "Voltar ao carrinho"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentModal;
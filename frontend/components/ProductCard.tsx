@@ -1,3 +1,79 @@
-<video className="w-full h-40 object-cover" controls>
-  <source src={product.videoUrl} type="video/mp4" />
-</video>;
+import React from "react";
+import type { Product } from "../types";
+
+// Card do cardápio: vídeo do produto, preço, selo de esgotado e a
+// quantidade que já está no carrinho
+
+interface ProductCardProps {
+  product: Product;
+  onOpenDetails: (product: Product) => void; // abre o detalhe (opções e observação)
+  quantityInCart?: number; // quantidade atual deste produto no carrinho
+}
+
+const ProductCard: React.FC<ProductCardProps> = ({
+  product,
+  onOpenDetails,
+  quantityInCart = 0,
+}) => (
+  <div
+    className={`bg-white rounded-xl shadow-lg overflow-hidden flex flex-col relative ${
+      product.soldOut
+        ? "opacity-60 grayscale"
+        : "transform hover:scale-105 transition-transform duration-300"
+    }`}
+  >
+    {product.soldOut && (
+      <span className="absolute top-3 right-3 z-10 bg-stone-800 text-white text-sm font-bold px-3 py-1 rounded-full">
+        Esgotado
+      </span>
+    )}
+    <video
+      className="w-full h-40 object-cover"
+      autoPlay
+      muted
+      loop
+      playsInline
+      onClick={(e) => {
+        e.preventDefault();
+        (e.currentTarget as HTMLVideoElement).play().catch(() => {});
+      }}
+      onPause={(e) => {
+        (e.currentTarget as HTMLVideoElement).play().catch(() => {});
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <source src={product.videoUrl} type="video/mp4" />
+    </video>
+    <div className="p-4 flex flex-col flex-grow">
+      <h3 className="font-bold text-lg text-amber-800">{product.name}</h3>
+      <p className="text-stone-600 text-sm mt-1 flex-grow">
+        {product.description}
+      </p>
+      <div className="flex justify-between items-center mt-4">
+        <span className="text-xl font-semibold text-stone-800">
+          R${product.price.toFixed(2)}
+        </span>
+        <div className="flex items-center gap-2">
+          {quantityInCart > 0 && (
+            <span className="bg-amber-100 text-amber-800 font-bold px-3 py-1 rounded-full text-sm">
+              {quantityInCart} no carrinho
+            </span>
+          )}
+          <button
+            onClick={() => onOpenDetails(product)}
+            disabled={product.soldOut}
+            className="bg-amber-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-amber-600 transition-colors disabled:bg-stone-300 disabled:cursor-not-allowed"
+          >
+            {product.soldOut
+              ? "Esgotado"
+              : product.modifierGroups?.length
+              ? "Escolher"
+              : "Adicionar"}
+          </button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default ProductCard;
@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import type { ModifierGroup, Product, SelectedModifier } from "../types";
+
+// Mesmo limite aceito pelo backend
+const NOTES_MAX_LENGTH = 140;
+
+interface ProductDetailModalProps {
+  product: Product;
+  onAdd: (
+    product: Product,
+    modifiers: SelectedModifier[],
+    notes: string,
+    quantity: number
+  ) => void;
+  onClose: () => void;
+  /** Escolha de um item de combo: sem quantidade, mostra só os acréscimos */
+  inCombo?: boolean;
+}
+
+// Texto de ajuda de cada grupo ("Escolha 1", "Até 3 opções")
+const groupHint = (group: ModifierGroup) => {
+  if (group.required && group.min === group.max) return `Escolha ${group.min}`;
+  if (group.required) return `Escolha de ${group.min} a ${group.max}`;
+  return group.max === 1 ? "Opcional" : `Opcional, até ${group.max}`;
+};
+
+const formatDelta = (delta: number) =>
+  delta === 0
+    ? ""
+    : `${delta > 0 ? "+" : "-"} R$${Math.abs(delta).toFixed(2)}`;
+
+// Detalhe do produto: opções, adicionais, observação e quantidade
+const ProductDetailModal: React.FC<ProductDetailModalProps> = ({
+  product,
+  onAdd,
+  onClose,
+  inCombo = false,
+}) => {
+  const groups = product.modifierGroups || [];
+  // Opções marcadas em cada grupo (groupId -> optionIds)
+  const [selected, setSelected] = useState<Record<string, string[]>>({});
+  const [notes, setNotes] = useState("");
+  const [quantity, setQuantity] = useState(1);
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    setSelected((prev) => {
+      const current = prev[group.id] || [];
+      if (current.includes(optionId)) {
+        return { ...prev, [group.id]: current.filter((id) => id !== optionId) };
+      }
+      // Escolha única funciona como rádio: troca a opção marcada
+      if (group.max === 1) return { ...prev, [group.id]: [optionId] };
+      if (current.length >= group.max) return prev;
+      return { ...prev, [group.id]: [...current, optionId] };
+    });
+  };
+
+  const modifiers: SelectedModifier[] = groups.flatMap((group) =>
+    group.options
+      .filter((option) => (selected[group.id] || []).includes(option.id))
+      .map((option) => ({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        name: option.name,
+        priceDelta: option.priceDelta,
+      }))
+  );
+  const deltas = modifiers.reduce((acc, m) => acc + m.priceDelta, 0);
+  const unitPrice = product.price + deltas;
+  // Grupos obrigatórios que ainda não atingiram o mínimo
+  const missingGroups = groups.filter(
+    (group) => (selected[group.id] || []).length < group.min
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <div className="flex justify-between items-start">
+            <h2 className="text-2xl font-bold text-amber-800">{product.name}</h2>
+            <button
+              onClick={onClose}
+              className="text-stone-600 bg-stone-100 p-2 rounded-full"
+              aria-label="Fechar"
+            >
+              ✕
+            </button>
+          </div>
+          <p className="text-stone-600 mt-1">{product.description}</p>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          {groups.map((group) => (
+            <div key={group.id}>
+              <div className="flex justify-between items-baseline mb-2">
+                <h3 className="font-bold text-stone-800">{group.name}</h3>
+                <span
+                  className={`text-xs font-semibold px-2 py-1 rounded-full ${
+                    group.required
+                      ? "bg-amber-100 text-amber-800"
+                      : "bg-stone-100 text-stone-600"
+                  }`}
+                >
+                  {groupHint(group)}
+                </span>
+              </div>
+              <div className="space-y-2">
+                {group.options.map((option) => {
+                  const checked = (selected[group.id] || []).includes(option.id);
+                  return (
+                    <label
+                      key={option.id}
+                      className={`flex justify-between items-center p-3 border-2 rounded-lg cursor-pointer ${
+                        checked ? "border-amber-500 bg-amber-50" : "border-stone-200"
+                      }`}
+                    >
+                      <span className="flex items-center gap-3">
+                        <input
+                          type={group.max === 1 ? "radio" : "checkbox"}
+                          name={group.id}
+                          checked={checked}
+                          onChange={() => toggleOption(group, option.id)}
+                          className="accent-amber-500"
+                        />
+                        {option.name}
+                      </span>
+                      <span className="text-sm text-stone-500">
+                        {formatDelta(option.priceDelta)}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <label htmlFor="item-notes" className="font-bold text-stone-800">
+              Observações
+            </label>
+            <textarea
+              id="item-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value.slice(0, NOTES_MAX_LENGTH))}
+              rows={2}
+              placeholder="Ex.: sem cebola, bem passado..."
+              className="mt-2 w-full border rounded-lg p-2"
+            />
+            <p className="text-xs text-stone-400 text-right">
+              {notes.length}/{NOTES_MAX_LENGTH}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 border-t flex items-center gap-4">
+          {!inCombo && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+                className="w-10 h-10 rounded-full bg-stone-100 font-bold text-xl"
+                aria-label="Diminuir quantidade"
+              >
+                −
+              </button>
+              <span className="w-8 text-center font-bold text-lg">{quantity}</span>
+              <button
+                onClick={() => setQuantity((q) => Math.min(99, q + 1))}
+                className="w-10 h-10 rounded-full bg-stone-100 font-bold text-xl"
+                aria-label="Aumentar quantidade"
+              >
+                +
+              </button>
+            </div>
+          )}
+          <button
+            onClick={() => onAdd(product, modifiers, notes, quantity)}
+            disabled={missingGroups.length > 0}
+            className="flex-1 bg-amber-500 text-white font-bold py-3 rounded-lg hover:bg-amber-600 transition-colors disabled:bg-stone-300 disabled:cursor-not-allowed"
+          >
+            {missingGroups.length > 0
+              ? `Escolha: ${missingGroups.map((g) => g.name).join(", ")}`
+              : inCombo
+              ? `Confirmar ${formatDelta(deltas)}`.trim()
+              : `Adicionar R$${(unitPrice * quantity).toFixed(2)}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductDetailModal;
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+
+interface QrCodeProps {
+  value: string; // conteúdo codificado (ex.: "copia e cola" do PIX)
+  size?: number; // largura/altura em pixels
+  className?: string;
+}
+
+// Gera o QR Code localmente (sem depender de serviços externos)
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 240, className }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(value, { width: size, margin: 1, errorCorrectionLevel: "M" })
+      .then((url) => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch((err) => console.error("Erro ao gerar QR Code:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [value, size]);
+
+  if (!dataUrl) {
+    return <div className={className} style={{ width: size, height: size }} />;
+  }
+  return (
+    <img
+      src={dataUrl}
+      width={size}
+      height={size}
+      alt="QR Code"
+      className={className}
+    />
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from "react";
+import type { Order, ReportOrderFilter } from "../types";
+import { getReportOrders } from "../services/reportService";
+import { formatOrderNumber } from "../services/orderService";
+import OrderAdjustmentModal from "./OrderAdjustmentModal";
+
+interface ReportOrdersModalProps {
+  from: string;
+  to: string;
+  filter: ReportOrderFilter;
+  onClose: () => void;
+}
+
+// Pedidos por trás de um ponto dos gráficos (drill-down)
+const ReportOrdersModal: React.FC<ReportOrdersModalProps> = ({
+  from,
+  to,
+  filter,
+  onClose,
+}) => {
+  const [orders, setOrders] = useState<Order[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState("");
+  // Pedido aberto no cancelamento/estorno
+  const [adjusting, setAdjusting] = useState<Order | null>(null);
+
+  useEffect(() => {
+    getReportOrders(from, to, filter)
+      .then((result) => {
+        setOrders(result.orders);
+        setTotal(result.total);
+      })
+      .catch((err) => setError((err as Error).message));
+  }, [from, to, filter]);
+
+  const revenue = (orders || []).reduce((acc, o) => acc + o.total - (o.refundedTotal || 0), 0);
+
+  // Cancelados saem da lista (e do faturamento); estornos atualizam o valor
+  const handleAdjusted = (updated: Order) => {
+    setAdjusting(null);
+    setOrders((prev) =>
+      (prev || []).flatMap((o) =>
+        o.id !== updated.id ? [o] : updated.status === "cancelled" ? [] : [updated]
+      )
+    );
+    if (updated.status === "cancelled") setTotal((prev) => prev - 1);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-purple-800">{filter.label}</h2>
+            {orders && (
+              <p className="text-sm text-slate-500">
+                {total} pedido(s)
+                {total > orders.length && ` (mostrando os ${orders.length} mais recentes)`}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-stone-600 bg-stone-100 p-2 rounded-full"
+            aria-label="Fechar"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!orders && !error && <p className="text-sm text-slate-500">Carregando...</p>}
+          {orders && orders.length === 0 && (
+            <p className="text-sm text-slate-500">Nenhum pedido encontrado.</p>
+          )}
+          <ul className="divide-y divide-slate-100">
+            {(orders || []).map((order) => (
+              <li key={order.id} className="py-3 flex justify-between gap-4">
+                <div>
+                  <p className="font-semibold text-slate-800">
+                    #{formatOrderNumber(order)}
+                    <span className="ml-2 text-sm font-normal text-slate-500">
+                      {new Date(order.timestamp).toLocaleString("pt-BR")}
+                      {order.userName && ` · ${order.userName}`}
+                    </span>
+                  </p>
+                  <p className="text-sm text-slate-600">
+                    {order.items.map((item) => `${item.quantity}x ${item.name}`).join(", ")}
+                  </p>
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className="font-bold text-green-700">R$ {order.total.toFixed(2)}</p>
+                  {(order.refundedTotal || 0) > 0 && (
+                    <p className="text-xs text-red-600">
+                      − R$ {(order.refundedTotal || 0).toFixed(2)} estornado
+                    </p>
+                  )}
+                  <button
+                    onClick={() => setAdjusting(order)}
+                    className="text-xs text-red-600 hover:text-red-800"
+                  >
+                    Cancelar / estornar
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {adjusting && (
+          <OrderAdjustmentModal
+            order={adjusting}
+            onClose={() => setAdjusting(null)}
+            onDone={handleAdjusted}
+          />
+        )}
+
+        {orders && orders.length > 0 && (
+          <div className="p-4 border-t text-right text-sm text-slate-600">
+            Total listado: <span className="font-bold">R$ {revenue.toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportOrdersModal;
@@ -0,0 +1,100 @@
+import React from "react";
+import type { DailySales } from "../types";
+
+interface RevenueChartProps {
+  days: DailySales[];
+  /** Clique numa barra: abre os pedidos daquele dia */
+  onSelectDay?: (date: string) => void;
+}
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 64 };
+const GRID_LINES = 4;
+// Máximo de rótulos no eixo dos dias (em períodos longos pula alguns)
+const MAX_DAY_LABELS = 10;
+
+const formatDay = (date: string) => date.slice(8, 10) + "/" + date.slice(5, 7);
+
+// Faturamento diário em barras (SVG puro, funciona sem internet)
+const RevenueChart: React.FC<RevenueChartProps> = ({ days, onSelectDay }) => {
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const max = Math.max(...days.map((d) => d.revenue), 1);
+  const slot = innerWidth / Math.max(days.length, 1);
+  const labelEvery = Math.ceil(days.length / MAX_DAY_LABELS);
+  const y = (value: number) => PADDING.top + innerHeight - (value / max) * innerHeight;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Faturamento por dia"
+    >
+      {/* Linhas de grade com os valores */}
+      {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+        const value = (max * i) / GRID_LINES;
+        return (
+          <g key={i}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              stroke="#e2e8f0"
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(value) + 4}
+              textAnchor="end"
+              fontSize="11"
+              fill="#64748b"
+            >
+              R$ {value.toFixed(0)}
+            </text>
+          </g>
+        );
+      })}
+
+      {days.map((day, i) => {
+        const x = PADDING.left + i * slot;
+        const barHeight = PADDING.top + innerHeight - y(day.revenue);
+        return (
+          <g
+            key={day.date}
+            onClick={() => day.orders > 0 && onSelectDay?.(day.date)}
+            className={day.orders > 0 && onSelectDay ? "cursor-pointer" : undefined}
+          >
+            <title>
+              {`${formatDay(day.date)}: R$ ${day.revenue.toFixed(2)} em ${day.orders} pedido(s)`}
+            </title>
+            {/* Área invisível para facilitar o clique em barras baixas */}
+            <rect x={x} y={PADDING.top} width={slot} height={innerHeight} fill="transparent" />
+            <rect
+              x={x + slot * 0.15}
+              y={y(day.revenue)}
+              width={Math.max(slot * 0.7, 1)}
+              height={barHeight}
+              rx={Math.min(3, slot * 0.2)}
+              fill="#9333ea"
+            />
+            {i % labelEvery === 0 && (
+              <text
+                x={x + slot / 2}
+                y={HEIGHT - 8}
+                textAnchor="middle"
+                fontSize="11"
+                fill="#64748b"
+              >
+                {formatDay(day.date)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default RevenueChart;
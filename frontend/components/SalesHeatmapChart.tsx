@@ -0,0 +1,83 @@
+import React from "react";
+import type { SalesHeatmap } from "../types";
+
+interface SalesHeatmapChartProps {
+  heatmap: SalesHeatmap;
+  /** Clique numa célula: abre os pedidos daquele dia da semana e hora */
+  onSelectCell?: (weekday: number, hour: number) => void;
+}
+
+const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+const CELL = 26;
+const GAP = 3;
+const LEFT = 40;
+const TOP = 20;
+
+// Mapa de calor de pedidos: dias da semana x horas (no fuso da loja)
+const SalesHeatmapChart: React.FC<SalesHeatmapChartProps> = ({ heatmap, onSelectCell }) => {
+  const counts = new Map<string, number>(
+    heatmap.cells.map((c) => [`${c.weekday}-${c.hour}`, c.orders])
+  );
+  const max = Math.max(...heatmap.cells.map((c) => c.orders), 1);
+  const width = LEFT + 24 * (CELL + GAP);
+  const height = TOP + 7 * (CELL + GAP);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Pedidos por dia da semana e hora"
+    >
+      {Array.from({ length: 24 }, (_, hour) =>
+        hour % 3 === 0 ? (
+          <text
+            key={hour}
+            x={LEFT + hour * (CELL + GAP) + CELL / 2}
+            y={TOP - 6}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#64748b"
+          >
+            {hour}h
+          </text>
+        ) : null
+      )}
+
+      {WEEKDAY_LABELS.map((label, weekday) => (
+        <g key={label}>
+          <text
+            x={LEFT - 6}
+            y={TOP + weekday * (CELL + GAP) + CELL / 2 + 4}
+            textAnchor="end"
+            fontSize="11"
+            fill="#64748b"
+          >
+            {label}
+          </text>
+          {Array.from({ length: 24 }, (_, hour) => {
+            const orders = counts.get(`${weekday}-${hour}`) || 0;
+            return (
+              <rect
+                key={hour}
+                x={LEFT + hour * (CELL + GAP)}
+                y={TOP + weekday * (CELL + GAP)}
+                width={CELL}
+                height={CELL}
+                rx={4}
+                fill={orders > 0 ? "#9333ea" : "#f1f5f9"}
+                fillOpacity={orders > 0 ? 0.15 + 0.85 * (orders / max) : 1}
+                onClick={() => orders > 0 && onSelectCell?.(weekday, hour)}
+                className={orders > 0 && onSelectCell ? "cursor-pointer" : undefined}
+              >
+                <title>{`${label}, ${hour}h: ${orders} pedido(s)`}</title>
+              </rect>
+            );
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default SalesHeatmapChart;
@@ -0,0 +1,201 @@
+import React, { useRef } from "react";
+import type { PaymentMethod, Shift } from "../types";
+
+interface ShiftReportViewProps {
+  shift: Shift;
+}
+
+// Nomes no fechamento (o balcão é o dinheiro da gaveta)
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  counter: "Balcão (dinheiro)",
+  pix: "PIX",
+  credit: "Crédito",
+  debit: "Débito",
+};
+
+// Estilos da janela de impressão (lá não há Tailwind)
+const PRINT_STYLES = `
+  body { font-family: sans-serif; font-size: 12px; margin: 16px; color: #000; }
+  h2 { font-size: 16px; margin: 0 0 4px; }
+  h3 { font-size: 13px; margin: 12px 0 4px; }
+  p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 2px 4px; border-bottom: 1px solid #ddd; text-align: left; }
+  .num { text-align: right; }
+`;
+
+const money = (value: number | null) => (value === null ? "—" : `R$ ${value.toFixed(2)}`);
+const dateTime = (iso?: string | null) => (iso ? new Date(iso).toLocaleString("pt-BR") : "—");
+
+// Diferença (contado - esperado): sobra em verde, falta em vermelho
+const Difference: React.FC<{ value: number | null }> = ({ value }) =>
+  value === null ? (
+    <span className="text-stone-400">—</span>
+  ) : (
+    <span
+      className={`font-bold ${
+        value === 0 ? "text-stone-700" : value > 0 ? "text-green-700" : "text-red-700"
+      }`}
+    >
+      {value > 0 ? "+" : ""}
+      {money(value)}
+      {value !== 0 && (value > 0 ? " (sobra)" : " (falta)")}
+    </span>
+  );
+
+// Relatório do turno (fechamento ou prévia), com impressão em janela própria
+const ShiftReportView: React.FC<ShiftReportViewProps> = ({ shift }) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const report = shift.report;
+  if (!report) return null;
+  const isOpen = shift.status === "open";
+
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank", "width=480,height=640");
+    if (!printWindow || !contentRef.current) return;
+    printWindow.document.write(
+      `<html><head><title>Fechamento de caixa</title><style>${PRINT_STYLES}</style></head><body>${contentRef.current.innerHTML}</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md">
+      <div ref={contentRef} className="space-y-4 text-sm">
+        <div>
+          <h2 className="text-xl font-bold text-amber-800">
+            {isOpen ? "Prévia do fechamento" : "Fechamento de caixa"}
+          </h2>
+          <p className="text-stone-600">
+            Aberto em {dateTime(shift.openedAt)} por {shift.openedByName || shift.openedBy}
+          </p>
+          {!isOpen && (
+            <p className="text-stone-600">
+              Fechado em {dateTime(shift.closedAt)} por {shift.closedByName || shift.closedBy}
+            </p>
+          )}
+          {shift.notes && <p className="text-stone-600 italic">Obs.: {shift.notes}</p>}
+        </div>
+
+        <div>
+          <h3 className="font-bold text-stone-800">Vendas</h3>
+          <p>
+            {report.orders} pedido(s) · Subtotal {money(report.subtotal)} · Descontos{" "}
+            {money(report.discounts.total)} · Total <strong>{money(report.revenue)}</strong>
+          </p>
+        </div>
+
+        <div>
+          <h3 className="font-bold text-stone-800">Por forma de pagamento</h3>
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-stone-500">
+                <th className="py-1">Forma</th>
+                <th className="py-1 num text-right">Pedidos</th>
+                <th className="py-1 num text-right">Recebido</th>
+                <th className="py-1 num text-right">Esperado</th>
+                <th className="py-1 num text-right">Conferido</th>
+                <th className="py-1 num text-right">Diferença</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-stone-100">
+              {report.byMethod.map((row) => (
+                <tr key={row.method}>
+                  <td className="py-1">
+                    {METHOD_LABELS[row.method] || row.method}
+                    {row.pending > 0 && (
+                      <span className="text-amber-700"> ({money(row.pending)} a receber)</span>
+                    )}
+                  </td>
+                  <td className="py-1 num text-right">{row.orders}</td>
+                  <td className="py-1 num text-right">{money(row.received)}</td>
+                  <td className="py-1 num text-right">{money(row.expected)}</td>
+                  <td className="py-1 num text-right">{money(row.counted)}</td>
+                  <td className="py-1 num text-right">
+                    <Difference value={row.difference} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-stone-500 mt-1">
+            Dinheiro esperado na gaveta: troco inicial {money(report.cash.openingFloat)} +
+            recebido no balcão {money(report.cash.received)} = {money(report.cash.expected)}
+          </p>
+        </div>
+
+        <div>
+          <h3 className="font-bold text-stone-800">Descontos</h3>
+          <p>
+            Promoções e cupons {money(report.discounts.promotion)} · Pontos{" "}
+            {money(report.discounts.points)}
+          </p>
+          {report.discounts.byPromotion.map((row) => (
+            <p key={`${row.name}-${row.code}`} className="text-stone-600">
+              {row.name}
+              {row.code && ` (${row.code})`}: {row.orders} pedido(s), {money(row.amount)}
+            </p>
+          ))}
+        </div>
+
+        <div>
+          <h3 className="font-bold text-stone-800">
+            Cancelamentos ({report.cancellations.length})
+          </h3>
+          {report.cancellations.length === 0 && <p className="text-stone-500">Nenhum.</p>}
+          {report.cancellations.map((row) => (
+            <p key={row.orderId}>
+              #{row.orderNumber} · {money(row.total)} · {dateTime(row.cancelledAt)}
+              {row.reason && ` · ${row.reason}`}
+              {row.staffName && ` (${row.staffName})`}
+              {row.paymentStatus === "approved" && (
+                <span className="text-red-700"> · pago, sem estorno</span>
+              )}
+            </p>
+          ))}
+        </div>
+
+        {report.refunds.length > 0 && (
+          <div>
+            <h3 className="font-bold text-stone-800">Estornos ({report.refunds.length})</h3>
+            {report.refunds.map((row) => (
+              <p key={`${row.orderId}-${row.refundedAt}`}>
+                #{row.orderNumber} · {row.paymentMethod && METHOD_LABELS[row.paymentMethod]} ·{" "}
+                {money(row.amount)} · {dateTime(row.refundedAt)}
+                {row.reason && ` · ${row.reason}`}
+                {row.staffName && ` (${row.staffName})`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {report.pendingPayments.length > 0 && (
+          <div>
+            <h3 className="font-bold text-amber-800">
+              Pagamentos no balcão não confirmados ({report.pendingPayments.length})
+            </h3>
+            {report.pendingPayments.map((row) => (
+              <p key={row.orderId}>
+                #{row.orderNumber} · {money(row.total)}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-stone-400">Gerado em {dateTime(report.generatedAt)}</p>
+      </div>
+
+      <button
+        onClick={handlePrint}
+        className="mt-4 bg-stone-200 text-stone-800 font-semibold py-2 px-4 rounded-lg hover:bg-stone-300"
+      >
+        🖨️ {isOpen ? "Imprimir prévia" : "Imprimir"}
+      </button>
+    </div>
+  );
+};
+
+export default ShiftReportView;
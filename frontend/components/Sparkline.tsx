@@ -0,0 +1,49 @@
+import React from "react";
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+// Minigráfico de tendência (uma linha, sem eixos)
+const Sparkline: React.FC<SparklineProps> = ({
+  values,
+  width = 120,
+  height = 32,
+  color = "#16a34a",
+}) => {
+  if (values.length === 0) return null;
+  const max = Math.max(...values, 1);
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  // Margem de 2px para a espessura da linha não ser cortada nas bordas
+  const points = values
+    .map((value, i) => `${i * step},${height - 2 - (value / max) * (height - 4)}`)
+    .join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      aria-hidden="true"
+      overflow="visible"
+    >
+      {values.length > 1 ? (
+        <polyline
+          points={points}
+          fill="none"
+          stroke={color}
+          strokeWidth="2"
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      ) : (
+        <circle cx={width / 2} cy={height / 2} r="2" fill={color} />
+      )}
+    </svg>
+  );
+};
+
+export default Sparkline;
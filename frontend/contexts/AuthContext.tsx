@@ -1,12 +1,26 @@
-import React, { createContext, useState, useContext, ReactNode } from "react";
-import type { User, Order } from "../types";
+import React, {
+  createContext,
+  useState,
+  useContext,
+  useEffect,
+  useCallback,
+  ReactNode,
+} from "react";
+import type { User, AuthSession } from "../types";
+import {
+  AUTH_SESSION_KEY,
+  getStoredSession,
+  isSessionExpired,
+} from "../services/authService";
 
 // Define o formato do contexto de autenticação: quais valores e funções estarão disponíveis
 interface AuthContextType {
   currentUser: User | null; // usuário atualmente logado ou null se ninguém estiver logado
-  login: (user: User) => void; // função para setar o usuário como logado
+  session: AuthSession | null; // token assinado da equipe (cozinha/admin)
+  isSessionValid: boolean; // false quando não há token ou ele já expirou
+  login: (user: User, session?: AuthSession) => void; // função para setar o usuário como logado
   logout: () => void; // função para deslogar (limpar o usuário)
-  addOrderToHistory: (order: Order) => void; // adiciona um pedido ao histórico do usuário
+  updateUser: (changes: Partial<User>) => void; // atualiza dados do usuário logado (ex.: saldo de pontos)
 }
 
 // Cria o contexto com um valor inicial indefinido; será provido pelo AuthProvider
@@ -21,42 +35,68 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
   const [currentUser, setCurrentUser] = useState<User | null>(() => {
     try {
       const raw = localStorage.getItem("currentUser");
-      return raw ? (JSON.parse(raw) as User) : null;
+      if (!raw) return null;
+      // Sessões salvas antes da mudança ainda trazem o histórico inteiro;
+      // ele agora vem da API (getUserHistory) e não fica no localStorage
+      const { historico, ...user } = JSON.parse(raw);
+      return user as User;
     } catch (e) {
       return null;
     }
   });
 
-  // Função para realizar o login: recebe um usuário e atualiza o estado
-  const login = (user: User) => {
+  // Sessão (token) da equipe, também persistida no localStorage
+  const [session, setSession] = useState<AuthSession | null>(() =>
+    getStoredSession()
+  );
+
+  // Função para realizar o login: recebe um usuário (e o token, para a equipe)
+  const login = (user: User, newSession?: AuthSession) => {
     setCurrentUser(user);
+    setSession(newSession || null);
     try {
       localStorage.setItem("currentUser", JSON.stringify(user));
+      if (newSession) {
+        localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(newSession));
+      } else {
+        localStorage.removeItem(AUTH_SESSION_KEY);
+      }
     } catch (e) {
       // ignore
     }
   };
 
-  // Função para realizar logout: simplesmente limpa o usuário
-  const logout = () => {
+  // Função para realizar logout: limpa o usuário e o token.
+  // Memoizada para poder ser usada como dependência de efeitos.
+  const logout = useCallback(() => {
     setCurrentUser(null);
+    setSession(null);
     try {
       localStorage.removeItem("currentUser");
+      localStorage.removeItem(AUTH_SESSION_KEY);
     } catch (e) {
       // ignore
     }
-  };
+  }, []);
+
+  // Desloga automaticamente quando o token da equipe expira
+  useEffect(() => {
+    if (!session) return;
+    const msLeft = new Date(session.expiresAt).getTime() - Date.now();
+    if (msLeft <= 0) {
+      logout();
+      return;
+    }
+    // setTimeout aceita no máximo ~24,8 dias; sessões são bem mais curtas
+    const timer = window.setTimeout(logout, msLeft);
+    return () => window.clearTimeout(timer);
+  }, [session, logout]);
 
-  // Adiciona um pedido ao histórico do usuário preservando imutabilidade
-  const addOrderToHistory = (order: Order) => {
+  // Atualiza campos do usuário logado (ex.: pontos após um pedido)
+  const updateUser = (changes: Partial<User>) => {
     setCurrentUser((prevUser) => {
-      // Se não houver usuário logado, não faz nada (retorna null)
       if (!prevUser) return null;
-      // Retorna um novo objeto de usuário com o histórico atualizado (concatena o novo pedido)
-      const next = {
-        ...prevUser,
-        historico: [...prevUser.historico, order],
-      };
+      const next = { ...prevUser, ...changes };
       try {
         localStorage.setItem("currentUser", JSON.stringify(next));
       } catch (e) {
@@ -69,7 +109,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
   // Providencia os valores/funções do contexto para os componentes filhos
   return (
     <AuthContext.Provider
-      value={{ currentUser, login, logout, addOrderToHistory }}
+      value={{
+        currentUser,
+        session,
+        isSessionValid: !isSessionExpired(session),
+        login,
+        logout,
+        updateUser,
+      }}
     >
       {children}
     </AuthContext.Provider>
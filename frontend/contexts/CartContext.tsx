@@ -1,24 +1,142 @@
 import React, { createContext, useState, useContext, ReactNode } from "react";
-import type { CartItem, Product } from "../types";
+import type {
+  CartItem,
+  Combo,
+  ComboComponent,
+  Product,
+  SelectedModifier,
+} from "../types";
 
 /*
   Define o formato do contexto do carrinho.
   - cartItems: lista de itens no carrinho
-  - addToCart: adiciona um produto (ou incrementa quantidade se já existir)
-  - removeFromCart: remove um item pelo id
+  - addToCart: adiciona um produto com as opções escolhidas (ou incrementa a
+    quantidade se a mesma combinação já existir)
+  - addComboToCart: adiciona um combo com os produtos escolhidos para cada vaga
+  - applyCombo: troca uma unidade de itens avulsos pelo combo equivalente
+  - removeFromCart: remove um item pelo cartItemId
   - updateQuantity: atualiza a quantidade de um item (se <= 0 remove)
   - clearCart: esvazia o carrinho
-  - cartTotal: total calculado do carrinho
+  - syncWithMenu: atualiza nome/preço dos itens com o cardápio e os combos mais recentes
+    (itens esgotados saem do carrinho)
+  - cartTotal: total calculado do carrinho, antes das promoções (os descontos
+    são calculados pelo servidor em /api/promotions/preview)
 */
 interface CartContextType {
   cartItems: CartItem[];
-  addToCart: (product: Product) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (
+    product: Product,
+    modifiers?: SelectedModifier[],
+    notes?: string,
+    quantity?: number
+  ) => void;
+  addComboToCart: (
+    combo: Combo,
+    components: ComboComponent[],
+    quantity?: number
+  ) => void;
+  applyCombo: (
+    combo: Combo,
+    picks: { slotId: string; cartItemId: string }[]
+  ) => void;
+  removeFromCart: (cartItemId: string) => void;
+  updateQuantity: (cartItemId: string, quantity: number) => void;
   clearCart: () => void;
+  syncWithMenu: (menu: Product[], combos: Combo[]) => void;
   cartTotal: number;
 }
 
+// Mesmo produto com opções ou observação diferentes vira outra linha
+const buildCartItemId = (
+  productId: string,
+  modifiers: SelectedModifier[],
+  notes: string
+) =>
+  [productId, modifiers.map((m) => m.optionId).sort().join(","), notes].join(
+    "|"
+  );
+
+// Preço unitário = preço do produto + acréscimos das opções
+const calculateUnitPrice = (product: Product, modifiers: SelectedModifier[]) =>
+  Math.round(
+    modifiers.reduce((acc, m) => acc + m.priceDelta, product.price) * 100
+  ) / 100;
+
+// Combo: a linha depende dos produtos, opções e observações de cada vaga
+const buildComboCartItemId = (comboId: string, components: ComboComponent[]) =>
+  [
+    comboId,
+    ...components.map((c) =>
+      [
+        c.slotId,
+        c.productId,
+        (c.modifiers || []).map((m) => m.optionId).sort().join(","),
+        c.notes || "",
+      ].join(":")
+    ),
+  ].join("|");
+
+// Linha do carrinho para um combo: preço fechado + acréscimos das opções
+const buildComboItem = (
+  combo: Combo,
+  components: ComboComponent[],
+  quantity: number
+): CartItem => ({
+  id: combo.id,
+  name: combo.name,
+  description: combo.description,
+  price: combo.price,
+  category: "Combo",
+  videoUrl: "",
+  cartItemId: buildComboCartItemId(combo.id, components),
+  quantity,
+  modifiers: [],
+  unitPrice:
+    Math.round(
+      components.reduce(
+        (acc, c) =>
+          acc + (c.modifiers || []).reduce((sum, m) => sum + m.priceDelta, 0),
+        combo.price
+      ) * 100
+    ) / 100,
+  comboId: combo.id,
+  components,
+});
+
+// Soma a quantidade se a linha já existir; senão adiciona no fim
+const mergeItem = (items: CartItem[], newItem: CartItem) =>
+  items.some((item) => item.cartItemId === newItem.cartItemId)
+    ? items.map((item) =>
+        item.cartItemId === newItem.cartItemId
+          ? { ...item, quantity: item.quantity + newItem.quantity }
+          : item
+      )
+    : [...items, newItem];
+
+// Reaplica as opções escolhidas com os dados atuais do produto
+// (null se alguma opção deixou de existir)
+const refreshModifiers = (
+  product: Product,
+  modifiers: SelectedModifier[]
+): SelectedModifier[] | null => {
+  const options = new Map(
+    (product.modifierGroups || []).flatMap((g) =>
+      g.options.map((o) => [o.id, { group: g, option: o }] as const)
+    )
+  );
+  if (modifiers.some((m) => !options.has(m.optionId))) return null;
+  return modifiers.map((m) => {
+    const { group, option } = options.get(m.optionId)!;
+    return {
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      name: option.name,
+      priceDelta: option.priceDelta,
+    };
+  });
+};
+
 // Cria o contexto com tipo opcional (undefined por padrão até o Provider ser usado)
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
@@ -35,31 +153,101 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
 
   /*
     Adiciona um produto ao carrinho.
-    - Se o produto já existir (mesmo id), incrementa a quantidade em 1.
-    - Caso contrário, adiciona o produto com quantity = 1.
+    - Se a mesma combinação (produto + opções + observação) já existir,
+      incrementa a quantidade.
+    - Caso contrário, adiciona uma nova linha.
     Usa a função de atualização baseada no estado anterior para evitar condições de corrida.
   */
-  const addToCart = (product: Product) => {
+  const addToCart = (
+    product: Product,
+    modifiers: SelectedModifier[] = [],
+    notes = "",
+    quantity = 1
+  ) => {
+    const trimmedNotes = notes.trim();
+    const cartItemId = buildCartItemId(product.id, modifiers, trimmedNotes);
     setCartItems((prevItems) => {
-      const existingItem = prevItems.find((item) => item.id === product.id);
+      const existingItem = prevItems.find(
+        (item) => item.cartItemId === cartItemId
+      );
       if (existingItem) {
         return prevItems.map((item) =>
-          item.id === product.id
-            ? { ...item, quantity: item.quantity + 1 }
+          item.cartItemId === cartItemId
+            ? { ...item, quantity: item.quantity + quantity }
             : item
         );
       }
-      return [...prevItems, { ...product, quantity: 1 }];
+      return [
+        ...prevItems,
+        {
+          ...product,
+          cartItemId,
+          quantity,
+          modifiers,
+          notes: trimmedNotes || undefined,
+          unitPrice: calculateUnitPrice(product, modifiers),
+        },
+      ];
     });
   };
 
+  // Adiciona um combo já montado (um produto escolhido para cada vaga)
+  const addComboToCart = (
+    combo: Combo,
+    components: ComboComponent[],
+    quantity = 1
+  ) => {
+    setCartItems((prevItems) =>
+      mergeItem(prevItems, buildComboItem(combo, components, quantity))
+    );
+  };
+
   /*
-    Remove um item do carrinho pelo productId.
+    Transforma itens avulsos em combo: tira uma unidade de cada linha
+    escolhida para as vagas e adiciona uma unidade do combo com os mesmos
+    produtos, opções e observações.
+  */
+  const applyCombo = (
+    combo: Combo,
+    picks: { slotId: string; cartItemId: string }[]
+  ) => {
+    setCartItems((prevItems) => {
+      const components: ComboComponent[] = [];
+      let items = prevItems;
+      for (const pick of picks) {
+        const item = items.find((i) => i.cartItemId === pick.cartItemId);
+        const slot = combo.slots.find((s) => s.id === pick.slotId);
+        if (!item || !slot || item.comboId || item.quantity < 1) {
+          return prevItems;
+        }
+        components.push({
+          slotId: slot.id,
+          slotName: slot.name,
+          productId: item.id,
+          name: item.name,
+          category: slot.category,
+          ...(item.modifiers.length > 0 && { modifiers: item.modifiers }),
+          ...(item.notes && { notes: item.notes }),
+        });
+        items = items.flatMap((i) =>
+          i.cartItemId !== item.cartItemId
+            ? [i]
+            : i.quantity > 1
+            ? [{ ...i, quantity: i.quantity - 1 }]
+            : []
+        );
+      }
+      return mergeItem(items, buildComboItem(combo, components, 1));
+    });
+  };
+
+  /*
+    Remove um item do carrinho pelo cartItemId.
     Filtra os itens mantendo apenas os que não possuem o id informado.
   */
-  const removeFromCart = (productId: string) => {
+  const removeFromCart = (cartItemId: string) => {
     setCartItems((prevItems) =>
-      prevItems.filter((item) => item.id !== productId)
+      prevItems.filter((item) => item.cartItemId !== cartItemId)
     );
   };
 
@@ -68,13 +256,13 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
     - Se a quantidade informada for menor ou igual a zero, remove o item.
     - Caso contrário, mapeia os itens e atualiza a quantidade do item correspondente.
   */
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (cartItemId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(cartItemId);
     } else {
       setCartItems((prevItems) =>
         prevItems.map((item) =>
-          item.id === productId ? { ...item, quantity } : item
+          item.cartItemId === cartItemId ? { ...item, quantity } : item
         )
       );
     }
@@ -85,9 +273,65 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
     setCartItems([]);
   };
 
-  // Calcula o total do carrinho somando price * quantity de cada item
+  /*
+    Sincroniza o carrinho com o cardápio atual (ex.: o backend recusou o
+    pedido porque um preço mudou). Atualiza os dados do produto e das
+    opções e remove itens cujo produto, opção ou combo não existem mais.
+  */
+  const syncWithMenu = (menu: Product[], combos: Combo[]) => {
+    setCartItems((prevItems) =>
+      prevItems.flatMap((item) => {
+        if (item.comboId) {
+          const combo = combos.find((c) => c.id === item.comboId && c.active);
+          if (!combo) return [];
+          const components: ComboComponent[] = [];
+          for (const component of item.components || []) {
+            const slot = combo.slots.find((s) => s.id === component.slotId);
+            const product = menu.find((p) => p.id === component.productId);
+            if (
+              !slot ||
+              !product ||
+              product.soldOut ||
+              product.category !== slot.category
+            ) {
+              return [];
+            }
+            const modifiers = refreshModifiers(
+              product,
+              component.modifiers || []
+            );
+            if (!modifiers) return [];
+            components.push({
+              ...component,
+              slotName: slot.name,
+              name: product.name,
+              ...(modifiers.length > 0 && { modifiers }),
+            });
+          }
+          return [buildComboItem(combo, components, item.quantity)];
+        }
+
+        const product = menu.find((p) => p.id === item.id);
+        if (!product || product.soldOut) return [];
+
+        const modifiers = refreshModifiers(product, item.modifiers);
+        if (!modifiers) return [];
+
+        return [
+          {
+            ...item,
+            ...product,
+            modifiers,
+            unitPrice: calculateUnitPrice(product, modifiers),
+          },
+        ];
+      })
+    );
+  };
+
+  // Calcula o total do carrinho somando unitPrice * quantity de cada item
   const cartTotal = cartItems.reduce(
-    (total, item) => total + item.price * item.quantity,
+    (total, item) => total + item.unitPrice * item.quantity,
     0
   );
 
@@ -97,9 +341,12 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({
       value={{
         cartItems,
         addToCart,
+        addComboToCart,
+        applyCombo,
         removeFromCart,
         updateQuantity,
         clearCart,
+        syncWithMenu,
         cartTotal,
       }}
     >
@@ -0,0 +1,172 @@
+// Página: /pages/AdminIngredientsPage.tsx
+// Cadastro de ingredientes e do custo de compra de cada um.
+// As fichas técnicas (quanto de cada ingrediente vai no produto) ficam no Painel Admin.
+
+import React, { useState, useEffect } from 'react';
+import type { Ingredient } from '../types';
+import {
+    INGREDIENT_UNIT_LABELS,
+    getIngredients,
+    createIngredient,
+    updateIngredient,
+    deleteIngredient,
+} from '../services/ingredientService';
+
+const emptyIngredient = (): Omit<Ingredient, 'id'> => ({ name: '', unit: 'g', cost: 0 });
+
+// --- Formulário de ingrediente (modal) ---
+interface IngredientFormProps {
+    ingredient: Ingredient | null; // ingrediente para editar (ou null para criar)
+    onSave: (ingredient: Omit<Ingredient, 'id'> & { id?: number }) => void;
+    onCancel: () => void;
+}
+
+const IngredientForm: React.FC<IngredientFormProps> = ({ ingredient, onSave, onCancel }) => {
+    const [formData, setFormData] = useState<Omit<Ingredient, 'id'> & { id?: number }>(ingredient || emptyIngredient());
+    const [formError, setFormError] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        // Validação básica antes de enviar (o backend valida novamente)
+        if (!Number.isFinite(formData.cost) || formData.cost <= 0) {
+            setFormError('Informe um custo maior que zero.');
+            return;
+        }
+        onSave({ ...formData, name: formData.name.trim() });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-md">
+                <h2 className="text-2xl font-bold mb-6 text-amber-800">{ingredient ? 'Editar Ingrediente' : 'Adicionar Ingrediente'}</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="ingredient-name" className="block text-sm font-medium text-stone-700">Nome</label>
+                        <input type="text" id="ingredient-name" value={formData.name} onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))} required placeholder="Carne moída" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                    </div>
+                    <div className="flex gap-4">
+                        <div className="flex-1">
+                            <label htmlFor="ingredient-unit" className="block text-sm font-medium text-stone-700">Compra em</label>
+                            <select id="ingredient-unit" value={formData.unit} onChange={e => setFormData(prev => ({ ...prev, unit: e.target.value as Ingredient['unit'] }))} className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500">
+                                {(Object.keys(INGREDIENT_UNIT_LABELS) as Ingredient['unit'][]).map(unit => (
+                                    <option key={unit} value={unit}>{INGREDIENT_UNIT_LABELS[unit]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex-1">
+                            <label htmlFor="ingredient-cost" className="block text-sm font-medium text-stone-700">Custo (R$)</label>
+                            <input type="number" id="ingredient-cost" value={formData.cost} onChange={e => { setFormError(''); setFormData(prev => ({ ...prev, cost: parseFloat(e.target.value) })); }} required min="0" step="0.01" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                        </div>
+                    </div>
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
+                    <div className="flex justify-end gap-4 pt-4">
+                        <button type="button" onClick={onCancel} className="bg-stone-200 text-stone-800 font-semibold py-2 px-4 rounded-lg hover:bg-stone-300">Cancelar</button>
+                        <button type="submit" className="bg-amber-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-amber-700">Salvar</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const AdminIngredientsPage: React.FC = () => {
+    const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        getIngredients()
+            .then(setIngredients)
+            .catch(err => setError((err as Error).message));
+    }, []);
+
+    const handleSave = async (ingredient: Omit<Ingredient, 'id'> & { id?: number }) => {
+        setError('');
+        try {
+            const saved = ingredient.id !== undefined
+                ? await updateIngredient(ingredient as Ingredient)
+                : await createIngredient(ingredient);
+            setIngredients(prev => (prev.some(i => i.id === saved.id)
+                ? prev.map(i => i.id === saved.id ? saved : i)
+                : [...prev, saved]
+            ).sort((a, b) => a.name.localeCompare(b.name)));
+            setIsFormOpen(false);
+            setEditingIngredient(null);
+        } catch (err) {
+            console.error('Erro ao salvar ingrediente:', err);
+            setError(`Não foi possível salvar "${ingredient.name}": ${(err as Error).message}`);
+        }
+    };
+
+    const handleDelete = async (ingredient: Ingredient) => {
+        if (!window.confirm(`Tem certeza que deseja remover "${ingredient.name}"?`)) return;
+        setError('');
+        try {
+            await deleteIngredient(ingredient.id);
+            setIngredients(prev => prev.filter(i => i.id !== ingredient.id));
+        } catch (err) {
+            console.error('Erro ao remover ingrediente:', err);
+            setError(`Não foi possível remover "${ingredient.name}": ${(err as Error).message}`);
+        }
+    };
+
+    return (
+        <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+                <h1 className="text-4xl font-bold text-amber-800">Ingredientes</h1>
+                <button onClick={() => { setEditingIngredient(null); setIsFormOpen(true); }} className="bg-amber-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-amber-600 transition-colors shadow-md">
+                    Adicionar Ingrediente
+                </button>
+            </div>
+
+            {error && (
+                <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 rounded text-red-800 flex justify-between items-center">
+                    <span>{error}</span>
+                    <button onClick={() => setError('')} className="text-red-600 hover:text-red-900 font-bold">✕</button>
+                </div>
+            )}
+
+            {isFormOpen && (
+                <IngredientForm
+                    ingredient={editingIngredient}
+                    onSave={handleSave}
+                    onCancel={() => { setIsFormOpen(false); setEditingIngredient(null); }}
+                />
+            )}
+
+            <div className="bg-white shadow-xl rounded-2xl overflow-hidden">
+                <table className="min-w-full divide-y divide-stone-200">
+                    <thead className="bg-stone-50">
+                        <tr>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Ingrediente</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Custo</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Usado em</th>
+                            <th scope="col" className="relative px-6 py-3"><span className="sr-only">Ações</span></th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-stone-200">
+                        {ingredients.length === 0 && (
+                            <tr><td colSpan={4} className="px-6 py-4 text-sm text-stone-500">Nenhum ingrediente cadastrado.</td></tr>
+                        )}
+                        {ingredients.map(ingredient => (
+                            <tr key={ingredient.id}>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-stone-900">{ingredient.name}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-stone-700">
+                                    R${ingredient.cost.toFixed(2)} / {ingredient.unit === 'g' ? 'kg' : ingredient.unit === 'ml' ? 'litro' : 'unidade'}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-stone-700">{ingredient.usedIn || 0} produto(s)</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                    <button onClick={() => { setEditingIngredient(ingredient); setIsFormOpen(true); }} className="text-amber-600 hover:text-amber-900 mr-4">Editar</button>
+                                    <button onClick={() => handleDelete(ingredient)} className="text-red-600 hover:text-red-900">Remover</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default AdminIngredientsPage;
@@ -1,37 +1,36 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
-
-const ADMIN_PASSWORD = "2468";
+import { loginStaff } from "../services/authService";
 
 const AdminLoginPage: React.FC = () => {
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
-  const { login, currentUser } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const { login, currentUser, isSessionValid } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
     // Se já está logado como admin, redirecionar
-    if (currentUser?.role === "admin") {
+    if (currentUser?.role === "admin" && isSessionValid) {
       navigate("/admin");
     }
-  }, [currentUser, navigate]);
+  }, [currentUser, isSessionValid, navigate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (password === ADMIN_PASSWORD) {
-      const adminUser = {
-        id: "admin_user",
-        name: "Administrador",
-        historico: [],
-        role: "admin" as const,
-      };
-      login(adminUser);
+    setIsLoading(true);
+
+    try {
+      // A senha é conferida no backend, que devolve um token assinado
+      const { user, session } = await loginStaff("admin", password);
+      login(user, session);
       navigate("/admin");
-    } else {
-      setError("Senha incorreta");
+    } catch (err) {
+      setError((err as Error).message || "Senha incorreta");
       setPassword("");
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -70,9 +69,10 @@ const AdminLoginPage: React.FC = () => {
 
           <button
             type="submit"
-            className="w-full bg-purple-700 text-white font-bold py-3 rounded-lg hover:bg-purple-800 transition-colors text-lg"
+            disabled={isLoading || !password}
+            className="w-full bg-purple-700 text-white font-bold py-3 rounded-lg hover:bg-purple-800 transition-colors text-lg disabled:bg-purple-300 disabled:cursor-wait"
           >
-            Entrar
+            {isLoading ? "Entrando..." : "Entrar"}
           </button>
         </form>
 
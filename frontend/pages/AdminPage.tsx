@@ -1,10 +1,97 @@
 // Página: /pages/AdminPage.tsx
 // Esta página fornece uma interface administrativa simples para listar,
-// adicionar, editar e remover produtos do "cardápio".
+// adicionar, editar e remover produtos e combos do "cardápio".
 // Comentários em português explicam cada parte do código.
 
 import React, { useState, useEffect } from 'react';
-import type { Product } from '../types';
+import type { Product, ModifierGroup, ModifierOption, Combo, ComboSlot, Ingredient, ProductCost, RecipeLine } from '../types';
+import { createProduct, updateProduct, deleteProduct, updateProductStock, getLowStockProducts } from '../services/productService';
+import { getCombos, createCombo, updateCombo, deleteCombo } from '../services/comboService';
+import { getIngredients, getProductCosts, getProductRecipe, saveProductRecipe } from '../services/ingredientService';
+
+const BACKEND_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+// Mesmo formato aceito pelo backend: /videos/Arquivo.mp4 ou URL http(s)
+const VIDEO_URL_REGEX = /^(\/videos\/[\w.-]+|https?:\/\/\S+)\.(mp4|webm)$/i;
+
+// Situações do ICMS aceitas pelo backend na NFC-e (CSOSN do Simples e CST sem alíquota)
+const ICMS_SITUATIONS: { code: string; label: string }[] = [
+    { code: '102', label: '102 - Simples Nacional sem permissão de crédito' },
+    { code: '103', label: '103 - Simples Nacional isento por faixa de receita' },
+    { code: '300', label: '300 - Simples Nacional imune' },
+    { code: '400', label: '400 - Simples Nacional não tributada' },
+    { code: '500', label: '500 - Simples Nacional com ICMS por substituição' },
+    { code: '40', label: '40 - Isenta' },
+    { code: '41', label: '41 - Não tributada' },
+    { code: '60', label: '60 - ICMS cobrado anteriormente por substituição' },
+];
+
+// --- Editor de grupos de modificadores (opções e adicionais do produto) ---
+// Grupos e opções novos vão sem id; o backend gera e mantém os ids.
+interface ModifierGroupsEditorProps {
+    groups: ModifierGroup[];
+    onChange: (groups: ModifierGroup[]) => void;
+}
+
+const emptyOption = (): ModifierOption => ({ id: '', name: '', priceDelta: 0 });
+const emptyGroup = (): ModifierGroup => ({ id: '', name: '', required: false, min: 0, max: 1, options: [emptyOption()] });
+
+const ModifierGroupsEditor: React.FC<ModifierGroupsEditorProps> = ({ groups, onChange }) => {
+    // Atualiza um grupo pelo índice
+    const updateGroup = (index: number, changes: Partial<ModifierGroup>) => {
+        onChange(groups.map((g, i) => i === index ? { ...g, ...changes } : g));
+    };
+    // Atualiza uma opção de um grupo
+    const updateOption = (groupIndex: number, optionIndex: number, changes: Partial<ModifierOption>) => {
+        const group = groups[groupIndex];
+        updateGroup(groupIndex, { options: group.options.map((o, i) => i === optionIndex ? { ...o, ...changes } : o) });
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center">
+                <span className="block text-sm font-medium text-stone-700">Opções e adicionais</span>
+                <button type="button" onClick={() => onChange([...groups, emptyGroup()])} className="text-sm text-amber-600 hover:text-amber-900 font-semibold">+ Grupo</button>
+            </div>
+            <div className="space-y-4 mt-2">
+                {groups.map((group, gi) => (
+                    <div key={gi} className="p-3 border border-stone-200 rounded-lg space-y-2">
+                        <div className="flex gap-2 items-center">
+                            <input type="text" value={group.name} onChange={e => updateGroup(gi, { name: e.target.value })} placeholder="Nome do grupo (ex.: Adicionais)" className="flex-1 rounded-md border-stone-300 shadow-sm text-sm"/>
+                            <button type="button" onClick={() => onChange(groups.filter((_, i) => i !== gi))} className="text-red-600 hover:text-red-900 text-sm">Remover</button>
+                        </div>
+                        <div className="flex gap-4 items-center text-sm text-stone-700">
+                            <label className="flex items-center gap-1">
+                                {/* Obrigatório exige ao menos 1 escolha */}
+                                <input type="checkbox" checked={group.required} onChange={e => updateGroup(gi, { required: e.target.checked, min: e.target.checked ? Math.max(1, group.min) : 0 })} className="rounded border-stone-300 text-amber-600"/>
+                                Obrigatório
+                            </label>
+                            {group.required && (
+                                <label className="flex items-center gap-1">
+                                    Mín.
+                                    <input type="number" min={1} value={group.min} onChange={e => updateGroup(gi, { min: parseInt(e.target.value) || 1 })} className="w-16 rounded-md border-stone-300 text-sm"/>
+                                </label>
+                            )}
+                            <label className="flex items-center gap-1">
+                                Máx.
+                                <input type="number" min={1} value={group.max} onChange={e => updateGroup(gi, { max: parseInt(e.target.value) || 1 })} className="w-16 rounded-md border-stone-300 text-sm"/>
+                            </label>
+                        </div>
+                        {group.options.map((option, oi) => (
+                            <div key={oi} className="flex gap-2 items-center ml-4">
+                                <input type="text" value={option.name} onChange={e => updateOption(gi, oi, { name: e.target.value })} placeholder="Opção (ex.: Catupiry)" className="flex-1 rounded-md border-stone-300 shadow-sm text-sm"/>
+                                {/* Acréscimo no preço; negativo para desconto */}
+                                <input type="number" step="0.01" value={option.priceDelta} onChange={e => updateOption(gi, oi, { priceDelta: parseFloat(e.target.value) || 0 })} title="Acréscimo no preço (R$)" className="w-24 rounded-md border-stone-300 shadow-sm text-sm"/>
+                                <button type="button" onClick={() => updateGroup(gi, { options: group.options.filter((_, i) => i !== oi) })} className="text-stone-400 hover:text-red-600" aria-label="Remover opção">✕</button>
+                            </div>
+                        ))}
+                        <button type="button" onClick={() => updateGroup(gi, { options: [...group.options, emptyOption()] })} className="ml-4 text-xs text-amber-600 hover:text-amber-900 font-semibold">+ Opção</button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
 
 // --- Componente de formulário de produto (Modal) ---
 // Props esperadas pelo formulário:
@@ -22,7 +109,15 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
         description: '',
         price: 0,
         category: 'Pastel',
+        videoUrl: '',
+        popular: false,
+        modifierGroups: [],
+        ncm: '',
+        cfop: '5102',
+        cst: '102',
     });
+    // Mensagem de validação exibida dentro do modal
+    const [formError, setFormError] = useState('');
 
     // Quando o prop `product` muda (por ex. abrir para editar), preenche o formulário.
     useEffect(() => {
@@ -30,13 +125,26 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
             setFormData(product); // preenche com dados existentes
         } else {
             // limpa para novo produto
-            setFormData({ name: '', description: '', price: 0, category: 'Pastel' });
+            setFormData({ name: '', description: '', price: 0, category: 'Pastel', videoUrl: '', popular: false, modifierGroups: [], ncm: '', cfop: '5102', cst: '102' });
         }
+        setFormError('');
     }, [product]);
 
     // Atualiza campos do formulário. Convertendo price para número quando necessário.
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
+        setFormError('');
+        // Checkbox de destaque guarda boolean
+        if (e.target instanceof HTMLInputElement && e.target.type === 'checkbox') {
+            const { checked } = e.target;
+            setFormData(prev => ({ ...prev, [name]: checked }));
+            return;
+        }
+        // Alerta de estoque: vazio = padrão do servidor
+        if (name === 'lowStockThreshold') {
+            setFormData(prev => ({ ...prev, lowStockThreshold: value === '' ? null : parseInt(value, 10) }));
+            return;
+        }
         // Se for o campo 'price', converte para float; caso contrário mantém string.
         setFormData(prev => ({ ...prev, [name]: name === 'price' ? parseFloat(value) : value }));
     };
@@ -44,6 +152,30 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
     // Ao submeter, cria um objeto Product final e chama onSave.
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        // Validação básica antes de enviar (o backend valida novamente)
+        if (!Number.isFinite(formData.price) || formData.price <= 0) {
+            setFormError('Informe um preço maior que zero.');
+            return;
+        }
+        if (formData.videoUrl && !VIDEO_URL_REGEX.test(formData.videoUrl.trim())) {
+            setFormError('O vídeo deve ser /videos/<arquivo>.mp4 ou uma URL de vídeo .mp4/.webm.');
+            return;
+        }
+        if (formData.ncm && !/^\d{8}$/.test(formData.ncm)) {
+            setFormError('O NCM deve ter 8 dígitos (ex.: 19059090).');
+            return;
+        }
+        if (!/^5\d{3}$/.test(formData.cfop || '')) {
+            setFormError('O CFOP deve ter 4 dígitos e começar com 5 (venda dentro do estado).');
+            return;
+        }
+        const invalidGroup = (formData.modifierGroups || []).find(g =>
+            !g.name.trim() || g.options.length === 0 || g.options.some(o => !o.name.trim())
+            || g.max < Math.max(1, g.min) || g.max > g.options.length);
+        if (invalidGroup) {
+            setFormError(`Revise o grupo "${invalidGroup.name || 'sem nome'}": nomes preenchidos e máximo entre o mínimo e o número de opções.`);
+            return;
+        }
         const finalProduct: Product = {
             ...formData,
             // Se já houver id (edição) usa-o, senão gera um id simples baseado em timestamp.
@@ -57,7 +189,7 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
     return (
         // Modal em tela cheia com fundo escuro semitransparente
         <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
-            <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-lg">
+            <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
                 {/* Título muda conforme edição ou criação */}
                 <h2 className="text-2xl font-bold mb-6 text-amber-800">{product ? 'Editar Produto' : 'Adicionar Produto'}</h2>
                 <form onSubmit={handleSubmit} className="space-y-4">
@@ -87,6 +219,43 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
                              </select>
                         </div>
                      </div>
+                    <div>
+                        <label htmlFor="videoUrl" className="block text-sm font-medium text-stone-700">Vídeo</label>
+                        {/* Caminho do vídeo exibido no card do cardápio */}
+                        <input type="text" name="videoUrl" id="videoUrl" value={formData.videoUrl || ''} onChange={handleChange} placeholder="/videos/PastelDeCarne.mp4" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                    </div>
+                    <div>
+                        <label htmlFor="lowStockThreshold" className="block text-sm font-medium text-stone-700">Alerta de estoque baixo</label>
+                        {/* A quantidade em estoque é ajustada pela tabela, não por aqui */}
+                        <input type="number" name="lowStockThreshold" id="lowStockThreshold" value={formData.lowStockThreshold ?? ''} onChange={handleChange} min="0" step="1" placeholder="Padrão: 5 unidades" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                    </div>
+                    {/* Classificação fiscal usada na NFC-e */}
+                    <div className="grid grid-cols-3 gap-4">
+                        <div>
+                            <label htmlFor="ncm" className="block text-sm font-medium text-stone-700">NCM</label>
+                            <input type="text" name="ncm" id="ncm" value={formData.ncm || ''} onChange={handleChange} inputMode="numeric" maxLength={8} placeholder="19059090" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                        </div>
+                        <div>
+                            <label htmlFor="cfop" className="block text-sm font-medium text-stone-700">CFOP</label>
+                            <input type="text" name="cfop" id="cfop" value={formData.cfop || ''} onChange={handleChange} inputMode="numeric" maxLength={4} placeholder="5102" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                        </div>
+                        <div>
+                            <label htmlFor="cst" className="block text-sm font-medium text-stone-700">CST/CSOSN</label>
+                            <select name="cst" id="cst" value={formData.cst || '102'} onChange={handleChange} title={ICMS_SITUATIONS.find(s => s.code === formData.cst)?.label} className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500">
+                                {ICMS_SITUATIONS.map(s => <option key={s.code} value={s.code}>{s.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-stone-700">
+                        {/* Produtos populares aparecem em destaque */}
+                        <input type="checkbox" name="popular" checked={!!formData.popular} onChange={handleChange} className="rounded border-stone-300 text-amber-600 focus:ring-amber-500"/>
+                        Produto popular
+                    </label>
+                    <ModifierGroupsEditor
+                        groups={formData.modifierGroups || []}
+                        onChange={modifierGroups => { setFormError(''); setFormData(prev => ({ ...prev, modifierGroups })); }}
+                    />
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
                     <div className="flex justify-end gap-4 pt-4">
                         {/* Botão cancelar fecha o modal sem salvar */}
                         <button type="button" onClick={onCancel} className="bg-stone-200 text-stone-800 font-semibold py-2 px-4 rounded-lg hover:bg-stone-300">Cancelar</button>
@@ -99,6 +268,202 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, onSave, onCancel })
     );
 };
 
+// --- Ficha técnica: quanto de cada ingrediente vai em uma unidade do produto ---
+interface RecipeFormProps {
+    product: Product;
+    onSaved: () => void;
+    onCancel: () => void;
+}
+
+// Mesma conta do servidor: g e ml usam o custo por kg/litro
+const lineCost = (line: RecipeLine, ingredients: Ingredient[]) => {
+    const ingredient = ingredients.find(i => i.id === line.ingredientId);
+    if (!ingredient || !Number.isFinite(line.quantity)) return 0;
+    return line.quantity * ingredient.cost / (ingredient.unit === 'un' ? 1 : 1000);
+};
+
+const RecipeForm: React.FC<RecipeFormProps> = ({ product, onSaved, onCancel }) => {
+    const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+    const [lines, setLines] = useState<RecipeLine[]>([]);
+    const [formError, setFormError] = useState('');
+
+    useEffect(() => {
+        Promise.all([getIngredients(), getProductRecipe(product.id)])
+            .then(([allIngredients, recipe]) => {
+                setIngredients(allIngredients);
+                setLines(recipe.items);
+            })
+            .catch(err => setFormError((err as Error).message));
+    }, [product.id]);
+
+    const foodCost = lines.reduce((acc, line) => acc + lineCost(line, ingredients), 0);
+    const margin = product.price - foodCost;
+
+    const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+        setFormError('');
+        setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (lines.some(line => !(line.quantity > 0))) {
+            setFormError('Informe uma quantidade maior que zero em todas as linhas.');
+            return;
+        }
+        try {
+            await saveProductRecipe(product.id, lines);
+            onSaved();
+        } catch (err) {
+            setFormError((err as Error).message);
+        }
+    };
+
+    // Ingredientes que ainda não estão na ficha (cada um entra uma vez)
+    const available = ingredients.filter(i => !lines.some(line => line.ingredientId === i.id));
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold mb-1 text-amber-800">Ficha técnica</h2>
+                <p className="text-stone-600 mb-6">{product.name} — R${product.price.toFixed(2)}</p>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {lines.length === 0 && (
+                        <p className="text-sm text-stone-500">Nenhum ingrediente. Sem ficha técnica o produto fica sem custo nos relatórios.</p>
+                    )}
+                    {lines.map((line, index) => {
+                        const ingredient = ingredients.find(i => i.id === line.ingredientId);
+                        return (
+                            <div key={line.ingredientId} className="flex items-center gap-2">
+                                <span className="flex-1 text-sm font-medium text-stone-800">{ingredient?.name || line.name}</span>
+                                <input type="number" value={Number.isFinite(line.quantity) ? line.quantity : ''} onChange={e => updateLine(index, { quantity: parseFloat(e.target.value) })} min="0" step="0.01" className="w-24 rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                                <span className="w-8 text-sm text-stone-500">{ingredient?.unit}</span>
+                                <span className="w-20 text-right text-sm text-stone-700">R${lineCost(line, ingredients).toFixed(2)}</span>
+                                <button type="button" onClick={() => setLines(prev => prev.filter((_, i) => i !== index))} className="text-red-600 hover:text-red-900" aria-label="Remover ingrediente">✕</button>
+                            </div>
+                        );
+                    })}
+                    {available.length > 0 && (
+                        <select value="" onChange={e => { if (e.target.value) setLines(prev => [...prev, { ingredientId: Number(e.target.value), quantity: 0 }]); }} className="block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500">
+                            <option value="">+ Adicionar ingrediente</option>
+                            {available.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                        </select>
+                    )}
+                    {ingredients.length === 0 && (
+                        <p className="text-sm text-stone-500">Cadastre os ingredientes em "Ingredientes" para montar a ficha.</p>
+                    )}
+                    {/* Custo e margem pelo preço atual */}
+                    <div className="p-4 bg-stone-50 rounded-lg text-sm space-y-1">
+                        <div className="flex justify-between"><span>Custo dos ingredientes</span><strong>R${foodCost.toFixed(2)}</strong></div>
+                        <div className="flex justify-between">
+                            <span>Margem</span>
+                            <strong className={margin < 0 ? 'text-red-600' : 'text-green-700'}>
+                                R${margin.toFixed(2)} ({product.price > 0 ? Math.round(margin / product.price * 100) : 0}%)
+                            </strong>
+                        </div>
+                    </div>
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
+                    <div className="flex justify-end gap-4 pt-4">
+                        <button type="button" onClick={onCancel} className="bg-stone-200 text-stone-800 font-semibold py-2 px-4 rounded-lg hover:bg-stone-300">Cancelar</button>
+                        <button type="submit" className="bg-amber-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-amber-700">Salvar</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// --- Formulário de combo (preço fechado para um produto de cada vaga) ---
+// Vagas novas vão sem id; o backend gera e mantém os ids.
+interface ComboFormProps {
+    combo: Combo | null; // combo para editar (ou null para criar)
+    onSave: (combo: Combo) => void;
+    onCancel: () => void;
+}
+
+const emptySlot = (category: Product['category'] = 'Pastel'): ComboSlot => ({ id: '', name: category, category });
+
+const ComboForm: React.FC<ComboFormProps> = ({ combo, onSave, onCancel }) => {
+    const [formData, setFormData] = useState<Combo>(combo || {
+        id: '',
+        name: '',
+        description: '',
+        price: 0,
+        active: true,
+        slots: [emptySlot('Pastel'), emptySlot('Bebida')],
+    });
+    const [formError, setFormError] = useState('');
+
+    const updateSlot = (index: number, changes: Partial<ComboSlot>) => {
+        setFormError('');
+        setFormData(prev => ({ ...prev, slots: prev.slots.map((s, i) => i === index ? { ...s, ...changes } : s) }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        // Validação básica antes de enviar (o backend valida novamente)
+        if (!Number.isFinite(formData.price) || formData.price <= 0) {
+            setFormError('Informe um preço maior que zero.');
+            return;
+        }
+        if (formData.slots.length < 2) {
+            setFormError('O combo precisa de ao menos 2 itens.');
+            return;
+        }
+        onSave({ ...formData, slots: formData.slots.map(s => ({ ...s, name: s.name.trim() || s.category })) });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold mb-6 text-amber-800">{combo ? 'Editar Combo' : 'Adicionar Combo'}</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="combo-name" className="block text-sm font-medium text-stone-700">Nome</label>
+                        <input type="text" id="combo-name" value={formData.name} onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))} required placeholder="Combo Pastel + Bebida" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                    </div>
+                    <div>
+                        <label htmlFor="combo-description" className="block text-sm font-medium text-stone-700">Descrição</label>
+                        <textarea id="combo-description" value={formData.description} onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))} rows={2} className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                    </div>
+                    <div className="flex gap-4 items-end">
+                        <div className="flex-1">
+                            <label htmlFor="combo-price" className="block text-sm font-medium text-stone-700">Preço do combo</label>
+                            <input type="number" id="combo-price" value={formData.price} onChange={e => { setFormError(''); setFormData(prev => ({ ...prev, price: parseFloat(e.target.value) })); }} required step="0.01" className="mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500"/>
+                        </div>
+                        <label className="flex-1 flex items-center gap-2 text-sm font-medium text-stone-700 pb-2">
+                            <input type="checkbox" checked={formData.active} onChange={e => setFormData(prev => ({ ...prev, active: e.target.checked }))} className="rounded border-stone-300 text-amber-600 focus:ring-amber-500"/>
+                            À venda no totem
+                        </label>
+                    </div>
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <h3 className="text-sm font-medium text-stone-700">Itens do combo</h3>
+                            <button type="button" onClick={() => setFormData(prev => ({ ...prev, slots: [...prev.slots, emptySlot()] }))} className="text-sm text-amber-700 font-semibold hover:text-amber-900">+ Item</button>
+                        </div>
+                        <p className="text-xs text-stone-500">O cliente escolhe um produto da categoria de cada item; opções com acréscimo são cobradas à parte.</p>
+                        {formData.slots.map((slot, index) => (
+                            <div key={slot.id || index} className="flex gap-2 items-center">
+                                <input type="text" value={slot.name} onChange={e => updateSlot(index, { name: e.target.value })} placeholder="Nome (ex.: Bebida)" className="flex-1 rounded-md border-stone-300 text-sm"/>
+                                <select value={slot.category} onChange={e => updateSlot(index, { category: e.target.value as Product['category'] })} className="rounded-md border-stone-300 text-sm">
+                                    <option>Pastel</option>
+                                    <option>Bebida</option>
+                                    <option>Doce</option>
+                                </select>
+                                <button type="button" onClick={() => setFormData(prev => ({ ...prev, slots: prev.slots.filter((_, i) => i !== index) }))} className="text-red-600 hover:text-red-900 text-sm" aria-label="Remover item">✕</button>
+                            </div>
+                        ))}
+                    </div>
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
+                    <div className="flex justify-end gap-4 pt-4">
+                        <button type="button" onClick={onCancel} className="bg-stone-200 text-stone-800 font-semibold py-2 px-4 rounded-lg hover:bg-stone-300">Cancelar</button>
+                        <button type="submit" className="bg-amber-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-amber-700">Salvar</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
 
 // --- Componente principal da página administrativa ---
 const AdminPage: React.FC = () => {
@@ -108,39 +473,156 @@ const AdminPage: React.FC = () => {
     const [isFormOpen, setIsFormOpen] = useState(false);
     // Produto atual sendo editado (ou null para criar novo)
     const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+    // Mensagem de erro quando o backend rejeita uma alteração
+    const [error, setError] = useState('');
+    // Combos cadastrados e o combo aberto no formulário (null = novo)
+    const [combos, setCombos] = useState<Combo[]>([]);
+    const [isComboFormOpen, setIsComboFormOpen] = useState(false);
+    const [editingCombo, setEditingCombo] = useState<Combo | null>(null);
+    // Produtos esgotados ou com estoque no limite do alerta
+    const [lowStock, setLowStock] = useState<Product[]>([]);
+    // Custo dos ingredientes e margem por produto; produto com a ficha técnica aberta
+    const [costs, setCosts] = useState<Record<string, ProductCost>>({});
+    const [recipeProduct, setRecipeProduct] = useState<Product | null>(null);
+
+    const loadLowStock = () => {
+        getLowStockProducts()
+            .then(setLowStock)
+            .catch(err => console.error('Erro ao carregar alertas de estoque:', err));
+    };
+
+    const loadCosts = () => {
+        getProductCosts()
+            .then(list => setCosts(Object.fromEntries(list.map(c => [c.productId, c]))))
+            .catch(err => console.error('Erro ao carregar custos:', err));
+    };
 
     // Carrega os dados iniciais do backend
     useEffect(() => {
-        fetch('http://localhost:3001/api/menu')
+        fetch(`${BACKEND_URL}/api/menu`)
             .then(res => res.json())
             .then(data => setMenu(data))
             .catch(err => console.error('Erro ao carregar cardápio:', err));
+        getCombos().then(setCombos);
+        loadLowStock();
+        loadCosts();
     }, []);
 
-    // Trata salvar (tanto criação quanto edição)
-    const handleSaveProduct = (product: Product) => {
-        if (editingProduct) {
+    // Trata salvar (tanto criação quanto edição).
+    // Atualiza a tabela imediatamente (otimista) e desfaz a mudança se o backend falhar.
+    const handleSaveProduct = async (product: Product) => {
+        const previous = editingProduct;
+        setError('');
+        if (previous) {
             // Se estivermos editando, substitui o produto existente
-            setMenu(menu.map(p => p.id === product.id ? product : p));
-            console.log("Updating product:", product);
+            setMenu(prev => prev.map(p => p.id === product.id ? product : p));
         } else {
             // Se for novo, adiciona no final da lista
-            setMenu([...menu, product]);
-            console.log("Adding product:", product);
+            setMenu(prev => [...prev, product]);
         }
         // Fecha o modal e reseta o estado de edição
         setIsFormOpen(false);
         setEditingProduct(null);
+
+        try {
+            const saved = previous ? await updateProduct(product) : await createProduct(product);
+            // Usa a versão normalizada devolvida pelo servidor
+            setMenu(prev => prev.map(p => p.id === saved.id ? { ...saved, imageUrl: product.imageUrl } : p));
+            loadLowStock();
+            loadCosts();
+        } catch (err) {
+            console.error('Erro ao salvar produto:', err);
+            // Rollback: volta o produto antigo ou remove o recém-adicionado
+            setMenu(prev => previous
+                ? prev.map(p => p.id === previous.id ? previous : p)
+                : prev.filter(p => p.id !== product.id));
+            setError(`Não foi possível salvar "${product.name}": ${(err as Error).message}`);
+        }
     };
 
-    // Remove um produto pela id (simula DELETE /cardapio/:id)
-    const handleDeleteProduct = (productId: string) => {
+    // Remove um produto pela id (DELETE /api/products/:id), com rollback em caso de erro
+    const handleDeleteProduct = async (productId: string) => {
         // Confirmação simples antes de remover
         if(window.confirm("Tem certeza que deseja remover este produto?")){
-            setMenu(menu.filter(p => p.id !== productId));
-            console.log("Deleting product with ID:", productId);
+            const index = menu.findIndex(p => p.id === productId);
+            const removed = menu[index];
+            if (!removed) return;
+            setError('');
+            setMenu(prev => prev.filter(p => p.id !== productId));
+
+            try {
+                await deleteProduct(productId);
+            } catch (err) {
+                console.error('Erro ao remover produto:', err);
+                // Reinsere o produto na posição original
+                setMenu(prev => {
+                    const next = [...prev];
+                    next.splice(Math.min(index, next.length), 0, removed);
+                    return next;
+                });
+                setError(`Não foi possível remover "${removed.name}": ${(err as Error).message}`);
+            }
+        }
+    };
+
+    // Contagem ou reposição do estoque (vazio = não controlar estoque)
+    const handleAdjustStock = async (product: Product) => {
+        const answer = window.prompt(
+            `Unidades de "${product.name}" em estoque (deixe vazio para não controlar):`,
+            product.stockQuantity == null ? '' : String(product.stockQuantity)
+        );
+        if (answer === null) return;
+        const stockQuantity = answer.trim() === '' ? null : Number(answer);
+        if (stockQuantity !== null && (!Number.isInteger(stockQuantity) || stockQuantity < 0)) {
+            setError('O estoque deve ser um número inteiro maior ou igual a zero.');
+            return;
+        }
+        setError('');
+        try {
+            const saved = await updateProductStock(product.id, stockQuantity);
+            setMenu(prev => prev.map(p => p.id === saved.id ? { ...saved, imageUrl: p.imageUrl } : p));
+            loadLowStock();
+        } catch (err) {
+            console.error('Erro ao ajustar estoque:', err);
+            setError(`Não foi possível ajustar o estoque de "${product.name}": ${(err as Error).message}`);
         }
     };
+
+    // Salva o combo e usa a versão devolvida pelo servidor (com os ids das vagas)
+    const handleSaveCombo = async (combo: Combo) => {
+        setError('');
+        try {
+            const saved = editingCombo ? await updateCombo(combo) : await createCombo(combo);
+            setCombos(prev => editingCombo ? prev.map(c => c.id === saved.id ? saved : c) : [...prev, saved]);
+            setIsComboFormOpen(false);
+            setEditingCombo(null);
+        } catch (err) {
+            console.error('Erro ao salvar combo:', err);
+            setError(`Não foi possível salvar "${combo.name}": ${(err as Error).message}`);
+        }
+    };
+
+    const handleDeleteCombo = async (combo: Combo) => {
+        if (!window.confirm(`Tem certeza que deseja remover o ${combo.name}?`)) return;
+        setError('');
+        try {
+            await deleteCombo(combo.id);
+            setCombos(prev => prev.filter(c => c.id !== combo.id));
+        } catch (err) {
+            console.error('Erro ao remover combo:', err);
+            setError(`Não foi possível remover "${combo.name}": ${(err as Error).message}`);
+        }
+    };
+
+    // Faixa de preço dos mesmos itens comprados avulsos (mais barato / mais caro de cada categoria)
+    const looseRange = (combo: Combo) => {
+        const prices = combo.slots.map(slot => menu.filter(p => p.category === slot.category).map(p => p.price));
+        if (prices.some(list => list.length === 0)) return null;
+        return {
+            min: prices.reduce((acc, list) => acc + Math.min(...list), 0),
+            max: prices.reduce((acc, list) => acc + Math.max(...list), 0),
+        };
+    };
     
     return (
         <div className="container mx-auto">
@@ -153,6 +635,34 @@ const AdminPage: React.FC = () => {
                 </button>
             </div>
 
+            {/* Erro vindo do backend (a alteração já foi desfeita na tabela) */}
+            {error && (
+                <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 rounded text-red-800 flex justify-between items-center">
+                    <span>{error}</span>
+                    <button onClick={() => setError('')} className="text-red-600 hover:text-red-900 font-bold">✕</button>
+                </div>
+            )}
+
+            {/* Alerta de estoque baixo (esgotados primeiro) */}
+            {lowStock.length > 0 && (
+                <div className="mb-6 p-4 bg-amber-50 border-l-4 border-amber-500 rounded">
+                    <h2 className="font-bold text-amber-900 mb-2">⚠️ Estoque baixo</h2>
+                    <ul className="space-y-1 text-sm text-amber-900">
+                        {lowStock.map(product => (
+                            <li key={product.id} className="flex justify-between items-center">
+                                <span>
+                                    {product.name} —{' '}
+                                    {product.soldOut
+                                        ? <strong>esgotado{!product.available && ' (marcado pela cozinha)'}</strong>
+                                        : `${product.stockQuantity} unidade(s)`}
+                                </span>
+                                <button onClick={() => handleAdjustStock(product)} className="text-amber-700 hover:text-amber-900 font-semibold">Repor</button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* Renderiza o formulário/modal condicionalmente */}
              {isFormOpen && (
                 <ProductForm 
@@ -162,6 +672,14 @@ const AdminPage: React.FC = () => {
                 />
             )}
 
+            {recipeProduct && (
+                <RecipeForm
+                    product={recipeProduct}
+                    onSaved={() => { setRecipeProduct(null); loadCosts(); }}
+                    onCancel={() => setRecipeProduct(null)}
+                />
+            )}
+
             {/* Tabela que lista os produtos */}
             <div className="bg-white shadow-xl rounded-2xl overflow-hidden">
                 <table className="min-w-full divide-y divide-stone-200">
@@ -171,6 +689,9 @@ const AdminPage: React.FC = () => {
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Produto</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Categoria</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Preço</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Custo</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Margem</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Estoque</th>
                             <th scope="col" className="relative px-6 py-3"><span className="sr-only">Ações</span></th>
                         </tr>
                     </thead>
@@ -197,6 +718,28 @@ const AdminPage: React.FC = () => {
                                 </td>
                                 {/* Preço formatado com duas casas decimais */}
                                 <td className="px-6 py-4 whitespace-nowrap text-sm text-stone-900">R${product.price.toFixed(2)}</td>
+                                {/* Custo da ficha técnica (clique para editar) e margem pelo preço atual */}
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                    <button onClick={() => setRecipeProduct(product)} className="text-stone-900 hover:text-amber-700" title="Ficha técnica">
+                                        {costs[product.id]?.foodCost != null ? `R$${costs[product.id].foodCost!.toFixed(2)}` : 'Sem ficha'}
+                                    </button>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                    {costs[product.id]?.margin != null ? (
+                                        <span className={costs[product.id].margin! < 0 ? 'text-red-600 font-semibold' : 'text-green-700'}>
+                                            R${costs[product.id].margin!.toFixed(2)} ({costs[product.id].marginPercent}%)
+                                        </span>
+                                    ) : '—'}
+                                </td>
+                                {/* Estoque controlado (ou "—") e botão de ajuste */}
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                    <button onClick={() => handleAdjustStock(product)} className="text-stone-900 hover:text-amber-700" title="Ajustar estoque">
+                                        {product.stockQuantity == null ? '—' : product.stockQuantity}
+                                    </button>
+                                    {product.soldOut && (
+                                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-stone-200 text-stone-700">Esgotado</span>
+                                    )}
+                                </td>
                                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                                     {/* Botões de ação: editar abre o modal preenchido */}
                                     <button onClick={() => { setEditingProduct(product); setIsFormOpen(true); }} className="text-amber-600 hover:text-amber-900 mr-4">Editar</button>
@@ -208,6 +751,61 @@ const AdminPage: React.FC = () => {
                     </tbody>
                 </table>
             </div>
+
+            {isComboFormOpen && (
+                <ComboForm
+                    combo={editingCombo}
+                    onSave={handleSaveCombo}
+                    onCancel={() => { setIsComboFormOpen(false); setEditingCombo(null); }}
+                />
+            )}
+
+            {/* Combos: preço fechado para um produto de cada categoria */}
+            <div className="flex justify-between items-center mt-12 mb-6">
+                <h2 className="text-3xl font-bold text-amber-800">Combos</h2>
+                <button onClick={() => { setEditingCombo(null); setIsComboFormOpen(true); }} className="bg-amber-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-amber-600 transition-colors shadow-md">
+                    Adicionar Combo
+                </button>
+            </div>
+            <div className="bg-white shadow-xl rounded-2xl overflow-hidden">
+                <table className="min-w-full divide-y divide-stone-200">
+                    <thead className="bg-stone-50">
+                        <tr>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Combo</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Itens</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Preço</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Avulso</th>
+                            <th scope="col" className="relative px-6 py-3"><span className="sr-only">Ações</span></th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-stone-200">
+                        {combos.length === 0 && (
+                            <tr><td colSpan={5} className="px-6 py-4 text-sm text-stone-500">Nenhum combo cadastrado.</td></tr>
+                        )}
+                        {combos.map(combo => {
+                            const range = looseRange(combo);
+                            return (
+                                <tr key={combo.id}>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="text-sm font-medium text-stone-900">{combo.name}</div>
+                                        {!combo.active && <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-stone-100 text-stone-600">Inativo</span>}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-stone-700">{combo.slots.map(s => s.name).join(' + ')}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-stone-900">R${combo.price.toFixed(2)}</td>
+                                    {/* Em vermelho: combo que não sai mais barato que os itens avulsos */}
+                                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${range && range.max <= combo.price ? 'text-red-600' : 'text-stone-500'}`}>
+                                        {range ? `R$${range.min.toFixed(2)} – R$${range.max.toFixed(2)}` : '—'}
+                                    </td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                        <button onClick={() => { setEditingCombo(combo); setIsComboFormOpen(true); }} className="text-amber-600 hover:text-amber-900 mr-4">Editar</button>
+                                        <button onClick={() => handleDeleteCombo(combo)} className="text-red-600 hover:text-red-900">Remover</button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
         </div>
     );
 };
@@ -0,0 +1,387 @@
+// Página: /pages/AdminPromotionsPage.tsx
+// Cadastro de promoções e cupons: criar, editar, pausar e remover regras.
+// Os descontos são calculados pelo servidor ao criar o pedido.
+
+import React, { useState, useEffect } from 'react';
+import type { Product, Promotion, PromotionType } from '../types';
+import {
+    PROMOTION_TYPE_LABELS,
+    getPromotions,
+    createPromotion,
+    updatePromotion,
+    deletePromotion,
+} from '../services/promotionService';
+
+const BACKEND_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const emptyPromotion = (): Omit<Promotion, 'id'> => ({
+    name: '',
+    code: null,
+    type: 'percent',
+    value: 10,
+    category: null,
+    productId: null,
+    buyQuantity: 3,
+    payQuantity: 2,
+    minSubtotal: null,
+    startsAt: null,
+    endsAt: null,
+    daysOfWeek: [],
+    startTime: null,
+    endTime: null,
+    usageLimit: null,
+    perUserLimit: null,
+    active: true,
+});
+
+// Resumo da regra exibido na tabela ("Leve 3 pague 2 em Pastel")
+const describeRule = (promotion: Promotion, menu: Product[]) => {
+    const target = promotion.productId
+        ? menu.find(p => p.id === promotion.productId)?.name || promotion.productId
+        : promotion.category;
+    switch (promotion.type) {
+        case 'percent':
+            return `${promotion.value}% no pedido`;
+        case 'fixed':
+            return `R$${promotion.value.toFixed(2)} no pedido`;
+        case 'category_percent':
+            return `${promotion.value}% em ${target}`;
+        case 'buy_x_pay_y':
+            return `Leve ${promotion.buyQuantity} pague ${promotion.payQuantity} em ${target}`;
+    }
+};
+
+// Validade, dias e horário em texto curto
+const describeSchedule = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.startsAt || promotion.endsAt) {
+        parts.push(`${promotion.startsAt || '…'} a ${promotion.endsAt || '…'}`);
+    }
+    if (promotion.daysOfWeek.length > 0) parts.push(promotion.daysOfWeek.map(d => WEEKDAYS[d]).join(', '));
+    if (promotion.startTime || promotion.endTime) {
+        parts.push(`${promotion.startTime || '00:00'}–${promotion.endTime || '24:00'}`);
+    }
+    return parts.join(' · ') || 'Sempre';
+};
+
+// --- Formulário de promoção (modal) ---
+interface PromotionFormProps {
+    promotion: Promotion | null; // promoção para editar (ou null para criar)
+    menu: Product[];
+    onSave: (promotion: Omit<Promotion, 'id'> & { id?: number }) => void;
+    onCancel: () => void;
+}
+
+const PromotionForm: React.FC<PromotionFormProps> = ({ promotion, menu, onSave, onCancel }) => {
+    const [formData, setFormData] = useState<Omit<Promotion, 'id'> & { id?: number }>(promotion || emptyPromotion());
+    const [formError, setFormError] = useState('');
+
+    const update = (changes: Partial<Promotion>) => {
+        setFormError('');
+        setFormData(prev => ({ ...prev, ...changes }));
+    };
+
+    // Campos numéricos opcionais: vazio vira null
+    const optionalNumber = (value: string) => (value === '' ? null : Number(value));
+
+    const toggleWeekday = (day: number) => {
+        update({
+            daysOfWeek: formData.daysOfWeek.includes(day)
+                ? formData.daysOfWeek.filter(d => d !== day)
+                : [...formData.daysOfWeek, day].sort(),
+        });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        // Validação básica antes de enviar (o backend valida novamente)
+        if (formData.type === 'buy_x_pay_y'
+            && (!formData.buyQuantity || !formData.payQuantity || formData.buyQuantity <= formData.payQuantity)) {
+            setFormError('Em "leve X pague Y", X deve ser maior que Y.');
+            return;
+        }
+        if (formData.type !== 'buy_x_pay_y' && !(formData.value > 0)) {
+            setFormError('Informe um desconto maior que zero.');
+            return;
+        }
+        if ((formData.type === 'category_percent' || formData.type === 'buy_x_pay_y')
+            && !formData.category && !formData.productId) {
+            setFormError('Escolha a categoria (ou o produto) da promoção.');
+            return;
+        }
+        onSave({ ...formData, code: formData.code?.trim().toUpperCase() || null });
+    };
+
+    const isItemRule = formData.type === 'category_percent' || formData.type === 'buy_x_pay_y';
+    const inputClass = 'mt-1 block w-full rounded-md border-stone-300 shadow-sm focus:border-amber-500 focus:ring-amber-500';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+            <div className="bg-white p-8 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold mb-6 text-amber-800">{promotion ? 'Editar Promoção' : 'Nova Promoção'}</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="promo-name" className="block text-sm font-medium text-stone-700">Nome</label>
+                        <input type="text" id="promo-name" value={formData.name} onChange={e => update({ name: e.target.value })} required placeholder="Happy hour das bebidas" className={inputClass}/>
+                    </div>
+                    <div className="flex gap-4">
+                        <div className="flex-1">
+                            <label htmlFor="promo-type" className="block text-sm font-medium text-stone-700">Tipo</label>
+                            <select id="promo-type" value={formData.type} onChange={e => update({ type: e.target.value as PromotionType })} className={inputClass}>
+                                {Object.entries(PROMOTION_TYPE_LABELS).map(([type, label]) => (
+                                    <option key={type} value={type}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex-1">
+                            <label htmlFor="promo-code" className="block text-sm font-medium text-stone-700">Cupom (opcional)</label>
+                            <input type="text" id="promo-code" value={formData.code || ''} onChange={e => update({ code: e.target.value.toUpperCase() || null })} placeholder="Automática" className={inputClass}/>
+                        </div>
+                    </div>
+
+                    {formData.type === 'buy_x_pay_y' ? (
+                        <div className="flex gap-4">
+                            <div className="flex-1">
+                                <label htmlFor="promo-buy" className="block text-sm font-medium text-stone-700">Leve</label>
+                                <input type="number" id="promo-buy" min={2} value={formData.buyQuantity ?? ''} onChange={e => update({ buyQuantity: optionalNumber(e.target.value) })} className={inputClass}/>
+                            </div>
+                            <div className="flex-1">
+                                <label htmlFor="promo-pay" className="block text-sm font-medium text-stone-700">Pague</label>
+                                <input type="number" id="promo-pay" min={1} value={formData.payQuantity ?? ''} onChange={e => update({ payQuantity: optionalNumber(e.target.value) })} className={inputClass}/>
+                            </div>
+                        </div>
+                    ) : (
+                        <div>
+                            <label htmlFor="promo-value" className="block text-sm font-medium text-stone-700">
+                                {formData.type === 'fixed' ? 'Desconto (R$)' : 'Desconto (%)'}
+                            </label>
+                            <input type="number" id="promo-value" step="0.01" value={formData.value} onChange={e => update({ value: parseFloat(e.target.value) })} className={inputClass}/>
+                        </div>
+                    )}
+
+                    {isItemRule && (
+                        <div className="flex gap-4">
+                            <div className="flex-1">
+                                <label htmlFor="promo-category" className="block text-sm font-medium text-stone-700">Categoria</label>
+                                <select id="promo-category" value={formData.category || ''} onChange={e => update({ category: (e.target.value || null) as Product['category'] | null })} className={inputClass}>
+                                    <option value="">—</option>
+                                    <option>Pastel</option>
+                                    <option>Bebida</option>
+                                    <option>Doce</option>
+                                </select>
+                            </div>
+                            {formData.type === 'buy_x_pay_y' && (
+                                <div className="flex-1">
+                                    <label htmlFor="promo-product" className="block text-sm font-medium text-stone-700">Ou só o produto</label>
+                                    <select id="promo-product" value={formData.productId || ''} onChange={e => update({ productId: e.target.value || null })} className={inputClass}>
+                                        <option value="">Qualquer da categoria</option>
+                                        {menu.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {!isItemRule && (
+                        <div>
+                            <label htmlFor="promo-min" className="block text-sm font-medium text-stone-700">Pedido mínimo (R$, opcional)</label>
+                            <input type="number" id="promo-min" step="0.01" value={formData.minSubtotal ?? ''} onChange={e => update({ minSubtotal: optionalNumber(e.target.value) })} className={inputClass}/>
+                        </div>
+                    )}
+
+                    <div className="flex gap-4">
+                        <div className="flex-1">
+                            <label htmlFor="promo-starts" className="block text-sm font-medium text-stone-700">Início</label>
+                            <input type="date" id="promo-starts" value={formData.startsAt || ''} onChange={e => update({ startsAt: e.target.value || null })} className={inputClass}/>
+                        </div>
+                        <div className="flex-1">
+                            <label htmlFor="promo-ends" className="block text-sm font-medium text-stone-700">Fim</label>
+                            <input type="date" id="promo-ends" value={formData.endsAt || ''} onChange={e => update({ endsAt: e.target.value || null })} className={inputClass}/>
+                        </div>
+                    </div>
+
+                    <div>
+                        <span className="block text-sm font-medium text-stone-700">Dias da semana (nenhum = todos)</span>
+                        <div className="flex gap-1 mt-1">
+                            {WEEKDAYS.map((label, day) => (
+                                <button key={label} type="button" onClick={() => toggleWeekday(day)}
+                                    className={`flex-1 py-1 rounded text-sm font-semibold ${formData.daysOfWeek.includes(day) ? 'bg-amber-500 text-white' : 'bg-stone-100 text-stone-600'}`}>
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex gap-4">
+                        <div className="flex-1">
+                            <label htmlFor="promo-start-time" className="block text-sm font-medium text-stone-700">Das (happy hour)</label>
+                            <input type="time" id="promo-start-time" value={formData.startTime || ''} onChange={e => update({ startTime: e.target.value || null })} className={inputClass}/>
+                        </div>
+                        <div className="flex-1">
+                            <label htmlFor="promo-end-time" className="block text-sm font-medium text-stone-700">Até</label>
+                            <input type="time" id="promo-end-time" value={formData.endTime || ''} onChange={e => update({ endTime: e.target.value || null })} className={inputClass}/>
+                        </div>
+                    </div>
+
+                    <div className="flex gap-4">
+                        <div className="flex-1">
+                            <label htmlFor="promo-usage" className="block text-sm font-medium text-stone-700">Limite de usos</label>
+                            <input type="number" id="promo-usage" min={1} value={formData.usageLimit ?? ''} onChange={e => update({ usageLimit: optionalNumber(e.target.value) })} placeholder="Sem limite" className={inputClass}/>
+                        </div>
+                        <div className="flex-1">
+                            <label htmlFor="promo-per-user" className="block text-sm font-medium text-stone-700">Por cliente</label>
+                            <input type="number" id="promo-per-user" min={1} value={formData.perUserLimit ?? ''} onChange={e => update({ perUserLimit: optionalNumber(e.target.value) })} placeholder="Sem limite" className={inputClass}/>
+                        </div>
+                    </div>
+
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
+                    <div className="flex justify-end gap-4 pt-4">
+                        <button type="button" onClick={onCancel} className="bg-stone-200 text-stone-800 font-semibold py-2 px-4 rounded-lg hover:bg-stone-300">Cancelar</button>
+                        <button type="submit" className="bg-amber-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-amber-700">Salvar</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+
+// --- Componente principal da página de promoções ---
+const AdminPromotionsPage: React.FC = () => {
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    // Produtos para escolher o alvo do "leve X pague Y"
+    const [menu, setMenu] = useState<Product[]>([]);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        getPromotions()
+            .then(setPromotions)
+            .catch(err => setError((err as Error).message));
+        fetch(`${BACKEND_URL}/api/menu`)
+            .then(res => res.json())
+            .then(data => setMenu(data))
+            .catch(err => console.error('Erro ao carregar cardápio:', err));
+    }, []);
+
+    const replacePromotion = (saved: Promotion) =>
+        setPromotions(prev => prev.some(p => p.id === saved.id)
+            ? prev.map(p => p.id === saved.id ? saved : p)
+            : [...prev, saved]);
+
+    const handleSave = async (promotion: Omit<Promotion, 'id'> & { id?: number }) => {
+        setError('');
+        try {
+            const saved = promotion.id !== undefined
+                ? await updatePromotion(promotion as Promotion)
+                : await createPromotion(promotion);
+            replacePromotion(saved);
+            setIsFormOpen(false);
+            setEditingPromotion(null);
+        } catch (err) {
+            console.error('Erro ao salvar promoção:', err);
+            setError(`Não foi possível salvar "${promotion.name}": ${(err as Error).message}`);
+        }
+    };
+
+    // Pausar/retomar mantém a regra e o histórico de usos
+    const handleToggleActive = async (promotion: Promotion) => {
+        setError('');
+        try {
+            replacePromotion(await updatePromotion({ ...promotion, active: !promotion.active }));
+        } catch (err) {
+            console.error('Erro ao pausar promoção:', err);
+            setError(`Não foi possível alterar "${promotion.name}": ${(err as Error).message}`);
+        }
+    };
+
+    const handleDelete = async (promotion: Promotion) => {
+        if (!window.confirm(`Tem certeza que deseja remover "${promotion.name}"?`)) return;
+        setError('');
+        try {
+            await deletePromotion(promotion.id);
+            setPromotions(prev => prev.filter(p => p.id !== promotion.id));
+        } catch (err) {
+            console.error('Erro ao remover promoção:', err);
+            setError(`Não foi possível remover "${promotion.name}": ${(err as Error).message}`);
+        }
+    };
+
+    return (
+        <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+                <h1 className="text-4xl font-bold text-amber-800">Promoções e Cupons</h1>
+                <button onClick={() => { setEditingPromotion(null); setIsFormOpen(true); }} className="bg-amber-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-amber-600 transition-colors shadow-md">
+                    Nova Promoção
+                </button>
+            </div>
+
+            {error && (
+                <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 rounded text-red-800 flex justify-between items-center">
+                    <span>{error}</span>
+                    <button onClick={() => setError('')} className="text-red-600 hover:text-red-900 font-bold">✕</button>
+                </div>
+            )}
+
+            {isFormOpen && (
+                <PromotionForm
+                    promotion={editingPromotion}
+                    menu={menu}
+                    onSave={handleSave}
+                    onCancel={() => { setIsFormOpen(false); setEditingPromotion(null); }}
+                />
+            )}
+
+            <div className="bg-white shadow-xl rounded-2xl overflow-hidden">
+                <table className="min-w-full divide-y divide-stone-200">
+                    <thead className="bg-stone-50">
+                        <tr>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Promoção</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Regra</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Quando</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-stone-500 uppercase tracking-wider">Usos</th>
+                            <th scope="col" className="relative px-6 py-3"><span className="sr-only">Ações</span></th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-stone-200">
+                        {promotions.length === 0 && (
+                            <tr><td colSpan={5} className="px-6 py-4 text-sm text-stone-500">Nenhuma promoção cadastrada.</td></tr>
+                        )}
+                        {promotions.map(promotion => (
+                            <tr key={promotion.id} className={promotion.active ? '' : 'opacity-60'}>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <div className="text-sm font-medium text-stone-900">{promotion.name}</div>
+                                    <div className="flex gap-1 mt-1">
+                                        {promotion.code
+                                            ? <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800">🎟️ {promotion.code}</span>
+                                            : <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Automática</span>}
+                                        {!promotion.active && <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-stone-100 text-stone-600">Pausada</span>}
+                                    </div>
+                                </td>
+                                <td className="px-6 py-4 text-sm text-stone-700">
+                                    {describeRule(promotion, menu)}
+                                    {promotion.minSubtotal ? ` (mín. R$${promotion.minSubtotal.toFixed(2)})` : ''}
+                                </td>
+                                <td className="px-6 py-4 text-sm text-stone-700">{describeSchedule(promotion)}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-stone-700">
+                                    {promotion.usageCount || 0}{promotion.usageLimit ? ` / ${promotion.usageLimit}` : ''}
+                                    {promotion.perUserLimit && <div className="text-xs text-stone-500">{promotion.perUserLimit} por cliente</div>}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                    <button onClick={() => handleToggleActive(promotion)} className="text-stone-600 hover:text-stone-900 mr-4">{promotion.active ? 'Pausar' : 'Retomar'}</button>
+                                    <button onClick={() => { setEditingPromotion(promotion); setIsFormOpen(true); }} className="text-amber-600 hover:text-amber-900 mr-4">Editar</button>
+                                    <button onClick={() => handleDelete(promotion)} className="text-red-600 hover:text-red-900">Remover</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default AdminPromotionsPage;
@@ -1,60 +1,317 @@
 import React, { useState, useEffect } from "react";
-import type { Order } from "../types";
+import type {
+  CategorySales,
+  DailySales,
+  MarginReport,
+  ReportOrderFilter,
+  SalesHeatmap,
+  SalesSummary,
+  TopProduct,
+} from "../types";
+import {
+  downloadReportExport,
+  downloadReportPdf,
+  getCategorySales,
+  getDailySales,
+  getMarginReport,
+  getSalesHeatmap,
+  getSalesSummary,
+  getTopProducts,
+} from "../services/reportService";
+import type { ExportFormat, ExportReport } from "../services/reportService";
+import DateRangePicker, { toInputDate } from "../components/DateRangePicker";
+import RevenueChart from "../components/RevenueChart";
+import SalesHeatmapChart from "../components/SalesHeatmapChart";
+import CategoryDonut from "../components/CategoryDonut";
+import Sparkline from "../components/Sparkline";
+import ReportOrdersModal from "../components/ReportOrdersModal";
 
-interface AIRecommendation {
-  topProducts: { name: string; quantity: number; revenue: number }[];
-  peakDays: { day: string; orders: number }[];
-  peakHours: { hour: string; orders: number }[];
-  monthlyRevenue: number;
-  insights: string;
-}
+const BACKEND_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
-const AdminReportsPage: React.FC = () => {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [recommendation, setRecommendation] = useState<AIRecommendation | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+const DAY_NAMES = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+
+const formatDate = (date: string) => date.split("-").reverse().join("/");
+
+// "▲ 12,5%" / "▼ 3%" em relação ao período anterior
+const ChangeBadge: React.FC<{ change: number | null }> = ({ change }) =>
+  change === null ? (
+    <span className="text-xs text-slate-500">sem dados no período anterior</span>
+  ) : (
+    <span
+      className={`text-xs font-semibold ${
+        change >= 0 ? "text-green-700" : "text-red-700"
+      }`}
+    >
+      {change >= 0 ? "▲" : "▼"} {Math.abs(change).toLocaleString("pt-BR")}% vs. período anterior
+    </span>
+  );
+
+const formatMargin = (margin: number | null, percent: number | null) =>
+  margin === null ? "—" : `R$ ${margin.toFixed(2)}${percent === null ? "" : ` (${percent}%)`}`;
+
+// Margem bruta (vendas - custo dos ingredientes) por dia e por produto
+const MarginReportSection: React.FC<{ from: string; to: string }> = ({ from, to }) => {
+  const [report, setReport] = useState<MarginReport | null>(null);
   const [error, setError] = useState("");
 
-  // Buscar todos os pedidos
   useEffect(() => {
-    fetchOrders();
-  }, []);
+    setError("");
+    getMarginReport(from, to)
+      .then(setReport)
+      .catch((err) => setError((err as Error).message));
+  }, [from, to]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg mb-8">
+      <h2 className="text-2xl font-bold text-slate-800 mb-4">💹 Margem Bruta</h2>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div className="p-4 bg-green-50 rounded-lg">
+              <p className="text-sm text-green-800">Vendas</p>
+              <p className="text-2xl font-bold text-green-900">
+                R$ {report.totals.revenue.toFixed(2)}
+              </p>
+            </div>
+            <div className="p-4 bg-red-50 rounded-lg">
+              <p className="text-sm text-red-800">Custo dos ingredientes</p>
+              <p className="text-2xl font-bold text-red-900">
+                R$ {(report.totals.cost ?? 0).toFixed(2)}
+              </p>
+            </div>
+            <div className="p-4 bg-purple-50 rounded-lg">
+              <p className="text-sm text-purple-800">Margem bruta</p>
+              <p className="text-2xl font-bold text-purple-900">
+                {formatMargin(report.totals.margin, report.totals.marginPercent)}
+              </p>
+            </div>
+          </div>
+
+          {report.totals.unitsWithoutCost > 0 && (
+            <p className="text-sm text-amber-700 mb-4">
+              ⚠️ {report.totals.unitsWithoutCost} item(ns) vendidos sem ficha técnica
+              entram com custo zero. Cadastre a ficha no Painel Admin.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Por produto (receita antes dos descontos do pedido) */}
+            <div>
+              <h3 className="font-bold text-slate-700 mb-2">Por produto</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="py-1">Produto</th>
+                    <th className="py-1 text-right">Qtd.</th>
+                    <th className="py-1 text-right">Vendas</th>
+                    <th className="py-1 text-right">Margem</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {report.byProduct.map((row) => (
+                    <tr key={row.productId}>
+                      <td className="py-1">{row.name}</td>
+                      <td className="py-1 text-right">{row.quantity}</td>
+                      <td className="py-1 text-right">R$ {row.revenue.toFixed(2)}</td>
+                      <td className="py-1 text-right">
+                        {formatMargin(row.margin, row.marginPercent)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Por dia comercial */}
+            <div>
+              <h3 className="font-bold text-slate-700 mb-2">Por dia</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="py-1">Dia</th>
+                    <th className="py-1 text-right">Pedidos</th>
+                    <th className="py-1 text-right">Vendas</th>
+                    <th className="py-1 text-right">Margem</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {report.byDay.map((row) => (
+                    <tr key={row.date}>
+                      <td className="py-1">{formatDate(row.date)}</td>
+                      <td className="py-1 text-right">{row.orders}</td>
+                      <td className="py-1 text-right">R$ {row.revenue.toFixed(2)}</td>
+                      <td className="py-1 text-right">
+                        {formatMargin(row.margin, row.marginPercent)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+          {report.byDay.length === 0 && (
+            <p className="text-sm text-slate-500 mt-2">Nenhuma venda no período.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
 
-  const fetchOrders = async () => {
+const EXPORTS: { report: ExportReport; label: string }[] = [
+  { report: "orders", label: "Pedidos (itens)" },
+  { report: "products", label: "Vendas por produto" },
+  { report: "daily", label: "Fechamento diário" },
+];
+
+// Planilhas para a contabilidade e relatório em PDF do período da tela
+const ExportSection: React.FC<{ from: string; to: string; insights: string }> = ({
+  from,
+  to,
+  insights,
+}) => {
+  // Arquivo sendo gerado ("daily-xlsx", "pdf"...)
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const runExport = async (key: string, download: () => Promise<void>) => {
+    setExporting(key);
+    setError("");
     try {
-      const res = await fetch("http://localhost:3001/api/user-orders");
-      if (!res.ok) throw new Error("Erro ao buscar pedidos");
-      const data = await res.json();
-      setOrders(data);
+      await download();
     } catch (err) {
-      console.error("Erro ao buscar pedidos:", err);
+      setError((err as Error).message);
+    } finally {
+      setExporting(null);
     }
   };
 
-  // Gerar relatório com IA
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg mb-8">
+      <h2 className="text-2xl font-bold text-slate-800 mb-1">📥 Exportar</h2>
+      <p className="text-sm text-slate-500 mb-4">
+        Período de {formatDate(from)} a {formatDate(to)}
+      </p>
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {EXPORTS.map(({ report, label }) => (
+          <div key={report} className="p-3 bg-slate-50 rounded-lg">
+            <p className="font-semibold text-slate-700 mb-2">{label}</p>
+            <div className="flex gap-2">
+              {(["csv", "xlsx"] as ExportFormat[]).map((format) => (
+                <button
+                  key={format}
+                  onClick={() =>
+                    runExport(`${report}-${format}`, () =>
+                      downloadReportExport(report, format, from, to)
+                    )
+                  }
+                  disabled={exporting !== null}
+                  className="flex-1 bg-white border border-slate-300 text-slate-700 font-semibold py-1 rounded-lg hover:bg-slate-100 disabled:opacity-50"
+                >
+                  {exporting === `${report}-${format}` ? "..." : format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="p-3 bg-purple-50 rounded-lg">
+          <p className="font-semibold text-purple-800 mb-2">
+            Relatório para impressão
+          </p>
+          <button
+            onClick={() => runExport("pdf", () => downloadReportPdf(from, to, insights))}
+            disabled={exporting !== null}
+            className="w-full bg-purple-600 text-white font-semibold py-1 rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {exporting === "pdf" ? "Gerando..." : "PDF"}
+          </button>
+          <p className="text-xs text-purple-700 mt-1">
+            {insights ? "Inclui as recomendações da IA" : "Gere as recomendações da IA para incluí-las"}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AdminReportsPage: React.FC = () => {
+  // Período do relatório (padrão: do dia 1º do mês até hoje)
+  const today = new Date();
+  const [from, setFrom] = useState(
+    toInputDate(new Date(today.getFullYear(), today.getMonth(), 1))
+  );
+  const [to, setTo] = useState(toInputDate(today));
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [topProducts, setTopProducts] = useState<TopProduct[]>([]);
+  const [heatmap, setHeatmap] = useState<SalesHeatmap | null>(null);
+  const [dailySales, setDailySales] = useState<DailySales[]>([]);
+  const [categorySales, setCategorySales] = useState<CategorySales[]>([]);
+  // Ponto do gráfico clicado: lista os pedidos correspondentes
+  const [drillDown, setDrillDown] = useState<ReportOrderFilter | null>(null);
+  const [insights, setInsights] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  // Os números vêm agregados do servidor a cada mudança de período
+  useEffect(() => {
+    setError("");
+    setInsights("");
+    Promise.all([
+      getSalesSummary(from, to),
+      getTopProducts(from, to),
+      getSalesHeatmap(from, to),
+      getDailySales(from, to),
+      getCategorySales(from, to),
+    ])
+      .then(([newSummary, newTopProducts, newHeatmap, newDailySales, newCategorySales]) => {
+        setSummary(newSummary);
+        setTopProducts(newTopProducts);
+        setHeatmap(newHeatmap);
+        setDailySales(newDailySales);
+        setCategorySales(newCategorySales);
+      })
+      .catch((err) => setError((err as Error).message));
+  }, [from, to]);
+
+  const peakDays = heatmap
+    ? heatmap.byWeekday
+        .filter((d) => d.orders > 0)
+        .sort((a, b) => b.orders - a.orders)
+        .slice(0, 3)
+    : [];
+  const peakHours = heatmap
+    ? heatmap.byHour
+        .filter((h) => h.orders > 0)
+        .sort((a, b) => b.orders - a.orders)
+        .slice(0, 5)
+    : [];
+
+  // Gerar recomendações com IA a partir dos números do período
   const generateAIReport = async () => {
+    if (!summary) return;
     setIsLoading(true);
     setError("");
-    
+
     try {
-      // Processar dados localmente primeiro
-      const analysis = analyzeOrders(orders);
-      
-      // Gerar insights com IA
       const prompt = `Você é um consultor de negócios para uma pastelaria. Analise os seguintes dados e forneça recomendações estratégicas:
 
-📊 DADOS DO MÊS:
-- Faturamento Total: R$ ${analysis.monthlyRevenue.toFixed(2)}
-- Total de Pedidos: ${orders.length}
+📊 DADOS DE ${formatDate(from)} A ${formatDate(to)}:
+- Faturamento Total: R$ ${summary.revenue.toFixed(2)} (período anterior: R$ ${summary.previous.revenue.toFixed(2)})
+- Total de Pedidos: ${summary.orders} (período anterior: ${summary.previous.orders})
+- Ticket Médio: R$ ${summary.averageTicket.toFixed(2)}
 
 🏆 PRODUTOS MAIS VENDIDOS:
-${analysis.topProducts.map((p, i) => `${i + 1}. ${p.name}: ${p.quantity} unidades (R$ ${p.revenue.toFixed(2)})`).join('\n')}
+${topProducts.map((p, i) => `${i + 1}. ${p.name}: ${p.quantity} unidades (R$ ${p.revenue.toFixed(2)}; período anterior: ${p.previousQuantity})`).join('\n')}
 
 📅 DIAS COM MAIS PEDIDOS:
-${analysis.peakDays.map((d, i) => `${i + 1}. ${d.day}: ${d.orders} pedidos`).join('\n')}
+${peakDays.map((d, i) => `${i + 1}. ${DAY_NAMES[d.weekday]}: ${d.orders} pedidos`).join('\n')}
 
 ⏰ HORÁRIOS DE PICO:
-${analysis.peakHours.map((h, i) => `${i + 1}. ${h.hour}: ${h.orders} pedidos`).join('\n')}
+${peakHours.map((h, i) => `${i + 1}. ${h.hour}:00 - ${h.hour + 1}:00: ${h.orders} pedidos`).join('\n')}
 
 Forneça 3-5 recomendações práticas e objetivas para:
 1. Otimizar estoque dos produtos mais vendidos
@@ -64,20 +321,16 @@ Forneça 3-5 recomendações práticas e objetivas para:
 
 Seja direto e focado em ações práticas. Use emojis para deixar mais visual.`;
 
-      const res = await fetch("http://localhost:3001/api/ai/suggestion", {
+      const res = await fetch(`${BACKEND_URL}/api/ai/suggestion`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ prompt }),
       });
 
       if (!res.ok) throw new Error("Erro na API de IA");
-      
+
       const data = await res.json();
-      
-      setRecommendation({
-        ...analysis,
-        insights: data.text,
-      });
+      setInsights(data.text);
     } catch (err) {
       console.error("Erro ao gerar relatório:", err);
       setError("Erro ao gerar recomendações. Tente novamente.");
@@ -86,137 +339,86 @@ Seja direto e focado em ações práticas. Use emojis para deixar mais visual.`;
     }
   };
 
-  // Análise de dados dos pedidos
-  const analyzeOrders = (orders: Order[]): Omit<AIRecommendation, "insights"> => {
-    // Filtrar pedidos do mês atual
-    const now = new Date();
-    const currentMonth = now.getMonth();
-    const currentYear = now.getFullYear();
-    
-    const monthOrders = orders.filter(order => {
-      const orderDate = new Date(order.timestamp);
-      return orderDate.getMonth() === currentMonth && orderDate.getFullYear() === currentYear;
-    });
-
-    // Calcular faturamento mensal
-    const monthlyRevenue = monthOrders.reduce((sum, order) => sum + order.total, 0);
-
-    // Produtos mais vendidos
-    const productMap = new Map<string, { quantity: number; revenue: number }>();
-    monthOrders.forEach(order => {
-      order.items.forEach(item => {
-        const existing = productMap.get(item.name) || { quantity: 0, revenue: 0 };
-        productMap.set(item.name, {
-          quantity: existing.quantity + item.quantity,
-          revenue: existing.revenue + (item.price * item.quantity),
-        });
-      });
-    });
-    
-    const topProducts = Array.from(productMap.entries())
-      .map(([name, data]) => ({ name, ...data }))
-      .sort((a, b) => b.quantity - a.quantity)
-      .slice(0, 5);
-
-    // Dias da semana com mais pedidos
-    const dayMap = new Map<string, number>();
-    const dayNames = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
-    monthOrders.forEach(order => {
-      const day = dayNames[new Date(order.timestamp).getDay()];
-      dayMap.set(day, (dayMap.get(day) || 0) + 1);
-    });
-    
-    const peakDays = Array.from(dayMap.entries())
-      .map(([day, orders]) => ({ day, orders }))
-      .sort((a, b) => b.orders - a.orders)
-      .slice(0, 3);
-
-    // Horários de pico
-    const hourMap = new Map<string, number>();
-    monthOrders.forEach(order => {
-      const hour = new Date(order.timestamp).getHours();
-      const hourRange = `${hour}:00 - ${hour + 1}:00`;
-      hourMap.set(hourRange, (hourMap.get(hourRange) || 0) + 1);
-    });
-    
-    const peakHours = Array.from(hourMap.entries())
-      .map(([hour, orders]) => ({ hour, orders }))
-      .sort((a, b) => b.orders - a.orders)
-      .slice(0, 5);
-
-    return { topProducts, peakDays, peakHours, monthlyRevenue };
-  };
-
   return (
     <div className="max-w-7xl mx-auto p-6">
-      <div className="mb-8">
-        <h1 className="text-4xl font-bold text-purple-800 mb-2">
-          📊 Recomendações IA
-        </h1>
-        <p className="text-slate-600">
-          Análise inteligente de vendas e recomendações estratégicas
-        </p>
-      </div>
-
-      {/* Botão para gerar relatório */}
-      <div className="mb-8">
-        <button
-          onClick={generateAIReport}
-          disabled={isLoading || orders.length === 0}
-          className="bg-purple-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-purple-300 disabled:cursor-not-allowed"
-        >
-          {isLoading ? "🤖 Gerando Análise..." : "🚀 Gerar Relatório com IA"}
-        </button>
-        {orders.length === 0 && (
-          <p className="text-sm text-slate-500 mt-2">
-            Nenhum pedido encontrado para análise
+      <div className="mb-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h1 className="text-4xl font-bold text-purple-800 mb-2">
+            📊 Relatórios e Recomendações IA
+          </h1>
+          <p className="text-slate-600">
+            Vendas do período comparadas ao período anterior de mesmo tamanho
           </p>
-        )}
-        {error && (
-          <p className="text-sm text-red-600 mt-2">{error}</p>
-        )}
+        </div>
+        {/* Período do relatório */}
+        <DateRangePicker
+          from={from}
+          to={to}
+          onChange={(newFrom, newTo) => {
+            setFrom(newFrom);
+            setTo(newTo);
+          }}
+        />
       </div>
 
-      {/* Relatório */}
-      {recommendation && (
-        <div className="space-y-6">
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {summary && (
+        <div className="space-y-6 mb-8">
           {/* Cards de métricas */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="bg-gradient-to-br from-green-50 to-green-100 p-6 rounded-xl shadow-lg border-l-4 border-green-500">
               <h3 className="text-sm font-semibold text-green-800 mb-2">
-                💰 Faturamento do Mês
+                💰 Faturamento
               </h3>
               <p className="text-3xl font-bold text-green-900">
-                R$ {recommendation.monthlyRevenue.toFixed(2)}
+                R$ {summary.revenue.toFixed(2)}
               </p>
+              <ChangeBadge change={summary.change.revenue} />
             </div>
 
             <div className="bg-gradient-to-br from-blue-50 to-blue-100 p-6 rounded-xl shadow-lg border-l-4 border-blue-500">
               <h3 className="text-sm font-semibold text-blue-800 mb-2">
                 📦 Total de Pedidos
               </h3>
-              <p className="text-3xl font-bold text-blue-900">{orders.length}</p>
+              <p className="text-3xl font-bold text-blue-900">{summary.orders}</p>
+              <ChangeBadge change={summary.change.orders} />
             </div>
 
             <div className="bg-gradient-to-br from-amber-50 to-amber-100 p-6 rounded-xl shadow-lg border-l-4 border-amber-500">
               <h3 className="text-sm font-semibold text-amber-800 mb-2">
-                🏆 Produto Top
+                🧾 Ticket Médio
               </h3>
-              <p className="text-xl font-bold text-amber-900">
-                {recommendation.topProducts[0]?.name || "N/A"}
+              <p className="text-3xl font-bold text-amber-900">
+                R$ {summary.averageTicket.toFixed(2)}
               </p>
+              <ChangeBadge change={summary.change.averageTicket} />
             </div>
           </div>
 
+          {/* Faturamento por dia (clique numa barra para ver os pedidos) */}
+          <div className="bg-white p-6 rounded-xl shadow-lg">
+            <h2 className="text-2xl font-bold text-slate-800 mb-4">
+              📈 Faturamento por Dia
+            </h2>
+            <RevenueChart
+              days={dailySales}
+              onSelectDay={(date) => setDrillDown({ label: `Pedidos de ${formatDate(date)}`, date })}
+            />
+          </div>
+
           {/* Produtos mais vendidos */}
           <div className="bg-white p-6 rounded-xl shadow-lg">
             <h2 className="text-2xl font-bold text-slate-800 mb-4">
               🏆 Top 5 Produtos
             </h2>
+            {topProducts.length === 0 && (
+              <p className="text-sm text-slate-500">Nenhuma venda no período.</p>
+            )}
             <div className="space-y-3">
-              {recommendation.topProducts.map((product, index) => (
+              {topProducts.map((product, index) => (
                 <div
-                  key={product.name}
+                  key={product.productId}
                   className="flex items-center justify-between p-3 bg-slate-50 rounded-lg"
                 >
                   <div className="flex items-center gap-4">
@@ -224,16 +426,27 @@ Seja direto e focado em ações práticas. Use emojis para deixar mais visual.`;
                       #{index + 1}
                     </span>
                     <div>
-                      <p className="font-semibold text-slate-800">
+                      <button
+                        onClick={() =>
+                          setDrillDown({
+                            label: `Pedidos com ${product.name}`,
+                            productId: product.productId,
+                          })
+                        }
+                        className="font-semibold text-slate-800 hover:text-purple-700 hover:underline"
+                      >
                         {product.name}
-                      </p>
+                      </button>
                       <p className="text-sm text-slate-500">
                         {product.quantity} unidades vendidas
+                        {" "}(antes: {product.previousQuantity})
                       </p>
                     </div>
                   </div>
-                  <div className="text-right">
-                    <p className="text-lg font-bold text-green-600">
+                  <div className="flex items-center gap-6">
+                    {/* Tendência diária no período */}
+                    <Sparkline values={product.trend} />
+                    <p className="text-lg font-bold text-green-600 text-right">
                       R$ {product.revenue.toFixed(2)}
                     </p>
                   </div>
@@ -242,62 +455,89 @@ Seja direto e focado em ações práticas. Use emojis para deixar mais visual.`;
             </div>
           </div>
 
-          {/* Dias e horários */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Dias de pico */}
-            <div className="bg-white p-6 rounded-xl shadow-lg">
+          {/* Dias e horários (no fuso da loja) e mix de categorias */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white p-6 rounded-xl shadow-lg lg:col-span-2">
               <h2 className="text-2xl font-bold text-slate-800 mb-4">
-                📅 Dias com Mais Pedidos
+                ⏰ Pedidos por Dia e Horário
               </h2>
-              <div className="space-y-2">
-                {recommendation.peakDays.map((day) => (
-                  <div
-                    key={day.day}
-                    className="flex justify-between items-center p-3 bg-blue-50 rounded-lg"
-                  >
-                    <span className="font-semibold text-slate-700">
-                      {day.day}
-                    </span>
-                    <span className="text-blue-600 font-bold">
-                      {day.orders} pedidos
-                    </span>
-                  </div>
-                ))}
-              </div>
+              {heatmap && (
+                <SalesHeatmapChart
+                  heatmap={heatmap}
+                  onSelectCell={(weekday, hour) =>
+                    setDrillDown({
+                      label: `Pedidos de ${DAY_NAMES[weekday]}, ${hour}:00 - ${hour + 1}:00`,
+                      weekday,
+                      hour,
+                    })
+                  }
+                />
+              )}
+              {peakDays.length > 0 && (
+                <p className="text-sm text-slate-500 mt-2">
+                  Pico: {DAY_NAMES[peakDays[0].weekday]}
+                  {peakHours.length > 0 && `, ${peakHours[0].hour}:00 - ${peakHours[0].hour + 1}:00`}
+                </p>
+              )}
             </div>
 
-            {/* Horários de pico */}
             <div className="bg-white p-6 rounded-xl shadow-lg">
               <h2 className="text-2xl font-bold text-slate-800 mb-4">
-                ⏰ Horários de Pico
+                🍽️ Vendas por Categoria
               </h2>
-              <div className="space-y-2">
-                {recommendation.peakHours.map((hour) => (
-                  <div
-                    key={hour.hour}
-                    className="flex justify-between items-center p-3 bg-amber-50 rounded-lg"
-                  >
-                    <span className="font-semibold text-slate-700">
-                      {hour.hour}
-                    </span>
-                    <span className="text-amber-600 font-bold">
-                      {hour.orders} pedidos
-                    </span>
-                  </div>
-                ))}
-              </div>
+              {categorySales.length === 0 ? (
+                <p className="text-sm text-slate-500">Nenhuma venda no período.</p>
+              ) : (
+                <CategoryDonut
+                  categories={categorySales}
+                  onSelectCategory={(category) =>
+                    setDrillDown({ label: `Pedidos com ${category}`, category })
+                  }
+                />
+              )}
             </div>
           </div>
+        </div>
+      )}
 
-          {/* Insights da IA */}
-          <div className="bg-gradient-to-br from-purple-50 to-indigo-50 p-8 rounded-xl shadow-lg border-l-4 border-purple-500">
-            <h2 className="text-2xl font-bold text-purple-800 mb-4 flex items-center gap-2">
-              🤖 Recomendações Estratégicas da IA
-            </h2>
-            <div className="prose prose-slate max-w-none">
-              <div className="whitespace-pre-wrap text-slate-700 leading-relaxed">
-                {recommendation.insights}
-              </div>
+      {drillDown && (
+        <ReportOrdersModal
+          from={from}
+          to={to}
+          filter={drillDown}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+
+      <MarginReportSection from={from} to={to} />
+
+      <ExportSection from={from} to={to} insights={insights} />
+
+      {/* Botão para gerar recomendações */}
+      <div className="mb-8">
+        <button
+          onClick={generateAIReport}
+          disabled={isLoading || !summary || summary.orders === 0}
+          className="bg-purple-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-purple-300 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "🤖 Gerando Análise..." : "🚀 Gerar Recomendações com IA"}
+        </button>
+        {summary?.orders === 0 && (
+          <p className="text-sm text-slate-500 mt-2">
+            Nenhum pedido no período para análise
+          </p>
+        )}
+      </div>
+
+      {/* Insights da IA */}
+      {insights && (
+        <div className="bg-gradient-to-br from-purple-50 to-indigo-50 p-8 rounded-xl shadow-lg border-l-4 border-purple-500">
+          <h2 className="text-2xl font-bold text-purple-800 mb-4 flex items-center gap-2">
+            🤖 Recomendações Estratégicas da IA
+          </h2>
+          <div className="prose prose-slate max-w-none">
+            <div className="whitespace-pre-wrap text-slate-700 leading-relaxed">
+              {insights}
             </div>
           </div>
         </div>
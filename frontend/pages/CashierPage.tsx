@@ -0,0 +1,230 @@
+// Página: /pages/CashierPage.tsx
+// Caixa da loja: abertura do turno com o troco, prévia e fechamento com o
+// dinheiro contado, e o histórico de fechamentos para reimpressão.
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Shift } from '../types';
+import {
+  getCurrentShift,
+  getShifts,
+  getShift,
+  openShift,
+  closeShift,
+} from '../services/shiftService';
+import ShiftReportView from '../components/ShiftReportView';
+
+// Formas conferidas no fechamento além do dinheiro (maquininha, extrato do PIX)
+const OTHER_METHODS = [
+  { method: 'pix', label: 'PIX (extrato)' },
+  { method: 'credit', label: 'Crédito (maquininha)' },
+  { method: 'debit', label: 'Débito (maquininha)' },
+] as const;
+
+const parseAmount = (value: string) => Number(value.replace(',', '.'));
+
+const CashierPage: React.FC = () => {
+  // Turno aberto (null = caixa fechado; undefined = carregando)
+  const [current, setCurrent] = useState<Shift | null | undefined>(undefined);
+  const [history, setHistory] = useState<Shift[]>([]);
+  // Fechamento exibido (recém-fechado ou escolhido no histórico)
+  const [selected, setSelected] = useState<Shift | null>(null);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [counted, setCounted] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const [shift, shifts] = await Promise.all([getCurrentShift(), getShifts()]);
+      setCurrent(shift);
+      setHistory(shifts.filter(s => s.status === 'closed'));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const amount = parseAmount(openingFloat || '0');
+    if (!Number.isFinite(amount) || amount < 0) {
+      setError('Informe o troco inicial (ou 0).');
+      return;
+    }
+    try {
+      await openShift(amount, notes.trim() || undefined);
+      setOpeningFloat('');
+      setNotes('');
+      setSelected(null);
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    setError('');
+    const cash = parseAmount(countedCash);
+    if (countedCash.trim() === '' || !Number.isFinite(cash) || cash < 0) {
+      setError('Conte o dinheiro da gaveta e informe o valor.');
+      return;
+    }
+    // Só envia as formas que foram conferidas
+    const others: Record<string, number> = {};
+    for (const { method } of OTHER_METHODS) {
+      const value = (counted[method] || '').trim();
+      if (value !== '') others[method] = parseAmount(value);
+    }
+    if (Object.values(others).some(v => !Number.isFinite(v) || v < 0)) {
+      setError('Valores conferidos inválidos.');
+      return;
+    }
+    if (!window.confirm('Fechar o caixa? Os próximos pedidos ficam sem turno até a nova abertura.')) return;
+    try {
+      const closed = await closeShift(current.id, cash, others, notes.trim() || undefined);
+      setCountedCash('');
+      setCounted({});
+      setNotes('');
+      setSelected(closed);
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    setError('');
+    try {
+      setSelected(await getShift(id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-5xl">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-4xl font-bold text-amber-800">Caixa</h1>
+        {current !== undefined && (
+          <span className={`text-sm font-semibold px-3 py-1 rounded-full ${current ? 'bg-green-100 text-green-800' : 'bg-stone-200 text-stone-700'}`}>
+            {current ? '● Caixa aberto' : '● Caixa fechado'}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-500 rounded text-red-800 flex justify-between items-center">
+          <span>{error}</span>
+          <button onClick={() => setError('')} className="text-red-600 hover:text-red-900 font-bold">✕</button>
+        </div>
+      )}
+
+      {current === null && (
+        <form onSubmit={handleOpen} className="bg-white rounded-xl shadow-md p-6 mb-8 space-y-4">
+          <h2 className="text-2xl font-bold text-stone-700">Abrir caixa</h2>
+          <div className="flex flex-wrap gap-4 items-end">
+            <div>
+              <label htmlFor="opening-float" className="block text-sm font-medium text-stone-700">Troco inicial (R$)</label>
+              <input id="opening-float" type="number" min="0" step="0.01" value={openingFloat} onChange={e => setOpeningFloat(e.target.value)} placeholder="0,00" className="mt-1 border rounded-lg px-3 py-2 w-40" />
+            </div>
+            <div className="flex-1 min-w-[200px]">
+              <label htmlFor="open-notes" className="block text-sm font-medium text-stone-700">Observação</label>
+              <input id="open-notes" type="text" value={notes} onChange={e => setNotes(e.target.value)} maxLength={500} className="mt-1 border rounded-lg px-3 py-2 w-full" />
+            </div>
+            <button type="submit" className="bg-amber-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-amber-600">
+              Abrir caixa
+            </button>
+          </div>
+          <p className="text-xs text-stone-400">Pedidos pagos enquanto o caixa está fechado não entram em nenhum turno.</p>
+        </form>
+      )}
+
+      {current && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          <ShiftReportView shift={current} />
+
+          <form onSubmit={handleClose} className="bg-white rounded-xl shadow-md p-6 space-y-4 self-start">
+            <h2 className="text-2xl font-bold text-stone-700">Fechar caixa</h2>
+            <div>
+              <label htmlFor="counted-cash" className="block text-sm font-medium text-stone-700">Dinheiro contado na gaveta (R$)</label>
+              <input id="counted-cash" type="number" min="0" step="0.01" value={countedCash} onChange={e => setCountedCash(e.target.value)} required className="mt-1 border rounded-lg px-3 py-2 w-full" />
+              {current.report && (
+                <p className="text-xs text-stone-500 mt-1">Esperado: R$ {current.report.cash.expected.toFixed(2)}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {OTHER_METHODS.map(({ method, label }) => (
+                <div key={method}>
+                  <label htmlFor={`counted-${method}`} className="block text-xs font-medium text-stone-700">{label}</label>
+                  <input id={`counted-${method}`} type="number" min="0" step="0.01" value={counted[method] || ''} onChange={e => setCounted(prev => ({ ...prev, [method]: e.target.value }))} placeholder="opcional" className="mt-1 border rounded-lg px-2 py-1 w-full" />
+                </div>
+              ))}
+            </div>
+            <div>
+              <label htmlFor="close-notes" className="block text-sm font-medium text-stone-700">Observação</label>
+              <input id="close-notes" type="text" value={notes} onChange={e => setNotes(e.target.value)} maxLength={500} className="mt-1 border rounded-lg px-3 py-2 w-full" />
+            </div>
+            <div className="flex justify-between items-center">
+              <button type="button" onClick={load} className="text-sm text-stone-600 hover:text-stone-900">↻ Atualizar prévia</button>
+              <button type="submit" className="bg-red-600 text-white font-bold py-2 px-6 rounded-lg hover:bg-red-700">
+                Fechar caixa
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {selected && selected.status === 'closed' && (
+        <div className="mb-8">
+          <ShiftReportView shift={selected} />
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-xl overflow-hidden">
+        <h2 className="text-xl font-bold text-stone-700 p-4">Fechamentos anteriores</h2>
+        <table className="min-w-full divide-y divide-stone-200 text-sm">
+          <thead className="bg-stone-50">
+            <tr className="text-left text-xs font-medium text-stone-500 uppercase tracking-wider">
+              <th className="px-4 py-2">Aberto</th>
+              <th className="px-4 py-2">Fechado</th>
+              <th className="px-4 py-2">Por</th>
+              <th className="px-4 py-2 text-right">Esperado</th>
+              <th className="px-4 py-2 text-right">Contado</th>
+              <th className="px-4 py-2 text-right">Diferença</th>
+              <th className="px-4 py-2"><span className="sr-only">Ações</span></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-200">
+            {history.length === 0 && (
+              <tr><td colSpan={7} className="px-4 py-3 text-stone-500">Nenhum turno fechado.</td></tr>
+            )}
+            {history.map(shift => (
+              <tr key={shift.id} className={selected?.id === shift.id ? 'bg-amber-50' : undefined}>
+                <td className="px-4 py-2">{new Date(shift.openedAt).toLocaleString('pt-BR')}</td>
+                <td className="px-4 py-2">{shift.closedAt && new Date(shift.closedAt).toLocaleString('pt-BR')}</td>
+                <td className="px-4 py-2">{shift.closedByName || shift.closedBy}</td>
+                <td className="px-4 py-2 text-right">R$ {(shift.expectedCash ?? 0).toFixed(2)}</td>
+                <td className="px-4 py-2 text-right">R$ {(shift.countedCash ?? 0).toFixed(2)}</td>
+                <td className={`px-4 py-2 text-right font-semibold ${(shift.cashDifference ?? 0) < 0 ? 'text-red-700' : (shift.cashDifference ?? 0) > 0 ? 'text-green-700' : ''}`}>
+                  R$ {(shift.cashDifference ?? 0).toFixed(2)}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button onClick={() => handleSelect(shift.id)} className="text-amber-600 hover:text-amber-900 font-medium">Ver / reimprimir</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CashierPage;
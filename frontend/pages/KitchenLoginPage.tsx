@@ -1,37 +1,36 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
-
-const KITCHEN_PASSWORD = "12345678";
+import { loginStaff } from "../services/authService";
 
 const KitchenLoginPage: React.FC = () => {
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
-  const { login, currentUser } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const { login, currentUser, isSessionValid } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
     // Se já está logado como cozinha, redirecionar
-    if (currentUser?.role === "kitchen") {
+    if (currentUser?.role === "kitchen" && isSessionValid) {
       navigate("/cozinha");
     }
-  }, [currentUser, navigate]);
+  }, [currentUser, isSessionValid, navigate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (password === KITCHEN_PASSWORD) {
-      const kitchenUser = {
-        id: "kitchen_user",
-        name: "Cozinha",
-        historico: [],
-        role: "kitchen" as const,
-      };
-      login(kitchenUser);
+    setIsLoading(true);
+
+    try {
+      // A senha é conferida no backend, que devolve um token assinado
+      const { user, session } = await loginStaff("kitchen", password);
+      login(user, session);
       navigate("/cozinha");
-    } else {
-      setError("Senha incorreta");
+    } catch (err) {
+      setError((err as Error).message || "Senha incorreta");
       setPassword("");
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -70,9 +69,10 @@ const KitchenLoginPage: React.FC = () => {
 
           <button
             type="submit"
-            className="w-full bg-slate-700 text-white font-bold py-3 rounded-lg hover:bg-slate-800 transition-colors text-lg"
+            disabled={isLoading || !password}
+            className="w-full bg-slate-700 text-white font-bold py-3 rounded-lg hover:bg-slate-800 transition-colors text-lg disabled:bg-slate-300 disabled:cursor-wait"
           >
-            Entrar
+            {isLoading ? "Entrando..." : "Entrar"}
           </button>
         </form>
 
@@ -1,122 +1,416 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import type { Order } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { Order, OrderStatus, Product, SelectedModifier } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { authHeaders, getStoredSession, isSessionExpired } from '../services/authService';
+import { formatOrderNumber, reprintKitchenTicket } from '../services/orderService';
+import OrderAdjustmentModal from '../components/OrderAdjustmentModal';
+import { confirmCounterPayment } from '../services/paymentService';
+import { setProductAvailability } from '../services/productService';
+
+const BACKEND_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+const ORDERS_URL = `${BACKEND_URL}/api/orders`;
+const MENU_URL = `${BACKEND_URL}/api/menu`;
+
+// Espera entre tentativas de reconexão ao stream (dobra a cada falha)
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Próxima etapa de cada status e o texto/cor do botão que a aciona
+const NEXT_STEP: Partial<Record<OrderStatus, { status: OrderStatus; label: string; className: string }>> = {
+  received: { status: 'preparing', label: 'Iniciar Preparo', className: 'bg-amber-500 hover:bg-amber-600' },
+  preparing: { status: 'ready', label: 'Marcar como Pronto', className: 'bg-green-500 hover:bg-green-600' },
+  ready: { status: 'delivered', label: 'Entregue ao Cliente', className: 'bg-blue-500 hover:bg-blue-600' },
+};
+
+// Colunas exibidas na cozinha, na ordem do fluxo
+const COLUMNS: { status: OrderStatus; title: string; border: string }[] = [
+  { status: 'received', title: 'Recebidos', border: 'border-amber-500' },
+  { status: 'preparing', title: 'Em Preparo', border: 'border-orange-500' },
+  { status: 'ready', title: 'Prontos', border: 'border-green-500' },
+];
+
+// Etapas que continuam visíveis na cozinha
+const ACTIVE_STATUSES: OrderStatus[] = ['received', 'preparing', 'ready'];
+
+// Aplica um evento do stream na lista local: insere, atualiza ou remove o pedido
+const applyOrderEvent = (orders: Order[], order: Order): Order[] => {
+  const others = orders.filter(o => o.id !== order.id);
+  if (!ACTIVE_STATUSES.includes(order.status)) return others;
+  return [...others, order].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+
+// Opções escolhidas e observação do cliente (em destaque) de um item ou componente de combo
+const ItemChoices: React.FC<{ modifiers?: SelectedModifier[]; notes?: string }> = ({ modifiers, notes }) => (
+  <>
+    {modifiers && modifiers.length > 0 && (
+      <ul className="ml-4 text-sm text-stone-700">
+        {modifiers.map(m => (
+          <li key={m.optionId}>
+            • <span className="text-stone-500">{m.groupName}:</span> <strong>{m.name}</strong>
+          </li>
+        ))}
+      </ul>
+    )}
+    {notes && (
+      <p className="mt-1 ml-4 px-2 py-1 bg-yellow-100 border-l-4 border-yellow-500 text-sm font-bold text-stone-900 uppercase">
+        ⚠ {notes}
+      </p>
+    )}
+  </>
+);
 
 // --- Componente auxiliar para exibir um pedido ---
 // Interface que define as props esperadas pelo OrderCard
 interface OrderCardProps {
   order: Order; // objeto de pedido a ser exibido
-  onComplete: (orderId: string) => void; // callback quando pedido for marcado como pronto
+  borderClass: string; // cor da borda conforme a etapa
+  onChangeStatus: (orderId: string, status: OrderStatus) => void; // callback ao avançar o pedido
+  onConfirmPayment: (order: Order) => void; // callback ao receber o pagamento no balcão
+  onAdjust: (order: Order) => void; // abre o cancelamento/estorno com motivo
 }
 
 // Componente funcional que renderiza um cartão com os detalhes do pedido
-const OrderCard: React.FC<OrderCardProps> = ({ order, onComplete }) => (
-  // card principal com estilos utilitários (Tailwind)
-  <div className="bg-white p-6 rounded-xl shadow-lg border-t-4 border-amber-500">
-    <div className="flex justify-between items-start mb-4">
-      <div>
-        {/* Título com número do pedido (mostrando apenas os últimos 6 caracteres) */}
-        <h3 className="font-bold text-xl text-stone-800">Pedido #{order.id.slice(-6)}</h3>
-        {/* Exibe o nome do cliente */}
-        {order.userName && (
-          <p className="text-base text-amber-700 font-semibold">
-            Cliente: {order.userName}
+const OrderCard: React.FC<OrderCardProps> = ({ order, borderClass, onChangeStatus, onConfirmPayment, onAdjust }) => {
+  const next = NEXT_STEP[order.status];
+  // Retorno da reimpressão da comanda (some sozinho depois de alguns segundos)
+  const [printMessage, setPrintMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleReprint = async () => {
+    setPrintMessage({ text: 'Imprimindo...', isError: false });
+    try {
+      await reprintKitchenTicket(order.id);
+      setPrintMessage({ text: 'Comanda enviada à impressora', isError: false });
+    } catch (err) {
+      setPrintMessage({ text: (err as Error).message, isError: true });
+    }
+    window.setTimeout(() => setPrintMessage(null), 5000);
+  };
+
+  // Pedido do balcão ainda não pago: precisa ser cobrado antes da entrega
+  const awaitingCounterPayment = order.paymentMethod === 'counter' && order.paymentStatus === 'pending';
+  return (
+    // card principal com estilos utilitários (Tailwind)
+    <div className={`bg-white p-6 rounded-xl shadow-lg border-t-4 ${borderClass}`}>
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          {/* Título com o número sequencial do dia */}
+          <h3 className="font-bold text-xl text-stone-800">Pedido #{formatOrderNumber(order)}</h3>
+          {/* Exibe o nome do cliente */}
+          {order.userName && (
+            <p className="text-base text-amber-700 font-semibold">
+              Cliente: {order.userName}
+            </p>
+          )}
+          {/* Exibe a hora do pedido e de quando entrou na etapa atual */}
+          <p className="text-sm text-stone-500">
+            Recebido às {new Date(order.timestamp).toLocaleTimeString()}
           </p>
-        )}
-        {/* Exibe a hora do pedido formatada localmente */}
-        <p className="text-sm text-stone-500">
-          {new Date(order.timestamp).toLocaleTimeString()}
-        </p>
+          {order.preparingAt && (
+            <p className="text-sm text-stone-500">
+              Preparo desde {new Date(order.preparingAt).toLocaleTimeString()}
+            </p>
+          )}
+          {order.readyAt && (
+            <p className="text-sm text-stone-500">
+              Pronto às {new Date(order.readyAt).toLocaleTimeString()}
+            </p>
+          )}
+        </div>
+        <div className="text-right">
+          {/* Valor total do pedido formatado com duas casas decimais */}
+          <span className="font-bold text-lg">R${order.total.toFixed(2)}</span>
+          <button
+            onClick={handleReprint}
+            className="block ml-auto mt-1 text-sm text-stone-500 hover:text-stone-800"
+            title="Reimprimir comanda"
+          >
+            🖨️ Reimprimir
+          </button>
+        </div>
       </div>
-      {/* Valor total do pedido formatado com duas casas decimais */}
-      <span className="font-bold text-lg">R${order.total.toFixed(2)}</span>
-    </div>
+      {printMessage && (
+        <p className={`mb-3 text-sm ${printMessage.isError ? 'text-red-600' : 'text-green-700'}`}>{printMessage.text}</p>
+      )}
 
-    {/* Lista de itens do pedido */}
-    <ul className="space-y-2 mb-4">
-      {order.items.map(item => (
-        // Cada item mostra quantidade, nome e subtotal (preço * quantidade)
-        <li key={item.productId} className="flex justify-between border-b pb-1">
-          <span>{item.quantity}x {item.name}</span>
-          <span className="text-stone-600">R${(item.price * item.quantity).toFixed(2)}</span>
-        </li>
-      ))}
-    </ul>
-
-    {/* Botão que aciona a função onComplete recebida via props */}
-    <button
-      onClick={() => onComplete(order.id)}
-      className="w-full bg-green-500 text-white font-bold py-2 rounded-lg hover:bg-green-600 transition-colors"
-    >
-      Marcar como Pronto
-    </button>
-  </div>
-);
+      {/* Lista de itens do pedido */}
+      <ul className="space-y-2 mb-4">
+        {order.items.map((item, index) => (
+          // Cada item mostra quantidade, nome e subtotal (preço * quantidade),
+          // com as opções escolhidas e a observação do cliente em destaque.
+          // Combos são abertos nos produtos que a cozinha precisa preparar.
+          <li key={`${item.productId}-${index}`} className="border-b pb-1">
+            <div className="flex justify-between">
+              <span className="font-semibold">{item.quantity}x {item.name}</span>
+              <span className="text-stone-600">R${(item.price * item.quantity).toFixed(2)}</span>
+            </div>
+            {item.components && (
+              <ul className="ml-4 border-l-2 border-amber-300 pl-2">
+                {item.components.map(c => (
+                  <li key={c.slotId}>
+                    <span className="font-semibold">{item.quantity}x {c.name}</span>
+                    <ItemChoices modifiers={c.modifiers} notes={c.notes} />
+                  </li>
+                ))}
+              </ul>
+            )}
+            <ItemChoices modifiers={item.modifiers} notes={item.notes} />
+          </li>
+        ))}
+      </ul>
+
+      {awaitingCounterPayment && (
+        <div className="mb-3 p-3 bg-amber-50 border border-amber-300 rounded-lg">
+          <p className="text-sm font-semibold text-amber-900">🧾 Pagar no balcão</p>
+          <button
+            onClick={() => onConfirmPayment(order)}
+            className="w-full mt-2 bg-amber-600 text-white text-sm font-bold py-2 rounded-lg hover:bg-amber-700"
+          >
+            Pagamento Recebido
+          </button>
+        </div>
+      )}
+
+      {/* Botão que avança o pedido para a próxima etapa */}
+      {next && (
+        <button
+          onClick={() => onChangeStatus(order.id, next.status)}
+          disabled={next.status === 'delivered' && awaitingCounterPayment}
+          className={`w-full text-white font-bold py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${next.className}`}
+        >
+          {next.label}
+        </button>
+      )}
+      <button
+        onClick={() => onAdjust(order)}
+        className="w-full mt-2 text-sm text-red-600 hover:text-red-800"
+      >
+        Cancelar / estornar
+      </button>
+    </div>
+  );
+};
 
 // --- Componente principal da página da cozinha ---
+// Painel "acabou" (86): um toque tira o produto do totem na hora
+const AvailabilityPanel: React.FC = () => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(MENU_URL)
+      .then(resp => resp.json())
+      .then(setProducts)
+      .catch(err => console.error('Erro ao carregar cardápio', err));
+  }, []);
+
+  const handleToggle = async (product: Product) => {
+    setError(null);
+    try {
+      const updated = await setProductAvailability(product.id, !product.available);
+      setProducts(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-4 mb-8">
+      <h2 className="text-xl font-bold text-stone-700 mb-3">Disponibilidade no cardápio</h2>
+      {error && <p className="text-red-600 text-sm mb-2">{error}</p>}
+      <div className="flex flex-wrap gap-2">
+        {products.map(product => (
+          <button
+            key={product.id}
+            onClick={() => handleToggle(product)}
+            className={`px-3 py-2 rounded-lg font-semibold text-sm border-2 ${
+              product.soldOut
+                ? 'bg-stone-200 border-stone-300 text-stone-500 line-through'
+                : 'bg-green-50 border-green-300 text-green-800'
+            }`}
+            title={product.available ? 'Marcar como esgotado' : 'Voltar a vender'}
+          >
+            {product.name}
+            {product.stockQuantity != null && (
+              <span className="ml-2 text-xs">({product.stockQuantity})</span>
+            )}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-stone-400 mt-2">
+        Toque para marcar como esgotado (ou voltar a vender). Riscados não aparecem para compra no totem.
+      </p>
+    </div>
+  );
+};
+
 const KitchenPage: React.FC = () => {
   // Estado com os pedidos ativos a exibir
   const [activeOrders, setActiveOrders] = useState<Order[]>([]);
-  // Estado que controla o indicador de carregamento
+  // Estado que controla o indicador de carregamento (apenas na primeira carga)
   const [loading, setLoading] = useState(true);
+  // Indica se o stream de tempo real está conectado
+  const [isLive, setIsLive] = useState(false);
+  // Mostra o painel de disponibilidade dos produtos
+  const [showAvailability, setShowAvailability] = useState(false);
+  // Pedido aberto no cancelamento/estorno
+  const [adjusting, setAdjusting] = useState<Order | null>(null);
+  const { logout } = useAuth();
 
   const fetchOrders = useCallback(async () => {
-    setLoading(true);
     try {
-      const resp = await fetch('http://localhost:3001/api/orders');
+      const resp = await fetch(ORDERS_URL, { headers: authHeaders() });
+      // Token expirado ou inválido: volta para o login da cozinha
+      if (resp.status === 401) {
+        logout();
+        return;
+      }
       const data: Order[] = await resp.json();
-      setActiveOrders(data.filter(o => o.status === 'active'));
+      setActiveOrders(data);
     } catch (err) {
       console.error('Erro ao carregar pedidos', err);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [logout]);
+
+  // Referências usadas pela reconexão (não precisam causar re-render)
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const attemptsRef = useRef(0);
 
+  // Assina o stream de pedidos (SSE). Em caso de queda, reconecta com
+  // backoff exponencial e busca a lista completa para recuperar o que perdeu.
   useEffect(() => {
+    let disposed = false;
+
+    const connect = () => {
+      const session = getStoredSession();
+      if (isSessionExpired(session)) {
+        logout();
+        return;
+      }
+
+      const es = new EventSource(`${ORDERS_URL}/stream?token=${encodeURIComponent(session!.token)}`);
+      eventSourceRef.current = es;
+
+      es.onopen = () => {
+        setIsLive(true);
+        // Depois de uma queda, recarrega tudo (eventos perdidos enquanto offline)
+        if (attemptsRef.current > 0) fetchOrders();
+        attemptsRef.current = 0;
+      };
+
+      const handleEvent = (e: MessageEvent) => {
+        const order: Order = JSON.parse(e.data);
+        setActiveOrders(prev => applyOrderEvent(prev, order));
+      };
+      es.addEventListener('order-created', handleEvent as EventListener);
+      es.addEventListener('order-updated', handleEvent as EventListener);
+
+      es.onerror = () => {
+        // Fecha e controla a reconexão manualmente (o navegador desiste em respostas 401)
+        es.close();
+        setIsLive(false);
+        if (disposed) return;
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attemptsRef.current, RECONNECT_MAX_MS);
+        attemptsRef.current += 1;
+        reconnectTimerRef.current = window.setTimeout(connect, delay);
+      };
+    };
+
     fetchOrders();
-    const interval = setInterval(fetchOrders, 5000); // polling simples a cada 5s
-    return () => clearInterval(interval);
-  }, [fetchOrders]);
+    connect();
+
+    return () => {
+      disposed = true;
+      eventSourceRef.current?.close();
+      if (reconnectTimerRef.current) window.clearTimeout(reconnectTimerRef.current);
+    };
+  }, [fetchOrders, logout]);
+
+  // Muda o status do pedido (PATCH /api/orders/:id/status)
+  const handleChangeStatus = async (orderId: string, status: OrderStatus) => {
+    // Atualiza o estado imediatamente para feedback instantâneo;
+    // pedidos entregues saem da tela da cozinha
+    setActiveOrders(prev =>
+      status === 'delivered'
+        ? prev.filter(o => o.id !== orderId)
+        : prev.map(o => (o.id === orderId ? { ...o, status } : o))
+    );
 
-  // Função que marca um pedido como concluído localmente
-  const handleCompleteOrder = async (orderId: string) => {
-    console.log('🔄 Marcando pedido como pronto:', orderId);
     try {
-      // Remove do estado imediatamente para feedback instantâneo
-      setActiveOrders(prev => {
-        const filtered = prev.filter(o => o.id !== orderId);
-        console.log('✅ Removido do estado. Pedidos restantes:', filtered.length);
-        return filtered;
+      const resp = await fetch(`${ORDERS_URL}/${orderId}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify({ status }),
       });
-      
-      // Faz a requisição ao backend
-      console.log('📡 Enviando DELETE para servidor...');
-      const resp = await fetch(`http://localhost:3001/api/orders/${orderId}`, { method: 'DELETE' });
-      console.log('📡 Resposta do servidor:', resp.status, resp.ok);
-      
+
       if (!resp.ok) {
-        // Se falhar, recarrega os pedidos
-        console.error('❌ Falha ao finalizar pedido no servidor');
+        // Se falhar (ex.: outra tela já mudou o pedido), recarrega os pedidos
+        const data = await resp.json().catch(() => ({}));
+        console.error('❌ Falha ao atualizar pedido no servidor:', data.error);
         await fetchOrders();
       } else {
-        console.log('✅ Pedido finalizado com sucesso no servidor');
+        const updated: Order = await resp.json();
+        setActiveOrders(prev => applyOrderEvent(prev, updated));
       }
     } catch (err) {
-      console.error('❌ Erro ao finalizar pedido:', err);
+      console.error('❌ Erro ao atualizar pedido:', err);
       // Se houver erro, recarrega os pedidos para sincronizar
       await fetchOrders();
     }
   };
 
+  // Caixa recebeu o pagamento de um pedido do balcão
+  const handleConfirmPayment = async (order: Order) => {
+    if (!order.paymentId) return;
+    try {
+      await confirmCounterPayment(order.paymentId);
+      setActiveOrders(prev =>
+        prev.map(o => (o.id === order.id ? { ...o, paymentStatus: 'approved' } : o))
+      );
+    } catch (err) {
+      console.error('❌ Erro ao confirmar pagamento:', err);
+      await fetchOrders();
+    }
+  };
+
+  // Cancelamento/estorno concluído: cancelados saem da tela
+  const handleAdjusted = (updated: Order) => {
+    setAdjusting(null);
+    setActiveOrders(prev => applyOrderEvent(prev, updated));
+  };
+
   return (
   <div className="container mx-auto">
     {/* Cabeçalho da página */}
-    <h1 className="text-4xl font-bold text-amber-800 mb-8">Pedidos Ativos na Cozinha</h1>
+    <div className="flex justify-between items-center mb-8">
+      <h1 className="text-4xl font-bold text-amber-800">Pedidos Ativos na Cozinha</h1>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setShowAvailability(v => !v)}
+          className="text-sm font-semibold px-3 py-1 rounded-full bg-stone-200 text-stone-700 hover:bg-stone-300"
+        >
+          {showAvailability ? 'Fechar cardápio' : 'Acabou algo?'}
+        </button>
+        {/* Indicador do stream de tempo real */}
+        <span className={`text-sm font-semibold px-3 py-1 rounded-full ${isLive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+          {isLive ? '● Ao vivo' : '● Reconectando...'}
+        </span>
+      </div>
+    </div>
+
+    {showAvailability && <AvailabilityPanel />}
+
+    {adjusting && (
+      <OrderAdjustmentModal order={adjusting} onClose={() => setAdjusting(null)} onDone={handleAdjusted} />
+    )}
 
     {/* Lógica condicional de renderização:
       - mostra uma mensagem de carregamento enquanto loading === true
       - se não houver pedidos ativos, mostra tela "Tudo pronto!"
-      - caso contrário, renderiza os cartões de pedido em grid */}
+      - caso contrário, renderiza uma coluna por etapa do fluxo */}
     {loading ? (
     <p>Carregando pedidos...</p>
     ) : activeOrders.length === 0 ? (
@@ -125,11 +419,23 @@ const KitchenPage: React.FC = () => {
       <p className="text-stone-500 mt-2">Nenhum pedido ativo no momento.</p>
     </div>
     ) : (
-    // Grid responsivo que contém um OrderCard para cada pedido ativo
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-      {activeOrders.map(order => (
-      <OrderCard key={order.id} order={order} onComplete={handleCompleteOrder} />
-      ))}
+    // Grid com uma coluna para cada etapa (Recebidos, Em Preparo, Prontos)
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {COLUMNS.map(column => {
+        const orders = activeOrders.filter(o => o.status === column.status);
+        return (
+          <section key={column.status}>
+            <h2 className="text-2xl font-bold text-stone-700 mb-4">
+              {column.title} <span className="text-stone-400">({orders.length})</span>
+            </h2>
+            <div className="space-y-6">
+              {orders.map(order => (
+                <OrderCard key={order.id} order={order} borderClass={column.border} onChangeStatus={handleChangeStatus} onConfirmPayment={handleConfirmPayment} onAdjust={setAdjusting} />
+              ))}
+            </div>
+          </section>
+        );
+      })}
     </div>
     )}
   </div>
@@ -2,6 +2,16 @@ import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import type { User } from "../types";
+import { findUserByCPF, registerUser } from "../services/authService";
+import { CPF_ERRORS, validateCpf } from "../../shared/cpf.js";
+
+// Textos da tela para os códigos da validação de CPF (shared/cpf.js)
+const CPF_ERROR_MESSAGES: Record<string, string> = {
+  [CPF_ERRORS.REQUIRED]: "Digite seu CPF.",
+  [CPF_ERRORS.LENGTH]: "CPF inválido. Digite 11 dígitos.",
+  [CPF_ERRORS.REPEATED]: "CPF inválido. Confira os números digitados.",
+  [CPF_ERRORS.CHECK_DIGIT]: "CPF inválido. Confira os números digitados.",
+};
 
 // --- Componente WelcomeScreen ---
 interface WelcomeScreenProps {
@@ -98,23 +108,6 @@ const CPFLogin: React.FC<CPFLoginProps> = ({ onBack, onLoginSuccess }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [userNotFound, setUserNotFound] = useState(false);
   const [showRegister, setShowRegister] = useState(false);
-  const [users, setUsers] = useState<User[]>([]);
-
-  useEffect(() => {
-    const loadUsers = async () => {
-      try {
-        const res = await fetch("http://localhost:3001/api/users");
-        if (!res.ok) throw new Error("bad");
-        const list = await res.json();
-        setUsers(list as User[]);
-      } catch (err) {
-        console.error('Erro ao carregar usuários:', err);
-        setUsers([]);
-      }
-    };
-
-    loadUsers();
-  }, []);
 
   const formatCPF = (value: string) => {
     const cleaned = value.replace(/\D/g, "");
@@ -133,10 +126,10 @@ const CPFLogin: React.FC<CPFLoginProps> = ({ onBack, onLoginSuccess }) => {
 
   const searchUserByCPF = async (e: React.FormEvent) => {
     e.preventDefault();
-    const cleanCPF = cpf.replace(/\D/g, "");
+    const { valid, cpf: cleanCPF, error: cpfError } = validateCpf(cpf);
 
-    if (!cleanCPF || cleanCPF.length !== 11) {
-      setError("CPF inválido. Digite 11 dígitos.");
+    if (!valid) {
+      setError(CPF_ERROR_MESSAGES[cpfError]);
       return;
     }
 
@@ -144,11 +137,7 @@ const CPFLogin: React.FC<CPFLoginProps> = ({ onBack, onLoginSuccess }) => {
     setError("");
 
     try {
-      // Simular busca
-      await new Promise((resolve) => setTimeout(resolve, 800));
-
-      // Procurar usuário com esse CPF
-      const foundUser = users.find((u) => u.cpf === cleanCPF);
+      const foundUser = await findUserByCPF(cleanCPF);
 
       if (foundUser) {
         onLoginSuccess(foundUser);
@@ -157,7 +146,9 @@ const CPFLogin: React.FC<CPFLoginProps> = ({ onBack, onLoginSuccess }) => {
         setShowRegister(true);
       }
     } catch (err) {
-      setError("Erro ao buscar CPF. Tente novamente.");
+      setError(
+        err instanceof Error ? err.message : "Erro ao buscar CPF. Tente novamente."
+      );
     } finally {
       setIsLoading(false);
     }
@@ -269,53 +260,25 @@ const RegisterScreen: React.FC<RegisterScreenProps> = ({
       return;
     }
 
+    const cpfCheck = validateCpf(cpf);
+    if (!cpfCheck.valid) {
+      setError(CPF_ERROR_MESSAGES[cpfCheck.error]);
+      return;
+    }
+
     setIsLoading(true);
     try {
-      const payload = {
-        id: `user_${Date.now()}`,
+      const created = await registerUser({
         name: name.trim(),
         email: email.trim(),
-        cpf: cpf.replace(/\D/g, ""),
-        historico: [],
-        pontos: 0,
-      };
-
-      const res = await fetch("http://localhost:3001/api/users", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        cpf: cpfCheck.cpf,
       });
-
-      if (res.status === 409) {
-        setError("CPF já cadastrado. Faça login.");
-        setIsLoading(false);
-        return;
-      }
-
-      if (!res.ok) {
-        // try to read server error message
-        let text = "";
-        try {
-          const data = await res.json();
-          text = data && data.error ? data.error : JSON.stringify(data);
-        } catch (e) {
-          try {
-            text = await res.text();
-          } catch (e2) {
-            text = "";
-          }
-        }
-        console.error("Server error on create user:", res.status, text);
-        setError(text || "Falha ao salvar");
-        setIsLoading(false);
-        return;
-      }
-
-      const created = await res.json();
-      onRegisterSuccess(created as User);
+      onRegisterSuccess(created);
     } catch (err) {
-      console.error(err);
-      setError("Erro ao criar conta. Tente novamente.");
+      console.error("Erro ao criar conta:", err);
+      setError(
+        err instanceof Error ? err.message : "Erro ao criar conta. Tente novamente."
+      );
     } finally {
       setIsLoading(false);
     }
@@ -461,7 +424,6 @@ const LoginPage: React.FC = () => {
     const guestUser: User = {
       id: `guest_${Date.now()}`,
       name: guestUserName || "Convidado",
-      historico: [],
       role: "customer",
     };
 
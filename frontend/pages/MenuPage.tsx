@@ -1,4 +1,5 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext"; // Corrigido para caminho relativo
 import { useCart } from "../contexts/CartContext"; // Corrigido para caminho relativo
 import {
@@ -6,7 +7,48 @@ import {
   getDynamicCartSuggestion,
   getChefMessage,
 } from "../services/geminiService";
-import type { Product, CartItem, Order } from "../types";
+import {
+  getLoyaltyConfig,
+  calculatePointsDiscount,
+} from "../services/loyaltyService";
+import {
+  formatOrderNumber,
+  toOrderItemsPayload,
+} from "../services/orderService";
+import {
+  getPaymentConfig,
+  getPayment,
+  retryPayment,
+  cancelPayment,
+} from "../services/paymentService";
+import { getCombos, findComboMatch } from "../services/comboService";
+import { previewPromotions } from "../services/promotionService";
+import { getUserHistory } from "../services/authService";
+import type { ComboMatch } from "../services/comboService";
+import PaymentModal from "../components/PaymentModal";
+import ProductCard from "../components/ProductCard";
+import ProductDetailModal from "../components/ProductDetailModal";
+import ComboBuilderModal from "../components/ComboBuilderModal";
+import QrCode from "../components/QrCode";
+import {
+  emailReceipt,
+  getReceipt,
+  printReceipt,
+  receiptPrintUrl,
+} from "../services/receiptService";
+import type {
+  Product,
+  Combo,
+  CartItem,
+  PromotionPreview,
+  Order,
+  LoyaltyConfig,
+  Payment,
+  PaymentConfig,
+  PaymentMethod,
+  Receipt,
+  UserOrderHistory,
+} from "../types";
 
 // Usamos uma URL fixa (ou VITE_API_URL, se estiver no service)
 // para a requisição de checkout, garantindo que a URL correta seja usada
@@ -14,57 +56,32 @@ const BACKEND_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
 
 // --- Componentes auxiliares definidos fora para evitar re-renderizações ---
 
-interface ProductCardProps {
-  product: Product;
-  onAddToCart: (product: Product) => void;
-  quantityInCart?: number; // quantidade atual deste produto no carrinho
+interface ComboCardProps {
+  combo: Combo;
+  onOpenBuilder: (combo: Combo) => void; // abre a montagem do combo
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({
-  product,
-  onAddToCart,
-  quantityInCart = 0,
-}) => (
-  <div className="bg-white rounded-xl shadow-lg overflow-hidden transform hover:scale-105 transition-transform duration-300 flex flex-col">
-    <video
-      className="w-full h-40 object-cover"
-      autoPlay
-      muted
-      loop
-      playsInline
-      onClick={(e) => {
-        e.preventDefault();
-        (e.currentTarget as HTMLVideoElement).play().catch(() => {});
-      }}
-      onPause={(e) => {
-        (e.currentTarget as HTMLVideoElement).play().catch(() => {});
-      }}
-      onContextMenu={(e) => e.preventDefault()}
-    >
-      <source src={product.videoUrl} type="video/mp4" />
-    </video>
+const ComboCard: React.FC<ComboCardProps> = ({ combo, onOpenBuilder }) => (
+  <div className="bg-white rounded-xl shadow-lg overflow-hidden transform hover:scale-105 transition-transform duration-300 flex flex-col border-2 border-amber-300">
     <div className="p-4 flex flex-col flex-grow">
-      <h3 className="font-bold text-lg text-amber-800">{product.name}</h3>
-      <p className="text-stone-600 text-sm mt-1 flex-grow">
-        {product.description}
+      <span className="self-start bg-amber-100 text-amber-800 text-xs font-bold px-2 py-1 rounded-full mb-2">
+        🍱 COMBO
+      </span>
+      <h3 className="font-bold text-lg text-amber-800">{combo.name}</h3>
+      <p className="text-stone-600 text-sm mt-1">{combo.description}</p>
+      <p className="text-stone-500 text-sm mt-2 flex-grow">
+        {combo.slots.map((slot) => slot.name).join(" + ")}
       </p>
       <div className="flex justify-between items-center mt-4">
         <span className="text-xl font-semibold text-stone-800">
-          R${product.price.toFixed(2)}
+          R${combo.price.toFixed(2)}
         </span>
-        <div className="flex items-center gap-2">
-          {quantityInCart > 0 && (
-            <span className="bg-amber-100 text-amber-800 font-bold px-3 py-1 rounded-full text-sm">
-              {quantityInCart} no carrinho
-            </span>
-          )}
-          <button
-            onClick={() => onAddToCart(product)}
-            className="bg-amber-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-amber-600 transition-colors"
-          >
-            Adicionar
-          </button>
-        </div>
+        <button
+          onClick={() => onOpenBuilder(combo)}
+          className="bg-amber-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-amber-600 transition-colors"
+        >
+          Montar
+        </button>
       </div>
     </div>
   </div>
@@ -78,9 +95,22 @@ interface CartSidebarProps {
   onCheckout: () => void;
   isPlacingOrder: boolean;
   cartSuggestion?: string;
+  // itens avulsos que sairiam mais baratos como combo
+  comboMatch?: ComboMatch | null;
+  onApplyCombo?: (match: ComboMatch) => void;
+  // promoções calculadas pelo servidor e cupom digitado
+  promotionPreview?: PromotionPreview | null;
+  couponCode?: string;
+  onApplyCoupon?: (code: string) => void;
+  onRemoveCoupon?: () => void;
   // props novos:
   isMobile?: boolean; // quando true renderiza como drawer full-screen
   onClose?: () => void; // usado no mobile para fechar
+  // fidelidade: só aparece para clientes com saldo
+  availablePoints?: number;
+  redeemValue?: number;
+  pointsToRedeem?: number;
+  onChangePointsToRedeem?: (points: number) => void;
 }
 
 const CartSidebar: React.FC<CartSidebarProps> = ({
@@ -90,9 +120,34 @@ const CartSidebar: React.FC<CartSidebarProps> = ({
   onCheckout,
   isPlacingOrder,
   cartSuggestion,
+  comboMatch,
+  onApplyCombo,
+  promotionPreview,
+  couponCode = "",
+  onApplyCoupon,
+  onRemoveCoupon,
   isMobile = false,
   onClose,
+  availablePoints = 0,
+  redeemValue = 0,
+  pointsToRedeem = 0,
+  onChangePointsToRedeem,
 }) => {
+  const [couponInput, setCouponInput] = useState("");
+  const discounts = promotionPreview?.discounts || [];
+  const promotionDiscount = promotionPreview?.discountTotal || 0;
+  const discountedTotal = cartTotal - promotionDiscount;
+  // Máximo de pontos que faz sentido usar: saldo ou o suficiente para zerar o carrinho
+  const maxRedeemablePoints =
+    redeemValue > 0
+      ? Math.min(availablePoints, Math.ceil(discountedTotal / redeemValue))
+      : 0;
+  const pointsDiscount = calculatePointsDiscount(
+    pointsToRedeem,
+    redeemValue,
+    discountedTotal
+  );
+
   // classes diferentes para mobile vs desktop
   const containerClass = isMobile
     ? "fixed inset-x-0 bottom-0 top-0 bg-white p-6 rounded-t-2xl shadow-xl z-50 flex flex-col"
@@ -126,14 +181,57 @@ const CartSidebar: React.FC<CartSidebarProps> = ({
               💡 {cartSuggestion}
             </div>
           )}
+          {comboMatch && onApplyCombo && (
+            <div className="mb-4 p-3 bg-green-50 border-l-4 border-green-600 rounded text-sm text-green-900">
+              <p>
+                💰 Seus itens formam o <strong>{comboMatch.combo.name}</strong>
+                ! Economize R${comboMatch.savings.toFixed(2)}.
+              </p>
+              <button
+                onClick={() => onApplyCombo(comboMatch)}
+                className="mt-2 w-full bg-green-600 text-white font-semibold py-2 rounded-lg hover:bg-green-700"
+              >
+                Transformar em combo
+              </button>
+            </div>
+          )}
           <div className="space-y-4 overflow-y-auto pr-2 flex-1 max-h-[60vh]">
-            {cartItems.map((item) => (
-              <div key={item.id} className="flex justify-between items-center">
+            {cartItems.map((item, index) => (
+              <div
+                key={item.cartItemId}
+                className="flex justify-between items-center"
+              >
                 <div>
                   <p className="font-semibold">{item.name}</p>
+                  {item.components?.map((c) => (
+                    <p key={c.slotId} className="text-xs text-stone-600">
+                      {c.slotName}: {c.name}
+                      {c.modifiers && ` (${c.modifiers.map((m) => m.name).join(", ")})`}
+                      {c.notes && (
+                        <span className="text-amber-700 italic"> "{c.notes}"</span>
+                      )}
+                    </p>
+                  ))}
+                  {item.modifiers.length > 0 && (
+                    <p className="text-xs text-stone-600">
+                      {item.modifiers.map((m) => m.name).join(", ")}
+                    </p>
+                  )}
+                  {item.notes && (
+                    <p className="text-xs text-amber-700 italic">
+                      "{item.notes}"
+                    </p>
+                  )}
                   <p className="text-sm text-stone-500">
-                    R${item.price.toFixed(2)}
+                    R${item.unitPrice.toFixed(2)}
                   </p>
+                  {discounts
+                    .filter((d) => d.itemIndex === index)
+                    .map((d) => (
+                      <p key={d.promotionId} className="text-xs text-green-700">
+                        🏷️ {d.name}: -R${d.amount.toFixed(2)}
+                      </p>
+                    ))}
                 </div>
                 <div className="flex items-center gap-2">
                   <input
@@ -141,7 +239,7 @@ const CartSidebar: React.FC<CartSidebarProps> = ({
                     min="1"
                     value={item.quantity}
                     onChange={(e) =>
-                      updateQuantity(item.id, parseInt(e.target.value))
+                      updateQuantity(item.cartItemId, parseInt(e.target.value))
                     }
                     className="w-14 text-center border rounded"
                   />
@@ -149,17 +247,136 @@ const CartSidebar: React.FC<CartSidebarProps> = ({
               </div>
             ))}
           </div>
+          {maxRedeemablePoints > 0 && onChangePointsToRedeem && (
+            <div className="mt-4 p-3 bg-amber-50 rounded-lg border border-amber-200">
+              <div className="flex justify-between items-center text-sm">
+                <span className="font-semibold text-amber-800">
+                  ⭐ Usar pontos ({availablePoints} disponíveis)
+                </span>
+                <button
+                  onClick={() =>
+                    onChangePointsToRedeem(
+                      pointsToRedeem > 0 ? 0 : maxRedeemablePoints
+                    )
+                  }
+                  className="text-amber-700 font-semibold underline"
+                >
+                  {pointsToRedeem > 0 ? "Não usar" : "Usar máximo"}
+                </button>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={maxRedeemablePoints}
+                value={pointsToRedeem}
+                onChange={(e) =>
+                  onChangePointsToRedeem(parseInt(e.target.value) || 0)
+                }
+                className="w-full mt-2 accent-amber-500"
+                aria-label="Pontos para resgatar"
+              />
+              <p className="text-xs text-stone-500">
+                {pointsToRedeem} pontos = R${pointsDiscount.toFixed(2)} de
+                desconto
+              </p>
+            </div>
+          )}
+          {onApplyCoupon && (
+            <div className="mt-4">
+              {couponCode ? (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="font-semibold text-amber-800">
+                    🎟️ Cupom {couponCode}
+                  </span>
+                  <button
+                    onClick={onRemoveCoupon}
+                    className="text-stone-500 underline"
+                  >
+                    Remover
+                  </button>
+                </div>
+              ) : (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (couponInput.trim()) onApplyCoupon(couponInput.trim());
+                    setCouponInput("");
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={couponInput}
+                    onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                    placeholder="Cupom de desconto"
+                    className="flex-1 border rounded-lg px-3 py-2 text-sm"
+                    aria-label="Cupom de desconto"
+                  />
+                  <button
+                    type="submit"
+                    className="bg-stone-200 text-stone-800 font-semibold px-4 rounded-lg hover:bg-stone-300 text-sm"
+                  >
+                    Aplicar
+                  </button>
+                </form>
+              )}
+              {couponCode && promotionPreview?.couponError && (
+                <p className="text-xs text-red-600 mt-1">
+                  {promotionPreview.couponError}
+                </p>
+              )}
+            </div>
+          )}
           <div className="mt-6 pt-4 border-t-2 border-dashed border-amber-300">
+            {(pointsDiscount > 0 || promotionDiscount > 0) && (
+              <div className="flex justify-between text-stone-600">
+                <span>Subtotal</span>
+                <span>R${cartTotal.toFixed(2)}</span>
+              </div>
+            )}
+            {promotionDiscount > 0 && (
+              <>
+                {discounts.some((d) => d.itemIndex !== null) && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Promoções nos itens</span>
+                    <span>
+                      -R$
+                      {discounts
+                        .filter((d) => d.itemIndex !== null)
+                        .reduce((acc, d) => acc + d.amount, 0)
+                        .toFixed(2)}
+                    </span>
+                  </div>
+                )}
+                {discounts
+                  .filter((d) => d.itemIndex === null)
+                  .map((d) => (
+                    <div
+                      key={d.promotionId}
+                      className="flex justify-between text-green-700"
+                    >
+                      <span>{d.code ? `Cupom ${d.code}` : d.name}</span>
+                      <span>-R${d.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+              </>
+            )}
+            {pointsDiscount > 0 && (
+              <div className="flex justify-between text-green-700">
+                <span>Desconto (pontos)</span>
+                <span>-R${pointsDiscount.toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between font-bold text-xl">
               <span>Total</span>
-              <span>R${cartTotal.toFixed(2)}</span>
+              <span>R${(discountedTotal - pointsDiscount).toFixed(2)}</span>
             </div>
             <button
               onClick={onCheckout}
               disabled={isPlacingOrder}
               className="w-full mt-4 bg-green-600 text-white font-bold py-3 rounded-lg hover:bg-green-700 transition-colors disabled:bg-green-300 disabled:cursor-wait"
             >
-              {isPlacingOrder ? "Enviando Pedido..." : "Finalizar Pedido"}
+              {isPlacingOrder ? "Aguardando Pagamento..." : "Finalizar Pedido"}
             </button>
           </div>
         </>
@@ -168,6 +385,145 @@ const CartSidebar: React.FC<CartSidebarProps> = ({
   );
 };
 
+// --- Tela de confirmação com o número do pedido ---
+
+interface OrderConfirmationProps {
+  order: Order;
+  customerEmail?: string; // e-mail do cadastro (envio do comprovante)
+  onNewOrder: () => void; // fecha a tela e continua comprando
+  onFinish: () => void; // encerra a sessão e volta ao descanso de tela
+}
+
+const OrderConfirmation: React.FC<OrderConfirmationProps> = ({
+  order,
+  customerEmail,
+  onNewOrder,
+  onFinish,
+}) => {
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [receiptAction, setReceiptAction] = useState<"print" | "email" | null>(null);
+  const [receiptMessage, setReceiptMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    getReceipt(order.id)
+      .then(setReceipt)
+      .catch((err) => console.error("Erro ao carregar o comprovante:", err));
+  }, [order.id]);
+
+  const handlePrint = async () => {
+    setReceiptAction("print");
+    setReceiptMessage(null);
+    try {
+      const printed = await printReceipt(order.id);
+      if (printed) {
+        setReceiptMessage("🖨️ Retire seu comprovante na impressora.");
+      } else {
+        // Totem sem impressora térmica: impressão do navegador
+        window.open(receiptPrintUrl(order.id), "_blank");
+      }
+    } catch (err) {
+      setReceiptMessage(err instanceof Error ? err.message : "Falha ao imprimir.");
+    } finally {
+      setReceiptAction(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    setReceiptAction("email");
+    setReceiptMessage(null);
+    try {
+      const to = await emailReceipt(order.id);
+      setReceiptMessage(`✉️ Comprovante enviado para ${to}.`);
+    } catch (err) {
+      setReceiptMessage(err instanceof Error ? err.message : "Falha ao enviar o e-mail.");
+    } finally {
+      setReceiptAction(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-10 w-full max-w-md text-center max-h-full overflow-y-auto">
+        <div className="text-6xl mb-4">🎉</div>
+        <h2 className="text-2xl font-bold text-stone-800">
+          Pedido realizado com sucesso!
+        </h2>
+        <p className="text-stone-600 mt-6">Seu número é</p>
+        <p className="text-7xl font-extrabold text-amber-600 my-2">
+          {formatOrderNumber(order)}
+        </p>
+        <p className="text-stone-600">
+          Acompanhe no painel e retire no balcão quando aparecer em{" "}
+          <strong className="text-green-700">Pronto</strong>.
+        </p>
+        {order.paymentMethod === "counter" &&
+          order.paymentStatus === "pending" && (
+            <p className="mt-4 p-3 bg-amber-50 rounded-lg text-amber-900 font-semibold">
+              🧾 Pague R${order.total.toFixed(2)} no balcão ao retirar.
+            </p>
+          )}
+        {!!order.pointsEarned && (
+          <p className="mt-4 text-amber-800 font-semibold">
+            Você ganhou {order.pointsEarned} pontos ⭐
+          </p>
+        )}
+
+        {/* Comprovante: impresso, pelo QR Code no celular ou por e-mail */}
+        <div className="mt-6 pt-6 border-t border-stone-200">
+          <p className="font-semibold text-stone-700">Comprovante</p>
+          {receipt && (
+            <div className="flex flex-col items-center mt-3">
+              <QrCode value={receipt.url} size={140} />
+              <p className="text-xs text-stone-500 mt-1">
+                Aponte a câmera do celular para abrir o comprovante
+              </p>
+            </div>
+          )}
+          <div className="flex gap-3 mt-4">
+            <button
+              onClick={handlePrint}
+              disabled={receiptAction !== null}
+              className="flex-1 bg-stone-100 text-stone-800 font-semibold py-2 rounded-lg hover:bg-stone-200 disabled:opacity-50"
+            >
+              {receiptAction === "print" ? "Imprimindo..." : "🖨️ Imprimir"}
+            </button>
+            <button
+              onClick={handleEmail}
+              disabled={receiptAction !== null || !customerEmail}
+              className="flex-1 bg-stone-100 text-stone-800 font-semibold py-2 rounded-lg hover:bg-stone-200 disabled:opacity-50"
+            >
+              {receiptAction === "email" ? "Enviando..." : "✉️ Enviar por e-mail"}
+            </button>
+          </div>
+          {!customerEmail && (
+            <p className="text-xs text-stone-500 mt-2">
+              Cadastre um e-mail para receber o comprovante.
+            </p>
+          )}
+          {receiptMessage && (
+            <p className="text-sm text-stone-700 mt-3">{receiptMessage}</p>
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={onNewOrder}
+            className="flex-1 bg-stone-200 text-stone-800 font-semibold py-3 rounded-lg hover:bg-stone-300"
+          >
+            Fazer outro pedido
+          </button>
+          <button
+            onClick={onFinish}
+            className="flex-1 bg-green-600 text-white font-bold py-3 rounded-lg hover:bg-green-700"
+          >
+            Concluir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // --- Componente CategorySidebar (Sidebar de Categorias) ---
 
 interface CategorySidebarProps {
@@ -229,6 +585,7 @@ const CategorySidebar: React.FC<CategorySidebarProps> = ({
               : "bg-stone-100 text-stone-800 hover:bg-stone-200"
           }`}
         >
+          {category === "Combos" && "🍱 Combos"}
           {category === "Pastel" && "🥟 Pastéis"}
           {category === "Bebida" && "🥤 Bebidas"}
           {category === "Doce" && "🍰 Doces"}
@@ -249,33 +606,120 @@ const MenuPage: React.FC = () => {
   const [isSuggestionLoading, setIsSuggestionLoading] = useState(false);
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
   const [isMobileCartOpen, setIsMobileCartOpen] = useState(false);
-  const [orderConfirmationMessage, setOrderConfirmationMessage] = useState<
-    string | null
-  >(null);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [isMobileCategoryOpen, setIsMobileCategoryOpen] = useState(false);
+  const [loyaltyConfig, setLoyaltyConfig] = useState<LoyaltyConfig | null>(
+    null
+  );
+  const [pointsToRedeem, setPointsToRedeem] = useState(0);
+  // Pedido recém-criado exibido na tela de confirmação
+  const [confirmedOrder, setConfirmedOrder] = useState<Order | null>(null);
+  // Etapa de pagamento: pedido criado aguardando a cobrança ser aprovada
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const [paymentConfig, setPaymentConfig] = useState<PaymentConfig | null>(
+    null
+  );
+  const [pendingOrder, setPendingOrder] = useState<
+    (Order & { userPoints?: number | null }) | null
+  >(null);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  // Produto aberto no detalhe (escolha de opções antes de ir ao carrinho)
+  const [detailProduct, setDetailProduct] = useState<Product | null>(null);
+  const [combos, setCombos] = useState<Combo[]>([]);
+  // Combo aberto na montagem (escolha dos produtos de cada vaga)
+  const [detailCombo, setDetailCombo] = useState<Combo | null>(null);
+  // Cupom digitado e descontos calculados pelo servidor para o carrinho
+  const [couponCode, setCouponCode] = useState("");
+  const [promotionPreview, setPromotionPreview] =
+    useState<PromotionPreview | null>(null);
+  // Últimos pedidos do cliente cadastrado (null enquanto carrega ou sem cadastro)
+  const [orderHistory, setOrderHistory] = useState<UserOrderHistory | null>(
+    null
+  );
 
-  const { currentUser, addOrderToHistory } = useAuth();
-  const { cartItems, addToCart, clearCart, cartTotal, updateQuantity } =
-    useCart();
+  const navigate = useNavigate();
+  const { currentUser, updateUser, logout } = useAuth();
+  const {
+    cartItems,
+    addToCart,
+    addComboToCart,
+    applyCombo,
+    clearCart,
+    cartTotal,
+    updateQuantity,
+    syncWithMenu,
+  } = useCart();
 
   // NOVO: Função para buscar o menu do backend (DB)
-  const fetchMenuData = async () => {
+  const fetchMenuData = async (): Promise<Product[] | null> => {
     try {
       // Nova rota do backend para buscar os produtos no DB
       const response = await fetch(`${BACKEND_URL}/api/menu`);
       const data: Product[] = await response.json();
       setMenu(data);
+      return data;
     } catch (error) {
       console.error("Erro ao buscar menu do DB:", error);
+      return null;
     }
   };
 
   // Carrega o menu na montagem do componente
   useEffect(() => {
     fetchMenuData();
+    getCombos().then(setCombos);
+    getLoyaltyConfig().then(setLoyaltyConfig);
+    getPaymentConfig().then(setPaymentConfig);
   }, []);
 
+  // Carrega a primeira página do histórico (convidados não têm histórico)
+  useEffect(() => {
+    setOrderHistory(null);
+    if (currentUser?.cpf) {
+      getUserHistory(currentUser.id, currentUser.session, 1, 10).then(
+        setOrderHistory
+      );
+    }
+  }, [currentUser?.id, currentUser?.cpf, currentUser?.session]);
+
+  // Só clientes cadastrados (CPF) acumulam e resgatam pontos
+  const availablePoints = currentUser?.cpf ? currentUser.pontos || 0 : 0;
+  const redeemValue = loyaltyConfig?.redeemValue || 0;
+  const discountedTotal = cartTotal - (promotionPreview?.discountTotal || 0);
+  const pointsDiscount = calculatePointsDiscount(
+    pointsToRedeem,
+    redeemValue,
+    discountedTotal
+  );
+
+  // Recalcula as promoções no servidor quando o carrinho ou o cupom mudam
+  // (com uma pequena espera para não chamar a cada clique)
+  useEffect(() => {
+    if (cartItems.length === 0) {
+      setPromotionPreview(null);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      previewPromotions(cartItems, currentUser?.session, couponCode)
+        .then(setPromotionPreview)
+        .catch((err) => {
+          console.error("Erro ao calcular promoções:", err);
+          setPromotionPreview(null);
+        });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [cartItems, couponCode, currentUser?.session]);
+
+  // Mantém o resgate dentro do limite quando o carrinho ou o saldo mudam
+  useEffect(() => {
+    const maxUseful =
+      redeemValue > 0 ? Math.ceil(discountedTotal / redeemValue) : 0;
+    setPointsToRedeem((prev) =>
+      Math.min(prev, availablePoints, maxUseful)
+    );
+  }, [discountedTotal, availablePoints, redeemValue]);
+
   // UseEffect para Sugestão do Menu (Recomendação IA)
   useEffect(() => {
     const fetchSuggestion = async () => {
@@ -284,7 +728,7 @@ const MenuPage: React.FC = () => {
       if (currentUser) {
         setIsSuggestionLoading(true);
         const newSuggestion = await getMenuSuggestion(
-          currentUser.historico,
+          orderHistory?.orders || [],
           cartItems,
           menu,
           currentUser.name
@@ -296,17 +740,18 @@ const MenuPage: React.FC = () => {
     if (menu.length > 0) {
       fetchSuggestion();
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [cartItems, currentUser, menu]);
+  }, [cartItems, currentUser, menu, orderHistory?.orders]);
 
   // UseEffect para Mensagem do Chef (Boas-Vindas)
   useEffect(() => {
     const fetchChefMessage = async () => {
       if (menu.length === 0) return;
+      // Cliente cadastrado: espera o histórico para saber se é a primeira visita
+      if (currentUser?.cpf && !orderHistory) return;
       setIsChefLoading(true);
       try {
         const msg = await getChefMessage(
-          currentUser ? currentUser.historico : [],
+          orderHistory?.total || 0,
           currentUser?.name,
           menu
         );
@@ -319,7 +764,7 @@ const MenuPage: React.FC = () => {
       }
     };
     fetchChefMessage();
-  }, [menu, currentUser]);
+  }, [menu, currentUser, orderHistory]);
 
   // UseEffect para Sugestão Dinâmica do Carrinho (Upsell)
   useEffect(() => {
@@ -328,7 +773,8 @@ const MenuPage: React.FC = () => {
         const dynamicSuggestion = await getDynamicCartSuggestion(
           cartItems,
           menu,
-          currentUser?.name
+          currentUser?.name,
+          combos
         );
         setCartSuggestion(dynamicSuggestion);
       } else {
@@ -336,48 +782,168 @@ const MenuPage: React.FC = () => {
       }
     };
     fetchCartSuggestion();
-  }, [cartItems, menu, currentUser?.name]);
+  }, [cartItems, menu, currentUser?.name, combos]);
 
-  const handleCheckout = async () => {
+  // Encerra a etapa de pagamento e mostra o número do pedido
+  const completeOrder = useCallback(
+    (order: Order, userPoints?: number | null) => {
+      // Acrescenta o pedido ao histórico carregado (sem buscar de novo na API)
+      setOrderHistory((prev) =>
+        prev
+          ? { ...prev, orders: [order, ...prev.orders], total: prev.total + 1 }
+          : prev
+      );
+      if (typeof userPoints === "number") {
+        updateUser({ pontos: userPoints });
+      }
+
+      setConfirmedOrder(order);
+      clearCart();
+      setPointsToRedeem(0);
+      setCouponCode("");
+      setIsPaymentOpen(false);
+      setPendingOrder(null);
+      setPayment(null);
+    },
+    [updateUser, clearCart]
+  );
+
+  // "Finalizar Pedido" abre a escolha da forma de pagamento
+  const handleCheckout = () => {
     if (!currentUser || cartItems.length === 0) return;
-    setIsPlacingOrder(true);
+    setPaymentError(null);
+    setIsPaymentOpen(true);
+    setIsMobileCartOpen(false);
+  };
 
-    const payload = {
-      userId: currentUser.id,
-      userName: currentUser.name,
-      items: cartItems.map((item) => ({
-        productId: item.id,
-        name: item.name,
-        quantity: item.quantity,
-        price: item.price,
-      })),
-      total: cartTotal,
-    };
+  // Cria o pedido com a forma escolhida (ou tenta outra forma após recusa)
+  const handleSelectPaymentMethod = async (method: PaymentMethod) => {
+    if (!currentUser) return;
+    setIsPlacingOrder(true);
+    setPaymentError(null);
 
     try {
+      if (pendingOrder) {
+        const retry = await retryPayment(pendingOrder.id, method);
+        // No balcão o pedido já segue para a cozinha (com número e saldo
+        // de pontos vindos do servidor)
+        if (method === "counter") {
+          completeOrder(
+            {
+              ...pendingOrder,
+              orderNumber: retry.order?.orderNumber ?? pendingOrder.orderNumber,
+              status: retry.order?.status ?? "received",
+              paymentMethod: method,
+              paymentStatus: retry.status,
+            },
+            retry.userPoints
+          );
+        } else {
+          setPayment(retry);
+        }
+        return;
+      }
+
+      const payload = {
+        userId: currentUser.id,
+        userName: currentUser.name,
+        items: toOrderItemsPayload(cartItems),
+        total: cartTotal,
+        redeemPoints: pointsToRedeem,
+        // Cupom recusado na simulação não vai no pedido (o servidor recusaria)
+        couponCode:
+          couponCode && !promotionPreview?.couponError ? couponCode : undefined,
+        paymentMethod: method,
+      };
+
       // POST para a nova rota de pedidos do backend (que usa o DB)
       const resp = await fetch(`${BACKEND_URL}/api/orders`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
       });
-      if (!resp.ok) throw new Error("Falha ao enviar pedido");
+      if (!resp.ok) {
+        const data = await resp.json().catch(() => ({}));
+        // Preço alterado ou produto removido: atualiza o cardápio e o carrinho
+        if (resp.status === 409 || resp.status === 400) {
+          const freshMenu = await fetchMenuData();
+          const freshCombos = await getCombos();
+          setCombos(freshCombos);
+          if (freshMenu) syncWithMenu(freshMenu, freshCombos);
+        }
+        throw new Error(data.error || "Erro ao enviar pedido. Tente novamente.");
+      }
 
-      const saved: Order = await resp.json();
+      const saved: Order & { userPoints?: number | null; payment: Payment } =
+        await resp.json();
 
-      // Atualiza o histórico local (no contexto/localStorage) com a nova order
-      addOrderToHistory(saved);
+      // Já liberado para a cozinha (balcão ou quitado com pontos)
+      if (saved.status !== "awaiting_payment") {
+        completeOrder(saved, saved.userPoints);
+        return;
+      }
 
-      setOrderConfirmationMessage("Pedido realizado com sucesso!");
-      setTimeout(() => setOrderConfirmationMessage(null), 4000);
-      clearCart();
+      // O backend devolve o saldo após reservar os pontos resgatados
+      if (typeof saved.userPoints === "number") {
+        updateUser({ pontos: saved.userPoints });
+      }
+      setPendingOrder(saved);
+      setPayment(saved.payment);
+    } catch (err) {
+      console.error(err);
+      setPaymentError((err as Error).message);
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  };
+
+  // Status novo vindo do servidor (consulta periódica ou simulador)
+  const handlePaymentUpdate = useCallback(
+    (updated: Payment) => {
+      setPayment(updated);
+      if (updated.status === "approved" && pendingOrder) {
+        completeOrder(
+          {
+            ...pendingOrder,
+            orderNumber: updated.order?.orderNumber ?? pendingOrder.orderNumber,
+            status: updated.order?.status ?? "received",
+            paymentStatus: "approved",
+          },
+          updated.userPoints
+        );
+      }
+    },
+    [pendingOrder, completeOrder]
+  );
+
+  // Desistência: cancela a cobrança e o pedido; o carrinho é mantido
+  const handleCancelPayment = async () => {
+    if (!pendingOrder || !payment) {
+      setIsPaymentOpen(false);
+      return;
+    }
+
+    setIsPlacingOrder(true);
+    try {
+      await cancelPayment(payment.id);
+      // Os pontos reservados voltam ao saldo
+      if (
+        typeof pendingOrder.userPoints === "number" &&
+        pendingOrder.pointsRedeemed
+      ) {
+        updateUser({
+          pontos: pendingOrder.userPoints + pendingOrder.pointsRedeemed,
+        });
+      }
+      setIsPaymentOpen(false);
+      setPendingOrder(null);
+      setPayment(null);
     } catch (err) {
+      // Provavelmente o pagamento foi aprovado nesse meio tempo
       console.error(err);
-      setOrderConfirmationMessage("Erro ao enviar pedido. Tente novamente.");
-      setTimeout(() => setOrderConfirmationMessage(null), 5000);
+      handlePaymentUpdate(await getPayment(payment.id));
     } finally {
       setIsPlacingOrder(false);
-      setIsMobileCartOpen(false);
     }
   };
 
@@ -394,32 +960,99 @@ const MenuPage: React.FC = () => {
     }, {} as Record<Product["category"], Product[]>);
   }, [menu]);
 
+  // Total no carrinho por produto, somando as combinações de opções
+  const quantityByProduct = useMemo(
+    () =>
+      cartItems.reduce<Record<string, number>>((acc, item) => {
+        acc[item.id] = (acc[item.id] || 0) + item.quantity;
+        return acc;
+      }, {}),
+    [cartItems]
+  );
+
+  // Combos à venda no totem e, entre eles, o que barateia o carrinho atual
+  const activeCombos = useMemo(() => combos.filter((c) => c.active), [combos]);
+  const comboMatch = useMemo(
+    () => findComboMatch(cartItems, activeCombos),
+    [cartItems, activeCombos]
+  );
+
+  const handleApplyCombo = (match: ComboMatch) => {
+    applyCombo(
+      match.combo,
+      match.picks.map(({ slot, item }) => ({
+        slotId: slot.id,
+        cartItemId: item.cartItemId,
+      }))
+    );
+  };
+
+  const categories = [
+    ...(activeCombos.length > 0 ? ["Combos"] : []),
+    ...Object.keys(categorizedMenu).sort(),
+  ];
+
+  // "Concluir" na confirmação: encerra a sessão do cliente no totem
+  const handleFinishOrder = () => {
+    setConfirmedOrder(null);
+    logout();
+    navigate("/", { replace: true });
+  };
+
   return (
     <>
-      {orderConfirmationMessage && (
-        <div className="fixed top-20 right-8 bg-green-600 text-white py-3 px-6 rounded-lg shadow-lg z-50 animate-fade-in-down flex items-center gap-3">
-          <svg
-            xmlns="http://www.w3.org/2000/svg"
-            className="h-6 w-6"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="2"
-              d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-            />
-          </svg>
-          <p className="font-semibold">{orderConfirmationMessage}</p>
-        </div>
+      {detailProduct && (
+        <ProductDetailModal
+          product={detailProduct}
+          onAdd={(product, modifiers, notes, quantity) => {
+            addToCart(product, modifiers, notes, quantity);
+            setDetailProduct(null);
+          }}
+          onClose={() => setDetailProduct(null)}
+        />
+      )}
+
+      {detailCombo && (
+        <ComboBuilderModal
+          combo={detailCombo}
+          menu={menu}
+          onAdd={(combo, components, quantity) => {
+            addComboToCart(combo, components, quantity);
+            setDetailCombo(null);
+          }}
+          onClose={() => setDetailCombo(null)}
+        />
+      )}
+
+      {isPaymentOpen && (
+        <PaymentModal
+          amount={
+            pendingOrder ? pendingOrder.total : discountedTotal - pointsDiscount
+          }
+          methods={paymentConfig?.methods || ["counter"]}
+          simulator={paymentConfig?.simulator}
+          payment={payment}
+          isSubmitting={isPlacingOrder}
+          error={paymentError}
+          onSelectMethod={handleSelectPaymentMethod}
+          onPaymentUpdate={handlePaymentUpdate}
+          onCancel={handleCancelPayment}
+        />
+      )}
+
+      {confirmedOrder && (
+        <OrderConfirmation
+          order={confirmedOrder}
+          customerEmail={currentUser?.email}
+          onNewOrder={() => setConfirmedOrder(null)}
+          onFinish={handleFinishOrder}
+        />
       )}
 
       <div className="container mx-auto flex flex-col md:flex-row gap-8 md:mb-40">
         {/* Sidebar de Categorias - Desktop */}
         <CategorySidebar
-          categories={Object.keys(categorizedMenu).sort()}
+          categories={categories}
           selectedCategory={selectedCategory}
           onSelectCategory={setSelectedCategory}
         />
@@ -447,7 +1080,25 @@ const MenuPage: React.FC = () => {
             )
           )}
 
-          {selectedCategory === null ? (
+          {(selectedCategory === null || selectedCategory === "Combos") &&
+            activeCombos.length > 0 && (
+              <div className="mb-12">
+                <h2 className="text-3xl font-bold text-amber-800 mb-6 border-b-2 border-amber-200 pb-2">
+                  🍱 Combos
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {activeCombos.map((combo) => (
+                    <ComboCard
+                      key={combo.id}
+                      combo={combo}
+                      onOpenBuilder={setDetailCombo}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+          {selectedCategory === "Combos" ? null : selectedCategory === null ? (
             // Mostrar todas as categorias
             Object.entries(categorizedMenu).map(
               ([category, products]: [string, Product[]]) => (
@@ -462,11 +1113,8 @@ const MenuPage: React.FC = () => {
                       <ProductCard
                         key={product.id}
                         product={product}
-                        onAddToCart={addToCart}
-                        quantityInCart={
-                          cartItems.find((item) => item.id === product.id)
-                            ?.quantity || 0
-                        }
+                        onOpenDetails={setDetailProduct}
+                        quantityInCart={quantityByProduct[product.id] || 0}
                       />
                     ))}
                   </div>
@@ -487,11 +1135,8 @@ const MenuPage: React.FC = () => {
                     <ProductCard
                       key={product.id}
                       product={product}
-                      onAddToCart={addToCart}
-                      quantityInCart={
-                        cartItems.find((item) => item.id === product.id)
-                          ?.quantity || 0
-                      }
+                      onOpenDetails={setDetailProduct}
+                      quantityInCart={quantityByProduct[product.id] || 0}
                     />
                   )
                 )}
@@ -508,6 +1153,16 @@ const MenuPage: React.FC = () => {
           onCheckout={handleCheckout}
           isPlacingOrder={isPlacingOrder}
           cartSuggestion={cartSuggestion}
+          comboMatch={comboMatch}
+          onApplyCombo={handleApplyCombo}
+          promotionPreview={promotionPreview}
+          couponCode={couponCode}
+          onApplyCoupon={setCouponCode}
+          onRemoveCoupon={() => setCouponCode("")}
+          availablePoints={availablePoints}
+          redeemValue={redeemValue}
+          pointsToRedeem={pointsToRedeem}
+          onChangePointsToRedeem={setPointsToRedeem}
           // isMobile não passado => desktop behavior
         />
       </div>
@@ -550,7 +1205,7 @@ const MenuPage: React.FC = () => {
             onClick={() => setIsMobileCategoryOpen(false)}
           />
           <CategorySidebar
-            categories={Object.keys(categorizedMenu).sort()}
+            categories={categories}
             selectedCategory={selectedCategory}
             onSelectCategory={(cat) => {
               setSelectedCategory(cat);
@@ -576,6 +1231,16 @@ const MenuPage: React.FC = () => {
             onCheckout={handleCheckout}
             isPlacingOrder={isPlacingOrder}
             cartSuggestion={cartSuggestion}
+            comboMatch={comboMatch}
+            onApplyCombo={handleApplyCombo}
+            promotionPreview={promotionPreview}
+            couponCode={couponCode}
+            onApplyCoupon={setCouponCode}
+            onRemoveCoupon={() => setCouponCode("")}
+            availablePoints={availablePoints}
+            redeemValue={redeemValue}
+            pointsToRedeem={pointsToRedeem}
+            onChangePointsToRedeem={setPointsToRedeem}
             isMobile
             onClose={() => setIsMobileCartOpen(false)}
           />
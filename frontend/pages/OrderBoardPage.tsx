@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import type { BoardOrder } from "../types";
+import { getOrderBoard } from "../services/orderService";
+
+// Intervalo de atualização do painel (TV do balcão)
+const REFRESH_MS = 3000;
+// Tempo que um pedido recém-pronto fica destacado
+const HIGHLIGHT_MS = 10000;
+
+// Toca um "plim-plom" curto com a Web Audio API (sem depender de arquivos de áudio)
+const playChime = (ctx: AudioContext) => {
+  [880, 660].forEach((frequency, i) => {
+    const start = ctx.currentTime + i * 0.25;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.4, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.6);
+  });
+};
+
+const OrderBoardPage: React.FC = () => {
+  const [orders, setOrders] = useState<BoardOrder[]>([]);
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  // Navegadores só liberam áudio após uma interação; a TV precisa de um toque inicial
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  // Pedidos que já estavam prontos na última atualização (null = primeira carga)
+  const readyIdsRef = useRef<Set<string> | null>(null);
+
+  const enableSound = () => {
+    audioCtxRef.current = audioCtxRef.current || new AudioContext();
+    audioCtxRef.current.resume();
+    setSoundEnabled(true);
+  };
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await getOrderBoard();
+      setIsOffline(false);
+
+      const readyIds = new Set(data.filter((o) => o.status === "ready").map((o) => o.id));
+      const previous = readyIdsRef.current;
+      // Na primeira carga não toca nada: só avisa quem ficou pronto depois
+      const newlyReady = previous ? [...readyIds].filter((id) => !previous.has(id)) : [];
+      readyIdsRef.current = readyIds;
+
+      if (newlyReady.length > 0) {
+        if (audioCtxRef.current) playChime(audioCtxRef.current);
+        setHighlighted((prev) => new Set([...prev, ...newlyReady]));
+        setTimeout(() => {
+          setHighlighted((prev) => {
+            const next = new Set(prev);
+            newlyReady.forEach((id) => next.delete(id));
+            return next;
+          });
+        }, HIGHLIGHT_MS);
+      }
+
+      setOrders(data);
+    } catch (err) {
+      console.error("Erro ao atualizar painel:", err);
+      setIsOffline(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const preparing = orders.filter((o) => o.status === "preparing");
+  // Os mais recentes primeiro na coluna de prontos
+  const ready = orders
+    .filter((o) => o.status === "ready")
+    .sort((a, b) => (b.readyAt || "").localeCompare(a.readyAt || ""));
+
+  return (
+    <div className="fixed inset-0 bg-stone-900 text-white flex flex-col">
+      <header className="flex justify-between items-center px-10 py-6 bg-amber-600">
+        <h1 className="text-4xl font-bold">Pastelaria Kiosk Pro</h1>
+        {isOffline && (
+          <span className="bg-red-700 px-4 py-2 rounded-lg font-semibold">
+            Sem conexão com o servidor
+          </span>
+        )}
+      </header>
+
+      <div className="grid grid-cols-2 flex-1 divide-x-4 divide-stone-700">
+        <section className="p-8">
+          <h2 className="text-5xl font-bold text-amber-400 mb-8 text-center">
+            Preparando
+          </h2>
+          <div className="grid grid-cols-3 gap-6">
+            {preparing.map((order) => (
+              <div
+                key={order.id}
+                className="text-5xl font-bold text-center py-6 bg-stone-800 rounded-2xl"
+              >
+                {order.number}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="p-8">
+          <h2 className="text-5xl font-bold text-green-400 mb-8 text-center">
+            Pronto ✅
+          </h2>
+          <div className="grid grid-cols-2 gap-6">
+            {ready.map((order) => (
+              <div
+                key={order.id}
+                className={`text-7xl font-bold text-center py-8 rounded-2xl transition-colors ${
+                  highlighted.has(order.id)
+                    ? "bg-green-500 text-white animate-pulse"
+                    : "bg-green-900 text-green-100"
+                }`}
+              >
+                {order.number}
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+
+      {!soundEnabled && (
+        <button
+          onClick={enableSound}
+          className="absolute bottom-6 right-6 bg-stone-700 hover:bg-stone-600 px-4 py-2 rounded-lg text-sm"
+        >
+          🔔 Toque para ativar o som
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default OrderBoardPage;
@@ -1,103 +1,115 @@
-import type { User } from "../types";
+import type { User, AuthSession, UserRole, UserOrderHistory } from "../types";
+import { normalizeCpf } from "../../shared/cpf.js";
 
-// Ajustado para a porta onde o servidor está rodando localmente
-const API_URL = "http://localhost:3001/api";
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api`;
 
-// Validar CPF (formato básico)
-export const validateCPF = (cpf: string): boolean => {
-  const cleanCPF = cpf.replace(/\D/g, "");
-  return cleanCPF.length === 11;
-};
+// Chave do localStorage onde o AuthContext guarda o token da equipe
+export const AUTH_SESSION_KEY = "authSession";
 
-// Buscar usuário por CPF via API
-export const findUserByCPF = async (cpf: string): Promise<User | null> => {
+// Lê a sessão salva (ou null se não houver)
+export const getStoredSession = (): AuthSession | null => {
   try {
-    // server.js expõe GET /api/users (lista). Buscamos todos e filtramos pelo CPF.
-    const resp = await fetch(`${API_URL}/users`);
-    if (!resp.ok) return null;
-    const users: User[] = await resp.json();
-    const clean = String(cpf).replace(/\D/g, "");
-    const match = users.find(
-      (u) => u.cpf && String(u.cpf).replace(/\D/g, "") === clean
-    );
-    return match || null;
-  } catch (error) {
-    console.error("Erro ao buscar usuário:", error);
+    const raw = localStorage.getItem(AUTH_SESSION_KEY);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch (e) {
     return null;
   }
 };
 
-// Registrar novo usuário via API
-export const registerUser = async (userData: {
-  name: string;
-  cpf: string;
-  email: string;
-  telefone: string;
-}): Promise<User | null> => {
-  try {
-    const response = await fetch(`${API_URL}/users`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(userData),
-    });
+// Verifica se a sessão já passou da data de expiração
+export const isSessionExpired = (session: AuthSession | null): boolean =>
+  !session || new Date(session.expiresAt).getTime() <= Date.now();
 
-    const data = await response.json();
+// Headers de autenticação para as rotas protegidas da cozinha/admin
+export const authHeaders = (): Record<string, string> => {
+  const session = getStoredSession();
+  return session && !isSessionExpired(session)
+    ? { Authorization: `Bearer ${session.token}` }
+    : {};
+};
 
-    if (response.ok) {
-      return data;
-    } else {
-      console.error("Erro ao registrar:", data.error || data);
-      return null;
-    }
-  } catch (error) {
-    console.error("Erro ao registrar usuário:", error);
-    return null;
+// Login da equipe: o backend confere a senha (hash) e devolve um token assinado
+export const loginStaff = async (
+  role: Exclude<UserRole, "customer">,
+  password: string
+): Promise<{ user: User; session: AuthSession }> => {
+  const response = await fetch(`${API_URL}/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ role, password }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Falha ao autenticar");
   }
+  return {
+    user: data.user,
+    session: { token: data.token, expiresAt: data.expiresAt },
+  };
 };
 
-// Salvar pedido via API
-export const saveOrder = async (
-  userId: string,
-  items: any[],
-  total: number
-) => {
-  try {
-    const response = await fetch(`${API_URL}/orders`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        userId,
-        items,
-        total,
-      }),
-    });
-
-    const data = await response.json();
+// Buscar cliente por CPF via API (null se não houver cadastro). O backend
+// devolve só os dados da sessão do totem, com o e-mail mascarado.
+export const findUserByCPF = async (cpf: string): Promise<User | null> => {
+  const response = await fetch(`${API_URL}/users/by-cpf/${normalizeCpf(cpf)}`);
+  if (response.status === 404) return null;
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Erro ao buscar CPF. Tente novamente.");
+  }
+  return data as User;
+};
 
-    if (response.ok) {
-      return data.order;
-    } else {
-      console.error("Erro ao salvar pedido:", data.error);
-      return null;
-    }
-  } catch (error) {
-    console.error("Erro ao salvar pedido:", error);
-    return null;
+// Cadastro do cliente no totem. O id é gerado pelo backend; em caso de
+// falha lança o erro com a mensagem para a tela (CPF já cadastrado,
+// CPF inválido etc.)
+export const registerUser = async (userData: {
+  name: string;
+  cpf: string;
+  email: string;
+}): Promise<User> => {
+  const response = await fetch(`${API_URL}/users`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...userData, cpf: normalizeCpf(userData.cpf) }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 409) {
+    throw new Error("CPF já cadastrado. Faça login.");
+  }
+  if (!response.ok) {
+    throw new Error(data.error || "Erro ao criar conta. Tente novamente.");
   }
+  return data as User;
 };
 
-// Obter histórico do usuário via API
-export const getUserHistory = async (userId: string) => {
+// Header com a sessão do cliente (login por CPF), quando houver
+export const customerSessionHeaders = (
+  session?: AuthSession
+): Record<string, string> =>
+  session && !isSessionExpired(session)
+    ? { "X-Customer-Session": session.token }
+    : {};
+
+// Obter uma página do histórico de pedidos do cliente via API (mais
+// recentes primeiro); exige a sessão do próprio cliente. Em caso de falha
+// devolve uma página vazia.
+export const getUserHistory = async (
+  userId: string,
+  session: AuthSession | undefined,
+  page = 1,
+  pageSize = 20
+): Promise<UserOrderHistory> => {
   try {
-    const response = await fetch(`${API_URL}/users/${userId}/historico`);
-    const data = await response.json();
-    return data;
+    const response = await fetch(
+      `${API_URL}/users/${userId}/orders?page=${page}&pageSize=${pageSize}`,
+      { headers: customerSessionHeaders(session) }
+    );
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.json();
   } catch (error) {
     console.error("Erro ao obter histórico:", error);
-    return [];
+    return { orders: [], page, pageSize, total: 0 };
   }
 };
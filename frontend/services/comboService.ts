@@ -0,0 +1,151 @@
+import type { CartItem, Combo, ComboSlot, Product } from "../types";
+import { authHeaders } from "./authService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/combos`;
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/**
+ * Lista os combos cadastrados (inclusive os inativos; o totem filtra).
+ */
+export const getCombos = async (): Promise<Combo[]> => {
+  try {
+    const response = await fetch(API_URL);
+    if (!response.ok) throw new Error("Falha ao carregar combos");
+    return response.json();
+  } catch (err) {
+    console.error("Erro ao buscar combos:", err);
+    return [];
+  }
+};
+
+/**
+ * Cria um novo combo.
+ */
+export const createCombo = async (combo: Omit<Combo, "id">): Promise<Combo> => {
+  const response = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(combo),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao criar combo");
+  return response.json();
+};
+
+/**
+ * Atualiza um combo existente.
+ */
+export const updateCombo = async (combo: Combo): Promise<Combo> => {
+  const response = await fetch(`${API_URL}/${combo.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(combo),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao atualizar combo");
+  return response.json();
+};
+
+/**
+ * Remove um combo.
+ */
+export const deleteCombo = async (comboId: string): Promise<void> => {
+  const response = await fetch(`${API_URL}/${comboId}`, {
+    method: "DELETE",
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao remover combo");
+};
+
+/** Itens avulsos do carrinho que podem virar um combo mais barato. */
+export interface ComboMatch {
+  combo: Combo;
+  /** Uma unidade de cada linha do carrinho, na ordem das vagas */
+  picks: { slot: ComboSlot; item: CartItem }[];
+  /** Diferença entre os itens avulsos e o preço do combo */
+  savings: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Preenche as vagas com as unidades avulsas mais caras de cada categoria
+// (as opções escolhidas continuam sendo cobradas dentro do combo)
+const fillSlots = (combo: Combo, cartItems: CartItem[]) => {
+  const remaining = new Map(
+    cartItems.filter((i) => !i.comboId).map((i) => [i.cartItemId, i.quantity])
+  );
+  const picks: ComboMatch["picks"] = [];
+  const missing: ComboSlot[] = [];
+
+  for (const slot of combo.slots) {
+    const item = cartItems
+      .filter(
+        (i) =>
+          i.category === slot.category && (remaining.get(i.cartItemId) || 0) > 0
+      )
+      .sort((a, b) => b.price - a.price)[0];
+    if (item) {
+      remaining.set(item.cartItemId, remaining.get(item.cartItemId)! - 1);
+      picks.push({ slot, item });
+    } else {
+      missing.push(slot);
+    }
+  }
+  return { picks, missing };
+};
+
+/**
+ * Procura, entre os combos ativos, o que mais economiza com os itens que o
+ * cliente já escolheu avulsos. Retorna null se nenhum combo sai mais barato.
+ */
+export const findComboMatch = (
+  cartItems: CartItem[],
+  combos: Combo[]
+): ComboMatch | null => {
+  let best: ComboMatch | null = null;
+  for (const combo of combos.filter((c) => c.active)) {
+    const { picks, missing } = fillSlots(combo, cartItems);
+    if (missing.length > 0) continue;
+
+    const savings = roundMoney(
+      picks.reduce((acc, { item }) => acc + item.price, 0) - combo.price
+    );
+    if (savings > 0 && (!best || savings > best.savings)) {
+      best = { combo, picks, savings };
+    }
+  }
+  return best;
+};
+
+/**
+ * Combo ativo ao qual falta só um item para ficar mais barato que os avulsos
+ * (usado na sugestão do carrinho). A economia considera o produto mais
+ * barato da categoria que falta.
+ */
+export const findComboToComplete = (
+  cartItems: CartItem[],
+  combos: Combo[],
+  menu: Product[]
+): { combo: Combo; missingSlot: ComboSlot; savings: number } | null => {
+  for (const combo of combos.filter((c) => c.active)) {
+    const { picks, missing } = fillSlots(combo, cartItems);
+    if (missing.length !== 1 || picks.length === 0) continue;
+
+    const cheapest = menu
+      .filter((p) => p.category === missing[0].category && !p.soldOut)
+      .sort((a, b) => a.price - b.price)[0];
+    if (!cheapest) continue;
+
+    const savings = roundMoney(
+      picks.reduce((acc, { item }) => acc + item.price, cheapest.price) -
+        combo.price
+    );
+    if (savings > 0) return { combo, missingSlot: missing[0], savings };
+  }
+  return null;
+};
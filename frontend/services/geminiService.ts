@@ -1,4 +1,5 @@
-import type { Order, CartItem, Product } from "../types";
+import type { Order, CartItem, Product, Combo } from "../types";
+import { findComboToComplete } from "./comboService";
 
 // Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
 const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
@@ -81,11 +82,13 @@ Exemplo: "${clientName}, que tal uma Coca-Cola geladinha? Vai combinar perfeitam
 
 /**
  * Gera sugestões dinâmicas ("Que tal levar também...?") baseadas no que já está no carrinho.
+ * Se faltar só um item para fechar um combo, sugere completá-lo pelo preço do combo.
  */
 export const getDynamicCartSuggestion = async (
   cartItems: CartItem[],
   menu: Product[],
-  userName?: string
+  userName?: string,
+  combos: Combo[] = []
 ): Promise<string> => {
   if (cartItems.length === 0) return "";
 
@@ -98,8 +101,13 @@ export const getDynamicCartSuggestion = async (
   
   let sugestao = "";
   let motivo = "";
+  const comboToComplete = findComboToComplete(cartItems, combos, menu);
 
-  if (!categoriesInCart.has("Bebida")) {
+  if (comboToComplete) {
+    const { combo, missingSlot, savings } = comboToComplete;
+    sugestao = `${missingSlot.name.toLowerCase()} para fechar o ${combo.name} por R$ ${combo.price.toFixed(2)}`;
+    motivo = `sai R$ ${savings.toFixed(2)} mais barato que pedir os itens separados`;
+  } else if (!categoriesInCart.has("Bebida")) {
     sugestao = "uma Coca-Cola bem gelada ou Suco de Laranja";
     motivo = "para acompanhar e refrescar";
   } else if (!categoriesInCart.has("Doce")) {
@@ -144,13 +152,12 @@ Exemplo: "${clientName}, que tal adicionar uma Coca geladinha? Vai combinar perf
  * Gera uma mensagem de boas-vindas ou agradecimento "do Chef".
  */
 export const getChefMessage = async (
-  userHistory: Order[],
+  orderCount: number,
   userName?: string,
   menu?: Product[]
 ): Promise<string> => {
   const clientName = userName || "amigo(a)";
-  const isNewCustomer = !userHistory || userHistory.length === 0;
-  const orderCount = userHistory?.length || 0;
+  const isNewCustomer = orderCount === 0;
  
   const prompt = `
 Você é o Chef da Pastelaria Kiosk Pro. 
@@ -0,0 +1,108 @@
+import type { Ingredient, ProductCost, RecipeLine } from "../types";
+import { authHeaders } from "./authService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/ingredients`;
+
+export const INGREDIENT_UNIT_LABELS: Record<Ingredient["unit"], string> = {
+  g: "R$/kg (ficha em gramas)",
+  ml: "R$/litro (ficha em ml)",
+  un: "R$/unidade",
+};
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/**
+ * Lista os ingredientes com o número de produtos que usam cada um.
+ */
+export const getIngredients = async (): Promise<Ingredient[]> => {
+  const response = await fetch(API_URL, { headers: authHeaders() });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar ingredientes");
+  return response.json();
+};
+
+/**
+ * Cria um novo ingrediente.
+ */
+export const createIngredient = async (
+  ingredient: Omit<Ingredient, "id">
+): Promise<Ingredient> => {
+  const response = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(ingredient),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao criar ingrediente");
+  return response.json();
+};
+
+/**
+ * Atualiza um ingrediente (o novo custo vale para as próximas vendas).
+ */
+export const updateIngredient = async (ingredient: Ingredient): Promise<Ingredient> => {
+  const response = await fetch(`${API_URL}/${ingredient.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(ingredient),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao atualizar ingrediente");
+  return response.json();
+};
+
+/**
+ * Remove um ingrediente que não está em nenhuma ficha técnica.
+ */
+export const deleteIngredient = async (ingredientId: number): Promise<void> => {
+  const response = await fetch(`${API_URL}/${ingredientId}`, {
+    method: "DELETE",
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao remover ingrediente");
+};
+
+/**
+ * Custo dos ingredientes e margem de cada produto pelo preço atual.
+ */
+export const getProductCosts = async (): Promise<ProductCost[]> => {
+  const response = await fetch(`${BASE_URL}/api/products/costs`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar custos");
+  return response.json();
+};
+
+/**
+ * Ficha técnica de um produto.
+ */
+export const getProductRecipe = async (
+  productId: string
+): Promise<{ items: RecipeLine[]; foodCost: number | null }> => {
+  const response = await fetch(`${BASE_URL}/api/products/${productId}/recipe`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar ficha técnica");
+  return response.json();
+};
+
+/**
+ * Substitui a ficha técnica de um produto.
+ */
+export const saveProductRecipe = async (
+  productId: string,
+  items: RecipeLine[]
+): Promise<{ items: RecipeLine[]; foodCost: number | null }> => {
+  const response = await fetch(`${BASE_URL}/api/products/${productId}/recipe`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({
+      items: items.map(({ ingredientId, quantity }) => ({ ingredientId, quantity })),
+    }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao salvar ficha técnica");
+  return response.json();
+};
@@ -0,0 +1,29 @@
+import type { LoyaltyConfig } from "../types";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/loyalty`;
+
+/**
+ * Busca o valor de resgate dos pontos e as regras de acúmulo ativas.
+ */
+export const getLoyaltyConfig = async (): Promise<LoyaltyConfig | null> => {
+  try {
+    const response = await fetch(`${API_URL}/config`);
+    if (!response.ok) throw new Error("Erro na requisição");
+    return await response.json();
+  } catch (error) {
+    console.error("Erro ao carregar configuração de pontos:", error);
+    return null;
+  }
+};
+
+/**
+ * Calcula o desconto (em reais) de um resgate, limitado ao valor do carrinho.
+ * O backend refaz a mesma conta e é quem decide o valor final.
+ */
+export const calculatePointsDiscount = (
+  points: number,
+  redeemValue: number,
+  cartTotal: number
+): number => Math.min(Math.round(points * redeemValue * 100) / 100, cartTotal);
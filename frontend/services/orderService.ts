@@ -0,0 +1,144 @@
+import type {
+  AdjustmentReason,
+  BoardOrder,
+  CartItem,
+  Order,
+  OrderAdjustment,
+} from "../types";
+import { authHeaders } from "./authService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/orders`;
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/** Motivos de cancelamento/estorno, na ordem exibida nas telas. */
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  wrong_order: "Pedido lançado errado",
+  duplicate: "Pedido duplicado",
+  customer_request: "Desistência do cliente",
+  out_of_stock: "Produto em falta",
+  quality: "Problema na qualidade",
+  delay: "Demora no preparo",
+  other: "Outro motivo",
+};
+
+/** Motivo e observação de um cancelamento/estorno ("other" exige a observação). */
+export interface AdjustmentInput {
+  reason: AdjustmentReason;
+  note?: string;
+  /** Devolver as unidades ao estoque (omitido no cancelamento: só se não entrou em preparo) */
+  restock?: boolean;
+}
+
+/**
+ * Número curto do pedido (#042), o mesmo exibido no painel de retirada.
+ * Pedidos antigos, sem numeração diária, usam o final do id.
+ */
+export const formatOrderNumber = (
+  order: Pick<Order, "id" | "orderNumber">
+): string =>
+  order.orderNumber
+    ? String(order.orderNumber).padStart(3, "0")
+    : order.id.slice(-4);
+
+/**
+ * Itens do carrinho no formato aceito por POST /api/orders
+ * (o servidor recalcula nomes e preços).
+ */
+export const toOrderItemsPayload = (cartItems: CartItem[]) =>
+  cartItems.map((item) =>
+    item.comboId
+      ? {
+          comboId: item.comboId,
+          name: item.name,
+          quantity: item.quantity,
+          price: item.unitPrice,
+          components: (item.components || []).map((c) => ({
+            slotId: c.slotId,
+            productId: c.productId,
+            options: (c.modifiers || []).map((m) => m.optionId),
+            notes: c.notes,
+          })),
+        }
+      : {
+          productId: item.id,
+          name: item.name,
+          quantity: item.quantity,
+          price: item.unitPrice,
+          options: item.modifiers.map((m) => m.optionId),
+          notes: item.notes,
+        }
+  );
+
+/**
+ * Busca os pedidos em preparo e prontos para o painel de retirada.
+ */
+export const getOrderBoard = async (): Promise<BoardOrder[]> => {
+  const response = await fetch(`${API_URL}/board`);
+  if (!response.ok) throw new Error("Erro ao carregar painel");
+  return response.json();
+};
+
+/**
+ * Cancela um pedido já liberado para a cozinha (cozinha/admin). O valor
+ * pago é estornado e os pontos do pedido são desfeitos.
+ */
+export const cancelOrder = async (
+  orderId: string,
+  input: AdjustmentInput
+): Promise<Order> => {
+  const response = await fetch(`${API_URL}/${orderId}/cancel`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao cancelar pedido");
+  return response.json();
+};
+
+/**
+ * Estorna parte dos itens de um pedido pago (index = posição do item).
+ */
+export const refundOrderItems = async (
+  orderId: string,
+  items: { index: number; quantity: number }[],
+  input: AdjustmentInput
+): Promise<Order> => {
+  const response = await fetch(`${API_URL}/${orderId}/refunds`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ ...input, items }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao estornar itens");
+  return response.json();
+};
+
+/**
+ * Histórico de cancelamentos e estornos do pedido (auditoria).
+ */
+export const getOrderAdjustments = async (
+  orderId: string
+): Promise<OrderAdjustment[]> => {
+  const response = await fetch(`${API_URL}/${orderId}/adjustments`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar histórico do pedido");
+  return response.json();
+};
+
+/**
+ * Reimprime a comanda do pedido na impressora da cozinha.
+ */
+export const reprintKitchenTicket = async (orderId: string): Promise<void> => {
+  const response = await fetch(`${API_URL}/${orderId}/ticket`, {
+    method: "POST",
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao reimprimir comanda");
+};
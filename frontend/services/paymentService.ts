@@ -0,0 +1,100 @@
+import type { Payment, PaymentConfig, PaymentMethod } from "../types";
+import { authHeaders } from "./authService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/payments`;
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/** Nomes exibidos ao cliente para cada forma de pagamento. */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: "PIX",
+  credit: "Cartão de Crédito",
+  debit: "Cartão de Débito",
+  counter: "Pagar no Balcão",
+};
+
+/**
+ * Busca as formas de pagamento disponíveis no totem.
+ */
+export const getPaymentConfig = async (): Promise<PaymentConfig | null> => {
+  try {
+    const response = await fetch(`${API_URL}/config`);
+    if (!response.ok) throw new Error("Erro na requisição");
+    return await response.json();
+  } catch (error) {
+    console.error("Erro ao carregar formas de pagamento:", error);
+    return null;
+  }
+};
+
+/**
+ * Consulta o status de um pagamento (usado enquanto o totem aguarda).
+ */
+export const getPayment = async (paymentId: string): Promise<Payment> => {
+  const response = await fetch(`${API_URL}/${paymentId}`);
+  if (!response.ok) await throwApiError(response, "Falha ao consultar pagamento");
+  return response.json();
+};
+
+/**
+ * Tenta pagar o pedido com outra forma após uma recusa.
+ */
+export const retryPayment = async (
+  orderId: string,
+  method: PaymentMethod
+): Promise<Payment> => {
+  const response = await fetch(`${BASE_URL}/api/orders/${orderId}/payments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ method }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao iniciar pagamento");
+  return response.json();
+};
+
+/**
+ * Cancela a cobrança e o pedido ainda não pago.
+ */
+export const cancelPayment = async (paymentId: string): Promise<Payment> => {
+  const response = await fetch(`${API_URL}/${paymentId}/cancel`, {
+    method: "POST",
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao cancelar pagamento");
+  return response.json();
+};
+
+/**
+ * Confirma um pagamento recebido no balcão (cozinha/admin).
+ */
+export const confirmCounterPayment = async (
+  paymentId: string
+): Promise<Payment> => {
+  const response = await fetch(`${API_URL}/${paymentId}/confirm`, {
+    method: "POST",
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao confirmar pagamento");
+  return response.json();
+};
+
+/**
+ * Aprova ou recusa uma cobrança no simulador de pagamentos (desenvolvimento).
+ */
+export const simulatePayment = async (
+  paymentId: string,
+  status: "approved" | "declined"
+): Promise<Payment> => {
+  const response = await fetch(`${API_URL}/${paymentId}/simulate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao simular pagamento");
+  return response.json();
+};
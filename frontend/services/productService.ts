@@ -0,0 +1,92 @@
+import type { Product } from "../types";
+import { authHeaders } from "./authService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/products`;
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/**
+ * Cria um novo produto no cardápio.
+ */
+export const createProduct = async (product: Product): Promise<Product> => {
+  const response = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(product),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao criar produto");
+  return response.json();
+};
+
+/**
+ * Atualiza um produto existente.
+ */
+export const updateProduct = async (product: Product): Promise<Product> => {
+  const response = await fetch(`${API_URL}/${product.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(product),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao atualizar produto");
+  return response.json();
+};
+
+/**
+ * Remove um produto do cardápio.
+ */
+export const deleteProduct = async (productId: string): Promise<void> => {
+  const response = await fetch(`${API_URL}/${productId}`, {
+    method: "DELETE",
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao remover produto");
+};
+
+/**
+ * Marca o produto como disponível ou esgotado ("acabou", na cozinha).
+ */
+export const setProductAvailability = async (
+  productId: string,
+  available: boolean
+): Promise<Product> => {
+  const response = await fetch(`${API_URL}/${productId}/availability`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ available }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao atualizar produto");
+  return response.json();
+};
+
+/**
+ * Ajusta a quantidade em estoque (null desliga o controle de estoque).
+ */
+export const updateProductStock = async (
+  productId: string,
+  stockQuantity: number | null
+): Promise<Product> => {
+  const response = await fetch(`${API_URL}/${productId}/stock`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ stockQuantity }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao ajustar estoque");
+  return response.json();
+};
+
+/**
+ * Produtos esgotados ou com estoque no limite do alerta.
+ */
+export const getLowStockProducts = async (): Promise<Product[]> => {
+  const response = await fetch(`${BASE_URL}/api/inventory/low-stock`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar alertas de estoque");
+  return response.json();
+};
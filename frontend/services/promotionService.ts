@@ -0,0 +1,96 @@
+import type {
+  AuthSession,
+  CartItem,
+  Promotion,
+  PromotionPreview,
+  PromotionType,
+} from "../types";
+import { authHeaders, customerSessionHeaders } from "./authService";
+import { toOrderItemsPayload } from "./orderService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/promotions`;
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percent: "% no pedido",
+  fixed: "R$ no pedido",
+  buy_x_pay_y: "Leve X pague Y",
+  category_percent: "% na categoria",
+};
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/**
+ * Pede ao servidor os descontos do carrinho (promoções automáticas + cupom).
+ * Só simula: o valor final é recalculado quando o pedido é criado.
+ */
+export const previewPromotions = async (
+  cartItems: CartItem[],
+  session?: AuthSession,
+  couponCode?: string
+): Promise<PromotionPreview> => {
+  const response = await fetch(`${API_URL}/preview`, {
+    method: "POST",
+    // Sessão do cliente: conta os limites de uso por cliente
+    headers: { "Content-Type": "application/json", ...customerSessionHeaders(session) },
+    body: JSON.stringify({
+      items: toOrderItemsPayload(cartItems),
+      couponCode: couponCode || undefined,
+    }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao calcular descontos");
+  return response.json();
+};
+
+/**
+ * Lista as promoções com o número de usos (admin).
+ */
+export const getPromotions = async (): Promise<Promotion[]> => {
+  const response = await fetch(API_URL, { headers: authHeaders() });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar promoções");
+  return response.json();
+};
+
+/**
+ * Cria uma nova promoção.
+ */
+export const createPromotion = async (
+  promotion: Omit<Promotion, "id">
+): Promise<Promotion> => {
+  const response = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(promotion),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao criar promoção");
+  return response.json();
+};
+
+/**
+ * Atualiza uma promoção (inclusive pausar/retomar via "active").
+ */
+export const updatePromotion = async (promotion: Promotion): Promise<Promotion> => {
+  const response = await fetch(`${API_URL}/${promotion.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(promotion),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao atualizar promoção");
+  return response.json();
+};
+
+/**
+ * Remove uma promoção que ainda não foi usada.
+ */
+export const deletePromotion = async (promotionId: number): Promise<void> => {
+  const response = await fetch(`${API_URL}/${promotionId}`, {
+    method: "DELETE",
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao remover promoção");
+};
@@ -0,0 +1,47 @@
+import type { Receipt } from "../types";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/receipts`;
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/**
+ * Comprovante do pedido (o link do QR Code vem em receipt.url).
+ */
+export const getReceipt = async (orderId: string): Promise<Receipt> => {
+  const response = await fetch(`${API_URL}/${orderId}?format=json`);
+  if (!response.ok) await throwApiError(response, "Falha ao carregar o comprovante");
+  return response.json();
+};
+
+/**
+ * Página do comprovante que abre a impressão do navegador ao carregar.
+ */
+export const receiptPrintUrl = (orderId: string) => `${API_URL}/${orderId}?format=html&print=1`;
+
+/**
+ * Imprime na impressora térmica do totem. Retorna false quando não há
+ * impressora configurada (a tela usa a impressão do navegador).
+ */
+export const printReceipt = async (orderId: string): Promise<boolean> => {
+  const response = await fetch(`${API_URL}/${orderId}/print`, { method: "POST" });
+  if (response.status === 409) return false;
+  if (!response.ok) await throwApiError(response, "Falha ao imprimir o comprovante");
+  return true;
+};
+
+/**
+ * Envia o comprovante ao e-mail do cadastro. Retorna o endereço mascarado
+ * (j***@exemplo.com) para confirmar o destino na tela.
+ */
+export const emailReceipt = async (orderId: string): Promise<string> => {
+  const response = await fetch(`${API_URL}/${orderId}/email`, { method: "POST" });
+  if (!response.ok) await throwApiError(response, "Falha ao enviar o comprovante");
+  const data = await response.json();
+  return data.to;
+};
@@ -0,0 +1,142 @@
+import type {
+  CategorySales,
+  DailySales,
+  MarginReport,
+  Order,
+  ReportOrderFilter,
+  SalesHeatmap,
+  SalesSummary,
+  TopProduct,
+} from "../types";
+import { authHeaders } from "./authService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/reports`;
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+// GET em /api/reports/<path> com o período (datas AAAA-MM-DD, inclusivas)
+const fetchReport = async <T>(
+  path: string,
+  from: string,
+  to: string,
+  fallback: string,
+  extra: Record<string, string> = {}
+): Promise<T> => {
+  const params = new URLSearchParams({ from, to, ...extra });
+  const response = await fetch(`${API_URL}/${path}?${params}`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, fallback);
+  return response.json();
+};
+
+/**
+ * Faturamento, pedidos e ticket médio, comparados ao período anterior.
+ */
+export const getSalesSummary = (from: string, to: string) =>
+  fetchReport<SalesSummary>("summary", from, to, "Falha ao carregar resumo de vendas");
+
+/**
+ * Produtos mais vendidos no período.
+ */
+export const getTopProducts = (from: string, to: string, limit = 5) =>
+  fetchReport<TopProduct[]>("top-products", from, to, "Falha ao carregar produtos", {
+    limit: String(limit),
+  });
+
+/**
+ * Pedidos por hora do dia e dia da semana.
+ */
+export const getSalesHeatmap = (from: string, to: string) =>
+  fetchReport<SalesHeatmap>("heatmap", from, to, "Falha ao carregar horários de pico");
+
+/**
+ * Margem bruta por dia e por produto no período (datas AAAA-MM-DD, inclusivas).
+ */
+export const getMarginReport = (from: string, to: string) =>
+  fetchReport<MarginReport>("margins", from, to, "Falha ao gerar relatório de margem");
+
+/**
+ * Faturamento e pedidos de cada dia do período (dias sem venda com zero).
+ */
+export const getDailySales = async (from: string, to: string) =>
+  (await fetchReport<{ days: DailySales[] }>("daily", from, to, "Falha ao carregar vendas por dia"))
+    .days;
+
+/**
+ * Vendas por categoria no período.
+ */
+export const getCategorySales = (from: string, to: string) =>
+  fetchReport<CategorySales[]>("categories", from, to, "Falha ao carregar vendas por categoria");
+
+/**
+ * Pedidos por trás de um ponto dos gráficos (até 100, dos mais recentes).
+ */
+export const getReportOrders = (from: string, to: string, filter: ReportOrderFilter) => {
+  const { label: _label, ...criteria } = filter;
+  const extra = Object.fromEntries(
+    Object.entries(criteria)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  );
+  return fetchReport<{ total: number; orders: Order[] }>(
+    "orders",
+    from,
+    to,
+    "Falha ao carregar pedidos",
+    extra
+  );
+};
+
+export type ExportReport = "orders" | "products" | "daily";
+export type ExportFormat = "csv" | "xlsx";
+
+// Salva a resposta como arquivo, com o nome enviado pelo backend
+const saveResponseAsFile = async (response: Response, fallbackName: string) => {
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Baixa a planilha de pedidos (um item por linha), vendas por produto ou
+ * fechamento diário do período.
+ */
+export const downloadReportExport = async (
+  report: ExportReport,
+  format: ExportFormat,
+  from: string,
+  to: string
+) => {
+  const params = new URLSearchParams({ from, to, format });
+  const response = await fetch(`${API_URL}/export/${report}?${params}`, {
+    headers: authHeaders(),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao exportar relatório");
+  await saveResponseAsFile(response, `${report}_${from}_${to}.${format}`);
+};
+
+/**
+ * Baixa o relatório em PDF do período, com as recomendações da IA (se houver).
+ */
+export const downloadReportPdf = async (from: string, to: string, insights: string) => {
+  const params = new URLSearchParams({ from, to });
+  const response = await fetch(`${API_URL}/export/pdf?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ insights }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao gerar PDF");
+  await saveResponseAsFile(response, `relatorio_${from}_${to}.pdf`);
+};
@@ -0,0 +1,71 @@
+import type { PaymentMethod, Shift } from "../types";
+import { authHeaders } from "./authService";
+
+// Pega a URL do backend das variáveis de ambiente (ou usa localhost como padrão).
+const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+const API_URL = `${BASE_URL}/api/shifts`;
+
+// Lê a mensagem de erro do backend ({ error }) e lança um Error com ela
+const throwApiError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+};
+
+/**
+ * Turno de caixa aberto, com a prévia do fechamento (null se o caixa está fechado).
+ */
+export const getCurrentShift = async (): Promise<Shift | null> => {
+  const response = await fetch(`${API_URL}/current`, { headers: authHeaders() });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar o caixa");
+  return response.json();
+};
+
+/**
+ * Últimos turnos, do mais recente para o mais antigo.
+ */
+export const getShifts = async (limit = 30): Promise<Shift[]> => {
+  const response = await fetch(`${API_URL}?limit=${limit}`, { headers: authHeaders() });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar os turnos");
+  return response.json();
+};
+
+/**
+ * Turno com o relatório gravado no fechamento (para reimprimir).
+ */
+export const getShift = async (id: string): Promise<Shift> => {
+  const response = await fetch(`${API_URL}/${id}`, { headers: authHeaders() });
+  if (!response.ok) await throwApiError(response, "Falha ao carregar o turno");
+  return response.json();
+};
+
+/**
+ * Abre o caixa com o troco inicial.
+ */
+export const openShift = async (openingFloat: number, notes?: string): Promise<Shift> => {
+  const response = await fetch(API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ openingFloat, notes }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao abrir o caixa");
+  return response.json();
+};
+
+/**
+ * Fecha o caixa com o dinheiro contado e, opcionalmente, os valores
+ * conferidos das outras formas (maquininha, extrato do PIX).
+ */
+export const closeShift = async (
+  id: string,
+  countedCash: number,
+  counted: Partial<Record<Exclude<PaymentMethod, "counter">, number>>,
+  notes?: string
+): Promise<Shift> => {
+  const response = await fetch(`${API_URL}/${id}/close`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ countedCash, counted, notes }),
+  });
+  if (!response.ok) await throwApiError(response, "Falha ao fechar o caixa");
+  return response.json();
+};
@@ -20,24 +20,566 @@ export interface Product {
   imageUrl?: string;
   videoUrl: string;
   popular?: boolean;
+  /** Opções e adicionais escolhidos pelo cliente ("Massa", "Adicionais"...) */
+  modifierGroups?: ModifierGroup[];
+  /** Unidades em estoque; null quando o produto não controla estoque */
+  stockQuantity?: number | null;
+  /** Estoque a partir do qual o produto entra no alerta do admin */
+  lowStockThreshold?: number | null;
+  /** false quando a cozinha marcou o produto como "acabou" */
+  available?: boolean;
+  /** Calculado pelo servidor: marcado pela cozinha ou sem estoque */
+  soldOut?: boolean;
+  /** Classificação fiscal da NFC-e: NCM (8 dígitos), CFOP e CST/CSOSN do ICMS */
+  ncm?: string | null;
+  cfop?: string;
+  cst?: string;
+}
+
+/** Opção dentro de um grupo de modificadores (ex.: "Catupiry extra"). */
+export interface ModifierOption {
+  id: string;
+  name: string;
+  /** Acréscimo (ou desconto, se negativo) no preço unitário */
+  priceDelta: number;
+}
+
+/**
+ * Grupo de modificadores de um produto.
+ * Obrigatórios exigem de min a max escolhas; opcionais, de 0 a max.
+ */
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  required: boolean;
+  min: number;
+  max: number;
+  options: ModifierOption[];
+}
+
+/** Opção escolhida para um item do pedido (cópia do cadastro no momento da venda). */
+export interface SelectedModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  name: string;
+  priceDelta: number;
+}
+
+/** Vaga de um combo, preenchida por qualquer produto da categoria. */
+export interface ComboSlot {
+  id: string;
+  /** Nome exibido ao cliente ("Pastel", "Bebida") */
+  name: string;
+  category: Product["category"];
+}
+
+/** Combo com preço fechado (ex.: Pastel + Bebida por R$ 12,00). */
+export interface Combo {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  active: boolean;
+  slots: ComboSlot[];
+}
+
+/** Produto escolhido para uma vaga do combo. */
+export interface ComboComponent {
+  slotId: string;
+  slotName: string;
+  productId: string;
+  name: string;
+  category: Product["category"];
+  modifiers?: SelectedModifier[];
+  notes?: string;
 }
 
 export interface OrderItem {
   productId: string;
   name: string;
+  /** Categoria do produto no momento da venda (preenchida pelo backend) */
+  category?: Product["category"] | "Combo";
   quantity: number;
+  /** Preço unitário já com os acréscimos das opções */
   price: number;
+  modifiers?: SelectedModifier[];
+  /** Observação livre do cliente ("sem cebola") */
+  notes?: string;
+  /** Combo: id do combo e os produtos escolhidos para cada vaga */
+  comboId?: string;
+  components?: ComboComponent[];
+  /** Custo dos ingredientes por unidade na hora da venda (null = sem ficha técnica) */
+  unitCost?: number | null;
 }
 
+/**
+ * Etapas do pedido na cozinha:
+ * received -> preparing -> ready -> delivered (ou cancelled antes de ficar pronto)
+ * Antes de pago o pedido fica em awaiting_payment, fora da tela da cozinha.
+ */
+export type OrderStatus =
+  | "awaiting_payment"
+  | "received"
+  | "preparing"
+  | "ready"
+  | "delivered"
+  | "cancelled";
+
 export interface Order {
   id: string;
+  /** Número sequencial do dia comercial (reinicia todo dia) */
+  orderNumber?: number;
+  /** Dia comercial (AAAA-MM-DD) ao qual o pedido pertence */
+  businessDate?: string;
   userId: string;
   /** Nome do usuário que realizou o pedido (duplicado para histórico rápido) */
   userName?: string;
   items: OrderItem[];
+  /** Soma dos itens antes dos descontos */
+  subtotal?: number;
   total: number;
   timestamp: string;
-  status: "active" | "completed";
+  status: OrderStatus;
+  /** Data/hora (ISO) em que o pedido entrou em cada etapa */
+  receivedAt?: string | null;
+  preparingAt?: string | null;
+  readyAt?: string | null;
+  deliveredAt?: string | null;
+  cancelledAt?: string | null;
+  /** Pontos de fidelidade usados como desconto neste pedido */
+  pointsRedeemed?: number;
+  /** Valor em reais abatido pelos pontos resgatados */
+  pointsDiscount?: number;
+  /** Pontos de fidelidade ganhos com este pedido */
+  pointsEarned?: number;
+  /** Soma dos descontos de promoções e cupom */
+  promotionDiscount?: number;
+  discounts?: AppliedDiscount[];
+  couponCode?: string | null;
+  /** Pagamento vigente (a última tentativa do cliente) */
+  paymentId?: string | null;
+  paymentMethod?: PaymentMethod | null;
+  paymentStatus?: PaymentStatus | null;
+  /** Turno de caixa em que o pedido foi liberado para a cozinha */
+  shiftId?: string | null;
+  /** Motivo do cancelamento (código de AdjustmentReason) */
+  cancelReason?: AdjustmentReason | null;
+  /** Valor já devolvido ao cliente em estornos */
+  refundedTotal?: number;
+}
+
+/** Motivos aceitos para cancelar um pedido ou estornar itens. */
+export type AdjustmentReason =
+  | "wrong_order"
+  | "duplicate"
+  | "customer_request"
+  | "out_of_stock"
+  | "quality"
+  | "delay"
+  | "other";
+
+/** Linha devolvida num ajuste (index = posição do item no pedido). */
+export interface AdjustmentLine {
+  index: number;
+  name: string;
+  quantity: number;
+  /** Valor devolvido pela linha (só nos estornos) */
+  amount?: number;
+}
+
+/** Registro de auditoria de um cancelamento ou estorno. */
+export interface OrderAdjustment {
+  id: number;
+  orderId: string;
+  type: "cancel" | "refund";
+  /** pending: aguardando o provedor devolver o dinheiro */
+  status: "pending" | "done";
+  reasonCode: AdjustmentReason;
+  reasonLabel: string;
+  note: string | null;
+  /** Valor devolvido ao cliente */
+  amount: number;
+  paymentMethod: PaymentMethod | null;
+  items: AdjustmentLine[];
+  stockRestored: boolean;
+  /** Pontos ganhos retirados do cliente */
+  pointsReversed: number;
+  /** Pontos resgatados devolvidos ao cliente */
+  pointsReturned: number;
+  staffId: string;
+  staffName: string | null;
+  createdAt: string;
+}
+
+/** Comprovante do cliente (não fiscal), como montado pelo backend. */
+export interface Receipt {
+  store: { name: string; address: string; document: string };
+  orderId: string;
+  /** Número curto do pedido (042) */
+  number: string;
+  /** Data e hora do pedido no fuso da loja (dd/mm/aaaa hh:mm) */
+  placedAt: string;
+  customerName: string | null;
+  status: OrderStatus;
+  items: { quantity: number; name: string; details: string[]; total: number }[];
+  subtotal: number;
+  discounts: { name: string; amount: number }[];
+  total: number;
+  refunded: number;
+  payment: { method: PaymentMethod | null; label: string; pending: boolean };
+  pointsEarned: number;
+  pointsRedeemed: number;
+  /** Endereço do comprovante digital (QR Code) */
+  url: string;
+  /** DANFE da NFC-e; null sem nota autorizada ou em contingência */
+  fiscal: ReceiptFiscal | null;
+}
+
+/** Identificação da NFC-e impressa no comprovante (DANFE). */
+export interface ReceiptFiscal {
+  number: number;
+  series: number;
+  issuedAt: string;
+  accessKey: string;
+  protocol: string | null;
+  authorizedAt: string | null;
+  /** Emitida offline, sem autorização da SEFAZ no momento da venda */
+  contingency: boolean;
+  /** Ambiente de homologação: sem valor fiscal */
+  homologation: boolean;
+  consultUrl: string;
+  qrCodeUrl: string;
+  customerCpf: string | null;
+}
+
+/**
+ * Tipos de promoção:
+ * - percent / fixed: desconto no pedido (% ou R$)
+ * - buy_x_pay_y: leve X, pague Y de um produto ou categoria
+ * - category_percent: % de desconto nos itens de uma categoria
+ */
+export type PromotionType =
+  | "percent"
+  | "fixed"
+  | "buy_x_pay_y"
+  | "category_percent";
+
+/** Regra de promoção. Com "code" vira cupom; sem, vale automaticamente. */
+export interface Promotion {
+  id: number;
+  name: string;
+  code: string | null;
+  type: PromotionType;
+  /** Percentual ou valor em reais, conforme o tipo */
+  value: number;
+  category: Product["category"] | null;
+  productId: string | null;
+  buyQuantity: number | null;
+  payQuantity: number | null;
+  minSubtotal: number | null;
+  /** Validade (AAAA-MM-DD, inclusivas) */
+  startsAt: string | null;
+  endsAt: string | null;
+  /** Dias da semana em que vale (0 = domingo); vazio = todos */
+  daysOfWeek: number[];
+  /** Janela de horário (HH:MM), ex.: happy hour */
+  startTime: string | null;
+  endTime: string | null;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  active: boolean;
+  /** Pedidos (não cancelados) que já usaram a promoção */
+  usageCount?: number;
+}
+
+/** Desconto aplicado pelo servidor; itemIndex null = desconto no pedido. */
+export interface AppliedDiscount {
+  promotionId: number;
+  name: string;
+  code: string | null;
+  type: PromotionType;
+  amount: number;
+  itemIndex: number | null;
+}
+
+/** Descontos calculados pelo servidor para o carrinho atual. */
+export interface PromotionPreview {
+  subtotal: number;
+  discounts: AppliedDiscount[];
+  discountTotal: number;
+  total: number;
+  /** Motivo de o cupom digitado não ter sido aplicado */
+  couponError: string | null;
+}
+
+/** Unidade da ficha técnica; o custo é por kg (g), litro (ml) ou unidade. */
+export type IngredientUnit = "g" | "ml" | "un";
+
+/** Ingrediente com o custo de compra. */
+export interface Ingredient {
+  id: number;
+  name: string;
+  unit: IngredientUnit;
+  /** R$ por kg, litro ou unidade, conforme a unidade */
+  cost: number;
+  /** Quantos produtos usam o ingrediente na ficha técnica */
+  usedIn?: number;
+}
+
+/** Linha da ficha técnica de um produto. */
+export interface RecipeLine {
+  ingredientId: number;
+  name?: string;
+  unit?: IngredientUnit;
+  /** Em gramas, ml ou unidades */
+  quantity: number;
+  /** Custo da linha, calculado pelo servidor */
+  cost?: number;
+}
+
+/** Custo dos ingredientes e margem de um produto pelo preço atual. */
+export interface ProductCost {
+  productId: string;
+  foodCost: number | null;
+  margin: number | null;
+  marginPercent: number | null;
+}
+
+/** Receita, custo e margem bruta de um dia ou produto. */
+export interface MarginRow {
+  revenue: number;
+  cost: number | null;
+  margin: number | null;
+  marginPercent: number | null;
+}
+
+/** Relatório de margem bruta de um período (datas AAAA-MM-DD). */
+export interface MarginReport {
+  from: string;
+  to: string;
+  totals: MarginRow & { orders: number; unitsWithoutCost: number };
+  byDay: (MarginRow & { date: string; orders: number })[];
+  byProduct: (MarginRow & {
+    productId: string;
+    name: string;
+    quantity: number;
+    unitsWithoutCost: number;
+  })[];
+}
+
+/** Faturamento, pedidos e ticket médio de um período. */
+export interface SalesTotals {
+  from: string;
+  to: string;
+  orders: number;
+  revenue: number;
+  averageTicket: number;
+}
+
+/** Resumo do período com a variação (%) sobre o período anterior. */
+export interface SalesSummary extends SalesTotals {
+  previous: SalesTotals;
+  change: {
+    orders: number | null;
+    revenue: number | null;
+    averageTicket: number | null;
+  };
+}
+
+/** Produto no ranking de mais vendidos do período. */
+export interface TopProduct {
+  productId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  /** Quantidade vendida no período anterior de mesmo tamanho */
+  previousQuantity: number;
+  /** Unidades vendidas em cada dia do período (para o minigráfico) */
+  trend: number[];
+}
+
+/** Faturamento e pedidos de um dia comercial. */
+export interface DailySales {
+  date: string;
+  orders: number;
+  revenue: number;
+}
+
+/** Vendas de uma categoria ("Combo" e "Outros" inclusive). */
+export interface CategorySales {
+  category: string;
+  quantity: number;
+  revenue: number;
+}
+
+/** Recorte dos gráficos usado para listar os pedidos (drill-down). */
+export interface ReportOrderFilter {
+  /** Descrição exibida no título da lista ("Sexta, 18h") */
+  label: string;
+  date?: string;
+  weekday?: number;
+  hour?: number;
+  category?: string;
+  productId?: string;
+}
+
+/** Pedidos por hora (0-23) e dia da semana (0 = domingo), no fuso da loja. */
+export interface SalesHeatmap {
+  from: string;
+  to: string;
+  timezone: string;
+  byHour: { hour: number; orders: number; revenue: number }[];
+  byWeekday: { weekday: number; orders: number; revenue: number }[];
+  cells: { weekday: number; hour: number; orders: number; revenue: number }[];
+}
+
+/** Formas de pagamento aceitas no totem. */
+export type PaymentMethod = "pix" | "credit" | "debit" | "counter";
+
+/**
+ * Situação de uma cobrança:
+ * pending -> approved -> refunded, ou declined/cancelled
+ */
+export type PaymentStatus =
+  | "pending"
+  | "approved"
+  | "declined"
+  | "cancelled"
+  | "refunded";
+
+export interface Payment {
+  id: string;
+  orderId: string;
+  method: PaymentMethod;
+  /** Provedor que processa a cobrança (ex.: simulator, counter) */
+  provider: string;
+  status: PaymentStatus;
+  amount: number;
+  /** Dados extras do provedor para a tela de pagamento */
+  details: {
+    /** PIX: payload BR Code ("copia e cola") exibido como QR Code */
+    copyPaste?: string;
+    /** PIX: data ISO em que o QR Code deixa de valer */
+    expiresAt?: string;
+    [key: string]: unknown;
+  };
+  failureReason?: string | null;
+  /** Resumo do pedido, presente na consulta de status e na nova tentativa */
+  order?: Pick<Order, "id" | "orderNumber" | "status" | "pointsEarned">;
+  /** Saldo de pontos do cliente no servidor (null para convidados) */
+  userPoints?: number | null;
+}
+
+/** Formas de pagamento disponíveis e se o simulador está ativo. */
+export interface PaymentConfig {
+  methods: PaymentMethod[];
+  simulator: boolean;
+}
+
+/** Totais de uma forma de pagamento no fechamento do caixa. */
+export interface ShiftMethodTotal {
+  method: PaymentMethod;
+  /** Pedidos (não cancelados) pagos com esta forma */
+  orders: number;
+  /** Pagamentos aprovados */
+  received: number;
+  /** Pedidos do balcão ainda não pagos */
+  pending: number;
+  /** Balcão: troco inicial + recebido; demais formas: recebido */
+  expected: number;
+  /** Valor conferido no fechamento (null = não informado) */
+  counted: number | null;
+  /** Conferido - esperado */
+  difference: number | null;
+}
+
+/** Pedido citado no relatório do caixa (cancelamentos, estornos, pendências). */
+export interface ShiftOrderSummary {
+  orderId: string;
+  orderNumber: string;
+  total: number;
+  paymentMethod?: PaymentMethod | null;
+}
+
+/** Relatório de fechamento (ou prévia, com o turno ainda aberto). */
+export interface ShiftReport {
+  generatedAt: string;
+  orders: number;
+  subtotal: number;
+  revenue: number;
+  byMethod: ShiftMethodTotal[];
+  cash: {
+    openingFloat: number;
+    received: number;
+    expected: number;
+    counted: number | null;
+    difference: number | null;
+  };
+  discounts: {
+    promotion: number;
+    points: number;
+    total: number;
+    byPromotion: { name: string; code: string | null; orders: number; amount: number }[];
+  };
+  cancellations: (ShiftOrderSummary & {
+    paymentStatus?: PaymentStatus | null;
+    cancelledAt?: string | null;
+    reason?: string | null;
+    staffName?: string | null;
+  })[];
+  refunds: (ShiftOrderSummary & {
+    amount: number;
+    refundedAt: string;
+    reason?: string | null;
+    staffName?: string | null;
+  })[];
+  pendingPayments: ShiftOrderSummary[];
+}
+
+/** Turno de caixa: aberto com troco inicial, fechado com o dinheiro contado. */
+export interface Shift {
+  id: string;
+  status: "open" | "closed";
+  openedAt: string;
+  openedBy: string;
+  openedByName?: string | null;
+  openingFloat: number;
+  closedAt?: string | null;
+  closedBy?: string | null;
+  closedByName?: string | null;
+  countedCash: number | null;
+  expectedCash: number | null;
+  cashDifference: number | null;
+  notes?: string | null;
+  /** Gravado no fechamento; no turno aberto é a prévia do momento */
+  report: ShiftReport | null;
+}
+
+/** Pedido como aparece no painel de retirada (sem dados do cliente). */
+export interface BoardOrder {
+  id: string;
+  /** Número curto chamado no balcão */
+  number: string;
+  status: "preparing" | "ready";
+  readyAt?: string | null;
+}
+
+/** Regra de acúmulo de pontos configurada pelo admin. */
+export interface LoyaltyRule {
+  id: number;
+  type: "per_real" | "per_category";
+  category?: Product["category"] | null;
+  points: number;
+  description?: string;
+  active: boolean;
+}
+
+/** Configuração pública do programa de fidelidade. */
+export interface LoyaltyConfig {
+  /** Valor em reais de cada ponto no resgate */
+  redeemValue: number;
+  rules: LoyaltyRule[];
 }
 
 export type UserRole = "customer" | "kitchen" | "admin";
@@ -48,11 +590,39 @@ export interface User {
   cpf?: string;
   email?: string;
   telefone?: string;
-  historico: Order[];
   pontos?: number;
   role?: UserRole; // Tipo de usuário: customer (padrão), kitchen ou admin
+  /** Sessão do cliente no totem (login por CPF): libera o próprio histórico */
+  session?: AuthSession;
+}
+
+/** Página do histórico de pedidos do cliente (GET /api/users/:id/orders). */
+export interface UserOrderHistory {
+  /** Pedidos da página, dos mais recentes para os mais antigos */
+  orders: Order[];
+  page: number;
+  pageSize: number;
+  /** Total de pedidos do cliente (todas as páginas) */
+  total: number;
+}
+
+/** Sessão assinada pelo backend para a equipe (cozinha/admin). */
+export interface AuthSession {
+  token: string;
+  /** Data ISO em que o token deixa de ser aceito pelo servidor */
+  expiresAt: string;
 }
 
-export interface CartItem extends Product {
+export interface CartItem extends Omit<Product, "category"> {
+  category: Product["category"] | "Combo";
+  /** Chave da linha no carrinho: produto + opções escolhidas + observação */
+  cartItemId: string;
   quantity: number;
+  modifiers: SelectedModifier[];
+  notes?: string;
+  /** Preço unitário com os acréscimos das opções */
+  unitPrice: number;
+  /** Presentes quando a linha é um combo */
+  comboId?: string;
+  components?: ComboComponent[];
 }
@@ -7,6 +7,10 @@ export default defineConfig({
   server: {
     port: 3000,
     host: '0.0.0.0',
+    fs: {
+      // shared/ (fora do frontend) tem a validação de CPF usada também pelo backend
+      allow: [path.resolve(__dirname, '.'), path.resolve(__dirname, '../shared')],
+    },
   },
   plugins: [react(), tailwindcss()],
   resolve: {
@@ -0,0 +1,46 @@
+// ==========================================
+// VALIDAÇÃO DE CPF (COMPARTILHADA)
+// ==========================================
+// Usada pelo backend (cadastro e busca no totem) e pelo frontend (login e
+// cadastro por CPF), para as duas pontas aceitarem exatamente os mesmos CPFs.
+// Devolve um código de erro em vez de uma mensagem: cada tela traduz o código
+// para o texto que quiser mostrar.
+
+export const CPF_ERRORS = {
+  REQUIRED: "CPF_REQUIRED", // nada digitado
+  LENGTH: "CPF_LENGTH", // não tem 11 dígitos
+  REPEATED: "CPF_REPEATED", // todos os dígitos iguais (111.111.111-11)
+  CHECK_DIGIT: "CPF_CHECK_DIGIT", // dígitos verificadores não conferem
+};
+
+/**
+ * Só os dígitos do CPF ("529.982.247-25" -> "52998224725").
+ * @param {unknown} value
+ * @returns {string}
+ */
+export const normalizeCpf = (value) => String(value ?? "").replace(/\D/g, "");
+
+// Dígito verificador (módulo 11) dos primeiros "length" dígitos
+const checkDigit = (digits, length) => {
+  let sum = 0;
+  for (let i = 0; i < length; i += 1) sum += Number(digits[i]) * (length + 1 - i);
+  const rest = (sum * 10) % 11;
+  return rest === 10 ? 0 : rest;
+};
+
+/**
+ * Valida o CPF (com ou sem pontuação).
+ * @param {unknown} value
+ * @returns {{ valid: true, cpf: string, error: null } | { valid: false, cpf: string, error: string }}
+ */
+export const validateCpf = (value) => {
+  const cpf = normalizeCpf(value);
+  if (!cpf) return { valid: false, cpf, error: CPF_ERRORS.REQUIRED };
+  if (cpf.length !== 11) return { valid: false, cpf, error: CPF_ERRORS.LENGTH };
+  // Sequências repetidas passam na conta dos dígitos, mas não são CPFs emitidos
+  if (/^(\d)\1{10}$/.test(cpf)) return { valid: false, cpf, error: CPF_ERRORS.REPEATED };
+  if (checkDigit(cpf, 9) !== Number(cpf[9]) || checkDigit(cpf, 10) !== Number(cpf[10])) {
+    return { valid: false, cpf, error: CPF_ERRORS.CHECK_DIGIT };
+  }
+  return { valid: true, cpf, error: null };
+};